@@ -0,0 +1,326 @@
+/**
+ * Headless Miner
+ * Command-line entry point: the coordinator, work sources and artifact store of the browser build,
+ * on a GPU from the `webgpu` package (Dawn) or on WASM SIMD worker threads, with stats printed to
+ * the terminal. The worker threads run this same file (see the bottom).
+ *
+ * Build with `npm run build:cli`, then `npm run miner -- <command> [options]` (see usage() in options.ts).
+ * Node only - browsers mine through MiningCoordinatorProxy (test-mining-live.html).
+ */
+
+import { readFile } from 'node:fs/promises';
+import { availableParallelism } from 'node:os';
+import { isMainThread } from 'node:worker_threads';
+import { setupHashimotoGPU, HashimotoRangeResult } from '../gpu/hashimoto';
+import { LightVerifier, meetsTarget } from '../crypto/ethash-light';
+import { generateCache } from '../crypto/ethash-reference';
+import { datasetSize } from '../crypto/ethash-sizes';
+import { MiningCoordinator, MiningStats, formatHashrate } from '../mining/coordinator';
+import { HashimotoBackend, WasmBackend, WebGPUBackend } from '../mining/hashimoto-backend';
+import { RPCWorkSource, StratumWorkSource, WorkSource } from '../mining/work-source';
+import { getEpochForBlock, resolveEpoch, EpochInfo, EpochNetwork, ETC_MAINNET, ETC_MORDOR, ETHASH_NETWORK } from '../mining/epoch-manager';
+import { ETCClient, hexToBytes, hexToBigInt, bytesToHex, bigIntToHex } from '../rpc/etc-client';
+import { StratumClient } from '../rpc/stratum-client';
+import { NodeSocketTransport } from '../rpc/stratum-transport-node';
+import { EpochArtifactStore } from '../storage/artifact-store';
+import { NodeFSArtifactBackend } from '../storage/artifact-backend-node';
+import { NodeWasmWorker, serveWasmWorkerThread } from '../wasm/wasm-worker-node';
+import { CLIOptions, NetworkName, parseCommandLine, configFromJSON, resolveCLIOptions, parsePoolURL, usage } from './options';
+
+const NETWORKS: Record<NetworkName, EpochNetwork> = {
+  etc: ETC_MAINNET,
+  mordor: ETC_MORDOR,
+  ethash: ETHASH_NETWORK,
+};
+
+/**
+ * Options from the command line, over the config file it names
+ */
+async function loadOptions(argv: string[]): Promise<CLIOptions> {
+  const { command, flags } = parseCommandLine(argv);
+
+  let config = {};
+  if (flags.config) {
+    let json: unknown;
+    try {
+      json = JSON.parse(await readFile(flags.config, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read config file ${flags.config}: ${(error as Error).message}`);
+    }
+    config = configFromJSON(json, flags.config);
+  }
+
+  return resolveCLIOptions(command, config, flags);
+}
+
+function selectEpoch(options: CLIOptions): EpochInfo {
+  return options.block !== undefined
+    ? getEpochForBlock(options.block, NETWORKS[options.network])
+    : resolveEpoch(options.epoch ?? 0);
+}
+
+function artifactStore(options: CLIOptions): EpochArtifactStore | undefined {
+  return options.dagDir ? new EpochArtifactStore(new NodeFSArtifactBackend(options.dagDir)) : undefined;
+}
+
+function formatUptime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h${String(minutes).padStart(2, '0')}m${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * One line per report, so logs stay greppable
+ */
+function statsLine(stats: MiningStats): string {
+  const parts = [
+    `[${formatUptime(stats.uptime)}]`,
+    formatHashrate(stats.hashrate),
+    `shares ${stats.sharesAccepted}/${stats.sharesRejected}/${stats.sharesStale} (A/R/S)`,
+    `block ${stats.currentBlock}`,
+    `batch ${stats.batchSize.toLocaleString()}`,
+  ];
+  if (stats.hardwareErrors > 0) {
+    parts.push(`HW errors ${stats.hardwareErrors}`);
+  }
+  if (stats.workUpdateMode) {
+    parts.push(stats.workUpdateMode);
+  }
+  return parts.join('  ');
+}
+
+/**
+ * A device from Dawn
+ * Loaded on demand, so the WASM worker threads (running this file too) never load the GPU bindings
+ */
+async function createGPUDevice(): Promise<GPUDevice> {
+  const { createNodeGPUDevice } = await import('../gpu/device-helper-node');
+  return createNodeGPUDevice();
+}
+
+/**
+ * The backend --engine asks for; 'auto' falls back to WASM when there's no GPU
+ * close() frees the device or ends the worker threads
+ */
+async function createBackend(options: CLIOptions): Promise<{ backend: HashimotoBackend; close(): void }> {
+  if (options.engine !== 'wasm') {
+    try {
+      const device = await createGPUDevice();
+      const backend = new WebGPUBackend(device, {
+        store: artifactStore(options),
+        maxBatchSize: options.maxBatchSize,
+        pipelineDepth: options.pipelineDepth,
+      });
+      return { backend, close: () => device.destroy() };
+    } catch (error) {
+      if (options.engine === 'webgpu') {
+        throw error;
+      }
+      console.warn(`⚠️ ${(error as Error).message}: mining on the CPU with WebAssembly instead`);
+    }
+  }
+
+  const backend = new WasmBackend({
+    threads: options.threads ?? availableParallelism(),
+    createWorker: () => new NodeWasmWorker(new URL(import.meta.url)),
+  });
+  return { backend, close: () => backend.terminate() };
+}
+
+function createWorkSource(options: CLIOptions): WorkSource {
+  if (options.pool) {
+    const client = new StratumClient({
+      transport: new NodeSocketTransport(parsePoolURL(options.pool)),
+      protocol: options.protocol,
+      login: options.user!,
+      password: options.password,
+      worker: options.worker,
+      userAgent: 'ethash-webgpu-cli/0.1.0',
+    });
+    return new StratumWorkSource(client);
+  }
+
+  // ETCClient opens its newHeads subscription with the global WebSocket (Node 22+)
+  if (options.ws && typeof WebSocket === 'undefined') {
+    throw new Error(`--ws needs a global WebSocket (Node 22 or later); this is Node ${process.versions.node}`);
+  }
+  return new RPCWorkSource(new ETCClient({ httpEndpoint: options.rpc!, wsEndpoint: options.ws }));
+}
+
+/**
+ * mine: run the coordinator until SIGINT/SIGTERM
+ */
+async function mine(options: CLIOptions): Promise<void> {
+  const { backend, close } = await createBackend(options);
+  const coordinator = new MiningCoordinator(
+    createWorkSource(options),
+    backend,
+    {
+      batchSize: options.batchSize,
+      targetDispatchMs: options.targetMs,
+      maxBatchSize: options.maxBatchSize,
+      pipelineDepth: options.pipelineDepth,
+      reportInterval: options.reportInterval * 1000,
+      autoRestart: true,
+      submitStaleShares: false,
+      network: NETWORKS[options.network],
+      pregenerateBlocks: 500,
+    }
+  );
+
+  let stopping: Promise<void> | undefined;
+  const stop = (signal: string) => {
+    if (stopping) {
+      console.error(`${signal} again: exiting without waiting for the batches in flight`);
+      process.exit(130);
+    }
+    console.error(`\n${signal}: finishing the batches in flight...`);
+    stopping = coordinator.dispose();
+  };
+  process.on('SIGINT', () => stop('SIGINT'));
+  process.on('SIGTERM', () => stop('SIGTERM'));
+
+  await coordinator.initialize();
+  await coordinator.startMining(stats => process.stdout.write(statsLine(stats) + '\n'));
+
+  // startMining returns once stopped; dispose frees the epoch (and is a no-op if a signal already did)
+  await (stopping ?? coordinator.dispose());
+  process.stdout.write(`Final: ${statsLine(coordinator.getStats())}\n`);
+  close();
+}
+
+/**
+ * bench: tune (or take) the batch size, then mine a target no hash meets for --duration seconds
+ */
+async function bench(options: CLIOptions): Promise<void> {
+  const { backend, close } = await createBackend(options);
+  const epoch = selectEpoch(options);
+
+  console.log(`Setting up epoch ${epoch.datasetEpoch} (${backend.name})...`);
+  const setup = await backend.setupEpoch(epoch);
+
+  let batchSize: number;
+  if (options.batchSize === 'auto') {
+    const tuning = await backend.tuneBatchSize(setup, { targetMs: options.targetMs, maxBatchSize: options.maxBatchSize });
+    for (const { batchSize: size, timeMs, hashrate } of tuning.measurements) {
+      console.log(`  ${size.toLocaleString().padStart(10)} nonces: ${timeMs.toFixed(1)} ms, ${formatHashrate(hashrate)}`);
+    }
+    batchSize = tuning.batchSize;
+    console.log(`Batch size ${batchSize.toLocaleString()} (under ${options.targetMs} ms per dispatch)`);
+  } else {
+    batchSize = options.batchSize;
+  }
+
+  console.log(`Mining for ${options.duration} s with ${options.pipelineDepth} batch(es) in flight...`);
+  const headerHash = crypto.getRandomValues(new Uint8Array(32));
+  const inFlight: Promise<HashimotoRangeResult>[] = [];
+  const start = performance.now();
+  const end = start + options.duration * 1000;
+  let nonce = 0n;
+  let hashes = 0;
+
+  do {
+    while (inFlight.length < options.pipelineDepth && performance.now() < end) {
+      inFlight.push(backend.mineRange(setup, headerHash, nonce, batchSize, 0n));
+      nonce += BigInt(batchSize);
+    }
+    await inFlight.shift();
+    hashes += batchSize;
+  } while (inFlight.length > 0 || performance.now() < end);
+
+  const seconds = (performance.now() - start) / 1000;
+  process.stdout.write(`Hashrate: ${formatHashrate(hashes / seconds)} (${hashes.toLocaleString()} hashes in ${seconds.toFixed(1)} s, epoch ${epoch.datasetEpoch}, batch ${batchSize.toLocaleString()}, ${backend.name})\n`);
+  const threads = backend.threadHashrates?.();
+  if (threads) {
+    process.stdout.write(`Per thread: ${threads.map(formatHashrate).join(', ')}\n`);
+  }
+
+  setup.dispose();
+  close();
+}
+
+/**
+ * dag: build the cache and DAG on the GPU, loading or saving them through --dag-dir
+ */
+async function dag(options: CLIOptions): Promise<void> {
+  const device = await createGPUDevice();
+  const epoch = selectEpoch(options);
+
+  const start = performance.now();
+  const setup = await setupHashimotoGPU(epoch, device, { store: artifactStore(options) });
+  const seconds = (performance.now() - start) / 1000;
+
+  process.stdout.write(
+    `Epoch ${epoch.datasetEpoch} (seed epoch ${epoch.seedEpoch}): ${(setup.dagBytes / 1024 ** 3).toFixed(2)} GB DAG in ` +
+      `${setup.numDAGBuffers} buffer(s), ready in ${seconds.toFixed(1)} s${options.dagDir ? `, stored in ${options.dagDir}` : ''}\n`
+  );
+
+  setup.dispose();
+  device.destroy();
+}
+
+/**
+ * verify: light (cache-only) Hashimoto on the CPU; exits with 1 if the share doesn't check out
+ * The cache comes from (and is saved to) --dag-dir when given
+ */
+async function verify(options: CLIOptions): Promise<void> {
+  const epoch = selectEpoch(options);
+  const store = artifactStore(options);
+
+  console.log(`Cache for epoch ${epoch.datasetEpoch}...`);
+  let cache: Uint32Array | null = await store?.loadCache(epoch) ?? null;
+  if (!cache) {
+    cache = await generateCache(epoch);
+    await store?.saveCache(epoch, cache);
+  }
+  const verifier = new LightVerifier(cache, datasetSize(epoch.datasetEpoch));
+  const nonce = hexToBytes(bigIntToHex(hexToBigInt(options.nonce!), 16));
+  const { hash, mixDigest } = verifier.hashimoto(hexToBytes(options.header!), nonce);
+
+  process.stdout.write(`Hash:       ${bytesToHex(hash)}\nMix digest: ${bytesToHex(mixDigest)}\n`);
+
+  let valid = true;
+  if (options.mixDigest) {
+    const matches = bytesToHex(mixDigest) === options.mixDigest.toLowerCase();
+    process.stdout.write(`Mix digest ${matches ? 'matches' : 'MISMATCH'}\n`);
+    valid &&= matches;
+  }
+  if (options.target) {
+    const meets = meetsTarget(hash, hexToBigInt(options.target));
+    process.stdout.write(`Target ${meets ? 'met' : 'NOT met'}\n`);
+    valid &&= meets;
+  }
+
+  process.exitCode = valid ? 0 : 1;
+}
+
+async function main(): Promise<void> {
+  let options: CLIOptions;
+  try {
+    options = await loadOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\nRun with --help for the commands and options`);
+    process.exitCode = 2;
+    return;
+  }
+
+  if (options.help) {
+    process.stdout.write(usage() + '\n');
+    return;
+  }
+  if (options.quiet) {
+    console.log = () => {};
+  }
+
+  const commands = { mine, bench, dag, verify };
+  await commands[options.command](options);
+}
+
+if (isMainThread) {
+  main().catch(error => {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exitCode = 1;
+  });
+} else {
+  serveWasmWorkerThread();
+}
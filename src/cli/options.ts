@@ -0,0 +1,291 @@
+/**
+ * Miner CLI Options
+ * Settings come from the defaults, then a JSON config file (--config), then flags.
+ * Parsing only - no Node imports, so the test pages can run it; main.ts reads the files.
+ */
+
+import type { StratumProtocol } from '../rpc/stratum-client';
+import type { MiningEngine } from '../mining/coordinator';
+
+export type CLICommand = 'mine' | 'bench' | 'dag' | 'verify';
+export type NetworkName = 'etc' | 'mordor' | 'ethash';
+
+export interface CLIOptions {
+  command: CLICommand;
+  // mine: a node (rpc, optionally ws) or a pool (pool + user)
+  rpc?: string;               // Node HTTP JSON-RPC endpoint
+  ws?: string;                // Node WebSocket endpoint for new-work push (polls eth_getWork without)
+  pool?: string;              // stratum+tcp://host:port or stratum+ssl://host:port
+  protocol: StratumProtocol;
+  user?: string;              // Pool login: wallet address or account
+  worker?: string;            // Pool worker name
+  password: string;
+  // Engine: WebGPU, or WASM SIMD on CPU threads ('auto' falls back to WASM without a GPU)
+  engine: MiningEngine;
+  threads?: number;           // WASM: hashing threads (default: all cores)
+  // Batches (see MiningConfig)
+  batchSize: number | 'auto';
+  targetMs: number;
+  maxBatchSize: number;
+  pipelineDepth: number;
+  // Epochs and storage
+  network: NetworkName;
+  dagDir?: string;            // Keep each epoch's cache and DAG in this directory between runs
+  epoch?: number;             // bench/dag/verify: plain Ethash epoch (default: 0)
+  block?: number;             // bench/dag/verify: the epoch of this block on the network instead
+  duration: number;           // bench: seconds of mining
+  // verify: recompute one share on the CPU
+  header?: string;            // Header hash (0x-prefixed hex)
+  nonce?: string;             // 8-byte nonce (0x-prefixed hex)
+  mixDigest?: string;         // Mix digest to check (optional)
+  target?: string;            // Share target to check the hash against (optional)
+  // Output
+  reportInterval: number;     // Seconds between stats lines
+  quiet: boolean;             // Only stats lines, warnings and errors
+  config?: string;            // JSON file with any of these settings (camelCase keys)
+  help: boolean;
+}
+
+export const DEFAULT_CLI_OPTIONS: Omit<CLIOptions, 'command'> = {
+  protocol: 'EthereumStratum/1.0.0',
+  password: 'x',
+  engine: 'auto',
+  batchSize: 'auto',
+  targetMs: 50,
+  maxBatchSize: 1_000_000,
+  pipelineDepth: 2,
+  network: 'etc',
+  duration: 30,
+  reportInterval: 10,
+  quiet: false,
+  help: false,
+};
+
+export const CLI_COMMANDS: Record<CLICommand, string> = {
+  mine: 'Mine against a node (--rpc) or a pool (--pool, --user)',
+  bench: 'Tune the batch size and measure the hashrate for an epoch (no work source)',
+  dag: 'Generate the cache and DAG for an epoch, and save them with --dag-dir',
+  verify: 'Recompute a share on the CPU (--header, --nonce) and check its mix digest and target',
+};
+
+type FlagType = 'string' | 'number' | 'boolean' | 'batch' | readonly string[];
+
+interface FlagSpec {
+  key: Exclude<keyof CLIOptions, 'command'>;
+  type: FlagType;
+  description: string;
+}
+
+const FLAGS: Record<string, FlagSpec> = {
+  'rpc': { key: 'rpc', type: 'string', description: 'Node HTTP JSON-RPC endpoint' },
+  'ws': { key: 'ws', type: 'string', description: 'Node WebSocket endpoint for new work (default: poll eth_getWork)' },
+  'pool': { key: 'pool', type: 'string', description: 'Pool URL: stratum+tcp://host:port or stratum+ssl://host:port' },
+  'protocol': { key: 'protocol', type: ['EthereumStratum/1.0.0', 'ETHProxy'], description: 'Stratum dialect (default: EthereumStratum/1.0.0)' },
+  'user': { key: 'user', type: 'string', description: 'Pool login: wallet address or account' },
+  'worker': { key: 'worker', type: 'string', description: 'Pool worker name' },
+  'password': { key: 'password', type: 'string', description: 'Pool password (default: x)' },
+  'engine': { key: 'engine', type: ['auto', 'webgpu', 'wasm'], description: 'Hash on webgpu, wasm (CPU threads), or auto: WebGPU if available (default: auto)' },
+  'threads': { key: 'threads', type: 'number', description: 'wasm: hashing threads (default: all cores)' },
+  'batch-size': { key: 'batchSize', type: 'batch', description: 'Nonces per batch, or auto (default: auto)' },
+  'target-ms': { key: 'targetMs', type: 'number', description: 'Auto batch size: dispatch time to stay under (default: 50)' },
+  'max-batch-size': { key: 'maxBatchSize', type: 'number', description: 'Largest batch (default: 1000000)' },
+  'pipeline-depth': { key: 'pipelineDepth', type: 'number', description: 'GPU batches in flight (default: 2)' },
+  'network': { key: 'network', type: ['etc', 'mordor', 'ethash'], description: 'Epoch model: etc, mordor or ethash (default: etc)' },
+  'dag-dir': { key: 'dagDir', type: 'string', description: 'Directory to keep caches and DAGs in between runs' },
+  'epoch': { key: 'epoch', type: 'number', description: 'bench/dag/verify: plain Ethash epoch (default: 0)' },
+  'block': { key: 'block', type: 'number', description: 'bench/dag/verify: use the epoch of this block on --network' },
+  'duration': { key: 'duration', type: 'number', description: 'bench: seconds to mine (default: 30)' },
+  'header': { key: 'header', type: 'string', description: 'verify: header hash' },
+  'nonce': { key: 'nonce', type: 'string', description: 'verify: nonce' },
+  'mix-digest': { key: 'mixDigest', type: 'string', description: 'verify: mix digest to check' },
+  'target': { key: 'target', type: 'string', description: 'verify: share target to check the hash against' },
+  'report-interval': { key: 'reportInterval', type: 'number', description: 'Seconds between stats lines (default: 10)' },
+  'quiet': { key: 'quiet', type: 'boolean', description: 'Print only stats, warnings and errors' },
+  'config': { key: 'config', type: 'string', description: 'JSON file with any of these settings (camelCase keys)' },
+  'help': { key: 'help', type: 'boolean', description: 'Show this help' },
+};
+
+/**
+ * Convert a flag or config file value to the setting's type
+ * Flags arrive as strings; config files may use JSON numbers and booleans
+ */
+function convert(spec: FlagSpec, value: unknown, source: string): CLIOptions[keyof CLIOptions] {
+  const { type } = spec;
+
+  if (type === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    throw new Error(`${source} must be true or false, got ${JSON.stringify(value)}`);
+  }
+
+  if (type === 'batch' && value === 'auto') {
+    return value;
+  }
+
+  if (type === 'number' || type === 'batch') {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+      throw new Error(`${source} must be a non-negative number${type === 'batch' ? ' or auto' : ''}, got ${JSON.stringify(value)}`);
+    }
+    return number;
+  }
+
+  if (typeof value !== 'string') {
+    throw new Error(`${source} must be a string, got ${JSON.stringify(value)}`);
+  }
+  if (Array.isArray(type) && !type.includes(value)) {
+    throw new Error(`${source} must be one of ${type.join(', ')}, got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Split argv (without node and the script) into the command and flag settings
+ * Flags take `--name value` or `--name=value`; boolean flags need no value
+ */
+export function parseCommandLine(argv: string[]): { command?: string; flags: Partial<CLIOptions> } {
+  const flags: Record<string, unknown> = {};
+  let command: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      if (command !== undefined) {
+        throw new Error(`Unexpected argument "${arg}"`);
+      }
+      command = arg;
+      continue;
+    }
+
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    const spec = FLAGS[name];
+    if (!spec) {
+      throw new Error(`Unknown option --${name}`);
+    }
+
+    let value: string | undefined = inline;
+    if (value === undefined && spec.type !== 'boolean') {
+      value = argv[++i];
+      if (value === undefined) {
+        throw new Error(`--${name} needs a value`);
+      }
+    }
+    flags[spec.key] = convert(spec, value ?? 'true', `--${name}`);
+  }
+
+  return { command, flags: flags as Partial<CLIOptions> };
+}
+
+/**
+ * Settings from a parsed JSON config file
+ *
+ * @param json Parsed file contents: an object with camelCase setting names
+ * @param file File name for error messages
+ */
+export function configFromJSON(json: unknown, file: string): Partial<CLIOptions> {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error(`${file}: expected an object of settings`);
+  }
+
+  const specs = new Map(Object.values(FLAGS).map(spec => [spec.key as string, spec]));
+  const settings: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(json)) {
+    const spec = specs.get(key);
+    if (!spec || key === 'config' || key === 'help') {
+      throw new Error(`${file}: unknown setting "${key}"`);
+    }
+    settings[key] = convert(spec, value, `${file}: ${key}`);
+  }
+  return settings as Partial<CLIOptions>;
+}
+
+/**
+ * Merge defaults, config file and flags, and check the command has what it needs
+ *
+ * @param command Subcommand from the command line
+ * @param config Settings from the config file (if any)
+ * @param flags Settings from flags (win over the config file)
+ */
+export function resolveCLIOptions(command: string | undefined, config: Partial<CLIOptions>, flags: Partial<CLIOptions>): CLIOptions {
+  const settings = { ...DEFAULT_CLI_OPTIONS, ...config, ...flags };
+
+  if (settings.help) {
+    return { ...settings, command: (command ?? 'mine') as CLICommand };
+  }
+  if (command === undefined) {
+    throw new Error(`Missing command: ${Object.keys(CLI_COMMANDS).join(', ')}`);
+  }
+  if (!(command in CLI_COMMANDS)) {
+    throw new Error(`Unknown command "${command}": expected ${Object.keys(CLI_COMMANDS).join(', ')}`);
+  }
+  const options: CLIOptions = { ...settings, command: command as CLICommand };
+
+  for (const key of ['epoch', 'block', 'maxBatchSize', 'pipelineDepth', 'threads'] as const) {
+    if (options[key] !== undefined && !Number.isInteger(options[key])) {
+      throw new Error(`${key} must be a whole number, got ${options[key]}`);
+    }
+  }
+  if (options.threads === 0) {
+    throw new Error('threads must be at least 1');
+  }
+  if (options.epoch !== undefined && options.block !== undefined) {
+    throw new Error('Give --epoch or --block, not both');
+  }
+
+  if (options.command === 'mine') {
+    if (!options.rpc === !options.pool) {
+      throw new Error('mine needs a node (--rpc) or a pool (--pool), but not both');
+    }
+    if (options.pool) {
+      parsePoolURL(options.pool);
+      if (!options.user) {
+        throw new Error('Mining on a pool needs --user');
+      }
+    }
+  }
+
+  if (options.command === 'verify') {
+    if (!options.header || !options.nonce) {
+      throw new Error('verify needs --header and --nonce');
+    }
+    // [setting, bytes, shorter values allowed]
+    const hexSettings = [['header', 32, false], ['nonce', 8, true], ['mixDigest', 32, false], ['target', 32, true]] as const;
+    for (const [key, bytes, shorter] of hexSettings) {
+      const value = options[key];
+      if (value !== undefined && !new RegExp(`^0x[0-9a-fA-F]{${shorter ? 1 : bytes * 2},${bytes * 2}}$`).test(value)) {
+        throw new Error(`${key} must be 0x-prefixed hex of ${shorter ? 'up to ' : ''}${bytes} bytes, got "${value}"`);
+      }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Host, port and TLS from a stratum+tcp:// or stratum+ssl:// URL
+ */
+export function parsePoolURL(url: string): { host: string; port: number; tls: boolean } {
+  const match = /^stratum\+(tcp|ssl|tls):\/\/([^:/]+):(\d+)\/?$/.exec(url);
+  if (!match) {
+    throw new Error(`Pool URL must look like stratum+tcp://host:port or stratum+ssl://host:port, got "${url}"`);
+  }
+  return { host: match[2], port: Number(match[3]), tls: match[1] !== 'tcp' };
+}
+
+/**
+ * Help text: commands and flags
+ */
+export function usage(): string {
+  const width = Math.max(...Object.keys(FLAGS).map(name => name.length + (FLAGS[name].type === 'boolean' ? 2 : 10)));
+  const flag = (name: string) => `--${name}${FLAGS[name].type === 'boolean' ? '' : ' <value>'}`;
+
+  return [
+    'Usage: ethash-miner <command> [options]',
+    '',
+    'Commands:',
+    ...Object.entries(CLI_COMMANDS).map(([command, description]) => `  ${command.padEnd(8)}${description}`),
+    '',
+    'Options:',
+    ...Object.keys(FLAGS).map(name => `  ${flag(name).padEnd(width + 2)}${FLAGS[name].description}`),
+  ].join('\n');
+}
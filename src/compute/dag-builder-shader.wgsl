@@ -1,4 +1,4 @@
-// DAG Builder Shader - Direct port of @ethereumjs/ethash calcDatasetItem
+// DAG Builder Shader - Port of calcDatasetItem (crypto/ethash-reference.ts)
 //
 // Algorithm for each DAG item i:
 // 1. mix = cache[i % cache.length]
@@ -9,14 +9,16 @@
 //      mix = fnv_bytes(mix, cache[cacheIndex % cache.length])
 // 5. result = keccak512(mix)
 
-// NOTE: Keccak-512 function is injected at runtime from keccak-512-shader.wgsl
-// The function signature is: fn keccak512(input: array<u32, 18>) -> array<u32, 16>
-// It correctly absorbs 18 u32s (72-byte rate = full Keccak-512 rate)
+//
+// Pipeline constants: WORKGROUP_SIZE (DAG items per workgroup)
+
+// fn keccak512(input: array<u32, 18>) -> array<u32, 16>
+// Absorbs 18 u32s (72-byte rate = full Keccak-512 rate)
+//!include keccak-512
 
-// NOTE: FNV functions are injected at runtime from fnv-shader.wgsl
-// Available functions:
-// - fn fnv(x: u32, y: u32) -> u32
-// - fn fnv_bytes_mix(a: array<u32, 16>, b: array<u32, 16>) -> array<u32, 16>
+// fn fnv(x: u32, y: u32) -> u32
+// fn fnv_bytes_mix(a: array<u32, 16>, b: array<u32, 16>) -> array<u32, 16>
+//!include fnv
 
 // ============ DAG Builder Shader ============
 @group(0) @binding(0) var<storage, read> cache: array<u32>;        // Cache: 16 u32s per item
@@ -36,7 +38,7 @@ struct Params {
 
 @group(0) @binding(2) var<uniform> params: Params;
 
-@compute @workgroup_size(32)
+@compute @workgroup_size(WORKGROUP_SIZE)
 fn main(@builtin(global_invocation_id) global_id: vec3<u32>,
         @builtin(workgroup_id) workgroup_id: vec3<u32>,
         @builtin(local_invocation_index) local_idx: u32) {
@@ -14,6 +14,8 @@
 // Output:
 // - valid_nonces: Nonces that passed difficulty filter (winning nonces)
 // - valid_count: Number of valid nonces found (via atomic counter)
+//
+// Pipeline constants: WORKGROUP_SIZE
 
 struct PooledNonce {
   nonce_lo: u32,
@@ -41,7 +43,7 @@ fn u256_less_than(a: array<u32, 8>, b: array<u32, 8>) -> bool {
   return false; // Equal (a is not less than b)
 }
 
-@compute @workgroup_size(32)
+@compute @workgroup_size(WORKGROUP_SIZE)
 fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
   let hash_idx = global_id.x;
   let num_hashes = params[0];
@@ -0,0 +1,247 @@
+// GPU Hashimoto Implementation - SPLIT DAG VARIANT (template)
+// For DAGs larger than maxStorageBufferBindingSize: ETC epochs 200+ (> 2.15 GB) on most
+// adapters, earlier ones on adapters with a 1 GB binding limit
+//
+// This variant reads the DAG from N WebGPU buffers of items_per_buffer items each
+// (the last may hold fewer). Performance with 2 buffers: ~27-28 MH/s (< 5% overhead)
+//
+// DAG Layout:
+// - Buffer 0 (@group(0) @binding(3)): items 0 to items_per_buffer-1
+// - Buffer i (@group(1) @binding(i-1)): items i*items_per_buffer onwards, for i = 1 .. N-1
+//
+// The algorithm is identical to the single-buffer version, except DAG accesses go through
+// load_dag_item(), which switches on the buffer holding the item.
+//
+// The dag-buffers module is generated per buffer count (hashimotoShaderSource in hashimoto.ts):
+// - the group 1 declarations of dag_buffer_1 .. dag_buffer_N-1
+// - fn load_dag_item(item: u32) -> array<u32, 16>
+//
+// Pipeline constants: WORKGROUP_SIZE
+
+const MIX_BYTES = 128u;
+const HASH_BYTES = 64u;
+const MIX_WORDS = 32u;  // MIX_BYTES / 4
+
+struct HashimotoParams {
+  num_nonces: u32,
+  dag_items: u32,         // n
+  items_per_buffer: u32,  // DAG items per buffer (split DAG)
+  nonce_mode: u32,        // 0 = read nonces[], 1 = start_nonce + invocation index
+  start_nonce_lo: u32,    // 64-bit start nonce (nonce_mode 1)
+  start_nonce_hi: u32,
+  output_mode: u32,       // 0 = every hash + mix digest, 1 = only candidates meeting the target
+  max_candidates: u32,    // Capacity of candidates.entries (output_mode 1)
+  accesses: u32,          // DAG pages (MIX_BYTES) read per hash: 64 on mainnet, fewer in test epochs
+  target: array<vec4<u32>, 2>,  // 256-bit target, most significant word first (output_mode 1)
+};
+
+// A nonce whose hash meets the target
+struct Candidate {
+  nonce_lo: u32,  // Nonce value, low 32 bits
+  nonce_hi: u32,
+  mix_digest: array<u32, 8>,
+  hash: array<u32, 8>,
+};
+
+struct Candidates {
+  count: atomic<u32>,  // Candidates found; entries beyond max_candidates are dropped
+  entries: array<Candidate>,
+};
+
+@group(0) @binding(0) var<storage, read> header_hash: array<u32, 8>;
+@group(0) @binding(1) var<storage, read> nonces: array<u32>;  // nonce_mode 0 only
+@group(0) @binding(3) var<storage, read> dag_buffer_0: array<u32>;
+@group(0) @binding(4) var<storage, read_write> hashes: array<u32>;
+@group(0) @binding(6) var<storage, read_write> mix_digests: array<u32>;  // cmix (32 bytes per nonce)
+@group(0) @binding(5) var<uniform> params: HashimotoParams;
+@group(0) @binding(7) var<storage, read_write> candidates: Candidates;  // output_mode 1 only
+
+//!include fnv
+//!include keccak-512
+//!include keccak-256
+
+//!include dag-buffers
+
+fn byte_swap(x: u32) -> u32 {
+  return ((x & 0x000000FFu) << 24u) | ((x & 0x0000FF00u) << 8u) |
+         ((x & 0x00FF0000u) >> 8u) | ((x & 0xFF000000u) >> 24u);
+}
+
+// Ethereum's proof-of-work check: the hash, read as a big-endian integer, must be <= target
+// Hash words hold the bytes little-endian, so each is byte-swapped before comparing
+fn meets_target(hash: array<u32, 8>) -> bool {
+  for (var i = 0u; i < 8u; i = i + 1u) {
+    let h = byte_swap(hash[i]);
+    let t = params.target[i / 4u][i % 4u];
+    if (h != t) {
+      return h < t;
+    }
+  }
+  return true;
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE)
+fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  let nonce_idx = global_id.x;
+  let num_nonces = params.num_nonces;
+
+  if (nonce_idx >= num_nonces) {
+    return;
+  }
+
+  // ===== LOAD INPUTS =====
+
+  // Load header hash (32 bytes = 8 u32)
+  var header: array<u32, 8>;
+  for (var i = 0u; i < 8u; i = i + 1u) {
+    header[i] = header_hash[i];
+  }
+
+  // Nonce as it goes into the seed: the 64-bit value little-endian
+  // seed_nonce_lo = low 32 bits of the value, seed_nonce_hi = high 32 bits
+  var seed_nonce_lo: u32;
+  var seed_nonce_hi: u32;
+
+  if (params.nonce_mode == 1u) {
+    // Derived: start_nonce + nonce_idx as a 64-bit add (wraps at 2^64)
+    seed_nonce_lo = params.start_nonce_lo + nonce_idx;
+    seed_nonce_hi = params.start_nonce_hi + select(0u, 1u, seed_nonce_lo < nonce_idx);
+  } else {
+    // Uploaded as submitted: 8 big-endian bytes [byte0 (most significant), ..., byte7] = 2 u32
+    let nonce_offset = nonce_idx * 2u;
+    let nonce_lo = nonces[nonce_offset];
+    let nonce_hi = nonces[nonce_offset + 1u];
+
+    // Read as u32 LE, the uploaded words are:
+    //   nonce_lo = byte0|byte1|byte2|byte3 (the value's high 32 bits, byte-swapped)
+    //   nonce_hi = byte4|byte5|byte6|byte7 (the value's low 32 bits, byte-swapped)
+    //
+    // So the value's words are: (1) each u32 byte-swapped, (2) in swapped order
+    seed_nonce_lo = ((nonce_hi & 0x000000FFu) << 24u) | ((nonce_hi & 0x0000FF00u) << 8u) |
+                    ((nonce_hi & 0x00FF0000u) >> 8u) | ((nonce_hi & 0xFF000000u) >> 24u);
+    seed_nonce_hi = ((nonce_lo & 0x000000FFu) << 24u) | ((nonce_lo & 0x0000FF00u) << 8u) |
+                    ((nonce_lo & 0x00FF0000u) >> 8u) | ((nonce_lo & 0xFF000000u) >> 24u);
+  }
+
+  // ===== STAGE 1: keccak512(header || nonce little-endian) =====
+
+  var keccak_input: array<u32, 18> = array<u32, 18>();
+
+  // First 32 bytes: header
+  for (var i = 0u; i < 8u; i = i + 1u) {
+    keccak_input[i] = header[i];
+  }
+
+  // Next 8 bytes: nonce, little-endian
+  keccak_input[8u] = seed_nonce_lo;
+  keccak_input[9u] = seed_nonce_hi;
+
+  // Padding for Keccak-512 (72-byte rate = 18 u32)
+  // Byte 40 (u32[10] byte 0): 0x01
+  // Byte 71 (u32[17] byte 3): 0x80
+  keccak_input[10u] = 0x00000001u;
+  for (var i = 11u; i < 17u; i = i + 1u) {
+    keccak_input[i] = 0x00000000u;
+  }
+  keccak_input[17u] = 0x80000000u;
+
+  let s = keccak512(keccak_input);
+
+  // ===== STAGE 2: Initialize mix = s repeated 2x =====
+
+  var mix: array<u32, 32> = array<u32, 32>();
+  for (var i = 0u; i < 16u; i = i + 1u) {
+    mix[i] = s[i];
+    mix[i + 16u] = s[i];
+  }
+
+  // ===== STAGE 3: FNV mixing loop =====
+
+  let n = params.dag_items;  // Number of DAG items
+  let s0 = s[0u];    // First u32 of s, used as seed
+  let w = 32u;       // MIX_BYTES / WORD_BYTES
+
+  for (var i = 0u; i < params.accesses; i = i + 1u) {
+    // p = (fnv(i ^ s[0], mix[i % w]) % (n / 2)) * 2
+    let mix_word = mix[i % w];
+    let fnv_result = fnv(i ^ s0, mix_word);
+    let p = (fnv_result % (n / 2u)) * 2u;
+
+    // Load 2 DAG items and FNV with mix
+    // IMPORTANT: Load all DAG values FIRST, then FNV all, to avoid read-after-write hazards
+    // The two items of a page can sit in different buffers (items_per_buffer may be odd)
+    let dag_item_0 = load_dag_item(p);
+    let dag_item_1 = load_dag_item(p + 1u);
+
+    for (var j = 0u; j < 16u; j = j + 1u) {
+      mix[j] = fnv(mix[j], dag_item_0[j]);
+      mix[j + 16u] = fnv(mix[j + 16u], dag_item_1[j]);
+    }
+  }
+
+  // ===== STAGE 4: Compress mix via FNV folding =====
+  // cmix = fold(mix) where fold does:
+  // for i in [0, 4, 8, 12, 16, 20, 24, 28]:
+  //   cmix[i/4] = fnv(fnv(fnv(mix[i], mix[i+1]), mix[i+2]), mix[i+3])
+
+  var cmix: array<u32, 8> = array<u32, 8>();
+
+  for (var i = 0u; i < 8u; i = i + 1u) {
+    let base = i * 4u;
+    let a = fnv(mix[base], mix[base + 1u]);
+    let b = fnv(a, mix[base + 2u]);
+    let c = fnv(b, mix[base + 3u]);
+    cmix[i] = c;
+  }
+
+  // ===== STAGE 5: Final Keccak-256 =====
+  // hash = keccak256(s || cmix)
+  // s = 64 bytes (16 u32), cmix = 32 bytes (8 u32), total = 96 bytes
+  // Keccak-256 rate = 136 bytes (34 u32)
+
+  var final_input: array<u32, 34> = array<u32, 34>();
+
+  // First 16 u32 = s
+  for (var i = 0u; i < 16u; i = i + 1u) {
+    final_input[i] = s[i];
+  }
+
+  // Next 8 u32 = cmix
+  for (var i = 0u; i < 8u; i = i + 1u) {
+    final_input[16u + i] = cmix[i];
+  }
+
+  // Padding for Keccak-256
+  // Byte 96 (u32[24] byte 0): 0x01
+  // Byte 135 (u32[33] byte 3): 0x80
+  final_input[24u] = 0x00000001u;
+  for (var i = 25u; i < 33u; i = i + 1u) {
+    final_input[i] = 0x00000000u;
+  }
+  final_input[33u] = 0x80000000u;
+
+  let hash = keccak256(final_input);
+
+  // ===== OUTPUT =====
+
+  // Mining: only hashes meeting the target leave the GPU
+  if (params.output_mode == 1u) {
+    if (meets_target(hash)) {
+      let slot = atomicAdd(&candidates.count, 1u);
+      if (slot < params.max_candidates) {
+        candidates.entries[slot].nonce_lo = seed_nonce_lo;
+        candidates.entries[slot].nonce_hi = seed_nonce_hi;
+        candidates.entries[slot].mix_digest = cmix;
+        candidates.entries[slot].hash = hash;
+      }
+    }
+    return;
+  }
+
+  // Final hash and compressed mix (the mixDigest submitted with shares)
+  let output_offset = nonce_idx * 8u;
+  for (var i = 0u; i < 8u; i = i + 1u) {
+    hashes[output_offset + i] = hash[i];
+    mix_digests[output_offset + i] = cmix[i];
+  }
+}
@@ -1,38 +1,85 @@
 // GPU Hashimoto Implementation - CLEAN PORT (NONCE REVERSAL FIX v2 - TIMESTAMP: 2025-10-22-16:17)
-// Direct line-by-line port of @ethereumjs/ethash Ethash.run()
+// Port of hashimotoFull (crypto/ethash-reference.ts)
 //
-// CPU Algorithm (from ethereumjs/ethash src/index.ts:211-254):
+// CPU Algorithm:
 // 1. n = fullSize / 64
 // 2. w = 32 (128 / 4)
-// 3. s = keccak512(val || bytesReverse(nonce))
+// 3. s = keccak512(header || nonce as 8 little-endian bytes)
 // 4. mix = [s, s] (s repeated 2x = 128 bytes)
-// 5. For i = 0 to ACCESSES-1:
+// 5. For i = 0 to accesses-1 (params.accesses):
 //    a. p = (fnv(i ^ s[0], mix[i%32]) % (n/2)) * 2
 //    b. Load DAG items at indices p and p+1
 //    c. mix = fnvBytes(mix, items)
 // 6. cmix = fold(mix) via FNV (32 bytes)
 // 7. hash = keccak256(s || cmix)
+// 8. return { mix: cmix, hash }
+//
+// Pipeline constants: WORKGROUP_SIZE
 
-const ACCESSES = 64u;
 const MIX_BYTES = 128u;
 const HASH_BYTES = 64u;
 const MIX_WORDS = 32u;  // MIX_BYTES / 4
 
+struct HashimotoParams {
+  num_nonces: u32,
+  dag_items: u32,         // n
+  items_per_buffer: u32,  // Used by the split DAG shader
+  nonce_mode: u32,        // 0 = read nonces[], 1 = start_nonce + invocation index
+  start_nonce_lo: u32,    // 64-bit start nonce (nonce_mode 1)
+  start_nonce_hi: u32,
+  output_mode: u32,       // 0 = every hash + mix digest, 1 = only candidates meeting the target
+  max_candidates: u32,    // Capacity of candidates.entries (output_mode 1)
+  accesses: u32,          // DAG pages (MIX_BYTES) read per hash: 64 on mainnet, fewer in test epochs
+  target: array<vec4<u32>, 2>,  // 256-bit target, most significant word first (output_mode 1)
+};
+
+// A nonce whose hash meets the target
+struct Candidate {
+  nonce_lo: u32,  // Nonce value, low 32 bits
+  nonce_hi: u32,
+  mix_digest: array<u32, 8>,
+  hash: array<u32, 8>,
+};
+
+struct Candidates {
+  count: atomic<u32>,  // Candidates found; entries beyond max_candidates are dropped
+  entries: array<Candidate>,
+};
+
 @group(0) @binding(0) var<storage, read> header_hash: array<u32, 8>;
-@group(0) @binding(1) var<storage, read> nonces: array<u32>;
+@group(0) @binding(1) var<storage, read> nonces: array<u32>;  // nonce_mode 0 only
 @group(0) @binding(3) var<storage, read> dag: array<u32>;
 @group(0) @binding(4) var<storage, read_write> hashes: array<u32>;
-@group(0) @binding(5) var<uniform> params: vec4<u32>;  // x=num_nonces, y=n (dag_items), z=unused, w=unused
+@group(0) @binding(6) var<storage, read_write> mix_digests: array<u32>;  // cmix (32 bytes per nonce)
+@group(0) @binding(5) var<uniform> params: HashimotoParams;
+@group(0) @binding(7) var<storage, read_write> candidates: Candidates;  // output_mode 1 only
 
-// Injected functions (from fnv-shader.wgsl and keccak-*.wgsl)
-// fn fnv(x: u32, y: u32) -> u32
-// fn keccak512(input: array<u32, 18>) -> array<u32, 16>
-// fn keccak256(input: array<u32, 34>) -> array<u32, 8>
+//!include fnv
+//!include keccak-512
+//!include keccak-256
+
+fn byte_swap(x: u32) -> u32 {
+  return ((x & 0x000000FFu) << 24u) | ((x & 0x0000FF00u) << 8u) |
+         ((x & 0x00FF0000u) >> 8u) | ((x & 0xFF000000u) >> 24u);
+}
 
-@compute @workgroup_size(256)
+// Ethereum's proof-of-work check: the hash, read as a big-endian integer, must be <= target
+// Hash words hold the bytes little-endian, so each is byte-swapped before comparing
+fn meets_target(hash: array<u32, 8>) -> bool {
+  for (var i = 0u; i < 8u; i = i + 1u) {
+    let h = byte_swap(hash[i]);
+    let t = params.target[i / 4u][i % 4u];
+    if (h != t) {
+      return h < t;
+    }
+  }
+  return true;
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE)
 fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
   let nonce_idx = global_id.x;
-  let num_nonces = params.x;
+  let num_nonces = params.num_nonces;
 
   if (nonce_idx >= num_nonces) {
     return;
@@ -46,32 +93,33 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
     header[i] = header_hash[i];
   }
 
-  // Load nonce (8 bytes = 2 u32), must be reversed
-  let nonce_offset = nonce_idx * 2u;
-  let nonce_lo = nonces[nonce_offset];
-  let nonce_hi = nonces[nonce_offset + 1u];
-
-  // Reverse nonce: bytesReverse flips entire 8-byte array
-  // The ethereumjs algorithm does: bytesReverse(nonce)
-  // For an 8-byte nonce [byte0, byte1, ..., byte7], this produces [byte7, byte6, ..., byte0]
-  //
-  // When we have nonce as two u32 LE values (nonce_lo, nonce_hi):
-  //   nonce_lo = byte0|byte1|byte2|byte3
-  //   nonce_hi = byte4|byte5|byte6|byte7
-  //
-  // After bytesReverse, the 8-byte array becomes [byte7, byte6, ..., byte0]
-  // When interpreted as two u32 LE values:
-  //   u32[0] = byte7|byte6|byte5|byte4 = bytesReverse(nonce_hi)
-  //   u32[1] = byte3|byte2|byte1|byte0 = bytesReverse(nonce_lo)
-  //
-  // So we need to: (1) byte-reverse each u32, (2) swap their order
-
-  let nonce_lo_reversed = ((nonce_lo & 0x000000FFu) << 24u) | ((nonce_lo & 0x0000FF00u) << 8u) |
-                          ((nonce_lo & 0x00FF0000u) >> 8u) | ((nonce_lo & 0xFF000000u) >> 24u);
-  let nonce_hi_reversed = ((nonce_hi & 0x000000FFu) << 24u) | ((nonce_hi & 0x0000FF00u) << 8u) |
-                          ((nonce_hi & 0x00FF0000u) >> 8u) | ((nonce_hi & 0xFF000000u) >> 24u);
-
-  // ===== STAGE 1: keccak512(header || reversed_nonce) =====
+  // Nonce as it goes into the seed: the 64-bit value little-endian
+  // seed_nonce_lo = low 32 bits of the value, seed_nonce_hi = high 32 bits
+  var seed_nonce_lo: u32;
+  var seed_nonce_hi: u32;
+
+  if (params.nonce_mode == 1u) {
+    // Derived: start_nonce + nonce_idx as a 64-bit add (wraps at 2^64)
+    seed_nonce_lo = params.start_nonce_lo + nonce_idx;
+    seed_nonce_hi = params.start_nonce_hi + select(0u, 1u, seed_nonce_lo < nonce_idx);
+  } else {
+    // Uploaded as submitted: 8 big-endian bytes [byte0 (most significant), ..., byte7] = 2 u32
+    let nonce_offset = nonce_idx * 2u;
+    let nonce_lo = nonces[nonce_offset];
+    let nonce_hi = nonces[nonce_offset + 1u];
+
+    // Read as u32 LE, the uploaded words are:
+    //   nonce_lo = byte0|byte1|byte2|byte3 (the value's high 32 bits, byte-swapped)
+    //   nonce_hi = byte4|byte5|byte6|byte7 (the value's low 32 bits, byte-swapped)
+    //
+    // So the value's words are: (1) each u32 byte-swapped, (2) in swapped order
+    seed_nonce_lo = ((nonce_hi & 0x000000FFu) << 24u) | ((nonce_hi & 0x0000FF00u) << 8u) |
+                    ((nonce_hi & 0x00FF0000u) >> 8u) | ((nonce_hi & 0xFF000000u) >> 24u);
+    seed_nonce_hi = ((nonce_lo & 0x000000FFu) << 24u) | ((nonce_lo & 0x0000FF00u) << 8u) |
+                    ((nonce_lo & 0x00FF0000u) >> 8u) | ((nonce_lo & 0xFF000000u) >> 24u);
+  }
+
+  // ===== STAGE 1: keccak512(header || nonce little-endian) =====
 
   var keccak_input: array<u32, 18> = array<u32, 18>();
 
@@ -80,9 +128,9 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
     keccak_input[i] = header[i];
   }
 
-  // Next 8 bytes: reversed nonce (byte-reversed and swapped)
-  keccak_input[8u] = nonce_hi_reversed;  // SWAPPED: hi goes first after reversal
-  keccak_input[9u] = nonce_lo_reversed;  // SWAPPED: lo goes second after reversal
+  // Next 8 bytes: nonce, little-endian
+  keccak_input[8u] = seed_nonce_lo;
+  keccak_input[9u] = seed_nonce_hi;
 
   // Padding for Keccak-512 (72-byte rate = 18 u32)
   // Byte 40 (u32[10] byte 0): 0x01
@@ -105,11 +153,11 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
 
   // ===== STAGE 3: FNV mixing loop =====
 
-  let n = params.y;  // Number of DAG items
+  let n = params.dag_items;  // Number of DAG items
   let s0 = s[0u];    // First u32 of s, used as seed
   let w = 32u;       // MIX_BYTES / WORD_BYTES
 
-  for (var i = 0u; i < ACCESSES; i = i + 1u) {
+  for (var i = 0u; i < params.accesses; i = i + 1u) {
     // p = (fnv(i ^ s[0], mix[i % w]) % (n / 2)) * 2
     let mix_word = mix[i % w];
     let fnv_result = fnv(i ^ s0, mix_word);
@@ -179,8 +227,24 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
 
   // ===== OUTPUT =====
 
+  // Mining: only hashes meeting the target leave the GPU
+  if (params.output_mode == 1u) {
+    if (meets_target(hash)) {
+      let slot = atomicAdd(&candidates.count, 1u);
+      if (slot < params.max_candidates) {
+        candidates.entries[slot].nonce_lo = seed_nonce_lo;
+        candidates.entries[slot].nonce_hi = seed_nonce_hi;
+        candidates.entries[slot].mix_digest = cmix;
+        candidates.entries[slot].hash = hash;
+      }
+    }
+    return;
+  }
+
+  // Final hash and compressed mix (the mixDigest submitted with shares)
   let output_offset = nonce_idx * 8u;
   for (var i = 0u; i < 8u; i = i + 1u) {
     hashes[output_offset + i] = hash[i];
+    mix_digests[output_offset + i] = cmix[i];
   }
 }
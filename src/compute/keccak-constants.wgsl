@@ -0,0 +1,11 @@
+// Keccak-f[1600] round constants - shared by keccak-512.wgsl and keccak-256.wgsl
+// 24 rounds, each a 64-bit constant as (low, high) u32 pairs
+
+const RC = array<u32, 48>(
+  1u, 0u, 32898u, 0u, 32906u, 2147483648u, 2147516416u, 2147483648u,
+  32907u, 0u, 2147483649u, 0u, 2147516545u, 2147483648u, 32777u, 2147483648u,
+  138u, 0u, 136u, 0u, 2147516425u, 0u, 2147483658u, 0u,
+  2147516555u, 0u, 139u, 2147483648u, 32905u, 2147483648u, 32771u, 2147483648u,
+  32770u, 2147483648u, 128u, 2147483648u, 32778u, 0u, 2147483658u, 2147483648u,
+  2147516545u, 2147483648u, 32896u, 2147483648u, 2147483649u, 0u, 2147516424u, 2147483648u
+);
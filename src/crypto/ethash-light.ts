@@ -0,0 +1,102 @@
+/**
+ * Ethash Light Verifier
+ * Cache-only Hashimoto on the CPU: the DAG items a nonce touches are derived from the cache
+ * on demand (128 per nonce), so GPU candidates can be checked without the DAG
+ *
+ * Works on the flat Uint32Array cache the GPU setup already holds; the hashing itself is
+ * hashimotoLight from ethash-reference.ts, with byte-oriented nonces and results.
+ */
+
+import { calcDatasetItem, hashimotoLight } from './ethash-reference';
+import { ACCESSES } from './ethash-sizes';
+
+export interface LightHashimotoResult {
+  hash: Uint8Array;       // Final Keccak-256, compared against the target
+  mixDigest: Uint8Array;  // Compressed mix (cmix)
+}
+
+export interface ShareVerification {
+  valid: boolean;
+  reason?: 'mix digest mismatch' | 'hash mismatch' | 'above target';
+  expected: LightHashimotoResult;  // CPU result
+}
+
+/**
+ * Ethereum's proof-of-work check: the hash, read as a big-endian integer, must be <= target
+ *
+ * @param hash Final Hashimoto hash
+ * @param target Share/block target (2^256 / difficulty)
+ */
+export function meetsTarget(hash: Uint8Array, target: bigint): boolean {
+  let value = 0n;
+  for (const byte of hash) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value <= target;
+}
+
+export class LightVerifier {
+  private cache: Uint32Array;
+  private datasetBytes: number;
+  private accesses: number;
+
+  /**
+   * @param cache Epoch cache (16 words per 64-byte item), e.g. setup.cache
+   * @param datasetBytes Full DAG size for the epoch, e.g. setup.dagBytes
+   * @param accesses Dataset pages read per hash (EthashParams.accesses; default: mainnet's 64)
+   */
+  constructor(cache: Uint32Array, datasetBytes: number, accesses = ACCESSES) {
+    this.cache = cache;
+    this.datasetBytes = datasetBytes;
+    this.accesses = accesses;
+  }
+
+  /**
+   * Derive one DAG item from the cache (Ethash calc_dataset_item)
+   *
+   * @param index DAG item index
+   * @returns 16 words
+   */
+  datasetItem(index: number): Uint32Array {
+    return calcDatasetItem(this.cache, index);
+  }
+
+  /**
+   * Hashimoto for one nonce
+   *
+   * @param headerHash 32-byte header hash (seal hash)
+   * @param nonce 8-byte nonce, big-endian as submitted
+   */
+  hashimoto(headerHash: Uint8Array, nonce: Uint8Array): LightHashimotoResult {
+    const value = new DataView(nonce.buffer, nonce.byteOffset, 8).getBigUint64(0, false);
+    const { hash, mixDigest } = hashimotoLight(this.cache, this.datasetBytes, headerHash, value, this.accesses);
+    return {
+      hash: new Uint8Array(hash.buffer, hash.byteOffset, hash.byteLength),
+      mixDigest: new Uint8Array(mixDigest.buffer, mixDigest.byteOffset, mixDigest.byteLength),
+    };
+  }
+
+  /**
+   * Check a GPU result: recomputed hash and mix digest must match and meet the target
+   *
+   * @param headerHash 32-byte header hash
+   * @param nonce 8-byte nonce, big-endian
+   * @param claimed Hash and mix digest reported by the GPU
+   * @param target Share target
+   */
+  verify(headerHash: Uint8Array, nonce: Uint8Array, claimed: LightHashimotoResult, target: bigint): ShareVerification {
+    const expected = this.hashimoto(headerHash, nonce);
+    const same = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+    if (!same(claimed.mixDigest, expected.mixDigest)) {
+      return { valid: false, reason: 'mix digest mismatch', expected };
+    }
+    if (!same(claimed.hash, expected.hash)) {
+      return { valid: false, reason: 'hash mismatch', expected };
+    }
+    if (!meetsTarget(expected.hash, target)) {
+      return { valid: false, reason: 'above target', expected };
+    }
+    return { valid: true, expected };
+  }
+}
@@ -1,131 +1,295 @@
 /**
  * Ethash Reference Implementation
- * Uses @ethereumjs/ethash - the official battle-tested library
+ * Spec-level TypeScript Ethash on keccak-cpu.ts: mkcache, calcDatasetItem, hashimotoLight and
+ * hashimotoFull, plus the per-epoch parameters (EthashParams) every other implementation uses
  *
- * This module provides cache generation using the official EthereumJS implementation
- * for validation and reference purposes.
+ * Everything is flat Uint32Arrays in the GPU layouts: the cache and dataset as 16 words per
+ * 64-byte item, hashes and mix digests as 8 words. Nonces are 64-bit values (little-endian in
+ * the seed, as the spec hashes them). Cross-checked against @ethereumjs/ethash and mainnet
+ * blocks in test-ethash-reference.
  */
 
-import { Ethash } from '@ethereumjs/ethash';
+import { getSeedHashForEpoch, resolveEpoch, EpochInfo, EpochLike } from '../mining/epoch-manager';
+import { hexToBytes } from '../rpc/etc-client';
+import { keccak256, keccak512, keccak512Words } from './keccak-cpu';
+import {
+  ACCESSES,
+  CACHE_BYTES_GROWTH,
+  CACHE_BYTES_INIT,
+  CACHE_ROUNDS,
+  DATASET_BYTES_GROWTH,
+  DATASET_BYTES_INIT,
+  DATASET_PARENTS,
+  HASH_BYTES,
+  MIX_BYTES,
+  cacheSize,
+  datasetSize,
+} from './ethash-sizes';
 
-// Ethash parameters
-const HASH_BYTES = 64; // Keccak-512 output size
-const CACHE_INIT_BYTES = 16 * 1024 * 1024; // 16 MB
-const CACHE_GROWTH_BYTES = 128 * 1024; // 128 KB per epoch
-const DATASET_INIT_BYTES = 1024 * 1024 * 1024; // 1 GB
-const DATASET_GROWTH_BYTES = 8 * 1024 * 1024; // 8 MB per epoch
+const WORDS_PER_ITEM = HASH_BYTES / 4;  // 16
+const WORDS_PER_MIX = MIX_BYTES / 4;    // 32
 
 /**
- * Calculate cache size for an epoch
- * Algorithm: Find largest prime number of 64-byte items
+ * Ethash algorithm parameters: how sizes grow per epoch, accesses per hash and the seed
+ * Mainnet by default; tests shrink them so a whole epoch (cache and a few-MB dataset) builds in seconds
+ */
+export interface EthashParams {
+  cacheBytesInit: number;      // Cache size at epoch 0, before rounding down to a prime item count
+  cacheBytesGrowth: number;    // Cache growth per epoch
+  datasetBytesInit: number;    // Dataset size at epoch 0, before rounding down to a prime page count
+  datasetBytesGrowth: number;  // Dataset growth per epoch
+  accesses: number;            // Dataset pages read per hash
+  seed?: Uint8Array;           // 32-byte cache seed for every epoch (default: the epoch's seed hash)
+}
+
+export const MAINNET_ETHASH_PARAMS: EthashParams = {
+  cacheBytesInit: CACHE_BYTES_INIT,
+  cacheBytesGrowth: CACHE_BYTES_GROWTH,
+  datasetBytesInit: DATASET_BYTES_INIT,
+  datasetBytesGrowth: DATASET_BYTES_GROWTH,
+  accesses: ACCESSES,
+};
+
+/**
+ * A tiny test epoch: ~64 KB cache and ~4 MB dataset, built in seconds on the CPU and instantly on the GPU
+ */
+export const TEST_ETHASH_PARAMS: EthashParams = {
+  cacheBytesInit: 64 * 1024,
+  cacheBytesGrowth: 1024,
+  datasetBytesInit: 4 * 1024 * 1024,
+  datasetBytesGrowth: 64 * 1024,
+  accesses: ACCESSES,
+};
+
+/**
+ * Per-epoch Ethash parameters
+ * Single source of truth for the CPU cache, the GPU DAG builder and the Hashimoto kernels
+ */
+export interface EpochParams {
+  epoch: EpochInfo;
+  seed: Uint8Array;       // 32-byte seed for mkcache
+  cacheBytes: number;     // Cache size in bytes
+  datasetBytes: number;   // Dataset (DAG) size in bytes
+  accesses: number;       // Dataset pages read per hash
+}
+
+/**
+ * Get seed for an epoch
+ * Algorithm: Keccak-256(Keccak-256(Keccak-256(...))) starting from epoch 0 seed
+ * Derived from the epoch manager so the cache and seedHash lookups agree
  *
- * @param epoch The epoch number
- * @returns Cache size in bytes
+ * @param epoch Plain Ethash epoch number or resolved epoch
+ * @returns 32-byte seed
  */
-function getCacheSizeBytes(epoch: number): number {
-  let bytes = CACHE_INIT_BYTES + epoch * CACHE_GROWTH_BYTES;
-  let items = Math.floor(bytes / HASH_BYTES);
+export function getSeed(epoch: EpochLike): Uint8Array {
+  return hexToBytes(getSeedHashForEpoch(epoch));
+}
 
-  // Ensure odd number of items
-  if (items % 2 === 0) {
-    items -= 1;
+/**
+ * Get seed, cache size, dataset size and accesses for an epoch
+ * Seed comes from the seed epoch, sizes from the dataset epoch (they differ under ETChash)
+ *
+ * @param epoch Plain Ethash epoch number or resolved epoch
+ * @param ethash Algorithm parameters (default: mainnet)
+ * @returns Epoch parameters
+ */
+export function getEpochParams(epoch: EpochLike, ethash: EthashParams = MAINNET_ETHASH_PARAMS): EpochParams {
+  const info = resolveEpoch(epoch);
+  if (ethash.seed && ethash.seed.length !== 32) {
+    throw new Error(`Ethash seed must be 32 bytes, got ${ethash.seed.length}`);
   }
+  return {
+    epoch: info,
+    seed: ethash.seed ?? getSeed(info),
+    cacheBytes: cacheSize(info.datasetEpoch, ethash.cacheBytesInit, ethash.cacheBytesGrowth),
+    datasetBytes: datasetSize(info.datasetEpoch, ethash.datasetBytesInit, ethash.datasetBytesGrowth),
+    accesses: ethash.accesses,
+  };
+}
 
-  // Find largest prime less than items (simplified - just check odd numbers)
-  function isPrime(n: number): boolean {
-    if (n < 2) return false;
-    if (n === 2) return true;
-    if (n % 2 === 0) return false;
-    for (let i = 3; i * i <= n; i += 2) {
-      if (n % i === 0) return false;
-    }
-    return true;
-  }
+/**
+ * Explicit parameters as given, an epoch's mainnet parameters otherwise
+ */
+export function resolveEpochParams(epoch: EpochLike | EpochParams): EpochParams {
+  return typeof epoch === 'object' && 'seed' in epoch ? epoch : getEpochParams(epoch);
+}
 
-  while (!isPrime(items)) {
-    items -= 2;
-  }
+/**
+ * Whether parameters are the epoch's mainnet ones (same seed, cache and dataset; accesses don't change either)
+ * Only those are kept in an EpochArtifactStore, which is keyed by epoch
+ */
+export function isMainnetEpoch(params: EpochParams): boolean {
+  const mainnet = getEpochParams(params.epoch);
+  return params.cacheBytes === mainnet.cacheBytes &&
+    params.datasetBytes === mainnet.datasetBytes &&
+    params.seed.every((byte, i) => byte === mainnet.seed[i]);
+}
+
+/**
+ * Hashimoto output in the GPU layout (the kernel's hashes / mix_digests buffers)
+ * As bytes (new Uint8Array(words.buffer)) these are the hash and mix digest as submitted
+ */
+export interface HashimotoWords {
+  mixDigest: Uint32Array;  // Compressed mix (cmix), 8 words
+  hash: Uint32Array;       // Final Keccak-256, 8 words
+}
 
-  return items * HASH_BYTES;
+function fnv(a: number, b: number): number {
+  return (Math.imul(a, 0x01000193) ^ b) >>> 0;
 }
 
 /**
- * Calculate dataset size for an epoch
+ * Ethash mkcache: a chain of Keccak-512 hashes of the seed, then CACHE_ROUNDS rounds of RandMemoHash
  *
- * @param epoch The epoch number
- * @returns Dataset size in bytes
+ * @param cacheBytes Cache size (a multiple of 64; getEpochParams gives a prime item count)
+ * @param seed 32-byte seed
+ * @returns Cache, 16 words per 64-byte item
  */
-function getDatasetSizeBytes(epoch: number): number {
-  let bytes = DATASET_INIT_BYTES + epoch * DATASET_GROWTH_BYTES;
-  let items = Math.floor(bytes / HASH_BYTES);
+export function mkcache(cacheBytes: number, seed: Uint8Array): Uint32Array {
+  const items = cacheBytes / HASH_BYTES;
+  const cache = new Uint32Array(cacheBytes / 4);
 
-  // Ensure even number
-  if (items % 2 !== 0) {
-    items -= 1;
+  cache.set(new Uint32Array(keccak512(seed).buffer));
+  for (let i = 1; i < items; i++) {
+    cache.set(keccak512Words(cache.subarray((i - 1) * WORDS_PER_ITEM, i * WORDS_PER_ITEM)), i * WORDS_PER_ITEM);
   }
 
-  // Find largest prime less than items
-  function isPrime(n: number): boolean {
-    if (n < 2) return false;
-    if (n === 2) return true;
-    if (n % 2 === 0) return false;
-    for (let i = 3; i * i <= n; i += 2) {
-      if (n % i === 0) return false;
+  const mixed = new Uint32Array(WORDS_PER_ITEM);
+  for (let round = 0; round < CACHE_ROUNDS; round++) {
+    for (let i = 0; i < items; i++) {
+      const previous = ((i + items - 1) % items) * WORDS_PER_ITEM;
+      const other = (cache[i * WORDS_PER_ITEM] % items) * WORDS_PER_ITEM;
+      for (let k = 0; k < WORDS_PER_ITEM; k++) {
+        mixed[k] = cache[previous + k] ^ cache[other + k];
+      }
+      cache.set(keccak512Words(mixed), i * WORDS_PER_ITEM);
     }
-    return true;
-  }
-
-  while (!isPrime(items)) {
-    items -= 2;
   }
 
-  return items * HASH_BYTES;
+  return cache;
 }
 
 /**
- * Get seed for an epoch
- * Algorithm: Keccak-256(Keccak-256(Keccak-256(...))) starting from epoch 0 seed
+ * Ethash calc_dataset_item: one dataset (DAG) item from DATASET_PARENTS pseudo-random cache items
  *
- * @param epoch The epoch number
- * @returns 32-byte seed
+ * @param cache Epoch cache from mkcache / generateCache
+ * @param index Dataset item index
+ * @returns 16 words, as the DAG builder writes the item
  */
-function getSeed(epoch: number): Uint8Array {
-  const ethash = new Ethash();
+export function calcDatasetItem(cache: Uint32Array, index: number): Uint32Array {
+  const cacheItems = cache.length / WORDS_PER_ITEM;
+  const start = (index % cacheItems) * WORDS_PER_ITEM;
+  const seed = cache.slice(start, start + WORDS_PER_ITEM);
+  seed[0] = (seed[0] ^ index) >>> 0;
+  const mix = keccak512Words(seed);
 
-  // Simulate seed generation by calling internal methods
-  // For epoch 0, seed is all zeros
-  let seed = new Uint8Array(32);
+  for (let j = 0; j < DATASET_PARENTS; j++) {
+    const parent = (fnv(index ^ j, mix[j % WORDS_PER_ITEM]) % cacheItems) * WORDS_PER_ITEM;
+    for (let k = 0; k < WORDS_PER_ITEM; k++) {
+      mix[k] = fnv(mix[k], cache[parent + k]);
+    }
+  }
 
-  // For epochs > 0, we'd need to compute iteratively
-  // For now, we'll rely on the Ethash.mkcache function which handles this
-  return seed;
+  return keccak512Words(mix);
 }
 
 /**
- * Generate cache for a given epoch
- *
- * @param epoch The epoch number
- * @returns Uint8Array array of cache items (each 64 bytes)
+ * Hashimoto over any source of dataset items
  */
-export async function generateCache(epoch: number): Promise<Uint32Array> {
-  const cacheSize = getCacheSizeBytes(epoch);
-  const seed = getSeed(epoch);
+function hashimoto(
+  headerHash: Uint8Array,
+  nonce: bigint,
+  datasetBytes: number,
+  item: (index: number) => Uint32Array,
+  accesses: number
+): HashimotoWords {
+  // s = keccak512(header ++ nonce as 8 little-endian bytes)
+  const seedInput = new Uint8Array(40);
+  seedInput.set(headerHash);
+  new DataView(seedInput.buffer).setBigUint64(32, BigInt.asUintN(64, nonce), true);
+  const seedBytes = keccak512(seedInput);
+  const seed = new Uint32Array(seedBytes.buffer, seedBytes.byteOffset, WORDS_PER_ITEM);
 
-  const ethash = new Ethash();
-  const cacheItems = ethash.mkcache(cacheSize, seed);
+  const mix = new Uint32Array(WORDS_PER_MIX);
+  mix.set(seed);
+  mix.set(seed, WORDS_PER_ITEM);
 
-  // Convert array of Uint8Array to single Uint32Array
-  const totalBytes = cacheItems.reduce((sum, item) => sum + item.length, 0);
-  const buffer = new ArrayBuffer(totalBytes);
-  const view = new Uint8Array(buffer);
+  const pages = datasetBytes / MIX_BYTES;
+  for (let i = 0; i < accesses; i++) {
+    const first = (fnv(i ^ seed[0], mix[i % WORDS_PER_MIX]) % pages) * 2;
+    for (let half = 0; half < 2; half++) {
+      const words = item(first + half);
+      for (let k = 0; k < WORDS_PER_ITEM; k++) {
+        mix[half * WORDS_PER_ITEM + k] = fnv(mix[half * WORDS_PER_ITEM + k], words[k]);
+      }
+    }
+  }
 
-  let offset = 0;
-  for (const item of cacheItems) {
-    view.set(item, offset);
-    offset += item.length;
+  const mixDigest = new Uint32Array(WORDS_PER_MIX / 4);
+  for (let k = 0; k < WORDS_PER_MIX; k += 4) {
+    mixDigest[k / 4] = fnv(fnv(fnv(mix[k], mix[k + 1]), mix[k + 2]), mix[k + 3]);
   }
 
-  return new Uint32Array(buffer);
+  // hash = keccak256(s ++ cmix)
+  const finalInput = new Uint8Array(HASH_BYTES + 32);
+  finalInput.set(seedBytes);
+  finalInput.set(new Uint8Array(mixDigest.buffer), HASH_BYTES);
+  const hash = new Uint32Array(keccak256(finalInput).buffer);
+
+  return { mixDigest, hash };
+}
+
+/**
+ * Hashimoto from the cache alone: each dataset item it reads is derived with calcDatasetItem
+ *
+ * @param cache Epoch cache
+ * @param datasetBytes Epoch dataset size
+ * @param headerHash 32-byte header hash (seal hash)
+ * @param nonce 64-bit nonce value
+ * @param accesses Dataset pages read per hash (default: mainnet's 64)
+ */
+export function hashimotoLight(
+  cache: Uint32Array,
+  datasetBytes: number,
+  headerHash: Uint8Array,
+  nonce: bigint,
+  accesses = ACCESSES
+): HashimotoWords {
+  return hashimoto(headerHash, nonce, datasetBytes, index => calcDatasetItem(cache, index), accesses);
+}
+
+/**
+ * Hashimoto over a full dataset (16 words per item, as generateDAG / readDAG return it)
+ *
+ * @param dataset Epoch dataset
+ * @param headerHash 32-byte header hash (seal hash)
+ * @param nonce 64-bit nonce value
+ * @param accesses Dataset pages read per hash (default: mainnet's 64)
+ */
+export function hashimotoFull(
+  dataset: Uint32Array,
+  headerHash: Uint8Array,
+  nonce: bigint,
+  accesses = ACCESSES
+): HashimotoWords {
+  return hashimoto(
+    headerHash,
+    nonce,
+    dataset.byteLength,
+    index => dataset.subarray(index * WORDS_PER_ITEM, (index + 1) * WORDS_PER_ITEM),
+    accesses
+  );
+}
+
+/**
+ * Generate cache for a given epoch
+ *
+ * @param epoch Plain Ethash epoch number, resolved epoch, or explicit parameters (e.g. a shrunken test epoch)
+ * @returns Cache, 16 words per 64-byte item
+ */
+export async function generateCache(epoch: EpochLike | EpochParams): Promise<Uint32Array> {
+  const { seed, cacheBytes } = resolveEpochParams(epoch);
+  return mkcache(cacheBytes, seed);
 }
 
 /**
@@ -137,24 +301,20 @@ export async function generateCache(epoch: number): Promise<Uint32Array> {
  * sufficient for testing mining operations. Full DAG generation should be done
  * on GPU using WebGPU compute shaders (Step 5 of project plan).
  *
- * @param epoch The epoch number
+ * @param epoch Plain Ethash epoch number, resolved epoch, or explicit parameters
  * @returns Uint32Array containing the DAG (full size for compatibility, but may be partial)
  */
-export async function generateDAG(epoch: number): Promise<Uint32Array> {
-  const datasetSize = getDatasetSizeBytes(epoch);
-  const cacheSize = getCacheSizeBytes(epoch);
-  const seed = getSeed(epoch);
+export async function generateDAG(epoch: EpochLike | EpochParams): Promise<Uint32Array> {
+  const { seed, cacheBytes, datasetBytes } = resolveEpochParams(epoch);
 
-  const ethash = new Ethash();
-  const cache = ethash.mkcache(cacheSize, seed);
-  ethash.cache = cache;
+  const cache = mkcache(cacheBytes, seed);
 
   // BROWSER WORKAROUND: Generate only enough DAG items to complete mining operations
   // For full DAG (epoch 0: ~16M items), this would take too long in browser.
   // We generate a reasonable subset that Hashimoto can access for the test nonces.
   //
   // In production, DAG generation should happen on GPU (Step 5)
-  const numItems = datasetSize / HASH_BYTES;
+  const numItems = datasetBytes / HASH_BYTES;
 
   // Browser limit: Generate at most 100k items (6.4 MB) to keep test responsive
   // This is enough to test the pipeline - Hashimoto will access DAG items based on hash value
@@ -165,13 +325,11 @@ export async function generateDAG(epoch: number): Promise<Uint32Array> {
     `DAG generation: Processing ${itemsToGenerate.toLocaleString()}/${numItems.toLocaleString()} items (browser limit)`
   );
 
-  const buffer = new ArrayBuffer(datasetSize); // Full size for buffer compatibility
-  const view = new Uint8Array(buffer);
+  const dag = new Uint32Array(datasetBytes / 4); // Full size for buffer compatibility
 
   let lastProgressTime = Date.now();
   for (let i = 0; i < itemsToGenerate; i++) {
-    const item = ethash.calcDatasetItem(i);
-    view.set(item, i * HASH_BYTES);
+    dag.set(calcDatasetItem(cache, i), i * WORDS_PER_ITEM);
 
     // Log progress every 5 seconds
     const now = Date.now();
@@ -195,5 +353,5 @@ export async function generateDAG(epoch: number): Promise<Uint32Array> {
     );
   }
 
-  return new Uint32Array(buffer);
+  return dag;
 }
@@ -0,0 +1,63 @@
+/**
+ * Ethash Cache and Dataset Sizes
+ * Spec-exact size functions shared by the CPU cache, GPU DAG builder and epoch manager
+ *
+ * Both sizes grow linearly per epoch and are then rounded down so the item
+ * count is prime (cache: 64-byte items, dataset: 128-byte mix pages).
+ */
+
+export const HASH_BYTES = 64;                      // Keccak-512 output / cache and DAG item size
+export const MIX_BYTES = 128;                      // Hashimoto mix width (2 DAG items)
+export const CACHE_BYTES_INIT = 16 * 1024 * 1024;  // 2^24 (16 MB)
+export const CACHE_BYTES_GROWTH = 128 * 1024;      // 2^17 (128 KB per epoch)
+export const DATASET_BYTES_INIT = 1024 * 1024 * 1024; // 2^30 (1 GB)
+export const DATASET_BYTES_GROWTH = 8 * 1024 * 1024;  // 2^23 (8 MB per epoch)
+export const ACCESSES = 64;                        // Dataset pages (MIX_BYTES) read per hash
+export const DATASET_PARENTS = 256;                // Cache items mixed into each dataset item
+export const CACHE_ROUNDS = 3;                     // RandMemoHash rounds over the cache
+
+/**
+ * Trial-division primality test (item counts stay below 2^27, so this is cheap)
+ */
+function isPrime(n: number): boolean {
+  if (n < 2) return false;
+  if (n % 2 === 0) return n === 2;
+  for (let i = 3; i * i <= n; i += 2) {
+    if (n % i === 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Cache size for an epoch
+ * Largest size below init + epoch * growth with a prime number of 64-byte items
+ *
+ * @param epoch Dataset epoch
+ * @param init Size at epoch 0 before rounding (default: mainnet's CACHE_BYTES_INIT)
+ * @param growth Growth per epoch (default: CACHE_BYTES_GROWTH)
+ * @returns Cache size in bytes
+ */
+export function cacheSize(epoch: number, init = CACHE_BYTES_INIT, growth = CACHE_BYTES_GROWTH): number {
+  let size = init + growth * epoch - HASH_BYTES;
+  while (!isPrime(size / HASH_BYTES)) {
+    size -= 2 * HASH_BYTES;
+  }
+  return size;
+}
+
+/**
+ * Dataset (DAG) size for an epoch
+ * Largest size below init + epoch * growth with a prime number of 128-byte pages
+ *
+ * @param epoch Dataset epoch
+ * @param init Size at epoch 0 before rounding (default: mainnet's DATASET_BYTES_INIT)
+ * @param growth Growth per epoch (default: DATASET_BYTES_GROWTH)
+ * @returns Dataset size in bytes
+ */
+export function datasetSize(epoch: number, init = DATASET_BYTES_INIT, growth = DATASET_BYTES_GROWTH): number {
+  let size = init + growth * epoch - MIX_BYTES;
+  while (!isPrime(size / MIX_BYTES)) {
+    size -= 2 * MIX_BYTES;
+  }
+  return size;
+}
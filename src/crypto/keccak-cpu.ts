@@ -14,16 +14,7 @@ import { keccak_256, keccak_512 } from 'js-sha3';
  */
 export function keccak256(message: Uint8Array): Uint8Array {
   // js-sha3's keccak_256 is the Ethereum Keccak-256
-  const hash = keccak_256.create();
-  hash.update(message);
-  const result = hash.hex();
-
-  // Convert hex string to Uint8Array
-  const uint8Array = new Uint8Array(32);
-  for (let i = 0; i < 32; i++) {
-    uint8Array[i] = parseInt(result.substr(i * 2, 2), 16);
-  }
-  return uint8Array;
+  return new Uint8Array(keccak_256.arrayBuffer(message));
 }
 
 /**
@@ -35,16 +26,16 @@ export function keccak256(message: Uint8Array): Uint8Array {
  */
 export function keccak512(message: Uint8Array): Uint8Array {
   // js-sha3's keccak_512 is the Ethereum Keccak-512
-  const hash = keccak_512.create();
-  hash.update(message);
-  const result = hash.hex();
-
-  // Convert hex string to Uint8Array
-  const uint8Array = new Uint8Array(64);
-  for (let i = 0; i < 64; i++) {
-    uint8Array[i] = parseInt(result.substr(i * 2, 2), 16);
-  }
-  return uint8Array;
+  return new Uint8Array(keccak_512.arrayBuffer(message));
+}
+
+/**
+ * Keccak-512 over words, as Ethash hashes cache and dataset items
+ * Input: words (Uint32Array, hashed as their little-endian bytes)
+ * Output: 16 words (Uint32Array), the 64-byte hash in the GPU's u32 layout
+ */
+export function keccak512Words(words: Uint32Array): Uint32Array {
+  return new Uint32Array(keccak_512.arrayBuffer(new Uint8Array(words.buffer, words.byteOffset, words.byteLength)));
 }
 
 /**
@@ -0,0 +1,122 @@
+/**
+ * Batch Size Tuner
+ * Picks the number of nonces per dispatch for this GPU: ramps the batch size while timing
+ * dispatches and settles on the largest size that stays under a target dispatch time
+ *
+ * Long dispatches stall the page (the GPU is shared with the compositor) and can trip driver
+ * watchdogs; short ones spend more of their time on submit and readback overhead.
+ */
+
+import { HashimotoSetup, runHashimotoRangeGPU, HASHIMOTO_WORKGROUP_SIZE } from './hashimoto';
+
+export interface BatchTuningOptions {
+  targetMs: number;      // Dispatch time to stay under
+  minBatchSize: number;  // First size tried, and the fallback if even it is too slow
+  maxBatchSize: number;  // Largest size tried
+  samples: number;       // Timed dispatches per size (after one warm-up); the median counts
+}
+
+export const DEFAULT_BATCH_TUNING: BatchTuningOptions = {
+  targetMs: 50,            // Keeps the page responsive, well under driver watchdogs (~2s)
+  minBatchSize: 16_384,
+  maxBatchSize: 1_000_000,
+  samples: 3,
+};
+
+export interface BatchMeasurement {
+  batchSize: number;
+  timeMs: number;    // Median dispatch time: submit → candidates read back
+  hashrate: number;  // Hashes per second at this size
+}
+
+export interface BatchTuning {
+  batchSize: number;                 // Chosen size
+  targetMs: number;
+  measurements: BatchMeasurement[];  // In the order they were taken
+}
+
+function wholeWorkgroups(size: number): number {
+  return Math.max(HASHIMOTO_WORKGROUP_SIZE, Math.floor(size / HASHIMOTO_WORKGROUP_SIZE) * HASHIMOTO_WORKGROUP_SIZE);
+}
+
+/**
+ * Find the largest batch size whose dispatch time stays under the target
+ * Doubles the size from minBatchSize until a size is too slow (or maxBatchSize is reached), then
+ * tries the size a linear fit puts on the target
+ *
+ * @param measure Runs one dispatch of the given size and returns its time in ms
+ * @param options Overrides for DEFAULT_BATCH_TUNING
+ */
+export async function tuneBatchSize(
+  measure: (batchSize: number) => Promise<number>,
+  options: Partial<BatchTuningOptions> = {}
+): Promise<BatchTuning> {
+  const { targetMs, minBatchSize, maxBatchSize, samples } = { ...DEFAULT_BATCH_TUNING, ...options };
+  const largest = wholeWorkgroups(maxBatchSize);
+  const measurements: BatchMeasurement[] = [];
+
+  const time = async (batchSize: number): Promise<BatchMeasurement> => {
+    await measure(batchSize);  // Warm-up: buffer growth, first-use costs
+
+    const times: number[] = [];
+    for (let i = 0; i < Math.max(1, samples); i++) {
+      times.push(await measure(batchSize));
+    }
+    times.sort((a, b) => a - b);
+
+    const timeMs = times[Math.floor(times.length / 2)];
+    const measurement = { batchSize, timeMs, hashrate: timeMs > 0 ? (batchSize / timeMs) * 1000 : 0 };
+    measurements.push(measurement);
+    return measurement;
+  };
+
+  let best: BatchMeasurement | undefined;
+  let tooSlow: BatchMeasurement | undefined;
+
+  for (let batchSize = Math.min(wholeWorkgroups(minBatchSize), largest); ; batchSize = Math.min(batchSize * 2, largest)) {
+    const measurement = await time(batchSize);
+    if (measurement.timeMs > targetMs) {
+      tooSlow = measurement;
+      break;
+    }
+    best = measurement;
+    if (batchSize >= largest) {
+      break;
+    }
+  }
+
+  // Dispatch time grows about linearly with the batch size: try the size that should land on the target
+  if (best && tooSlow && best.timeMs > 0) {
+    const estimate = wholeWorkgroups((best.batchSize * targetMs) / best.timeMs);
+    if (estimate > best.batchSize && estimate < tooSlow.batchSize) {
+      const measurement = await time(estimate);
+      if (measurement.timeMs <= targetMs) {
+        best = measurement;
+      }
+    }
+  }
+
+  return { batchSize: (best ?? measurements[0]).batchSize, targetMs, measurements };
+}
+
+/**
+ * Tune the batch size for runHashimotoRangeGPU on this device and epoch
+ * Dispatches are timed with a target no hash meets, so nothing is read back but the count;
+ * keep maxBatchSize within the reusable buffers so tuning doesn't grow them
+ *
+ * @param device GPU device
+ * @param setup Hashimoto setup the batches will run on (the DAG size affects the dispatch time)
+ * @param options Overrides for DEFAULT_BATCH_TUNING
+ */
+export function tuneBatchSizeGPU(
+  device: GPUDevice,
+  setup: HashimotoSetup,
+  options: Partial<BatchTuningOptions> = {}
+): Promise<BatchTuning> {
+  const headerHash = new Uint8Array(32);
+
+  return tuneBatchSize(async (batchSize) => {
+    const result = await runHashimotoRangeGPU(headerHash, 0n, batchSize, device, setup, 0n);
+    return result.timeMs;
+  }, options);
+}
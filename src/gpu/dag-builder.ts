@@ -1,18 +1,15 @@
 /**
  * GPU DAG Builder - Calls GPU compute shader to generate full DAG
- * Direct port of @ethereumjs/ethash calcDatasetItem algorithm to WGSL
+ * WGSL port of calcDatasetItem (crypto/ethash-reference.ts)
  */
 
-import keccak512Shader from '../compute/keccak-512-shader.wgsl?raw';
-import fnvShader from '../compute/fnv-shader.wgsl?raw';
-import dagBuilderShader from '../compute/dag-builder-shader.wgsl?raw';
-import { Ethash } from '@ethereumjs/ethash';
+import { generateCache, resolveEpochParams, EpochParams } from '../crypto/ethash-reference';
+import { HASH_BYTES } from '../crypto/ethash-sizes';
+import { EpochLike } from '../mining/epoch-manager';
+import { composeShader, compileShader } from './shader-modules';
 
-const HASH_BYTES = 64;
-const DATASET_BYTES_INIT = 1073741824; // 2^30 (1GB)
-const DATASET_BYTES_GROWTH = 8388608;  // 2^23 (8MB)
-const CACHE_BYTES_INIT = 16 * 1024 * 1024;
-const CACHE_BYTES_GROWTH = 128 * 1024;
+// DAG items per workgroup (WORKGROUP_SIZE in dag-builder-shader.wgsl)
+const ITEMS_PER_WORKGROUP = 32;
 
 export interface DAGGenerationProgress {
   progress: number;
@@ -21,49 +18,31 @@ export interface DAGGenerationProgress {
   itemsPerSecond: number;
 }
 
-export async function generateDAGGPU(
-  epoch: number,
-  device: GPUDevice,
-  onProgress?: (progress: DAGGenerationProgress) => void
-): Promise<{ dag: Uint32Array; dagBuffers: GPUBuffer[] }> {
-  console.log(`[DAG-GPU] Starting GPU DAG generation for epoch ${epoch}...`);
-
-  // Step 1: Generate cache on CPU
-  const cacheBytes = CACHE_BYTES_INIT + epoch * CACHE_BYTES_GROWTH;
-  const ethash = new Ethash();
-  const seed = new Uint8Array(32);
-  const cache = ethash.mkcache(cacheBytes, seed);
-  const numCacheItems = cache.length;
-
-  console.log(`[DAG-GPU] Cache: ${numCacheItems} items (${numCacheItems * HASH_BYTES / 1024 / 1024}MB)`);
+/**
+ * Composed DAG builder shader: dag-builder-shader.wgsl with its Keccak-512 and FNV includes
+ */
+export function dagBuilderShaderSource(): string {
+  return composeShader('dag-builder-shader', { constants: { WORKGROUP_SIZE: ITEMS_PER_WORKGROUP } });
+}
 
-  // Step 2: Calculate DAG size
-  const datasetBytes = DATASET_BYTES_INIT + epoch * DATASET_BYTES_GROWTH;
+/**
+ * Allocate the (empty) GPU buffers a DAG is split across
+ * Splits at maxStorageBufferBindingSize so each buffer can be bound on its own (>2.15 GB DAGs need 2,
+ * adapters with a 1 GB limit need 3-5)
+ *
+ * @param datasetBytes DAG size in bytes
+ * @param device GPU device
+ * @param maxBufferSize Largest buffer to create (defaults to the device's binding limit)
+ * @returns Buffers and the number of DAG items in each (the last may hold fewer)
+ */
+export function createDAGBuffers(
+  datasetBytes: number,
+  device: GPUDevice,
+  maxBufferSize = device.limits.maxStorageBufferBindingSize
+): { dagBuffers: GPUBuffer[]; itemsPerBuffer: number } {
   const numDAGItems = Math.floor(datasetBytes / HASH_BYTES);
-
-  console.log(`[DAG-GPU] DAG: ${numDAGItems.toLocaleString()} items (${(datasetBytes / 1024 / 1024 / 1024).toFixed(2)}GB)`);
-  console.log(`[DAG-GPU] Dispatching GPU kernel to generate DAG...`);
-
-  // Step 3: Upload cache to GPU
-  const cacheU32 = new Uint32Array(HASH_BYTES * numCacheItems / 4);
-  let offset = 0;
-  for (const item of cache) {
-    const view = new Uint32Array(item.buffer, item.byteOffset, 16);
-    cacheU32.set(view, offset);
-    offset += 16;
-  }
-
-  const cacheBuffer = device.createBuffer({
-    size: cacheU32.byteLength,
-    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-    mappedAtCreation: true,
-  });
-  new Uint32Array(cacheBuffer.getMappedRange()).set(cacheU32);
-  cacheBuffer.unmap();
-
-  // Step 4: Create DAG output buffers (split if >2.15 GB)
-  const maxBufferSize = device.limits.maxStorageBufferBindingSize;
-  const numBuffers = Math.ceil(datasetBytes / maxBufferSize);
+  // Whole items per buffer, so that no buffer ends up over the limit
+  const numBuffers = Math.ceil(numDAGItems / Math.floor(maxBufferSize / HASH_BYTES));
   const itemsPerBuffer = Math.ceil(numDAGItems / numBuffers);
 
   console.log(`[DAG-GPU] Splitting DAG into ${numBuffers} buffer(s) (max ${(maxBufferSize / 1024 / 1024 / 1024).toFixed(2)} GB each)`);
@@ -76,6 +55,7 @@ export async function generateDAGGPU(
     const actualBytes = actualItems * HASH_BYTES;
 
     const buffer = device.createBuffer({
+      label: `ethash-dag-${i}`,
       size: actualBytes,
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
     });
@@ -84,8 +64,63 @@ export async function generateDAGGPU(
     console.log(`[DAG-GPU]   Buffer ${i}: ${actualItems.toLocaleString()} items (${(actualBytes / 1024 / 1024 / 1024).toFixed(2)} GB)`);
   }
 
+  return { dagBuffers, itemsPerBuffer };
+}
+
+/**
+ * Generate the full DAG on GPU, one chunk per DAG buffer
+ *
+ * @param epoch Plain Ethash epoch number, resolved epoch, or explicit parameters (getEpochParams with EthashParams)
+ * @param device GPU device
+ * @param onProgress Called after each chunk
+ * @param cache Cache for this epoch, if the caller already has it (skips regenerating it)
+ * @param readback Also copy the DAG back to CPU memory (off for mining: the DAG stays GPU-resident)
+ * @param maxBufferSize Largest DAG buffer (defaults to the device's binding limit, see createDAGBuffers)
+ * @returns DAG buffers (resident), their layout, and the CPU copy if readback was requested
+ */
+export async function generateDAGGPU(
+  epoch: EpochLike | EpochParams,
+  device: GPUDevice,
+  onProgress?: (progress: DAGGenerationProgress) => void,
+  cache?: Uint32Array,
+  readback = false,
+  maxBufferSize?: number
+): Promise<{ dagBuffers: GPUBuffer[]; itemsPerBuffer: number; dagItems: number; dag?: Uint32Array }> {
+  const epochParams = resolveEpochParams(epoch);
+  const { datasetEpoch, seedEpoch } = epochParams.epoch;
+  console.log(`[DAG-GPU] Starting GPU DAG generation for epoch ${datasetEpoch} (seed epoch ${seedEpoch})...`);
+
+  // Compiled up front: a shader error throws before the cache is generated or anything is allocated
+  const shaderModule = await compileShader(device, dagBuilderShaderSource(), 'dag-builder-shader');
+
+  // Step 1: Generate cache on CPU (same seed and size as setupHashimotoGPU's cache)
+  const { datasetBytes } = epochParams;
+  const cacheU32 = cache ?? await generateCache(epochParams);
+  const numCacheItems = cacheU32.length / 16;
+
+  console.log(`[DAG-GPU] Cache: ${numCacheItems} items (${(numCacheItems * HASH_BYTES / 1024 / 1024).toFixed(2)}MB)`);
+
+  // Step 2: Calculate DAG size
+  const numDAGItems = Math.floor(datasetBytes / HASH_BYTES);
+
+  console.log(`[DAG-GPU] DAG: ${numDAGItems.toLocaleString()} items (${(datasetBytes / 1024 / 1024 / 1024).toFixed(2)}GB)`);
+  console.log(`[DAG-GPU] Dispatching GPU kernel to generate DAG...`);
+
+  // Step 3: Upload cache to GPU
+  const cacheBuffer = device.createBuffer({
+    size: cacheU32.byteLength,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    mappedAtCreation: true,
+  });
+  new Uint32Array(cacheBuffer.getMappedRange()).set(cacheU32);
+  cacheBuffer.unmap();
+
+  // Step 4: Create DAG output buffers (split if >2.15 GB)
+  const { dagBuffers, itemsPerBuffer } = createDAGBuffers(datasetBytes, device, maxBufferSize);
+  const numBuffers = dagBuffers.length;
+
   // Step 5: Calculate workgroup dispatch
-  const itemsPerWorkgroup = 32;
+  const itemsPerWorkgroup = ITEMS_PER_WORKGROUP;
   const totalWorkgroups = Math.ceil(numDAGItems / itemsPerWorkgroup);
 
   let workgroupsX = totalWorkgroups;
@@ -111,43 +146,6 @@ export async function generateDAGGPU(
   paramsBuffer.unmap();
 
   // Step 6: Create compute pipeline
-  // Concatenate shader dependencies: Keccak-512 function + FNV functions + DAG builder shader
-  // Extract only the keccak512 function (skip entry point)
-  const lines512 = keccak512Shader.split('\n');
-
-  // Find RC constant start (at beginning)
-  let rcStartIdx = 0;
-  let rcEndIdx = 0;
-  for (let i = 0; i < lines512.length; i++) {
-    if (lines512[i].includes('const RC = array<u32, 48>')) {
-      rcStartIdx = i;
-      for (let j = i; j < lines512.length; j++) {
-        if (lines512[j].includes(');')) {
-          rcEndIdx = j;
-          break;
-        }
-      }
-      break;
-    }
-  }
-
-  // Find keccak512 function
-  let keccak512FuncStartIdx = 0;
-  let keccak512EndIdx = 0;
-  for (let i = 0; i < lines512.length; i++) {
-    if (lines512[i].includes('fn keccak512(')) {
-      keccak512FuncStartIdx = i;
-    }
-    if (keccak512FuncStartIdx > 0 && lines512[i].includes('return output;')) {
-      keccak512EndIdx = i + 1;
-      break;
-    }
-  }
-
-  const rcCode = lines512.slice(rcStartIdx, rcEndIdx + 1).join('\n');
-  const keccak512Code = lines512.slice(keccak512FuncStartIdx, keccak512EndIdx + 1).join('\n');
-  const combinedShader = rcCode + '\n\n' + fnvShader + '\n\n' + keccak512Code + '\n\n' + dagBuilderShader;
-  const shaderModule = device.createShaderModule({ code: combinedShader });
   const pipeline = device.createComputePipeline({
     layout: 'auto',
     compute: { module: shaderModule, entryPoint: 'main' },
@@ -155,7 +153,6 @@ export async function generateDAGGPU(
 
   // Step 7-8: Generate DAG in chunks (one chunk per buffer)
   const startTime = Date.now();
-  const dagDataChunks: Uint32Array[] = [];
 
   console.log(`[DAG-GPU] Generating ${numBuffers} chunk(s)...`);
 
@@ -163,7 +160,6 @@ export async function generateDAGGPU(
     const startItem = bufferIdx * itemsPerBuffer;
     const endItem = Math.min((bufferIdx + 1) * itemsPerBuffer, numDAGItems);
     const chunkItems = endItem - startItem;
-    const chunkBytes = chunkItems * HASH_BYTES;
 
     console.log(`[DAG-GPU] Chunk ${bufferIdx + 1}/${numBuffers}: items ${startItem.toLocaleString()}-${endItem.toLocaleString()}`);
 
@@ -208,25 +204,10 @@ export async function generateDAGGPU(
     passEncoder.dispatchWorkgroups(chunkWorkgroupsX, chunkWorkgroupsY, 1);
     passEncoder.end();
 
-    // Read back this chunk
-    const stagingBuffer = device.createBuffer({
-      size: chunkBytes,
-      usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
-    });
-
-    const copyEncoder = device.createCommandEncoder();
-    copyEncoder.copyBufferToBuffer(dagBuffers[bufferIdx], 0, stagingBuffer, 0, chunkBytes);
-
-    device.queue.submit([commandEncoder.finish(), copyEncoder.finish()]);
-
-    await stagingBuffer.mapAsync(GPUMapMode.READ);
-    const chunkData = new Uint32Array(stagingBuffer.getMappedRange()).slice();
-    stagingBuffer.unmap();
-
-    dagDataChunks.push(chunkData);
+    device.queue.submit([commandEncoder.finish()]);
+    await device.queue.onSubmittedWorkDone();
 
     // Cleanup temp buffers
-    stagingBuffer.destroy();
     chunkParamsBuffer.destroy();
 
     // Progress callback
@@ -245,10 +226,11 @@ export async function generateDAGGPU(
   const totalTime = (Date.now() - startTime) / 1000;
   console.log(`[DAG-GPU] ✓ DAG generation complete: ${(datasetBytes / 1024 / 1024 / 1024).toFixed(2)} GB in ${totalTime.toFixed(1)}s`);
 
-  // Verify first chunk has non-zero data
+  // Verify the start of the DAG has non-zero data (small readback, the DAG itself stays on the GPU)
+  const sample = await readBufferRange(dagBuffers[0], device, 0, Math.min(dagBuffers[0].size, 4000));
   let nonZeroCount = 0;
-  for (let i = 0; i < Math.min(dagDataChunks[0].length, 1000); i++) {
-    if (dagDataChunks[0][i] !== 0) nonZeroCount++;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) nonZeroCount++;
   }
   console.log(`[DAG-GPU] Verification: ${nonZeroCount}/1000 first u32s are non-zero`);
   if (nonZeroCount === 0) {
@@ -259,32 +241,78 @@ export async function generateDAGGPU(
   cacheBuffer.destroy();
   paramsBuffer.destroy();
 
-  // Create a minimal DAG array for metadata (just store the chunks without combining)
-  // This avoids allocating 2.56+ GB in browser memory
-  console.log(`[DAG-GPU] Creating DAG metadata (keeping ${dagDataChunks.length} chunks separate to save memory)...`);
+  const dag = readback ? await readDAGBuffers(dagBuffers, device) : undefined;
 
-  // Create a view that concatenates chunks without extra allocation
-  // Note: This is a virtual view - chunks stay separate in memory
-  const dag = {
-    length: numDAGItems * 16,
-    byteLength: datasetBytes,
-    chunks: dagDataChunks,
+  console.log(`[DAG-GPU] Returning ${dagBuffers.length} DAG buffer(s) ready for Hashimoto`);
+  return { dagBuffers, itemsPerBuffer, dagItems: numDAGItems, dag };
+}
+
+/**
+ * Copy a GPU-resident DAG back to CPU memory (verification, export, persistence)
+ * One staging buffer per DAG buffer; the chunks are kept separate instead of allocating 2.56+ GB at once
+ *
+ * @param dagBuffers DAG buffers in order (from createDAGBuffers)
+ * @param device GPU device
+ * @returns Chunked view of the whole DAG (see chunkedDAGView)
+ */
+export async function readDAGBuffers(dagBuffers: GPUBuffer[], device: GPUDevice): Promise<Uint32Array> {
+  const chunks: Uint32Array[] = [];
+  for (const buffer of dagBuffers) {
+    chunks.push(await readBufferRange(buffer, device, 0, buffer.size));
+  }
+  return chunkedDAGView(chunks, chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+}
+
+/**
+ * Read part of a GPU buffer through a temporary staging buffer
+ */
+async function readBufferRange(buffer: GPUBuffer, device: GPUDevice, offset: number, size: number): Promise<Uint32Array> {
+  const stagingBuffer = device.createBuffer({
+    size,
+    usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+  });
+
+  try {
+    const encoder = device.createCommandEncoder();
+    encoder.copyBufferToBuffer(buffer, offset, stagingBuffer, 0, size);
+    device.queue.submit([encoder.finish()]);
+
+    await stagingBuffer.mapAsync(GPUMapMode.READ);
+    const data = new Uint32Array(stagingBuffer.getMappedRange()).slice();
+    stagingBuffer.unmap();
+    return data;
+  } finally {
+    stagingBuffer.destroy();
+  }
+}
+
+/**
+ * Array-like view over a DAG held as separate chunks (no multi-GB allocation)
+ * Only length, byteLength and subarray() are supported; subarray() copies when it crosses chunks
+ *
+ * @param chunks DAG chunks in order, all the same length except the last
+ * @param totalLength Total u32 count
+ */
+export function chunkedDAGView(chunks: Uint32Array[], totalLength: number): Uint32Array {
+  return {
+    length: totalLength,
+    byteLength: totalLength * 4,
+    chunks,
     // Implement array-like access for compatibility
     subarray(start: number, end?: number) {
-      // This is only used for buffer slicing during setup
-      const chunkSize = dagDataChunks[0].length;
+      const chunkSize = chunks[0].length;
       const chunkIdx = Math.floor(start / chunkSize);
       const offsetInChunk = start % chunkSize;
       const actualEnd = end ?? this.length;
       const length = actualEnd - start;
 
-      if (chunkIdx >= dagDataChunks.length) {
+      if (chunkIdx >= chunks.length) {
         return new Uint32Array(0);
       }
 
       // Simple case: within single chunk
       if (Math.floor((actualEnd - 1) / chunkSize) === chunkIdx) {
-        return dagDataChunks[chunkIdx].subarray(offsetInChunk, offsetInChunk + length);
+        return chunks[chunkIdx].subarray(offsetInChunk, offsetInChunk + length);
       }
 
       // Cross-chunk case: need to allocate
@@ -294,10 +322,10 @@ export async function generateDAGGPU(
       let currentChunk = chunkIdx;
       let currentOffset = offsetInChunk;
 
-      while (remaining > 0 && currentChunk < dagDataChunks.length) {
-        const available = dagDataChunks[currentChunk].length - currentOffset;
+      while (remaining > 0 && currentChunk < chunks.length) {
+        const available = chunks[currentChunk].length - currentOffset;
         const toCopy = Math.min(remaining, available);
-        result.set(dagDataChunks[currentChunk].subarray(currentOffset, currentOffset + toCopy), resultOffset);
+        result.set(chunks[currentChunk].subarray(currentOffset, currentOffset + toCopy), resultOffset);
         resultOffset += toCopy;
         remaining -= toCopy;
         currentChunk++;
@@ -307,7 +335,4 @@ export async function generateDAGGPU(
       return result;
     }
   } as any as Uint32Array;
-
-  console.log(`[DAG-GPU] Returning ${dagBuffers.length} DAG buffer(s) ready for Hashimoto`);
-  return { dag, dagBuffers };
 }
@@ -0,0 +1,16 @@
+/**
+ * GPU device in Node through the `webgpu` package (Dawn)
+ * Node only - browsers use createGPUDevice from device-helper.ts with navigator.gpu
+ */
+
+import { create, globals } from 'webgpu';
+import { createGPUDevice } from './device-helper';
+
+/**
+ * @param dawnOptions Dawn toggles, e.g. 'enable-dawn-features=dump_shaders' or 'adapter=<name>'
+ */
+export function createNodeGPUDevice(dawnOptions: string[] = []): Promise<GPUDevice> {
+  // GPUBufferUsage, GPUMapMode, GPUShaderStage, ... are globals in browsers
+  Object.assign(globalThis, globals);
+  return createGPUDevice(create(dawnOptions));
+}
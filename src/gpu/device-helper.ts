@@ -5,8 +5,11 @@
  * For 6GB DAG on 4080 Super with 16GB VRAM, we request 6GB limits explicitly.
  */
 
-export async function createGPUDevice(): Promise<GPUDevice> {
-  const adapter = await navigator.gpu?.requestAdapter();
+/**
+ * @param gpu WebGPU entry point (defaults to navigator.gpu; Node passes the `webgpu` package's, see device-helper-node.ts)
+ */
+export async function createGPUDevice(gpu: GPU | undefined = globalThis.navigator?.gpu): Promise<GPUDevice> {
+  const adapter = await gpu?.requestAdapter();
   if (!adapter) {
     throw new Error('WebGPU not available');
   }
@@ -25,6 +28,8 @@ export async function createGPUDevice(): Promise<GPUDevice> {
       requiredLimits: {
         maxBufferSize: adapter.limits.maxBufferSize,
         maxStorageBufferBindingSize: adapter.limits.maxStorageBufferBindingSize,
+        // A DAG split into N buffers binds N + 5 storage buffers (see hashimoto.ts)
+        maxStorageBuffersPerShaderStage: adapter.limits.maxStorageBuffersPerShaderStage,
       },
     });
 
@@ -4,7 +4,10 @@
  * Massively reduces GPU→CPU transfer bandwidth by only returning winning nonces
  */
 
-import difficultyFilterShader from '../compute/difficulty-filter-shader.wgsl?raw';
+import { composeShader, compileShader } from './shader-modules';
+
+// Hashes per workgroup (WORKGROUP_SIZE in difficulty-filter-shader.wgsl)
+const WORKGROUP_SIZE = 32;
 
 export interface FilterResult {
   validNonces: Uint8Array[]; // Winning nonces (8 bytes each)
@@ -13,6 +16,13 @@ export interface FilterResult {
   timeMs: number;
 }
 
+/**
+ * Composed difficulty filter shader
+ */
+export function difficultyFilterShaderSource(): string {
+  return composeShader('difficulty-filter-shader', { constants: { WORKGROUP_SIZE } });
+}
+
 /**
  * Run GPU difficulty filter on batch of hashes
  *
@@ -36,12 +46,16 @@ export async function runDifficultyFilterGPU(
 
   const numHashes = hashes.length;
 
+  // Compiled before anything is allocated: a shader error throws
+  const shaderModule = await compileShader(device, difficultyFilterShaderSource(), 'difficulty-filter-shader');
+
   // Convert hashes to u32 array (8 u32s per hash = 32 bytes)
+  // Ethereum compares the hash as a big-endian integer; the shader's u256 words are least significant first
   const hashesU32Data = new Uint32Array(numHashes * 8);
   for (let i = 0; i < numHashes; i++) {
     const hashView = new DataView(hashes[i].buffer, hashes[i].byteOffset, 32);
     for (let j = 0; j < 8; j++) {
-      hashesU32Data[i * 8 + j] = hashView.getUint32(j * 4, true);
+      hashesU32Data[i * 8 + j] = hashView.getUint32((7 - j) * 4, false);
     }
   }
 
@@ -109,7 +123,6 @@ export async function runDifficultyFilterGPU(
   paramsBuffer.unmap();
 
   // Create compute pipeline
-  const shaderModule = device.createShaderModule({ code: difficultyFilterShader });
   const pipeline = device.createComputePipeline({
     layout: 'auto',
     compute: { module: shaderModule, entryPoint: 'main' },
@@ -133,7 +146,7 @@ export async function runDifficultyFilterGPU(
   passEncoder.setPipeline(pipeline);
   passEncoder.setBindGroup(0, bindGroup);
 
-  const workgroupsNeeded = Math.ceil(numHashes / 32);
+  const workgroupsNeeded = Math.ceil(numHashes / WORKGROUP_SIZE);
   passEncoder.dispatchWorkgroups(workgroupsNeeded, 1, 1);
   passEncoder.end();
 
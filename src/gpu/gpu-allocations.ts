@@ -0,0 +1,72 @@
+/**
+ * GPU Allocation Tracker
+ * Counts the live GPUBuffers created on a device, so leaks across epoch changes and
+ * start/stop cycles show up in stats and tests
+ *
+ * Tracking wraps device.createBuffer and each buffer's destroy(); buffers created
+ * before trackGPUAllocations() is called are not counted.
+ */
+
+export interface GPUAllocationSnapshot {
+  buffers: number;  // Live (not yet destroyed) buffers
+  bytes: number;    // Their total size
+}
+
+export class GPUAllocationTracker {
+  private live = new Map<GPUBuffer, number>();  // Buffer → size in bytes
+  private liveBytes = 0;
+
+  /** @internal Use trackGPUAllocations() */
+  constructor(device: GPUDevice) {
+    const createBuffer = device.createBuffer.bind(device);
+
+    device.createBuffer = (descriptor: GPUBufferDescriptor): GPUBuffer => {
+      const buffer = createBuffer(descriptor);
+      this.live.set(buffer, descriptor.size);
+      this.liveBytes += descriptor.size;
+
+      const destroy = buffer.destroy.bind(buffer);
+      buffer.destroy = () => {
+        const size = this.live.get(buffer);
+        if (size !== undefined) {
+          this.live.delete(buffer);
+          this.liveBytes -= size;
+        }
+        destroy();
+      };
+
+      return buffer;
+    };
+  }
+
+  /**
+   * Current live buffer count and bytes
+   */
+  snapshot(): GPUAllocationSnapshot {
+    return { buffers: this.live.size, bytes: this.liveBytes };
+  }
+
+  /**
+   * Live buffers by label (unlabelled buffers show as '(unlabelled)'), for leak reports
+   */
+  liveBuffers(): { label: string; size: number }[] {
+    return [...this.live].map(([buffer, size]) => ({ label: buffer.label || '(unlabelled)', size }));
+  }
+}
+
+const trackers = new WeakMap<GPUDevice, GPUAllocationTracker>();
+
+/**
+ * Start tracking a device's buffer allocations (idempotent: one tracker per device)
+ *
+ * @param device GPU device
+ * @returns The device's tracker
+ */
+export function trackGPUAllocations(device: GPUDevice): GPUAllocationTracker {
+  let tracker = trackers.get(device);
+  if (!tracker) {
+    tracker = new GPUAllocationTracker(device);
+    trackers.set(device, tracker);
+  }
+  return tracker;
+}
@@ -3,27 +3,32 @@
  * Orchestrates cache + DAG transfer and Hashimoto mining on GPU
  */
 
-import hashimotoShader1Buffer from '../compute/hashimoto-shader.wgsl?raw';
-import hashimotoShader2Buffer from '../compute/hashimoto-shader-2buffer.wgsl?raw';
-import keccak512Shader from '../compute/keccak-512-shader.wgsl?raw';
-import keccak256Shader from '../compute/keccak-256-shader.wgsl?raw';
-import fnvShader from '../compute/fnv-shader.wgsl?raw';
-import { generateCache } from '../crypto/ethash-reference';
-import { generateDAGGPU } from './dag-builder';
+import { generateCache, hashimotoLight, isMainnetEpoch, resolveEpochParams, EpochParams } from '../crypto/ethash-reference';
+import { generateDAGGPU, createDAGBuffers, readDAGBuffers } from './dag-builder';
+import { EpochInfo, EpochLike } from '../mining/epoch-manager';
+import { HASH_BYTES, datasetSize } from '../crypto/ethash-sizes';
+import { EpochArtifactStore } from '../storage/artifact-store';
 import { runDifficultyFilterGPU } from './difficulty-filter';
+import { composeShader, compileShader } from './shader-modules';
 
 export interface HashimotoResult {
   nonce: Uint8Array;
   hash: Uint8Array;
+  mixDigest: Uint8Array;  // Compressed mix (cmix), submitted alongside the nonce
 }
 
 export interface HashimotoSetup {
+  epoch: EpochInfo;            // Dataset/seed epoch this cache + DAG were built for
   cache: Uint32Array;
-  dag: Uint32Array;
   cacheBuffer: GPUBuffer;
 
-  // Multi-buffer DAG support (for DAGs > 2.15 GB)
-  dagBuffers: GPUBuffer[];     // Array of DAG buffers (1 for epoch 0-127, 2 for ETC)
+  // The DAG is GPU-resident only: layout here, contents via readDAG()
+  dagItems: number;            // 64-byte DAG items
+  dagBytes: number;            // Full DAG size
+  accesses: number;            // DAG pages read per hash (EthashParams; 64 on mainnet)
+
+  // Multi-buffer DAG support (for DAGs > maxStorageBufferBindingSize)
+  dagBuffers: GPUBuffer[];     // Array of DAG buffers (1 for epoch 0-127, 2+ for ETC or small binding limits)
   dagItemsPerBuffer: number;   // How many DAG items per buffer
   numDAGBuffers: number;       // Total number of buffers
 
@@ -36,16 +41,43 @@ export interface HashimotoSetup {
     headerHashBuffer: GPUBuffer;
     noncesBuffer: GPUBuffer;
     hashesBuffer: GPUBuffer;
+    mixDigestsBuffer: GPUBuffer;
     paramsBuffer: GPUBuffer;
     stagingBuffer: GPUBuffer;
+    mixStagingBuffer: GPUBuffer;
+    // Fused mining kernel output: only nonces meeting the target (runHashimotoRangeGPU),
+    // one slot per range batch that can be in flight
+    maxCandidates: number;
+    candidateSlots: CandidateSlot[];
     // Cached pipeline to avoid recompilation
     pipeline: GPUComputePipeline;
   };
+
+  // Copy the DAG back to CPU memory (multi-GB: verification/export only, not needed to mine)
+  readDAG(): Promise<Uint32Array>;
+
+  // Free the cache, DAG and reusable buffers; the setup can't be used afterwards
+  dispose(): void;
+}
+
+export interface CandidateSlot {
+  candidatesBuffer: GPUBuffer;
+  candidatesStagingBuffer: GPUBuffer;
+  busy: boolean;  // A range batch is using it
+}
+
+/**
+ * Options for createReusableBuffers
+ */
+export interface ReusableBufferOptions {
+  maxCandidates?: number;  // Winners per batch the fused mining kernel can return (default 256)
+  pipelineDepth?: number;  // Range batches that can be in flight at once (default 1)
 }
 
 export interface HashimotoBatchResult {
   results: HashimotoResult[];
   timeMs: number;
+  aborted?: boolean;  // Signal fired mid-batch: results are empty and no filter ran
   // Optional: difficulty filter results (if difficulty threshold provided)
   filterResult?: {
     validNonces: Uint8Array[];
@@ -55,8 +87,22 @@ export interface HashimotoBatchResult {
   };
 }
 
+export interface HashimotoWinner {
+  nonce: bigint;          // 64-bit nonce (submitted as 8 bytes big-endian)
+  hash: Uint8Array;
+  mixDigest: Uint8Array;
+}
+
+export interface HashimotoRangeResult {
+  winners: HashimotoWinner[];  // Nonces in the range whose hash meets the target (in no particular order)
+  dropped: number;             // Further winners that didn't fit the candidate buffer
+  timeMs: number;
+  aborted?: boolean;           // Signal fired mid-batch: winners are empty
+}
+
 /**
  * Configuration for Hashimoto mining
+ * (MiningCoordinator sizes its own batches: see its MiningConfig and batch-tuner.ts)
  */
 export interface MiningConfig {
   // Batch size: number of nonces to process per GPU kernel launch
@@ -73,27 +119,210 @@ export const DEFAULT_MINING_CONFIG: MiningConfig = {
   batchSize: 10_000, // Process 10k nonces per batch
 };
 
+// Nonces per workgroup (WORKGROUP_SIZE in hashimoto-shader*.wgsl)
+export const HASHIMOTO_WORKGROUP_SIZE = 256;
+
+// HashimotoParams uniform (hashimoto-shader*.wgsl): 9 u32, then the 256-bit target at byte 48 (vec4-aligned)
+const PARAMS_BYTES = 80;
+
+// Candidates buffer (hashimoto-shader*.wgsl): u32 count, then per candidate nonce (2 u32), mix digest (8), hash (8)
+const CANDIDATE_WORDS = 18;
+const DEFAULT_MAX_CANDIDATES = 256;
+
+const NONCE_MASK = (1n << 64n) - 1n;
+const MAX_TARGET = (1n << 256n) - 1n;
+
+function candidatesBytes(maxCandidates: number): number {
+  return 4 + maxCandidates * CANDIDATE_WORDS * 4;
+}
+
+/**
+ * Fused mining mode: nonces derived from a start nonce, only hashes meeting the target written out
+ */
+export interface MiningParams {
+  startNonce: bigint;
+  target: bigint;
+  maxCandidates: number;
+}
+
+/**
+ * Pack the HashimotoParams uniform (the whole PARAMS_BYTES block, accesses included)
+ * Without mining params the shader reads each nonce from the nonces buffer and writes every result
+ */
+export function hashimotoParams(setup: HashimotoSetup, numNonces: number, mining?: MiningParams): Uint32Array<ArrayBuffer> {
+  const params = new Uint32Array(PARAMS_BYTES / 4);
+  params[0] = numNonces;                // num_nonces
+  params[1] = setup.dagItems;           // dag_items
+  params[2] = setup.dagItemsPerBuffer;  // items_per_buffer (used by the split DAG shader)
+  params[8] = setup.accesses;           // accesses
+  if (mining) {
+    const { startNonce, maxCandidates } = mining;
+    const target = mining.target > MAX_TARGET ? MAX_TARGET : mining.target;
+
+    params[3] = 1;                                          // nonce_mode: start_nonce + index
+    params[4] = Number(startNonce & 0xffffffffn);           // start_nonce_lo
+    params[5] = Number((startNonce >> 32n) & 0xffffffffn);  // start_nonce_hi
+    params[6] = 1;                                          // output_mode: candidates only
+    params[7] = maxCandidates;                              // max_candidates
+    for (let i = 0; i < 8; i++) {
+      params[12 + i] = Number((target >> BigInt(224 - i * 32)) & 0xffffffffn);  // target, most significant word first
+    }
+  }
+  return params;
+}
+
+// Storage buffers bound besides the extra DAG buffers: header, nonces, dag_buffer_0, hashes, mix digests, candidates
+const FIXED_STORAGE_BUFFERS = 6;
+
+/**
+ * Composed Hashimoto shader for a DAG in numDAGBuffers buffers
+ * One buffer uses hashimoto-shader.wgsl; more use hashimoto-shader-split.wgsl with a generated
+ * dag-buffers module: a group 1 binding per extra buffer and a load_dag_item() that switches on
+ * the buffer holding the item
+ */
+export function hashimotoShaderSource(numDAGBuffers: number): string {
+  const constants = { WORKGROUP_SIZE: HASHIMOTO_WORKGROUP_SIZE };
+  if (numDAGBuffers === 1) {
+    return composeShader('hashimoto-shader', { constants });
+  }
+
+  const bindings = Array.from({ length: numDAGBuffers - 1 }, (_, i) =>
+    `@group(1) @binding(${i}) var<storage, read> dag_buffer_${i + 1}: array<u32>;`
+  );
+
+  // WGSL needs a default case: the last buffer takes it
+  const cases = Array.from({ length: numDAGBuffers }, (_, i) => [
+    `    case ${i}u${i === numDAGBuffers - 1 ? ', default' : ''}: {`,
+    `      for (var j = 0u; j < 16u; j = j + 1u) {`,
+    `        dag_item[j] = dag_buffer_${i}[offset + j];`,
+    `      }`,
+    `    }`,
+  ].join('\n'));
+
+  const loadDagItem = [
+    `// DAG item (16 words) from whichever buffer holds it`,
+    `fn load_dag_item(item: u32) -> array<u32, 16> {`,
+    `  let offset = (item % params.items_per_buffer) * 16u;`,
+    `  var dag_item: array<u32, 16>;`,
+    `  switch (item / params.items_per_buffer) {`,
+    ...cases,
+    `  }`,
+    `  return dag_item;`,
+    `}`,
+  ];
+
+  return composeShader('hashimoto-shader-split', {
+    constants,
+    modules: { 'dag-buffers': [...bindings, '', ...loadDagItem].join('\n') },
+  });
+}
+
+/**
+ * Bind group layouts for the Hashimoto shader: group 0 as in the shaders, plus group 1 with
+ * one binding per DAG buffer after the first
+ * Throws if the device can't bind that many storage buffers in one shader stage
+ */
+function hashimotoBindGroupLayouts(device: GPUDevice, numDAGBuffers: number): GPUBindGroupLayout[] {
+  const storageBuffers = FIXED_STORAGE_BUFFERS + numDAGBuffers - 1;
+  if (storageBuffers > device.limits.maxStorageBuffersPerShaderStage) {
+    throw new Error(
+      `A DAG split into ${numDAGBuffers} buffers needs ${storageBuffers} storage buffers per shader stage, ` +
+      `the device allows ${device.limits.maxStorageBuffersPerShaderStage}`
+    );
+  }
+
+  const bindGroupLayout0 = device.createBindGroupLayout({
+    entries: [
+      { binding: 0, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // header_hash
+      { binding: 1, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // nonces
+      { binding: 3, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // dag / dag_buffer_0
+      { binding: 4, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },           // hashes
+      { binding: 5, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'uniform' } },           // params
+      { binding: 6, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },           // mix_digests
+      { binding: 7, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },           // candidates
+    ],
+  });
+
+  if (numDAGBuffers === 1) {
+    return [bindGroupLayout0];
+  }
+
+  const bindGroupLayout1 = device.createBindGroupLayout({
+    // dag_buffer_1 .. dag_buffer_N-1
+    entries: Array.from({ length: numDAGBuffers - 1 }, (_, i): GPUBindGroupLayoutEntry => (
+      { binding: i, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }
+    )),
+  });
+  return [bindGroupLayout0, bindGroupLayout1];
+}
+
+/**
+ * Compile the Hashimoto pipeline for a DAG in numDAGBuffers buffers
+ * Throws if the device can't bind that many buffers or the shader doesn't compile
+ */
+async function createHashimotoPipeline(device: GPUDevice, numDAGBuffers: number): Promise<GPUComputePipeline> {
+  const bindGroupLayouts = hashimotoBindGroupLayouts(device, numDAGBuffers);
+  const label = numDAGBuffers === 1 ? 'hashimoto-shader' : `hashimoto-shader-split-${numDAGBuffers}`;
+  const module = await compileShader(device, hashimotoShaderSource(numDAGBuffers), label);
+
+  return device.createComputePipeline({
+    label,
+    layout: device.createPipelineLayout({ bindGroupLayouts }),
+    compute: { module, entryPoint: 'main' },
+  });
+}
+
+/**
+ * Options for setupHashimotoGPU
+ */
+export interface HashimotoSetupOptions {
+  // Load the cache/DAG from here when stored, and save whatever had to be generated
+  // (mainnet parameters only: the store is keyed by epoch)
+  store?: EpochArtifactStore;
+  // Split the DAG into buffers of at most this size instead of maxStorageBufferBindingSize
+  // (tests use it to force 3- and 4-way splits on a small DAG)
+  maxDAGBufferBytes?: number;
+}
+
 /**
  * Setup Hashimoto on GPU for an epoch
- * - Generate cache and DAG
+ * - Generate cache and DAG (or load them from the artifact store)
  * - Transfer to GPU memory (keep resident)
  * - Create buffers
  *
- * @param epoch Epoch number
+ * @param epoch Plain Ethash epoch number, resolved epoch (see epoch-manager), or explicit parameters
+ *              (getEpochParams with EthashParams, e.g. a tiny test epoch)
  * @param device GPU device
+ * @param options Optional artifact store
  * @returns Setup object with buffers
  */
 export async function setupHashimotoGPU(
-  epoch: number,
-  device: GPUDevice
+  epoch: EpochLike | EpochParams,
+  device: GPUDevice,
+  options: HashimotoSetupOptions = {}
 ): Promise<HashimotoSetup> {
-  // Generate cache on CPU
-  console.log(`Generating cache for epoch ${epoch}...`);
-  const cache = await generateCache(epoch);
-  console.log(`✓ Cache: ${(cache.byteLength / 1024 / 1024).toFixed(2)} MB`);
+  const params = resolveEpochParams(epoch);
+  const epochInfo = params.epoch;
+  const { datasetEpoch } = epochInfo;
+  const { maxDAGBufferBytes } = options;
+  const store = isMainnetEpoch(params) ? options.store : undefined;
+
+  // Load cache from storage, or generate it on CPU
+  let cache: Uint32Array | null = store ? await store.loadCache(epochInfo) : null;
+  const cacheFromStore = cache !== null;
+
+  if (cache) {
+    console.log(`✓ Cache loaded from storage: ${(cache.byteLength / 1024 / 1024).toFixed(2)} MB`);
+  } else {
+    console.log(`Generating cache for epoch ${datasetEpoch}...`);
+    cache = await generateCache(params);
+    console.log(`✓ Cache: ${(cache.byteLength / 1024 / 1024).toFixed(2)} MB`);
+    await store?.saveCache(epochInfo, cache);
+  }
 
   // Create cache GPU buffer
   const cacheBuffer = device.createBuffer({
+    label: 'ethash-cache',
     size: cache.byteLength,
     usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
     mappedAtCreation: true,
@@ -101,170 +330,314 @@ export async function setupHashimotoGPU(
   new Uint32Array(cacheBuffer.getMappedRange()).set(cache);
   cacheBuffer.unmap();
 
-  // Generate DAG on GPU with chunked generation for >2.15 GB
-  console.log(`\nGenerating DAG for epoch ${epoch}...`);
-  let dag: Uint32Array;
+  // A stored DAG is only trusted alongside the cache it was stored with
+  const stored = store && cacheFromStore ? await loadDAGFromStore(epochInfo, device, store, maxDAGBufferBytes) : null;
   let dagBuffers: GPUBuffer[];
 
-  try {
-    const result = await generateDAGGPU(epoch, device, (progress) => {
-      console.log(
-        `  Progress: ${progress.progress}% (${progress.itemsCompleted.toLocaleString()}/${progress.totalItems.toLocaleString()} items, ${progress.itemsPerSecond.toLocaleString()} items/sec)`
-      );
-    });
-    dag = result.dag;
-    dagBuffers = result.dagBuffers;
-  } catch (error) {
-    console.error('DAG generation failed:', error);
-    throw error;
-  }
+  if (stored) {
+    dagBuffers = stored;
+    console.log('✓ DAG loaded from storage');
+  } else {
+    // Generate DAG on GPU with chunked generation for >2.15 GB
+    console.log(`\nGenerating DAG for epoch ${datasetEpoch}...`);
 
-  console.log(`✓ DAG: ${(dag.byteLength / 1024 / 1024 / 1024).toFixed(2)} GB (${dagBuffers.length} buffer(s))`);
+    try {
+      ({ dagBuffers } = await generateDAGGPU(params, device, (progress) => {
+        console.log(
+          `  Progress: ${progress.progress}% (${progress.itemsCompleted.toLocaleString()}/${progress.totalItems.toLocaleString()} items, ${progress.itemsPerSecond.toLocaleString()} items/sec)`
+        );
+      }, cache, false, maxDAGBufferBytes));
+    } catch (error) {
+      console.error('DAG generation failed:', error);
+      cacheBuffer.destroy();
+      throw error;
+    }
+
+    // Persisting needs a temporary CPU copy; it is dropped once written
+    if (store?.options.persistDAG && await store.saveDAG(epochInfo, await readDAGBuffers(dagBuffers, device))) {
+      console.log('✓ DAG saved to storage');
+    }
+  }
 
   // Calculate metadata
-  const dagBytes = dag.byteLength;
+  const dagBytes = params.datasetBytes;
   const dagItems = dagBytes / 64;
   const numBuffers = dagBuffers.length;
   const itemsPerBuffer = Math.ceil(dagItems / numBuffers);
 
-  return {
+  console.log(`✓ DAG: ${(dagBytes / 1024 / 1024 / 1024).toFixed(2)} GB (${numBuffers} buffer(s), GPU-resident)`);
+
+  const setup: HashimotoSetup = {
+    epoch: epochInfo,
     cache,
-    dag,
     cacheBuffer,
+    dagItems,
+    dagBytes,
+    accesses: params.accesses,
     dagBuffers,
     dagItemsPerBuffer: itemsPerBuffer,
     numDAGBuffers: numBuffers,
     dagBuffer: dagBuffers[0], // Backward compatibility
+    readDAG: () => readDAGBuffers(dagBuffers, device),
+    dispose: () => {
+      destroyReusableBuffers(setup);
+      cacheBuffer.destroy();
+      dagBuffers.forEach(buffer => buffer.destroy());
+    },
   };
+  return setup;
+}
+
+/**
+ * Upload a stored DAG straight into fresh DAG buffers
+ * Segments are written across buffer boundaries as needed (stored segment size is independent of the GPU split)
+ *
+ * @returns DAG buffers, or null if the store has no valid DAG (buffers are freed)
+ */
+async function loadDAGFromStore(
+  epoch: EpochInfo,
+  device: GPUDevice,
+  store: EpochArtifactStore,
+  maxBufferBytes?: number
+): Promise<GPUBuffer[] | null> {
+  const datasetBytes = datasetSize(epoch.datasetEpoch);
+  const { dagBuffers, itemsPerBuffer } = createDAGBuffers(datasetBytes, device, maxBufferBytes);
+  const bytesPerBuffer = itemsPerBuffer * HASH_BYTES;
+  let storedBytes = 0;
+
+  const loaded = await store.loadDAG(epoch, (segment, byteOffset) => {
+    let written = 0;
+    while (written < segment.byteLength) {
+      const position = byteOffset + written;
+      const bufferIdx = Math.floor(position / bytesPerBuffer);
+      const offsetInBuffer = position - bufferIdx * bytesPerBuffer;
+      const bytes = Math.min(segment.byteLength - written, bytesPerBuffer - offsetInBuffer);
+      device.queue.writeBuffer(dagBuffers[bufferIdx], offsetInBuffer, segment, written / 4, bytes / 4);
+      written += bytes;
+    }
+    storedBytes += segment.byteLength;
+  });
+
+  if (!loaded || storedBytes !== datasetBytes) {
+    dagBuffers.forEach(buffer => buffer.destroy());
+    return null;
+  }
+
+  return dagBuffers;
 }
 
+// The buffers one Hashimoto dispatch reads and writes (reusable or per batch); candidates are
+// always bound but only read back by the fused mining kernel
+type BatchBuffers =
+  Omit<NonNullable<HashimotoSetup['reusableBuffers']>, 'maxBatchSize' | 'maxCandidates' | 'candidateSlots' | 'pipeline'> &
+  { candidatesBuffer: GPUBuffer; candidatesStagingBuffer?: GPUBuffer };
+
 /**
  * Create reusable buffers for high-performance mining
  * Call this once and reuse buffers across many batches to avoid allocation overhead
  *
+ * The pipeline is compiled first: if the device can't bind the DAG buffers or the shader doesn't
+ * compile, this throws and the setup's earlier reusable buffers are left in place.
+ *
  * @param maxBatchSize Maximum number of nonces per batch
  * @param device GPU device
  * @param setup Hashimoto setup
+ * @param options Candidate capacity and how many range batches can be in flight
  */
-export function createReusableBuffers(
+export async function createReusableBuffers(
   maxBatchSize: number,
   device: GPUDevice,
-  setup: HashimotoSetup
-): void {
+  setup: HashimotoSetup,
+  options: ReusableBufferOptions = {}
+): Promise<void> {
+  const { maxCandidates = DEFAULT_MAX_CANDIDATES, pipelineDepth = 1 } = options;
+
   console.log(`Creating reusable buffers and pipeline for batch size ${maxBatchSize}...`);
 
+  // Compile ONCE per set of buffers (this is expensive), before allocating anything
+  console.log('Compiling GPU shader and creating compute pipeline...');
+  const pipeline = await createHashimotoPipeline(device, setup.numDAGBuffers);
+  console.log('✓ Pipeline compiled and cached');
+
+  if (setup.reusableBuffers?.candidateSlots.some(slot => slot.busy)) {
+    throw new Error('Reusable buffers can\'t be replaced while range batches are in flight');
+  }
+
+  // Replacing an earlier set (e.g. a bigger batch size) must not leak it
+  destroyReusableBuffers(setup);
+
   const headerHashBuffer = device.createBuffer({
+    label: 'hashimoto-header-hash',
     size: 32, // 8 u32
     usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
   });
 
   const noncesBuffer = device.createBuffer({
+    label: 'hashimoto-nonces',
     size: maxBatchSize * 8, // 2 u32 per nonce
     usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
   });
 
   const hashesBuffer = device.createBuffer({
+    label: 'hashimoto-hashes',
     size: maxBatchSize * 32, // 8 u32 per hash
     usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
   });
 
+  const mixDigestsBuffer = device.createBuffer({
+    label: 'hashimoto-mix-digests',
+    size: maxBatchSize * 32, // 8 u32 per mix digest
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+  });
+
   const paramsBuffer = device.createBuffer({
-    size: 16, // vec4<u32>
+    label: 'hashimoto-params',
+    size: PARAMS_BYTES,
     usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
   });
 
   const stagingBuffer = device.createBuffer({
+    label: 'hashimoto-staging',
     size: maxBatchSize * 32,
     usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
   });
 
-  // Create compute pipeline ONCE (this is expensive - shader compilation!)
-  console.log('Compiling GPU shader and creating compute pipeline...');
-
-  // Build combined shader with buffer-count-specific optimizations
-  const lines512 = keccak512Shader.split('\n');
-  const lines256 = keccak256Shader.split('\n');
-
-  let rcStartIdx = 0, rcEndIdx = 0;
-  let keccak512FuncStartIdx = 0, keccak512EndIdx = 0;
-  let keccak256FuncStartIdx = 0, keccak256EndIdx = 0;
+  const mixStagingBuffer = device.createBuffer({
+    label: 'hashimoto-mix-staging',
+    size: maxBatchSize * 32,
+    usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+  });
 
-  for (let i = 0; i < lines512.length; i++) {
-    if (lines512[i].includes('const RC = array<u32, 48>')) {
-      rcStartIdx = i;
-      for (let j = i; j < lines512.length; j++) {
-        if (lines512[j].includes(');')) { rcEndIdx = j; break; }
-      }
-      break;
-    }
-  }
+  // Batches in flight each need their own output and a staging buffer that isn't mapped
+  const candidateSlots: CandidateSlot[] = Array.from({ length: Math.max(1, pipelineDepth) }, (_, i) => ({
+    candidatesBuffer: device.createBuffer({
+      label: `hashimoto-candidates-${i}`,
+      size: candidatesBytes(maxCandidates),
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
+    }),
+    candidatesStagingBuffer: device.createBuffer({
+      label: `hashimoto-candidates-staging-${i}`,
+      size: candidatesBytes(maxCandidates),
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    }),
+    busy: false,
+  }));
 
-  for (let i = 0; i < lines512.length; i++) {
-    if (lines512[i].includes('fn keccak512(')) keccak512FuncStartIdx = i;
-    if (keccak512FuncStartIdx > 0 && lines512[i].includes('return output;')) {
-      keccak512EndIdx = i + 1;
-      break;
-    }
-  }
+  setup.reusableBuffers = {
+    maxBatchSize,
+    headerHashBuffer,
+    noncesBuffer,
+    hashesBuffer,
+    mixDigestsBuffer,
+    paramsBuffer,
+    stagingBuffer,
+    mixStagingBuffer,
+    maxCandidates,
+    candidateSlots,
+    pipeline,
+  };
+}
 
-  for (let i = 0; i < lines256.length; i++) {
-    if (lines256[i].includes('fn keccak256(')) keccak256FuncStartIdx = i;
-    if (keccak256FuncStartIdx > 0 && lines256[i].includes('return output;')) {
-      keccak256EndIdx = i + 1;
-      break;
-    }
+/**
+ * Destroy a setup's reusable buffers, if any (the pipeline is garbage collected)
+ */
+function destroyReusableBuffers(setup: HashimotoSetup): void {
+  if (!setup.reusableBuffers) {
+    return;
   }
 
-  const rcCode = lines512.slice(rcStartIdx, rcEndIdx + 1).join('\n');
-  const keccak512FunctionCode = lines512.slice(keccak512FuncStartIdx, keccak512EndIdx + 1).join('\n');
-  const keccak256FunctionCode = lines256.slice(keccak256FuncStartIdx, keccak256EndIdx + 1).join('\n');
-
-  // Simple shader selection based on buffer count
-  const hashimotoShader = setup.numDAGBuffers === 1 ? hashimotoShader1Buffer : hashimotoShader2Buffer;
-  const combinedShader = fnvShader + '\n\n' + rcCode + '\n\n' + keccak512FunctionCode + '\n\n' + keccak256FunctionCode + '\n\n' + hashimotoShader;
+  const {
+    headerHashBuffer, noncesBuffer, hashesBuffer, mixDigestsBuffer, paramsBuffer, stagingBuffer, mixStagingBuffer,
+    candidateSlots,
+  } = setup.reusableBuffers;
+  [
+    headerHashBuffer, noncesBuffer, hashesBuffer, mixDigestsBuffer, paramsBuffer, stagingBuffer, mixStagingBuffer,
+    ...candidateSlots.flatMap(slot => [slot.candidatesBuffer, slot.candidatesStagingBuffer]),
+  ].forEach(buffer => buffer.destroy());
+  setup.reusableBuffers = undefined;
+}
 
-  const shaderModule = device.createShaderModule({ code: combinedShader });
+/**
+ * Bind a batch's buffers, dispatch one nonce per invocation and queue the copies to the staging buffers
+ * With `candidatesOnly` (fused mining kernel) the candidate count is reset first and only the
+ * candidates buffer is copied back
+ */
+function dispatchHashimoto(
+  device: GPUDevice,
+  setup: HashimotoSetup,
+  pipeline: GPUComputePipeline,
+  bindGroupLayout: GPUBindGroupLayout,
+  buffers: BatchBuffers,
+  numNonces: number,
+  candidatesOnly = false
+): void {
+  const {
+    headerHashBuffer, noncesBuffer, hashesBuffer, mixDigestsBuffer, paramsBuffer, stagingBuffer, mixStagingBuffer,
+    candidatesBuffer, candidatesStagingBuffer,
+  } = buffers;
 
-  // Bind group layouts based on buffer count
-  const bindGroupLayout0 = device.createBindGroupLayout({
+  // Create bind group - NOTE: Binding 2 (cache) is not included since Hashimoto shader doesn't use it
+  // Create bind group 0 (header, nonces, dag_buffer_0, hashes, params, mix_digests, candidates)
+  const bindGroup0 = device.createBindGroup({
+    layout: bindGroupLayout,
     entries: [
-      { binding: 0, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // header_hash
-      { binding: 1, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // nonces
-      { binding: 3, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // dag / dag_buffer_0
-      { binding: 4, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },           // hashes
-      { binding: 5, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'uniform' } },           // params
+      { binding: 0, resource: { buffer: headerHashBuffer } },
+      { binding: 1, resource: { buffer: noncesBuffer } },
+      { binding: 3, resource: { buffer: setup.dagBuffers[0] } },
+      { binding: 4, resource: { buffer: hashesBuffer } },
+      { binding: 5, resource: { buffer: paramsBuffer } },
+      { binding: 6, resource: { buffer: mixDigestsBuffer } },
+      { binding: 7, resource: { buffer: candidatesBuffer } },
     ],
   });
 
-  const bindGroupLayouts: GPUBindGroupLayout[] = [bindGroupLayout0];
-
-  // Add second bind group layout for 2-buffer case
-  if (setup.numDAGBuffers === 2) {
-    const bindGroupLayout1 = device.createBindGroupLayout({
-      entries: [
-        { binding: 0, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // dag_buffer_1
-      ],
+  // Create second bind group for the rest of a split DAG
+  let bindGroup1: GPUBindGroup | null = null;
+  if (setup.numDAGBuffers > 1) {
+    const layout1 = pipeline.getBindGroupLayout(1);
+    bindGroup1 = device.createBindGroup({
+      layout: layout1,
+      entries: setup.dagBuffers.slice(1).map((buffer, i) => ({ binding: i, resource: { buffer } })),
     });
-    bindGroupLayouts.push(bindGroupLayout1);
   }
 
-  const pipelineLayout = device.createPipelineLayout({ bindGroupLayouts });
-  const pipeline = device.createComputePipeline({
-    layout: pipelineLayout,
-    compute: { module: shaderModule, entryPoint: 'main' },
-  });
+  // Execute shader
+  const commandEncoder = device.createCommandEncoder();
+  if (candidatesOnly) {
+    commandEncoder.clearBuffer(candidatesBuffer, 0, 4);  // count
+  }
+  const passEncoder = commandEncoder.beginComputePass();
+  passEncoder.setPipeline(pipeline);
+  passEncoder.setBindGroup(0, bindGroup0);
+  if (bindGroup1) {
+    passEncoder.setBindGroup(1, bindGroup1);
+  }
 
-  console.log('✓ Pipeline compiled and cached');
+  const workgroupsNeeded = Math.ceil(numNonces / HASHIMOTO_WORKGROUP_SIZE);
+  passEncoder.dispatchWorkgroups(workgroupsNeeded, 1, 1);
+  passEncoder.end();
 
-  setup.reusableBuffers = {
-    maxBatchSize,
-    headerHashBuffer,
-    noncesBuffer,
-    hashesBuffer,
-    paramsBuffer,
-    stagingBuffer,
-    pipeline,
-  };
+  // Copy results to staging buffers
+  if (candidatesOnly) {
+    commandEncoder.copyBufferToBuffer(candidatesBuffer, 0, candidatesStagingBuffer!, 0, candidatesBuffer.size);
+  } else {
+    commandEncoder.copyBufferToBuffer(
+      hashesBuffer,
+      0,
+      stagingBuffer,
+      0,
+      numNonces * 32
+    );
+    commandEncoder.copyBufferToBuffer(
+      mixDigestsBuffer,
+      0,
+      mixStagingBuffer,
+      0,
+      numNonces * 32
+    );
+  }
+
+  device.queue.submit([commandEncoder.finish()]);
 }
 
 /**
@@ -272,13 +645,18 @@ export function createReusableBuffers(
  * Processes multiple nonces in parallel
  * Optionally filters results by difficulty threshold
  *
+ * Uploads the given nonces and reads back every result - meant for tests that need arbitrary
+ * nonce lists. Mining should use runHashimotoRangeGPU.
+ *
  * @param headerHash Block header hash (32 bytes)
  * @param nonces Array of nonces (8 bytes each) to process
  * @param device GPU device
  * @param setup Hashimoto setup from setupHashimotoGPU
  * @param config Mining configuration (batch size, etc.)
  * @param difficulty Optional difficulty threshold (as max_hash = 2^256 / difficulty). If provided, applies GPU difficulty filter.
- * @returns Array of (nonce, hash) pairs, optionally with difficulty filter results
+ * @param signal Optional abort signal. Checked before dispatch and after the hash readback;
+ *               once aborted, the remaining readback and the difficulty filter are skipped.
+ * @returns Array of (nonce, hash, mixDigest) results, optionally with difficulty filter results
  */
 export async function runHashimotoBatchGPU(
   headerHash: Uint8Array,
@@ -286,10 +664,15 @@ export async function runHashimotoBatchGPU(
   device: GPUDevice,
   setup: HashimotoSetup,
   config: MiningConfig = DEFAULT_MINING_CONFIG,
-  difficulty?: bigint
+  difficulty?: bigint,
+  signal?: AbortSignal
 ): Promise<HashimotoBatchResult> {
   const startTime = performance.now();
 
+  if (signal?.aborted) {
+    return { results: [], timeMs: 0, aborted: true };
+  }
+
   // Convert inputs to u32 arrays
   const headerHashU32 = new Uint32Array(headerHash.buffer, headerHash.byteOffset, 8);
 
@@ -303,11 +686,18 @@ export async function runHashimotoBatchGPU(
 
   // Use reusable buffers if available, otherwise create new ones
   const useReusable = setup.reusableBuffers && nonces.length <= setup.reusableBuffers.maxBatchSize;
+
+  // Use cached pipeline if available, otherwise compile one (before allocating: it throws on errors)
+  const pipeline = useReusable ? setup.reusableBuffers!.pipeline : await createHashimotoPipeline(device, setup.numDAGBuffers);
+
   let headerHashBuffer: GPUBuffer;
   let noncesBuffer: GPUBuffer;
   let hashesBuffer: GPUBuffer;
+  let mixDigestsBuffer: GPUBuffer;
   let paramsBuffer: GPUBuffer;
   let stagingBuffer: GPUBuffer;
+  let mixStagingBuffer: GPUBuffer;
+  let candidatesBuffer: GPUBuffer;
 
   if (useReusable) {
     // Reuse existing buffers - just update contents
@@ -315,19 +705,17 @@ export async function runHashimotoBatchGPU(
     headerHashBuffer = buffers.headerHashBuffer;
     noncesBuffer = buffers.noncesBuffer;
     hashesBuffer = buffers.hashesBuffer;
+    mixDigestsBuffer = buffers.mixDigestsBuffer;
     paramsBuffer = buffers.paramsBuffer;
     stagingBuffer = buffers.stagingBuffer;
+    mixStagingBuffer = buffers.mixStagingBuffer;
+    candidatesBuffer = buffers.candidateSlots[0].candidatesBuffer;  // Bound but unused: this path writes every hash
 
     // Write data to buffers
     device.queue.writeBuffer(headerHashBuffer, 0, headerHashU32);
     device.queue.writeBuffer(noncesBuffer, 0, noncesU32Data);
 
-    const paramsData = new Uint32Array(4);
-    paramsData[0] = nonces.length;                // num_nonces
-    paramsData[1] = setup.dag.length / 16;        // dag_items
-    paramsData[2] = setup.dagItemsPerBuffer;      // items_per_buffer (used by 2-buffer shader)
-    paramsData[3] = 0;                             // unused
-    device.queue.writeBuffer(paramsBuffer, 0, paramsData);
+    device.queue.writeBuffer(paramsBuffer, 0, hashimotoParams(setup, nonces.length));
   } else {
     // Create new buffers (fallback for non-optimized path)
     headerHashBuffer = device.createBuffer({
@@ -351,247 +739,106 @@ export async function runHashimotoBatchGPU(
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
     });
 
+    mixDigestsBuffer = device.createBuffer({
+      size: nonces.length * 32,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    });
+
     paramsBuffer = device.createBuffer({
-      size: 16,
+      size: PARAMS_BYTES,
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
       mappedAtCreation: true,
     });
-    const paramsData = new Uint32Array(paramsBuffer.getMappedRange());
-    paramsData[0] = nonces.length;                // num_nonces
-    paramsData[1] = setup.dag.length / 16;        // dag_items
-    paramsData[2] = setup.dagItemsPerBuffer;      // items_per_buffer (used by 2-buffer shader)
-    paramsData[3] = 0;                             // unused
+    new Uint32Array(paramsBuffer.getMappedRange()).set(hashimotoParams(setup, nonces.length));
     paramsBuffer.unmap();
 
     stagingBuffer = device.createBuffer({
       size: nonces.length * 32,
       usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
     });
-  }
-
-  // Use cached pipeline if available, otherwise create new one
-  let pipeline: GPUComputePipeline;
-  let bindGroupLayout: GPUBindGroupLayout;
-
-  if (useReusable) {
-    // Reuse cached pipeline
-    pipeline = setup.reusableBuffers!.pipeline;
-    bindGroupLayout = pipeline.getBindGroupLayout(0);
-  } else {
-    // Create compute pipeline with explicit layout to ensure all bindings are preserved
-    // Concatenate Keccak functions from their respective shaders
-    // Extract only the function definitions (not the entry points)
-    const lines512 = keccak512Shader.split('\n');
-    const lines256 = keccak256Shader.split('\n');
-
-  // Find the RC constant definition and function start/end for each shader
-  let rcStartIdx = 0;
-  let rcEndIdx = 0;
-  let keccak512FuncStartIdx = 0;
-  let keccak512EndIdx = 0;
-  let keccak256FuncStartIdx = 0;
-  let keccak256EndIdx = 0;
-
-  // Find RC constant (appears at the start of keccak512 shader)
-  for (let i = 0; i < lines512.length; i++) {
-    if (lines512[i].includes('const RC = array<u32, 48>')) {
-      rcStartIdx = i;
-      // Find the closing of this const (the line with ");")
-      for (let j = i; j < lines512.length; j++) {
-        if (lines512[j].includes(');')) {
-          rcEndIdx = j;
-          break;
-        }
-      }
-      break;
-    }
-  }
-
-  // Find keccak512 function
-  for (let i = 0; i < lines512.length; i++) {
-    if (lines512[i].includes('fn keccak512(')) {
-      keccak512FuncStartIdx = i;
-    }
-    if (keccak512FuncStartIdx > 0 && lines512[i].includes('return output;')) {
-      keccak512EndIdx = i + 1;
-      break;
-    }
-  }
-
-  // Find keccak256 function (we'll skip the RC constant since it's already included from keccak512)
-  for (let i = 0; i < lines256.length; i++) {
-    if (lines256[i].includes('fn keccak256(')) {
-      keccak256FuncStartIdx = i;
-    }
-    if (keccak256FuncStartIdx > 0 && lines256[i].includes('return output;')) {
-      keccak256EndIdx = i + 1;
-      break;
-    }
-  }
 
-  // Build shader code: FNV functions + RC constant (once) + Keccak functions + Hashimoto shader
-  const rcCode = lines512.slice(rcStartIdx, rcEndIdx + 1).join('\n');
-  const keccak512FunctionCode = lines512.slice(keccak512FuncStartIdx, keccak512EndIdx + 1).join('\n');
-  // For keccak256, ONLY extract the function, not the RC constant (to avoid duplicate const declaration)
-  const keccak256FunctionCode = lines256.slice(keccak256FuncStartIdx, keccak256EndIdx + 1).join('\n');
-
-  // Simple shader selection based on buffer count
-  const hashimotoShader = setup.numDAGBuffers === 1 ? hashimotoShader1Buffer : hashimotoShader2Buffer;
-  const combinedShader = fnvShader + '\n\n' + rcCode + '\n\n' + keccak512FunctionCode + '\n\n' + keccak256FunctionCode + '\n\n' + hashimotoShader;
-
-  let shaderModule: GPUShaderModule;
-  try {
-    shaderModule = device.createShaderModule({ code: combinedShader });
-
-    // Check for compilation errors (async - don't wait for now)
-    if (shaderModule.getCompilationInfo) {
-      shaderModule.getCompilationInfo?.().then(info => {
-        for (const msg of info.messages) {
-          if (msg.type === 'error') {
-            console.error(`🔴 SHADER COMPILATION ERROR at line ${msg.lineNum}:`, msg.message);
-          } else if (msg.type === 'warning') {
-            console.warn(`🟡 SHADER WARNING at line ${msg.lineNum}:`, msg.message);
-          }
-        }
-      }).catch(e => console.log('Could not get compilation info:', e));
-    }
-  } catch (error) {
-    console.error('❌ Failed to create shader module:', error);
-    throw error;
-  }
-
-  // Bind group layouts based on buffer count
-  const bindGroupLayout0 = device.createBindGroupLayout({
-    entries: [
-      { binding: 0, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // header_hash
-      { binding: 1, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // nonces
-      { binding: 3, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // dag / dag_buffer_0
-      { binding: 4, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },           // hashes
-      { binding: 5, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'uniform' } },           // params
-    ],
-  });
-
-  const bindGroupLayouts: GPUBindGroupLayout[] = [bindGroupLayout0];
-
-  // Add second bind group layout for 2-buffer case
-  if (setup.numDAGBuffers === 2) {
-    const bindGroupLayout1 = device.createBindGroupLayout({
-      entries: [
-        { binding: 0, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } }, // dag_buffer_1
-      ],
+    mixStagingBuffer = device.createBuffer({
+      size: nonces.length * 32,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
     });
-    bindGroupLayouts.push(bindGroupLayout1);
-  }
 
-  const pipelineLayout = device.createPipelineLayout({ bindGroupLayouts });
-
-    pipeline = device.createComputePipeline({
-      layout: pipelineLayout,
-      compute: { module: shaderModule, entryPoint: 'main' },
+    // Bound but unused: this path writes every hash
+    candidatesBuffer = device.createBuffer({
+      size: candidatesBytes(1),
+      usage: GPUBufferUsage.STORAGE,
     });
+  }
 
+  if (!useReusable) {
     // Log binding information for debugging
-    console.log('Pipeline created successfully');
-    console.log('');
     console.log('Bind group configuration:');
     console.log('  Binding 0 (header_hash): size=' + headerHashBuffer.size + ' bytes (should be 32)');
     console.log('  Binding 1 (nonces): size=' + noncesBuffer.size + ' bytes');
     console.log('  Binding 3 (dag_buffer_0): size=' + setup.dagBuffers[0].size + ' bytes = ' + (setup.dagBuffers[0].size / 1024 / 1024 / 1024).toFixed(2) + 'GB');
     for (let i = 1; i < setup.numDAGBuffers; i++) {
-      console.log('  Group ' + i + ' binding 0 (dag_buffer_' + i + '): size=' + setup.dagBuffers[i].size + ' bytes = ' + (setup.dagBuffers[i].size / 1024 / 1024 / 1024).toFixed(2) + 'GB');
+      console.log('  Group 1 binding ' + (i - 1) + ' (dag_buffer_' + i + '): size=' + setup.dagBuffers[i].size + ' bytes = ' + (setup.dagBuffers[i].size / 1024 / 1024 / 1024).toFixed(2) + 'GB');
     }
     console.log('  Binding 4 (hashes): size=' + hashesBuffer.size + ' bytes (should be ' + (nonces.length * 32) + ')');
     console.log('  Binding 5 (params): size=' + paramsBuffer.size + ' bytes');
-
-    bindGroupLayout = pipeline.getBindGroupLayout(0);
+    console.log('  Binding 6 (mix_digests): size=' + mixDigestsBuffer.size + ' bytes (should be ' + (nonces.length * 32) + ')');
   }
 
-  // Create bind group - NOTE: Binding 2 (cache) is not included since Hashimoto shader doesn't use it
-  // Create bind group 0 (header, nonces, dag_buffer_0, hashes, params)
-  const bindGroup0 = device.createBindGroup({
-    layout: bindGroupLayout,
-    entries: [
-      { binding: 0, resource: { buffer: headerHashBuffer } },
-      { binding: 1, resource: { buffer: noncesBuffer } },
-      { binding: 3, resource: { buffer: setup.dagBuffers[0] } },
-      { binding: 4, resource: { buffer: hashesBuffer } },
-      { binding: 5, resource: { buffer: paramsBuffer } },
-    ],
-  });
-
-  // Create second bind group for 2-buffer case
-  let bindGroup1: GPUBindGroup | null = null;
-  if (setup.numDAGBuffers === 2) {
-    const layout1 = pipeline.getBindGroupLayout(1);
-    bindGroup1 = device.createBindGroup({
-      layout: layout1,
-      entries: [
-        { binding: 0, resource: { buffer: setup.dagBuffers[1] } },
-      ],
-    });
-  }
+  dispatchHashimoto(device, setup, pipeline, pipeline.getBindGroupLayout(0), {
+    headerHashBuffer, noncesBuffer, hashesBuffer, mixDigestsBuffer, paramsBuffer, stagingBuffer, mixStagingBuffer, candidatesBuffer,
+  }, nonces.length);
 
-  console.log(`✓ Created ${setup.numDAGBuffers} bind group(s)`);
-
-  // Execute shader
-  const commandEncoder = device.createCommandEncoder();
-  const passEncoder = commandEncoder.beginComputePass();
-  passEncoder.setPipeline(pipeline);
-  passEncoder.setBindGroup(0, bindGroup0);
-  if (bindGroup1) {
-    passEncoder.setBindGroup(1, bindGroup1);
-  }
+  const destroyBatchBuffers = () => {
+    headerHashBuffer.destroy();
+    noncesBuffer.destroy();
+    hashesBuffer.destroy();
+    mixDigestsBuffer.destroy();
+    paramsBuffer.destroy();
+    stagingBuffer.destroy();
+    mixStagingBuffer.destroy();
+    candidatesBuffer.destroy();
+  };
 
-  const workgroupsNeeded = Math.ceil(nonces.length / 256);  // Match shader workgroup_size
-  passEncoder.dispatchWorkgroups(workgroupsNeeded, 1, 1);
-  passEncoder.end();
+  // Read results (map only the range written by this batch)
+  await stagingBuffer.mapAsync(GPUMapMode.READ, 0, nonces.length * 32);
+  const hashesData = new Uint32Array(stagingBuffer.getMappedRange(0, nonces.length * 32)).slice();
+  stagingBuffer.unmap();
 
-  // Copy results to staging buffer (only create if not reusing)
-  if (!useReusable) {
-    stagingBuffer = device.createBuffer({
-      size: nonces.length * 32,
-      usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
-    });
+  // Work changed while the GPU was busy - don't spend time on results nobody wants
+  if (signal?.aborted) {
+    if (!useReusable) {
+      destroyBatchBuffers();
+    }
+    return { results: [], timeMs: performance.now() - startTime, aborted: true };
   }
 
-  commandEncoder.copyBufferToBuffer(
-    hashesBuffer,
-    0,
-    stagingBuffer,
-    0,
-    nonces.length * 32
-  );
-
-  device.queue.submit([commandEncoder.finish()]);
+  await mixStagingBuffer.mapAsync(GPUMapMode.READ, 0, nonces.length * 32);
+  const mixData = new Uint32Array(mixStagingBuffer.getMappedRange(0, nonces.length * 32)).slice();
+  mixStagingBuffer.unmap();
 
-  // Read results
-  await stagingBuffer.mapAsync(GPUMapMode.READ);
-  const hashesData = new Uint32Array(stagingBuffer.getMappedRange()).slice();
-  stagingBuffer.unmap();
-
-  // Parse results (final Keccak-256 hash output - 32 bytes)
+  // Parse results (final Keccak-256 hash + compressed mix - 32 bytes each)
   const results: HashimotoResult[] = [];
   for (let i = 0; i < nonces.length; i++) {
     const hashU32 = hashesData.slice(i * 8, (i + 1) * 8);
-    const hashBytes = new Uint8Array(hashU32.buffer, hashU32.byteOffset, 32);
+    const mixU32 = mixData.slice(i * 8, (i + 1) * 8);
     results.push({
       nonce: nonces[i],
-      hash: hashBytes,
+      hash: new Uint8Array(hashU32.buffer, hashU32.byteOffset, 32),
+      mixDigest: new Uint8Array(mixU32.buffer, mixU32.byteOffset, 32),
     });
   }
 
   // Cleanup (only destroy buffers if we created them, not if reusing)
   if (!useReusable) {
-    headerHashBuffer.destroy();
-    noncesBuffer.destroy();
-    hashesBuffer.destroy();
-    paramsBuffer.destroy();
-    stagingBuffer.destroy();
+    destroyBatchBuffers();
   }
 
   const endTime = performance.now();
   const hashimotoTimeMs = endTime - startTime;
 
+  if (signal?.aborted) {
+    return { results: [], timeMs: hashimotoTimeMs, aborted: true };
+  }
+
   // Optionally apply difficulty filter
   let filterResult;
   if (difficulty !== undefined) {
@@ -625,9 +872,105 @@ export async function runHashimotoBatchGPU(
   };
 }
 
+/**
+ * Run the fused mining kernel over a contiguous nonce range on GPU
+ * Each invocation derives its nonce as startNonce + index (wrapping at 2^64) and compares its
+ * hash against the target in the shader; only passing (nonce, mix digest, hash) candidates are
+ * appended to a small buffer, so the readback is a few bytes per batch.
+ *
+ * Uses the setup's reusable buffers, creating (or growing) them if needed. Their maxCandidates
+ * bounds the winners per batch; any beyond it are counted in `dropped`.
+ *
+ * Up to pipelineDepth calls (see createReusableBuffers) can be in flight at once: each dispatch
+ * is queued before the call first awaits (unless it has to create the buffers, which compiles the
+ * pipeline), so the next batch can be submitted while the GPU is still busy with this one.
+ *
+ * @param headerHash Block header hash (32 bytes)
+ * @param startNonce First nonce of the range
+ * @param count Number of nonces
+ * @param device GPU device
+ * @param setup Hashimoto setup from setupHashimotoGPU
+ * @param target Share target (2^256 / difficulty): hashes at or below it win
+ * @param signal Optional abort signal. Checked before dispatch and after the readback.
+ * @returns Winning nonces with their hash and mix digest
+ */
+export async function runHashimotoRangeGPU(
+  headerHash: Uint8Array,
+  startNonce: bigint,
+  count: number,
+  device: GPUDevice,
+  setup: HashimotoSetup,
+  target: bigint,
+  signal?: AbortSignal
+): Promise<HashimotoRangeResult> {
+  const startTime = performance.now();
+
+  if (signal?.aborted) {
+    return { winners: [], dropped: 0, timeMs: 0, aborted: true };
+  }
+
+  const current = setup.reusableBuffers;
+  if (!current || count > current.maxBatchSize) {
+    if (current?.candidateSlots.some(slot => slot.busy)) {
+      throw new Error(`Batch of ${count} nonces exceeds the reusable buffers (${current.maxBatchSize}) while other batches are in flight`);
+    }
+    await createReusableBuffers(count, device, setup, {
+      maxCandidates: current?.maxCandidates,
+      pipelineDepth: current?.candidateSlots.length,
+    });
+  }
+  const buffers = setup.reusableBuffers!;
+  const { maxCandidates } = buffers;
+
+  const slot = buffers.candidateSlots.find(candidateSlot => !candidateSlot.busy);
+  if (!slot) {
+    throw new Error(`All ${buffers.candidateSlots.length} candidate slot(s) are in flight; raise pipelineDepth in createReusableBuffers`);
+  }
+  slot.busy = true;
+
+  // Queue writes are ordered with submits, so the header and params can be shared by batches in flight
+  device.queue.writeBuffer(buffers.headerHashBuffer, 0, new Uint32Array(headerHash.slice(0, 32).buffer));
+  device.queue.writeBuffer(buffers.paramsBuffer, 0, hashimotoParams(setup, count, {
+    startNonce: startNonce & NONCE_MASK,
+    target,
+    maxCandidates,
+  }));
+  dispatchHashimoto(device, setup, buffers.pipeline, buffers.pipeline.getBindGroupLayout(0), { ...buffers, ...slot }, count, true);
+
+  try {
+    await slot.candidatesStagingBuffer.mapAsync(GPUMapMode.READ);
+  } catch (error) {
+    slot.busy = false;
+    throw error;
+  }
+  const data = new Uint32Array(slot.candidatesStagingBuffer.getMappedRange());
+  const found = data[0];
+
+  const winners: HashimotoWinner[] = [];
+  for (let i = 0; i < Math.min(found, maxCandidates); i++) {
+    const offset = 1 + i * CANDIDATE_WORDS;
+    winners.push({
+      nonce: (BigInt(data[offset + 1]) << 32n) | BigInt(data[offset]),
+      mixDigest: new Uint8Array(data.slice(offset + 2, offset + 10).buffer),
+      hash: new Uint8Array(data.slice(offset + 10, offset + 18).buffer),
+    });
+  }
+  slot.candidatesStagingBuffer.unmap();
+  slot.busy = false;
+
+  const timeMs = performance.now() - startTime;
+
+  // Work changed while the GPU was busy
+  if (signal?.aborted) {
+    return { winners: [], dropped: 0, timeMs, aborted: true };
+  }
+
+  return { winners, dropped: found - winners.length, timeMs };
+}
+
 /**
  * Validate GPU Hashimoto against CPU reference
- * Compares GPU results against @ethereumjs/ethash implementation
+ * Compares GPU results against hashimotoLight (crypto/ethash-reference.ts) on the setup's cache
  *
  * @param gpuResults GPU Hashimoto results
  * @param headerHash Block header hash used for mining
@@ -639,18 +982,21 @@ export async function validateHashimotoGPU(
   headerHash: Uint8Array,
   setup: HashimotoSetup
 ): Promise<{ allMatch: boolean; details: string[] }> {
-  const { Ethash } = await import('@ethereumjs/ethash');
-
   const details: string[] = [];
   let allMatch = true;
 
-  // Validate structure first (expecting 32-byte final hash)
+  // Validate structure first (expecting 32-byte final hash and mix digest)
   for (const result of gpuResults) {
     if (result.hash.length !== 32) {
       details.push(`❌ Hash length mismatch: ${result.hash.length} != 32`);
       allMatch = false;
       break;
     }
+    if (result.mixDigest.length !== 32) {
+      details.push(`❌ Mix digest length mismatch: ${result.mixDigest.length} != 32`);
+      allMatch = false;
+      break;
+    }
     if (result.nonce.length !== 8) {
       details.push(`❌ Nonce length mismatch: ${result.nonce.length} != 8`);
       allMatch = false;
@@ -662,34 +1008,31 @@ export async function validateHashimotoGPU(
     return { allMatch, details };
   }
 
-  // Validate against CPU reference
-  const ethash = new Ethash();
-
-  // Setup DAG in ethash instance
-  const cacheArray: Uint8Array[] = [];
-  for (let i = 0; i < setup.cache.length; i += 16) {
-    const itemU32 = setup.cache.slice(i, i + 16);
-    const itemBytes = new Uint8Array(itemU32.buffer, itemU32.byteOffset, 64);
-    cacheArray.push(itemBytes);
-  }
-  ethash.cache = cacheArray;
-  ethash.fullSize = setup.dag.length * 4; // Convert u32 count to bytes
-
-  details.push(`FINAL VALIDATION: Comparing GPU final hash against CPU ethash.run().hash`);
+  details.push(`FINAL VALIDATION: Comparing GPU final hash and mix digest against CPU hashimotoLight()`);
 
   for (let i = 0; i < gpuResults.length; i++) {
     const gpuResult = gpuResults[i];
 
     try {
       // Run CPU reference
-      const cpuResult = ethash.run(headerHash, gpuResult.nonce, ethash.fullSize);
+      const nonce = new DataView(gpuResult.nonce.buffer, gpuResult.nonce.byteOffset, 8).getBigUint64(0, false);
+      const cpuResult = hashimotoLight(setup.cache, setup.dagBytes, headerHash, nonce, setup.accesses);
 
       // Compare final hashes
       const gpu_hash_hex = Array.from(gpuResult.hash)
         .map(b => b.toString(16).padStart(2, '0'))
         .join('');
 
-      const cpu_hash_hex = Array.from(cpuResult.hash)
+      const cpu_hash_hex = Array.from(new Uint8Array(cpuResult.hash.buffer))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+
+      // Compare mix digests
+      const gpu_mix_hex = Array.from(gpuResult.mixDigest)
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+
+      const cpu_mix_hex = Array.from(new Uint8Array(cpuResult.mixDigest.buffer))
         .map(b => b.toString(16).padStart(2, '0'))
         .join('');
 
@@ -702,6 +1045,16 @@ export async function validateHashimotoGPU(
         details.push(`  CPU:  0x${cpu_hash_hex}`);
         allMatch = false;
       }
+
+      if (gpu_mix_hex === cpu_mix_hex) {
+        details.push(`✓ Nonce ${i}: MIX DIGEST MATCH!`);
+        details.push(`  Mix:  0x${gpu_mix_hex}`);
+      } else {
+        details.push(`✗ Nonce ${i}: MIX DIGEST MISMATCH`);
+        details.push(`  GPU:  0x${gpu_mix_hex}`);
+        details.push(`  CPU:  0x${cpu_mix_hex}`);
+        allMatch = false;
+      }
     } catch (error) {
       details.push(`✗ Nonce ${i}: ERROR - ${error instanceof Error ? error.message : String(error)}`);
       allMatch = false;
@@ -0,0 +1,132 @@
+/**
+ * Shader Modules
+ * Assembles every kernel from the WGSL files in compute/: a `//!include <name>` line pulls in
+ * another module (by file name, without .wgsl), each module at most once per shader, so shared
+ * definitions such as the Keccak round constants are declared a single time.
+ *
+ * Per pipeline, composeShader also takes constants (declared ahead of the source, e.g. the
+ * workgroup size) and generated modules (e.g. the bindings for a DAG split across N buffers).
+ * compileShader creates the module and throws on compilation errors instead of leaving them to
+ * show up as an invalid pipeline.
+ */
+
+import fnv from '../compute/fnv.wgsl?raw';
+import keccakConstants from '../compute/keccak-constants.wgsl?raw';
+import keccak512 from '../compute/keccak-512.wgsl?raw';
+import keccak256 from '../compute/keccak-256.wgsl?raw';
+import keccak512Shader from '../compute/keccak-512-shader.wgsl?raw';
+import keccak256Shader from '../compute/keccak-256-shader.wgsl?raw';
+import dagBuilderShader from '../compute/dag-builder-shader.wgsl?raw';
+import hashimotoShader from '../compute/hashimoto-shader.wgsl?raw';
+import hashimotoShaderSplit from '../compute/hashimoto-shader-split.wgsl?raw';
+import difficultyFilterShader from '../compute/difficulty-filter-shader.wgsl?raw';
+
+// Library modules (no entry point) and kernels (*-shader), by file name
+const SHADER_MODULES = new Map<string, string>([
+  ['fnv', fnv],
+  ['keccak-constants', keccakConstants],
+  ['keccak-512', keccak512],
+  ['keccak-256', keccak256],
+  ['keccak-512-shader', keccak512Shader],
+  ['keccak-256-shader', keccak256Shader],
+  ['dag-builder-shader', dagBuilderShader],
+  ['hashimoto-shader', hashimotoShader],
+  ['hashimoto-shader-split', hashimotoShaderSplit],
+  ['difficulty-filter-shader', difficultyFilterShader],
+]);
+
+const INCLUDE = /^\s*\/\/!include\s+(\S+)\s*$/;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface ShaderOptions {
+  // Declared ahead of the source: numbers as u32, booleans as bool
+  constants?: Record<string, number | boolean>;
+  // Modules generated for this pipeline, included by name like the compute/ files (and shadowing them)
+  modules?: Record<string, string>;
+}
+
+function constantDeclaration(name: string, value: number | boolean): string {
+  if (!IDENTIFIER.test(name)) {
+    throw new Error(`Invalid shader constant name "${name}"`);
+  }
+  if (typeof value === 'boolean') {
+    return `const ${name}: bool = ${value};`;
+  }
+  if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+    throw new Error(`Shader constant ${name} = ${value} is not a u32`);
+  }
+  return `const ${name}: u32 = ${value}u;`;
+}
+
+/**
+ * Source of a shader with its includes resolved
+ * Throws on an unknown module or an include cycle
+ *
+ * @param name Module to start from: a compute/ file name without .wgsl, or one of options.modules
+ * @param options Pipeline constants and generated modules
+ */
+export function composeShader(name: string, options: ShaderOptions = {}): string {
+  const { constants = {}, modules = {} } = options;
+  const generated = new Map(Object.entries(modules));
+  const included = new Set<string>();
+
+  const resolve = (moduleName: string, stack: string[]): string => {
+    const source = generated.get(moduleName) ?? SHADER_MODULES.get(moduleName);
+    if (source === undefined) {
+      const from = stack.length ? ` (included from ${stack[stack.length - 1]})` : '';
+      throw new Error(`Unknown shader module "${moduleName}"${from}`);
+    }
+    included.add(moduleName);
+
+    return source.split('\n').map(line => {
+      const include = INCLUDE.exec(line)?.[1];
+      if (include === undefined) {
+        return line;
+      }
+      if (include === moduleName || stack.includes(include)) {
+        throw new Error(`Shader include cycle: ${[...stack, moduleName, include].join(' → ')}`);
+      }
+      // Already pulled in by an earlier include: WGSL declarations are visible module-wide
+      if (included.has(include)) {
+        return `// module ${include}: included above`;
+      }
+      return `// module ${include}\n${resolve(include, [...stack, moduleName])}`;
+    }).join('\n');
+  };
+
+  const declarations = Object.entries(constants).map(([constant, value]) => constantDeclaration(constant, value));
+  const source = resolve(name, []);
+
+  return declarations.length
+    ? ['// Pipeline constants', ...declarations, '', source].join('\n')
+    : source;
+}
+
+/**
+ * Create a shader module and wait for its compilation result
+ * Warnings are logged; errors throw, each with its line of the composed source
+ *
+ * @param device GPU device
+ * @param code Shader source (see composeShader)
+ * @param label Names the shader in errors and GPU debugging tools
+ */
+export async function compileShader(device: GPUDevice, code: string, label: string): Promise<GPUShaderModule> {
+  const module = device.createShaderModule({ label, code });
+  const { messages } = await module.getCompilationInfo();
+  const lines = code.split('\n');
+
+  const describe = (message: GPUCompilationMessage) => {
+    const line = lines[message.lineNum - 1]?.trim();
+    return `${label}:${message.lineNum}:${message.linePos} ${message.message}${line ? `\n    ${line}` : ''}`;
+  };
+
+  for (const message of messages.filter(m => m.type === 'warning')) {
+    console.warn(`Shader warning: ${describe(message)}`);
+  }
+
+  const errors = messages.filter(m => m.type === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Shader ${label} failed to compile:\n${errors.map(describe).join('\n')}`);
+  }
+  return module;
+}
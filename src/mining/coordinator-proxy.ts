@@ -0,0 +1,225 @@
+/**
+ * Mining Coordinator Proxy
+ * Same public API as MiningCoordinator, but the pipeline runs in mining-worker.ts
+ *
+ * The work source stays on this thread (WebSockets, pool connections): new work is
+ * forwarded to the worker, and shares the worker finds are submitted from here.
+ */
+
+import { MiningConfig, MiningStats, DEFAULT_MINING_CONFIG } from './coordinator';
+import { WorkSource } from './work-source';
+import { WorkerEvent, WorkerLike, WorkerRequest } from './worker-protocol';
+
+export class MiningCoordinatorProxy {
+  private workSource: WorkSource;
+  private config: MiningConfig;
+  private worker: WorkerLike;
+
+  private stats: MiningStats = {
+    engine: '',
+    hashrate: 0,
+    sharesFound: 0,
+    sharesAccepted: 0,
+    sharesRejected: 0,
+    sharesStale: 0,
+    hardwareErrors: 0,
+    batchesAborted: 0,
+    currentBlock: 0,
+    currentDifficulty: 0n,
+    uptime: 0,
+    totalHashes: 0,
+    batchSize: 0,
+    epochSwitches: 0,
+    lastEpochSwitchMs: 0,
+    gpuBuffers: 0,
+    gpuBytes: 0,
+  };
+
+  private initialized = false;
+  private mining = false;
+  private unsubscribe?: () => void;
+  private onStatsUpdate?: (stats: MiningStats) => void;
+
+  // Pending initialize() / startMining() / dispose() calls, settled by worker events
+  private initWaiter?: { resolve: () => void; reject: (error: Error) => void };
+  private stopWaiter?: { resolve: () => void; reject: (error: Error) => void };
+  private disposeWaiter?: { resolve: () => void; reject: (error: Error) => void };
+  // Settles when the current mining loop exits, whether it stopped or failed
+  private stopped: Promise<void> = Promise.resolve();
+
+  constructor(
+    workSource: WorkSource,
+    config: MiningConfig = DEFAULT_MINING_CONFIG,
+    worker?: WorkerLike
+  ) {
+    this.workSource = workSource;
+    this.config = config;
+    this.worker = worker ?? new Worker(new URL('./mining-worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event) => this.handleEvent(event.data);
+  }
+
+  /**
+   * Initialize mining: connect the work source, then build cache + DAG in the worker
+   */
+  async initialize(): Promise<void> {
+    await this.workSource.connect();
+    const work = await this.workSource.getWork();
+
+    await new Promise<void>((resolve, reject) => {
+      this.initWaiter = { resolve, reject };
+      this.post({ type: 'init', config: this.config, work });
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Start mining loop (resolves once the worker's loop has stopped)
+   */
+  async startMining(onStatsUpdate?: (stats: MiningStats) => void): Promise<void> {
+    if (this.mining) {
+      console.warn('Mining already in progress');
+      return;
+    }
+
+    if (!this.initialized) {
+      throw new Error('Must call initialize() before startMining()');
+    }
+
+    this.mining = true;
+    this.onStatsUpdate = onStatsUpdate;
+
+    // Forward work pushed by the source
+    if (this.config.autoRestart) {
+      this.unsubscribe = this.workSource.subscribeWork(
+        (work) => this.post({ type: 'work', work }),
+        (mode) => this.post({ type: 'work-mode', mode })
+      );
+    }
+
+    const stopped = new Promise<void>((resolve, reject) => {
+      this.stopWaiter = { resolve, reject };
+      this.post({ type: 'start' });
+    });
+    this.stopped = stopped.catch(() => {});
+
+    try {
+      await stopped;
+    } finally {
+      this.mining = false;
+      this.stopForwarding();
+    }
+  }
+
+  /**
+   * Stop mining
+   * Resolves once the worker has finished its current batch and its loop has exited
+   */
+  async stopMining(): Promise<void> {
+    this.stopForwarding();
+    this.post({ type: 'stop' });
+    await this.stopped;
+  }
+
+  /**
+   * Stop mining, free the worker's GPU buffers and device, then end the worker
+   * getStats() afterwards reports what was still allocated when the device went away
+   */
+  async dispose(): Promise<void> {
+    this.stopForwarding();
+
+    await new Promise<void>((resolve, reject) => {
+      this.disposeWaiter = { resolve, reject };
+      this.post({ type: 'dispose' });
+    });
+
+    this.terminate();
+  }
+
+  /**
+   * Get the latest stats reported by the worker
+   */
+  getStats(): MiningStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Stop the worker thread; the proxy can't be used afterwards
+   */
+  terminate(): void {
+    this.stopForwarding();
+    this.worker.terminate();
+
+    const error = new Error('Mining worker terminated');
+    this.initWaiter?.reject(error);
+    this.stopWaiter?.reject(error);
+    this.disposeWaiter?.reject(error);
+    this.initWaiter = undefined;
+    this.stopWaiter = undefined;
+    this.disposeWaiter = undefined;
+  }
+
+  private post(message: WorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+
+  private stopForwarding(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = undefined;
+    }
+  }
+
+  private handleEvent(event: WorkerEvent): void {
+    switch (event.type) {
+      case 'initialized':
+        this.initWaiter?.resolve();
+        this.initWaiter = undefined;
+        break;
+
+      case 'stats':
+        this.stats = event.stats;
+        this.onStatsUpdate?.(this.getStats());
+        break;
+
+      case 'share-found':
+        this.workSource.submitShare(event.share)
+          .catch((error) => ({ accepted: false, reason: (error as Error).message }))
+          .then((result) => this.post({ type: 'share-result', id: event.id, result }));
+        break;
+
+      case 'log':
+        console[event.level](event.message);
+        break;
+
+      case 'stopped':
+        this.stopWaiter?.resolve();
+        this.stopWaiter = undefined;
+        break;
+
+      case 'disposed':
+        this.stats = { ...this.stats, gpuBuffers: event.allocations.buffers, gpuBytes: event.allocations.bytes };
+        this.disposeWaiter?.resolve();
+        this.disposeWaiter = undefined;
+        break;
+
+      case 'error': {
+        // Whichever call is waiting fails; otherwise just report it
+        const error = new Error(event.message);
+        if (this.initWaiter) {
+          this.initWaiter.reject(error);
+          this.initWaiter = undefined;
+        } else if (this.disposeWaiter) {
+          this.disposeWaiter.reject(error);
+          this.disposeWaiter = undefined;
+        } else if (this.stopWaiter) {
+          this.stopWaiter.reject(error);
+          this.stopWaiter = undefined;
+        } else {
+          console.error(`Mining worker error: ${event.message}`);
+        }
+        break;
+      }
+    }
+  }
+}
@@ -1,57 +1,137 @@
 /**
  * Mining Coordinator
- * Orchestrates the full mining pipeline: RPC → DAG setup → GPU mining → submission
+ * Orchestrates the full mining pipeline: work source → DAG setup → mining (WebGPU, or any
+ * HashimotoBackend) → submission
  */
 
-import { ETCClient, WorkPackage, hexToBytes, bytesToHex, hexToBigInt, difficultyToTarget } from '../rpc/etc-client';
-import { setupHashimotoGPU, runHashimotoBatchGPU, HashimotoSetup, createReusableBuffers } from '../gpu/hashimoto';
-import { getEpochFromSeedHash, hasEpochChanged } from './epoch-manager';
+import { WorkPackage, WorkUpdateMode, hexToBytes, bytesToHex, hexToBigInt, bigIntToHex, difficultyToTarget } from '../rpc/etc-client';
+import { HashimotoWinner, HashimotoRangeResult } from '../gpu/hashimoto';
+import { BatchTuning } from '../gpu/batch-tuner';
+import { LightVerifier } from '../crypto/ethash-light';
+import { getEpochFromSeedHash, getEpochForBlock, hasEpochChanged, EpochInfo, EpochNetwork, ETC_MAINNET } from './epoch-manager';
+import { WorkSource } from './work-source';
+import { HashimotoBackend, EpochSetup, WebGPUBackend } from './hashimoto-backend';
+import { EpochArtifactStore, ArtifactStoreOptions, OPFSArtifactBackend } from '../storage/artifact-store';
 
 export interface MiningStats {
-  hashrate: number;          // Hashes per second
+  engine: string;            // The backend hashing (e.g. "WebGPU", "WASM SIMD (8 threads)")
+  hashrate: number;          // Hashes per second (wall-clock, last ~10s)
+  threadHashrates?: number[]; // Per CPU thread, hashes per second while hashing (multi-threaded backends)
   sharesFound: number;       // Total winning shares found
   sharesAccepted: number;    // Shares accepted by network
   sharesRejected: number;    // Shares rejected by network
+  sharesStale: number;       // Shares found for work that had already been replaced
+  hardwareErrors: number;    // GPU candidates that failed CPU verification (never submitted)
+  batchesAborted: number;    // Batches cut short because new work arrived
   currentBlock: number;      // Current block number
   currentDifficulty: bigint; // Current network difficulty
   uptime: number;            // Mining uptime in seconds
   totalHashes: number;       // Total hashes computed
+  batchSize: number;         // Nonces per GPU batch in use (configured or auto-tuned; 0 until tuned)
+  batchTuning?: BatchTuning; // Last auto-tune: chosen size and the dispatch times measured per size
+  workUpdateMode?: WorkUpdateMode; // How new work is detected (sources that report it)
+  epochSwitches: number;     // Epoch changes handled since start
+  lastEpochSwitchMs: number; // Downtime of the last epoch change: new-epoch work received → mining it
+  pregeneratedEpoch?: number; // Next dataset epoch, once its DAG is ready in the background
+  gpuBuffers: number;        // Live GPU buffers on the mining device (0 on CPU backends)
+  gpuBytes: number;          // Their total size in bytes
 }
 
 export interface MiningConfig {
-  batchSize: number;         // Nonces per GPU batch (default: 1,000,000)
+  batchSize: number | 'auto'; // Nonces per GPU batch, or tuned on the GPU at start and after each epoch change (default: 'auto')
+  targetDispatchMs: number;  // Auto-tune: largest batch whose dispatch stays under this (default: 50)
   maxBatchSize: number;      // Max batch size for reusable buffers (default: 1,000,000)
+  pipelineDepth: number;     // Batches kept in flight, each with its own candidate buffers (default: 2)
   reportInterval: number;    // Stats reporting interval in ms (default: 10000)
-  autoRestart: boolean;      // Auto-restart on new block (default: true)
+  autoRestart: boolean;      // Switch to new work as the source pushes it (default: true)
+  submitStaleShares: boolean; // Submit stale shares with their own header instead of dropping them (default: false)
+  network: EpochNetwork;     // Epoch model for seedHash → epoch (default: ETC mainnet)
+  pregenerateBlocks: number; // Build the next epoch's DAG this many blocks before the boundary, 0 = off (default: 500)
+  artifactStorage?: Partial<ArtifactStoreOptions>; // Persist cache/DAG in OPFS between sessions (default: off)
+  engine?: MiningEngine;     // What mining-worker.ts hashes on (default: 'auto')
+  cpuThreads?: number;       // WASM engine: worker threads (default: navigator.hardwareConcurrency)
 }
 
+/**
+ * 'auto' mines on WebGPU, or on WASM SIMD CPU workers when no GPU adapter is available
+ */
+export type MiningEngine = 'auto' | 'webgpu' | 'wasm';
+
 export const DEFAULT_MINING_CONFIG: MiningConfig = {
-  batchSize: 1_000_000,      // 1M nonces per batch
+  batchSize: 'auto',         // Tuned per GPU, up to maxBatchSize
+  targetDispatchMs: 50,      // Keep the page responsive
   maxBatchSize: 1_000_000,   // 1M max for reusable buffers
+  pipelineDepth: 2,          // Read back one batch while the next runs
   reportInterval: 10_000,    // Report every 10s
-  autoRestart: true,         // Auto-restart on new block
+  autoRestart: true,         // Follow pushed work
+  submitStaleShares: false,  // Drop shares for replaced work
+  network: ETC_MAINNET,      // ETChash from block 11,700,000
+  pregenerateBlocks: 500,    // ~2 hours ahead at 13s blocks
 };
 
+// Hashrate averaging window
+const HASHRATE_WINDOW_MS = 10_000;
+
+// A batch between dispatch and the submission of its shares
+interface InFlightBatch {
+  work: WorkPackage;
+  setup: EpochSetup;
+  abort: AbortController;
+  batchSize: number;
+  done: Promise<void>;
+}
+
 export class MiningCoordinator {
-  private etcClient: ETCClient;
-  private device: GPUDevice;
+  private workSource: WorkSource;
+  private backend: HashimotoBackend;
   private config: MiningConfig;
 
-  private setup?: HashimotoSetup;
-  private currentWork?: WorkPackage;
-  private currentEpoch?: number;
+  private setup?: EpochSetup;
+  private currentWork?: WorkPackage;  // Work the loop is mining
+  private latestWork?: WorkPackage;   // Newest work received (ahead of currentWork while a DAG regenerates)
+  private currentEpoch?: EpochInfo;
+
+  // Next epoch's setup, built in the background near the boundary (resolves null if it didn't fit in VRAM)
+  private nextEpoch?: { epoch: EpochInfo; setup: Promise<EpochSetup | null> };
+  // Epoch change in progress: every handler for new-epoch work waits on the same switch
+  private pendingSwitch?: { epoch: EpochInfo; done: Promise<void> };
+  // Replaced setups, freed once no batch in flight is using them
+  private retiredSetups: EpochSetup[] = [];
+  // Set during a stop-and-rebuild epoch change; the loop waits on it
+  private paused?: Promise<void>;
+  private batches: InFlightBatch[] = [];  // Oldest first
+  private loop?: Promise<void>;
+  // (time, totalHashes) samples for the hashrate window
+  private hashLog: { time: number; totalHashes: number }[] = [];
+  private batchSize: number;
+  // Set when the batch size should be (re-)tuned before the next batch
+  private tuneNeeded: boolean;
+  // Batch-size tuning in progress (it dispatches on the setup it was given, like a batch)
+  private tuning?: Promise<void>;
+  // CPU light verifier for the setup shares were last checked against
+  private verifier?: { setup: EpochSetup; verifier: LightVerifier };
 
   private stats: MiningStats = {
+    engine: '',
     hashrate: 0,
     sharesFound: 0,
     sharesAccepted: 0,
     sharesRejected: 0,
+    sharesStale: 0,
+    hardwareErrors: 0,
+    batchesAborted: 0,
     currentBlock: 0,
     currentDifficulty: 0n,
     uptime: 0,
     totalHashes: 0,
+    batchSize: 0,
+    epochSwitches: 0,
+    lastEpochSwitchMs: 0,
+    gpuBuffers: 0,
+    gpuBytes: 0,
   };
 
+  private disposed = false;
   private mining = false;
   private startTime = 0;
   private unsubscribe?: () => void;
@@ -59,13 +139,29 @@ export class MiningCoordinator {
   private onStatsUpdate?: (stats: MiningStats) => void;
 
   constructor(
-    etcClient: ETCClient,
-    device: GPUDevice,
-    config: MiningConfig = DEFAULT_MINING_CONFIG
+    workSource: WorkSource,
+    backend: HashimotoBackend | GPUDevice,  // A device mines on a WebGPUBackend built from the config
+    config: MiningConfig = DEFAULT_MINING_CONFIG,
+    store?: EpochArtifactStore  // For a device: overrides config.artifactStorage (e.g. a Node file system store)
   ) {
-    this.etcClient = etcClient;
-    this.device = device;
+    this.workSource = workSource;
     this.config = config;
+    this.batchSize = config.batchSize === 'auto' ? 0 : config.batchSize;
+    this.tuneNeeded = config.batchSize === 'auto';
+    this.stats.batchSize = this.batchSize;
+
+    if ('mineRange' in backend) {
+      this.backend = backend;
+    } else {
+      this.backend = new WebGPUBackend(backend, {
+        store: store ?? (config.artifactStorage
+          ? new EpochArtifactStore(new OPFSArtifactBackend(), config.artifactStorage)
+          : undefined),
+        maxBatchSize: config.maxBatchSize,
+        pipelineDepth: config.pipelineDepth,
+      });
+    }
+    this.stats.engine = this.backend.name;
   }
 
   /**
@@ -74,39 +170,41 @@ export class MiningCoordinator {
   async initialize(): Promise<void> {
     console.log('🔧 Initializing mining coordinator...\n');
 
-    // 1. Get current work from network
-    console.log('📡 Fetching current work from ETC network...');
-    this.currentWork = await this.etcClient.getWork();
+    // 1. Get current work from the work source
+    console.log(`📡 Fetching current work from ${this.workSource.name}...`);
+    await this.workSource.connect();
+    this.currentWork = await this.workSource.getWork();
+    this.latestWork = this.currentWork;
 
     console.log(`✓ Work received:`);
     console.log(`  Block: ${this.currentWork.blockNumber}`);
+    if (this.currentWork.jobId !== undefined) {
+      console.log(`  Job: ${this.currentWork.jobId}`);
+    }
     console.log(`  Header: ${this.currentWork.headerHash}`);
     console.log(`  Seed: ${this.currentWork.seedHash}`);
     console.log(`  Target: ${this.currentWork.target}`);
 
     // 2. Determine epoch from seedHash
     console.log('\n🔍 Determining epoch from seedHash...');
-    this.currentEpoch = getEpochFromSeedHash(this.currentWork.seedHash);
+    const epoch = getEpochFromSeedHash(this.currentWork.seedHash, this.config.network);
 
-    if (this.currentEpoch === -1) {
+    if (!epoch) {
       throw new Error('Failed to determine epoch from seedHash');
     }
 
-    console.log(`✓ Epoch: ${this.currentEpoch}`);
+    this.currentEpoch = epoch;
+    console.log(`✓ Epoch: ${epoch.datasetEpoch} (seed epoch ${epoch.seedEpoch}, ${epoch.epochLength.toLocaleString()} blocks/epoch on ${this.config.network.name})`);
 
-    // 3. Generate DAG for this epoch
-    console.log(`\n⚙️ Generating DAG for epoch ${this.currentEpoch}...`);
-    this.setup = await setupHashimotoGPU(this.currentEpoch, this.device);
+    // 3. Generate DAG for this epoch (and, on WebGPU, the reusable buffers for maxBatchSize)
+    console.log(`\n⚙️ Generating DAG for epoch ${epoch.datasetEpoch} (${this.backend.name})...`);
+    this.setup = await this.backend.setupEpoch(this.currentEpoch);
     console.log('✓ DAG generation complete');
 
-    // 4. Create reusable buffers for performance
-    console.log(`\n🔧 Creating reusable buffers (max batch: ${this.config.maxBatchSize.toLocaleString()})...`);
-    createReusableBuffers(this.config.maxBatchSize, this.device, this.setup);
-    console.log('✓ Reusable buffers created');
-
-    // 5. Update stats
+    // 4. Update stats
     this.stats.currentBlock = this.currentWork.blockNumber;
     this.stats.currentDifficulty = hexToBigInt(this.currentWork.target);
+    this.maybePregenerate(this.currentWork);
 
     console.log('\n✅ Initialization complete, ready to mine!\n');
   }
@@ -120,6 +218,10 @@ export class MiningCoordinator {
       return;
     }
 
+    if (this.disposed) {
+      throw new Error('MiningCoordinator has been disposed');
+    }
+
     if (!this.setup || !this.currentWork) {
       throw new Error('Must call initialize() before startMining()');
     }
@@ -131,24 +233,29 @@ export class MiningCoordinator {
 
     console.log('⛏️  Starting mining loop...\n');
 
-    // Subscribe to new blocks
+    // Follow work pushed by the source
     if (this.config.autoRestart) {
-      this.unsubscribe = this.etcClient.subscribeNewBlocks(async (blockHash) => {
-        console.log(`\n🆕 New block detected: ${blockHash}`);
-        await this.handleNewBlock();
-      });
+      this.unsubscribe = this.workSource.subscribeWork(
+        (work) => {
+          this.handleNewWork(work);
+        },
+        (mode) => {
+          console.log(`📡 Work updates: ${mode}`);
+          this.stats.workUpdateMode = mode;
+        }
+      );
     }
 
     // Mining loop
-    while (this.mining) {
-      await this.mineBatch();
-    }
+    this.loop = this.runLoop();
+    await this.loop;
   }
 
   /**
    * Stop mining
+   * Resolves once the batches in flight have finished (and their shares have been submitted)
    */
-  stopMining(): void {
+  async stopMining(): Promise<void> {
     console.log('\n⏸️  Stopping mining...');
     this.mining = false;
 
@@ -157,9 +264,40 @@ export class MiningCoordinator {
       this.unsubscribe = undefined;
     }
 
+    await this.loop;
     console.log('✓ Mining stopped');
   }
 
+  /**
+   * Stop mining and free every GPU buffer the coordinator allocated
+   * (current, replaced and pre-generated setups); the coordinator can't be used afterwards
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+
+    await this.stopMining();
+
+    // An epoch change in progress still allocates; let it finish, then free its result too
+    await this.pendingSwitch?.done.catch(() => {});
+
+    const next = this.nextEpoch;
+    this.nextEpoch = undefined;
+    const pregenerated = next ? await next.setup : null;
+
+    for (const setup of [this.setup, pregenerated, ...this.retiredSetups.splice(0)]) {
+      setup?.dispose();
+    }
+    this.setup = undefined;
+    this.verifier = undefined;
+    this.stats.pregeneratedEpoch = undefined;
+
+    const { buffers, bytes } = this.backend.allocations();
+    console.log(`✓ GPU resources released (${buffers} buffer(s), ${(bytes / 1024 / 1024).toFixed(2)} MB still live on the device)`);
+  }
+
   /**
    * Get current mining stats
    */
@@ -169,34 +307,51 @@ export class MiningCoordinator {
       this.stats.uptime = Math.floor((Date.now() - this.startTime) / 1000);
     }
 
+    const { buffers, bytes } = this.backend.allocations();
+    this.stats.gpuBuffers = buffers;
+    this.stats.gpuBytes = bytes;
+    this.stats.threadHashrates = this.backend.threadHashrates?.();
+
     return { ...this.stats };
   }
 
   /**
-   * Handle new block: fetch new work and restart if epoch changed
+   * Handle new work: switch to it, swapping in the next epoch's setup if the epoch changed
    */
-  private async handleNewBlock(): Promise<void> {
-    try {
-      // Get new work
-      const newWork = await this.etcClient.getWork();
+  private async handleNewWork(newWork: WorkPackage): Promise<void> {
+    this.latestWork = newWork;
 
+    // Whatever the GPU is hashing now is stale - stop it at the next dispatch boundary
+    for (const batch of this.batches) {
+      if (batch.work.headerHash !== newWork.headerHash) {
+        batch.abort.abort();
+      }
+    }
+
+    try {
       // Check if epoch changed
       if (hasEpochChanged(this.currentWork!.seedHash, newWork.seedHash)) {
-        console.log('🔄 Epoch changed, regenerating DAG...');
-
-        const newEpoch = getEpochFromSeedHash(newWork.seedHash);
-        if (newEpoch === -1) {
+        const newEpoch = getEpochFromSeedHash(newWork.seedHash, this.config.network);
+        if (!newEpoch) {
           console.error('Failed to determine new epoch');
           return;
         }
 
-        this.currentEpoch = newEpoch;
-        this.setup = await setupHashimotoGPU(this.currentEpoch, this.device);
-
-        // Recreate reusable buffers for new DAG
-        createReusableBuffers(this.config.maxBatchSize, this.device, this.setup);
+        if (!this.pendingSwitch || !sameEpoch(this.pendingSwitch.epoch, newEpoch)) {
+          const pending = { epoch: newEpoch, done: Promise.resolve() };
+          pending.done = this.switchEpoch(newEpoch, newWork.seedHash).finally(() => {
+            if (this.pendingSwitch === pending) {
+              this.pendingSwitch = undefined;
+            }
+          });
+          this.pendingSwitch = pending;
+        }
+        await this.pendingSwitch.done;
 
-        console.log('✓ DAG regenerated for new epoch');
+        // Newer work arrived during the switch - its handler takes over
+        if (this.latestWork !== newWork || !sameEpoch(this.currentEpoch!, newEpoch)) {
+          return;
+        }
       }
 
       // Update current work
@@ -204,53 +359,235 @@ export class MiningCoordinator {
       this.stats.currentBlock = newWork.blockNumber;
       this.stats.currentDifficulty = hexToBigInt(newWork.target);
 
-      console.log(`✓ Mining updated to block ${newWork.blockNumber}`);
+      console.log(`✓ Mining updated to ${this.describeWork(newWork)}`);
+      this.maybePregenerate(newWork);
     } catch (error) {
-      console.error('Error handling new block:', error);
+      console.error('Error handling new work:', error);
     }
   }
 
   /**
-   * Mine a single batch of nonces
+   * Move mining to a new epoch
+   * Uses the pre-generated setup if there is one, otherwise stops mining and rebuilds
+   *
+   * @param epoch Epoch to switch to
+   * @param seedHash Its seed hash (the latest work with it is mined straight after the swap)
    */
-  private async mineBatch(): Promise<void> {
-    if (!this.setup || !this.currentWork) {
+  private async switchEpoch(epoch: EpochInfo, seedHash: string): Promise<void> {
+    const startTime = performance.now();
+    const next = this.nextEpoch;
+    this.nextEpoch = undefined;
+
+    let setup: EpochSetup | null = null;
+    if (next && sameEpoch(next.epoch, epoch)) {
+      setup = await next.setup;
+    } else if (next) {
+      // Pre-generated for an epoch we didn't end up in
+      next.setup.then(unused => unused?.dispose());
+    }
+
+    let resume: (() => void) | undefined;
+    if (!setup) {
+      console.log(`🔄 Epoch changed, regenerating DAG for epoch ${epoch.datasetEpoch} (mining paused)...`);
+
+      // Stop-and-rebuild: the GPU may not hold two DAGs, so free the current one first
+      this.paused = new Promise(resolve => { resume = resolve; });
+      try {
+        await Promise.all([this.drainBatches(), this.tuning?.catch(() => {})]);
+        if (this.setup) {
+          this.setup.dispose();
+          this.setup = undefined;
+        }
+        setup = await this.backend.setupEpoch(epoch);
+        console.log('✓ DAG regenerated for new epoch');
+      } catch (error) {
+        // Nothing left to mine with
+        this.mining = false;
+        this.paused = undefined;
+        resume!();
+        throw error;
+      }
+    }
+
+    // Atomic swap: setup, epoch and work change together, between two batches
+    if (this.setup) {
+      this.retiredSetups.push(this.setup);
+    }
+    this.setup = setup;
+    this.currentEpoch = epoch;
+    this.tuneNeeded = this.config.batchSize === 'auto';
+    if (this.latestWork && !hasEpochChanged(this.latestWork.seedHash, seedHash)) {
+      this.currentWork = this.latestWork;
+    }
+
+    this.stats.epochSwitches++;
+    this.stats.lastEpochSwitchMs = performance.now() - startTime;
+    this.stats.pregeneratedEpoch = undefined;
+    console.log(`✓ Switched to epoch ${epoch.datasetEpoch} after ${this.stats.lastEpochSwitchMs.toFixed(0)} ms${resume ? '' : ' (pre-generated)'}`);
+
+    if (resume) {
+      this.paused = undefined;
+      resume();
+    }
+  }
+
+  /**
+   * Start building the next epoch's setup once the work is within pregenerateBlocks of the boundary
+   * Needs block numbers (EthereumStratum pools don't report them)
+   */
+  private maybePregenerate(work: WorkPackage): void {
+    if (this.disposed || this.config.pregenerateBlocks <= 0 || !work.blockNumber || !this.currentEpoch || this.nextEpoch || this.pendingSwitch) {
+      return;
+    }
+
+    const { datasetEpoch, epochLength } = getEpochForBlock(work.blockNumber, this.config.network);
+    const boundary = (datasetEpoch + 1) * epochLength;
+    const remaining = boundary - work.blockNumber;
+    if (remaining > this.config.pregenerateBlocks) {
       return;
     }
 
-    // Generate random nonce range (no coordination needed)
-    const nonces = this.generateRandomNonceRange(this.config.batchSize);
+    const next = getEpochForBlock(boundary, this.config.network);
+    if (sameEpoch(next, this.currentEpoch)) {
+      return;
+    }
 
-    // Convert work data
-    const headerHash = hexToBytes(this.currentWork.headerHash);
-    const target = hexToBigInt(this.currentWork.target);
+    console.log(`⏳ ${remaining} blocks to epoch ${next.datasetEpoch}, building its DAG in the background...`);
+    this.nextEpoch = { epoch: next, setup: this.pregenerate(next) };
+  }
 
-    // Mine batch on GPU with difficulty filter
-    const batchStart = performance.now();
+  /**
+   * Build a setup alongside the current one
+   * Resolves null if it doesn't fit in memory (the switch then falls back to stop-and-rebuild)
+   */
+  private async pregenerate(epoch: EpochInfo): Promise<EpochSetup | null> {
+    const startTime = performance.now();
+    let setup: EpochSetup;
+
+    // Backends throw when the second epoch doesn't fit (WebGPU turns its out-of-memory error scope into one)
+    try {
+      setup = await this.backend.setupEpoch(epoch);
+    } catch (error) {
+      console.warn(`⚠️ Could not pre-generate epoch ${epoch.datasetEpoch} (${(error as Error).message}), will rebuild at the boundary`);
+      return null;
+    }
+
+    console.log(`✓ Epoch ${epoch.datasetEpoch} ready in the background (${((performance.now() - startTime) / 1000).toFixed(1)}s)`);
+    this.stats.pregeneratedEpoch = epoch.datasetEpoch;
+    return setup;
+  }
+
+  /**
+   * Keep up to pipelineDepth batches in flight until mining stops
+   * A batch's candidates are read back and submitted while the batches queued behind it run
+   */
+  private async runLoop(): Promise<void> {
+    this.hashLog = [{ time: performance.now(), totalHashes: this.stats.totalHashes }];
 
-    const result = await runHashimotoBatchGPU(
-      headerHash,
-      nonces,
-      this.device,
-      this.setup,
-      { batchSize: this.config.batchSize },
-      target  // GPU automatically filters by difficulty
+    while (this.mining) {
+      // Stop-and-rebuild epoch change in progress (it drains the batches in flight itself)
+      if (this.paused) {
+        await this.paused;
+        continue;
+      }
+
+      // Auto-tune at start and after an epoch change (the DAG size affects the dispatch time)
+      if (this.tuneNeeded && this.setup) {
+        await this.drainBatches();
+        this.tuning = this.tuneBatchSize(this.setup);
+        try {
+          await this.tuning;
+        } finally {
+          this.tuning = undefined;
+        }
+        continue;
+      }
+
+      if (this.batches.length >= Math.max(1, this.config.pipelineDepth)) {
+        await this.batches[0].done;
+        continue;
+      }
+
+      if (!this.startBatch()) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+
+    await this.drainBatches();
+  }
+
+  /**
+   * Queue a batch of nonces for the current work on the backend
+   * On WebGPU the dispatch is submitted before this returns; its results are handled by finishBatch
+   *
+   * @returns false if there's nothing to mine yet
+   */
+  private startBatch(): boolean {
+    if (!this.setup || !this.currentWork) {
+      return false;
+    }
+
+    // Replaced setups are freed once no batch in flight is using them
+    this.retiredSetups = this.retiredSetups.filter(setup => {
+      if (this.batches.some(batch => batch.setup === setup)) {
+        return true;
+      }
+      setup.dispose();
+      return false;
+    });
+
+    // Tag the batch with the work (and setup) it is mined for; new work aborts it (see handleNewWork)
+    const work = this.currentWork;
+    const setup = this.setup;
+    const abort = new AbortController();
+
+    // Pick a random nonce range (no coordination needed); the backend derives the nonces from its start
+    const batchSize = this.batchSize;
+    const startNonce = this.pickRandomNonceRange(batchSize, work.extranonce);
+
+    // Only the hashes that meet the target come back (on WebGPU: checked in the fused kernel)
+    const result = this.backend.mineRange(
+      setup,
+      hexToBytes(work.headerHash),
+      startNonce,
+      batchSize,
+      hexToBigInt(work.target),
+      abort.signal
     );
 
-    const batchTime = performance.now() - batchStart;
+    const batch: InFlightBatch = { work, setup, abort, batchSize, done: Promise.resolve() };
+    batch.done = this.finishBatch(batch, result).finally(() => {
+      this.batches.splice(this.batches.indexOf(batch), 1);
+    });
+    this.batches.push(batch);
+    return true;
+  }
+
+  /**
+   * Handle a batch's results once its readback completes: stats, shares, periodic report
+   */
+  private async finishBatch(batch: InFlightBatch, pending: Promise<HashimotoRangeResult>): Promise<void> {
+    const { work, setup, batchSize } = batch;
+    const result = await pending;
 
-    // Update stats
-    this.stats.totalHashes += this.config.batchSize;
-    this.stats.hashrate = (this.config.batchSize / batchTime) * 1000; // Hashes per second
+    if (result.aborted) {
+      this.stats.batchesAborted++;
+      console.log(`⏭️  Batch for ${this.describeWork(work)} aborted, switching to new work`);
+    } else {
+      this.countHashes(batchSize);
+    }
 
     // Submit any winning shares
-    if (result.filterResult && result.filterResult.validNonces.length > 0) {
-      console.log(`\n🎉 Found ${result.filterResult.validNonces.length} winning share(s)!`);
+    if (result.winners.length > 0) {
+      console.log(`\n🎉 Found ${result.winners.length} winning share(s)!`);
 
-      for (const nonce of result.filterResult.validNonces) {
-        await this.submitShare(nonce, result.results);
+      for (const winner of result.winners) {
+        await this.submitShare(winner, work, setup);
       }
     }
+    if (result.dropped > 0) {
+      console.warn(`  ⚠️ ${result.dropped} more winner(s) didn't fit the candidate buffer (share target too easy for the batch size?)`);
+    }
 
     // Report stats periodically
     if (Date.now() - this.lastReportTime >= this.config.reportInterval) {
@@ -264,63 +601,124 @@ export class MiningCoordinator {
   }
 
   /**
-   * Generate random nonce range
+   * Pick the batch size on the backend (config.batchSize 'auto'), with no other batches in flight
+   */
+  private async tuneBatchSize(setup: EpochSetup): Promise<void> {
+    this.tuneNeeded = false;
+    console.log(`📏 Tuning batch size (target ${this.config.targetDispatchMs} ms per dispatch)...`);
+
+    const tuning = await this.backend.tuneBatchSize(setup, {
+      targetMs: this.config.targetDispatchMs,
+      maxBatchSize: this.config.maxBatchSize,
+    });
+    const chosen = tuning.measurements.find(m => m.batchSize === tuning.batchSize)!;
+
+    this.batchSize = tuning.batchSize;
+    this.stats.batchSize = tuning.batchSize;
+    this.stats.batchTuning = tuning;
+    console.log(`✓ Batch size ${tuning.batchSize.toLocaleString()} (${chosen.timeMs.toFixed(1)} ms per dispatch, ${formatHashrate(chosen.hashrate)})`);
+
+    // Tuning dispatches aren't mining: start the hashrate window afresh
+    this.hashLog = [{ time: performance.now(), totalHashes: this.stats.totalHashes }];
+  }
+
+  /**
+   * Wait for every batch in flight to finish
+   */
+  private async drainBatches(): Promise<void> {
+    await Promise.all(this.batches.map(batch => batch.done));
+  }
+
+  /**
+   * Add finished hashes to the totals and update the hashrate
+   * The hashrate is wall-clock throughput over the last HASHRATE_WINDOW_MS, so overlapping
+   * batches, readbacks and pauses all show up in it (a single batch's time would not)
+   */
+  private countHashes(count: number): void {
+    const now = performance.now();
+    this.stats.totalHashes += count;
+    this.hashLog.push({ time: now, totalHashes: this.stats.totalHashes });
+
+    // Keep one sample from before the window as its start
+    while (this.hashLog.length > 2 && now - this.hashLog[1].time >= HASHRATE_WINDOW_MS) {
+      this.hashLog.shift();
+    }
+
+    const [start] = this.hashLog;
+    if (now > start.time) {
+      this.stats.hashrate = ((this.stats.totalHashes - start.totalHashes) / (now - start.time)) * 1000; // Hashes per second
+    }
+  }
+
+  /**
+   * Pick a random nonce range
    * Uses Math.random() to pick a starting point in the 2^64 nonce space
    * Collision probability is negligible (~0%)
+   *
+   * With a pool extranonce the nonce's leading hex digits are fixed to it
+   * and only the remaining bits are randomized.
+   *
+   * @returns First nonce of a range of `count` nonces
    */
-  private generateRandomNonceRange(count: number): Uint8Array[] {
-    // Pick random starting nonce (use safe integer range)
-    const startNonce = BigInt(Math.floor(Math.random() * Number.MAX_SAFE_INTEGER));
-
-    const nonces: Uint8Array[] = [];
-    for (let i = 0; i < count; i++) {
-      const nonce = startNonce + BigInt(i);
-      const nonceBytes = new Uint8Array(8);
-      const view = new DataView(nonceBytes.buffer);
-      view.setBigUint64(0, nonce, true); // Little-endian
-      nonces.push(nonceBytes);
+  private pickRandomNonceRange(count: number, extranonce = ''): bigint {
+    const freeBits = BigInt(64 - extranonce.length * 4);
+    const freeSpace = 1n << freeBits;
+    const prefix = extranonce ? BigInt('0x' + extranonce) << freeBits : 0n;
+
+    // Pick random starting nonce (use safe integer range), keeping the range inside the free bits
+    let startNonce = BigInt(Math.floor(Math.random() * Number.MAX_SAFE_INTEGER)) % freeSpace;
+    if (startNonce + BigInt(count) > freeSpace) {
+      startNonce = freeSpace > BigInt(count) ? freeSpace - BigInt(count) : 0n;
     }
 
-    return nonces;
+    // The range stays inside the free bits (if the batch fits), so every nonce in it keeps the prefix
+    return prefix | startNonce;
   }
 
   /**
    * Submit a winning share to the network
+   * The GPU result is recomputed on the CPU first; mismatches are counted as hardware errors and dropped.
+   * Shares are always submitted with the header of the work they were mined for;
+   * if that work has been replaced they are dropped unless submitStaleShares is set
    */
-  private async submitShare(nonce: Uint8Array, results: any[]): Promise<void> {
-    if (!this.currentWork) {
+  private async submitShare(winner: HashimotoWinner, work: WorkPackage, setup: EpochSetup): Promise<void> {
+    // Convert to hex strings (big-endian nonce, so the hex starts with the extranonce)
+    const nonceHex = bigIntToHex(winner.nonce, 16);
+    const mixDigestHex = bytesToHex(winner.mixDigest);
+
+    const verification = this.verifierFor(setup).verify(hexToBytes(work.headerHash), hexToBytes(nonceHex), winner, hexToBigInt(work.target));
+    if (!verification.valid) {
+      this.stats.hardwareErrors++;
+      console.warn(`  ⚠️ Hardware error: nonce=${nonceHex} failed CPU verification (${verification.reason}), not submitting`);
       return;
     }
 
-    // Find the corresponding result for this nonce
-    const result = results.find(r => {
-      return r.nonce.every((byte: number, i: number) => byte === nonce[i]);
-    });
+    if (work.headerHash !== this.latestWork?.headerHash) {
+      this.stats.sharesStale++;
 
-    if (!result) {
-      console.error('Could not find result for nonce');
-      return;
+      if (!this.config.submitStaleShares) {
+        console.log(`  ⌛ Dropping stale share for ${this.describeWork(work)}: nonce=${nonceHex}`);
+        this.stats.sharesFound++;
+        return;
+      }
+      console.log(`  ⌛ Share is for replaced ${this.describeWork(work)}, submitting with its own header`);
     }
 
-    // Convert to hex strings
-    const nonceHex = bytesToHex(nonce);
-    const mixDigestHex = bytesToHex(result.hash); // TODO: Extract actual mixDigest from Hashimoto
-
     try {
       console.log(`  Submitting share: nonce=${nonceHex}`);
 
-      const accepted = await this.etcClient.submitWork(
-        nonceHex,
-        this.currentWork.headerHash,
-        mixDigestHex
-      );
+      const result = await this.workSource.submitShare({
+        nonce: nonceHex,
+        headerHash: work.headerHash,
+        mixDigest: mixDigestHex,
+      });
 
-      if (accepted) {
-        console.log('  ✅ Share ACCEPTED by network!');
+      if (result.accepted) {
+        console.log(`  ✅ Share ACCEPTED by ${this.workSource.name}!`);
         this.stats.sharesFound++;
         this.stats.sharesAccepted++;
       } else {
-        console.log('  ❌ Share REJECTED by network');
+        console.log(`  ❌ Share REJECTED by ${this.workSource.name}${result.reason ? `: ${result.reason}` : ''}`);
         this.stats.sharesFound++;
         this.stats.sharesRejected++;
       }
@@ -330,20 +728,49 @@ export class MiningCoordinator {
     }
   }
 
+  /**
+   * Light verifier for a setup's epoch (built on first use, from the cache the setup already holds)
+   */
+  private verifierFor(setup: EpochSetup): LightVerifier {
+    if (this.verifier?.setup !== setup) {
+      this.verifier = { setup, verifier: new LightVerifier(setup.cache, setup.dagBytes, setup.accesses) };
+    }
+    return this.verifier.verifier;
+  }
+
+  /**
+   * Short label for a work package (pools may not report block numbers)
+   */
+  private describeWork(work: WorkPackage): string {
+    return work.jobId !== undefined ? `job ${work.jobId}` : `block ${work.blockNumber}`;
+  }
+
   /**
    * Report current mining stats
    */
   private reportStats(): void {
     const stats = this.getStats();
-    const hashrateM = (stats.hashrate / 1_000_000).toFixed(2);
     const totalHashesM = (stats.totalHashes / 1_000_000).toFixed(2);
 
-    console.log(`\n📊 Mining Stats:`);
-    console.log(`  Hashrate: ${hashrateM} MH/s`);
+    console.log(`\n📊 Mining Stats (${stats.engine}):`);
+    console.log(`  Hashrate: ${formatHashrate(stats.hashrate)}`);
+    if (stats.threadHashrates) {
+      console.log(`  Per thread: ${stats.threadHashrates.map(formatHashrate).join(', ')}`);
+    }
     console.log(`  Total hashes: ${totalHashesM}M`);
-    console.log(`  Shares: ${stats.sharesAccepted} accepted, ${stats.sharesRejected} rejected`);
+    console.log(`  Batch size: ${stats.batchSize.toLocaleString()}${stats.batchTuning ? ` (tuned for ${stats.batchTuning.targetMs} ms)` : ''}`);
+    console.log(`  Shares: ${stats.sharesAccepted} accepted, ${stats.sharesRejected} rejected, ${stats.sharesStale} stale`);
+    if (stats.hardwareErrors > 0) {
+      console.log(`  Hardware errors: ${stats.hardwareErrors}`);
+    }
     console.log(`  Block: ${stats.currentBlock}`);
     console.log(`  Uptime: ${this.formatUptime(stats.uptime)}`);
+    if (stats.workUpdateMode) {
+      console.log(`  Work updates: ${stats.workUpdateMode}`);
+    }
+    if (stats.epochSwitches > 0) {
+      console.log(`  Epoch switches: ${stats.epochSwitches} (last took ${stats.lastEpochSwitchMs.toFixed(0)} ms)`);
+    }
   }
 
   /**
@@ -363,3 +790,20 @@ export class MiningCoordinator {
     }
   }
 }
+
+/**
+ * A hashrate in the largest unit that keeps it above 1 (H/s up to GH/s)
+ */
+export function formatHashrate(hashrate: number): string {
+  const units = ['H/s', 'kH/s', 'MH/s', 'GH/s'];
+  let unit = 0;
+  while (unit < units.length - 1 && hashrate >= 1000) {
+    hashrate /= 1000;
+    unit++;
+  }
+  return `${hashrate.toFixed(2)} ${units[unit]}`;
+}
+
+function sameEpoch(a: EpochInfo, b: EpochInfo): boolean {
+  return a.datasetEpoch === b.datasetEpoch && a.seedEpoch === b.seedEpoch;
+}
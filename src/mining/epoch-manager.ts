@@ -1,33 +1,104 @@
 /**
- * Epoch Management for Ethash
+ * Epoch Management for Ethash / ETChash
  * Handles epoch calculation and seedHash derivation
  */
 
 import { keccak256 } from 'js-sha3';
+import { cacheSize, datasetSize } from '../crypto/ethash-sizes';
 
 /**
  * Ethereum Classic epoch calculation
- * ETC uses 60,000 blocks per epoch after the Thanos fork
+ * ETC uses 60,000 blocks per epoch after the Thanos fork (ECIP-1099)
  */
 export const BLOCKS_PER_EPOCH_ETC = 60000;
 
 /**
  * Ethereum epoch calculation (pre-merge)
  * ETH used 30,000 blocks per epoch
+ * Also the unit seed hashes are counted in, before and after ECIP-1099
  */
 export const BLOCKS_PER_EPOCH_ETH = 30000;
 
 /**
- * Cache for seedHash → epoch lookups
+ * Network epoch model
+ * ETChash (ECIP-1099) doubles the epoch length from the activation block onwards
+ */
+export interface EpochNetwork {
+  name: string;
+  ecip1099Block: number | null;  // ETChash activation block (null = plain Ethash)
+}
+
+export const ETC_MAINNET: EpochNetwork = {
+  name: 'mainnet',
+  ecip1099Block: 11_700_000,  // Thanos
+};
+
+export const ETC_MORDOR: EpochNetwork = {
+  name: 'mordor',
+  ecip1099Block: 2_520_000,
+};
+
+export const ETHASH_NETWORK: EpochNetwork = {
+  name: 'ethash',
+  ecip1099Block: null,
+};
+
+/**
+ * Resolved epoch
+ * - datasetEpoch: sizes the cache and DAG
+ * - seedEpoch: number of Keccak-256 iterations behind the seedHash
+ * The two are equal under plain Ethash; after ECIP-1099, seedEpoch = 2 * datasetEpoch
+ */
+export interface EpochInfo {
+  datasetEpoch: number;
+  seedEpoch: number;
+  epochLength: number;  // Blocks per epoch (30,000 or 60,000)
+}
+
+/**
+ * Epoch argument accepted by cache/DAG setup
+ * A bare number is a plain Ethash epoch (30,000-block, seedEpoch = datasetEpoch)
+ */
+export type EpochLike = number | EpochInfo;
+
+/**
+ * Cache for seedHash → seedEpoch lookups
  * Avoids recomputing iterative Keccak-256 for known seeds
  */
 const seedHashCache = new Map<string, number>();
 
 /**
- * Reverse cache for epoch → seedHash lookups
+ * Reverse cache for seedEpoch → seedHash lookups
  */
 const epochSeedCache = new Map<number, string>();
 
+/**
+ * Resolve an epoch argument into dataset/seed epochs
+ *
+ * @param epoch Plain Ethash epoch number or resolved epoch
+ * @returns Resolved epoch
+ */
+export function resolveEpoch(epoch: EpochLike): EpochInfo {
+  if (typeof epoch === 'number') {
+    return { datasetEpoch: epoch, seedEpoch: epoch, epochLength: BLOCKS_PER_EPOCH_ETH };
+  }
+  return epoch;
+}
+
+/**
+ * Get epoch length in effect at a block
+ *
+ * @param blockNumber Block number
+ * @param network Network epoch model (default: ETC mainnet)
+ * @returns Blocks per epoch (30,000 before ECIP-1099, 60,000 from activation)
+ */
+export function getEpochLength(blockNumber: number, network: EpochNetwork = ETC_MAINNET): number {
+  if (network.ecip1099Block !== null && blockNumber >= network.ecip1099Block) {
+    return BLOCKS_PER_EPOCH_ETC;
+  }
+  return BLOCKS_PER_EPOCH_ETH;
+}
+
 /**
  * Get epoch number from block number
  * Uses ETC epoch length by default (60,000 blocks)
@@ -43,23 +114,64 @@ export function getEpochFromBlockNumber(
   return Math.floor(blockNumber / blocksPerEpoch);
 }
 
+/**
+ * Get resolved epoch for a block on a network
+ * Seed epoch follows core-geth: seed of the epoch's first block, counted in 30,000-block steps
+ *
+ * @param blockNumber Block number
+ * @param network Network epoch model (default: ETC mainnet)
+ * @returns Resolved epoch
+ */
+export function getEpochForBlock(blockNumber: number, network: EpochNetwork = ETC_MAINNET): EpochInfo {
+  const epochLength = getEpochLength(blockNumber, network);
+  const datasetEpoch = getEpochFromBlockNumber(blockNumber, epochLength);
+  const seedEpoch = Math.floor((datasetEpoch * epochLength + 1) / BLOCKS_PER_EPOCH_ETH);
+
+  return { datasetEpoch, seedEpoch, epochLength };
+}
+
+/**
+ * Get resolved epoch for a seed epoch on a network
+ * Seed epochs at or past the activation block belong to 60,000-block epochs
+ *
+ * @param seedEpoch Number of Keccak-256 iterations behind the seedHash
+ * @param network Network epoch model (default: ETC mainnet)
+ * @returns Resolved epoch, or null if the seed cannot occur on this network
+ */
+export function getEpochForSeedEpoch(seedEpoch: number, network: EpochNetwork = ETC_MAINNET): EpochInfo | null {
+  const firstBlock = seedEpoch * BLOCKS_PER_EPOCH_ETH;
+
+  if (getEpochLength(firstBlock, network) === BLOCKS_PER_EPOCH_ETH) {
+    return { datasetEpoch: seedEpoch, seedEpoch, epochLength: BLOCKS_PER_EPOCH_ETH };
+  }
+
+  // ETChash epochs start on every other 30,000-block boundary
+  if (seedEpoch % 2 !== 0) {
+    return null;
+  }
+
+  return { datasetEpoch: seedEpoch / 2, seedEpoch, epochLength: BLOCKS_PER_EPOCH_ETC };
+}
+
 /**
  * Get seedHash for a given epoch
  * SeedHash is computed by iteratively applying Keccak-256:
- * - Epoch 0: 0x00...00 (32 zero bytes)
- * - Epoch N: Keccak-256(seedHash[N-1])
+ * - Seed epoch 0: 0x00...00 (32 zero bytes)
+ * - Seed epoch N: Keccak-256(seedHash[N-1])
  *
- * @param epoch Epoch number
+ * @param epoch Plain Ethash epoch number or resolved epoch (uses its seedEpoch)
  * @returns Seed hash as 0x-prefixed hex string
  */
-export function getSeedHashForEpoch(epoch: number): string {
+export function getSeedHashForEpoch(epoch: EpochLike): string {
+  const { seedEpoch } = resolveEpoch(epoch);
+
   // Check cache first
-  if (epochSeedCache.has(epoch)) {
-    return epochSeedCache.get(epoch)!;
+  if (epochSeedCache.has(seedEpoch)) {
+    return epochSeedCache.get(seedEpoch)!;
   }
 
   // Epoch 0 seed is 32 zero bytes
-  if (epoch === 0) {
+  if (seedEpoch === 0) {
     const seed = '0x' + '00'.repeat(32);
     epochSeedCache.set(0, seed);
     seedHashCache.set(seed, 0);
@@ -69,7 +181,7 @@ export function getSeedHashForEpoch(epoch: number): string {
   // Compute iteratively from epoch 0
   let seed = new Uint8Array(32); // Start with zeros
 
-  for (let i = 0; i < epoch; i++) {
+  for (let i = 0; i < seedEpoch; i++) {
     // Keccak-256(seed)
     const hashHex = keccak256(seed);
     seed = hexToBytes(hashHex);
@@ -78,21 +190,26 @@ export function getSeedHashForEpoch(epoch: number): string {
   const seedHex = '0x' + bytesToHex(seed);
 
   // Cache results
-  epochSeedCache.set(epoch, seedHex);
-  seedHashCache.set(seedHex, epoch);
+  epochSeedCache.set(seedEpoch, seedHex);
+  seedHashCache.set(seedHex, seedEpoch);
 
   return seedHex;
 }
 
 /**
- * Get epoch number from seedHash
+ * Get epoch from seedHash
  * Uses cache if available, otherwise computes iteratively
  *
  * @param seedHash Seed hash as 0x-prefixed hex string
- * @param maxEpoch Maximum epoch to check (default: 1000, ~6 years for ETC)
- * @returns Epoch number, or -1 if not found
+ * @param network Network epoch model (default: ETC mainnet)
+ * @param maxSeedEpoch Maximum seed epoch to check (default: 1000, ~30M blocks)
+ * @returns Resolved epoch, or null if not found
  */
-export function getEpochFromSeedHash(seedHash: string, maxEpoch: number = 1000): number {
+export function getEpochFromSeedHash(
+  seedHash: string,
+  network: EpochNetwork = ETC_MAINNET,
+  maxSeedEpoch: number = 1000
+): EpochInfo | null {
   // Normalize seedHash (ensure 0x prefix and lowercase)
   const normalizedSeed = seedHash.toLowerCase().startsWith('0x')
     ? seedHash.toLowerCase()
@@ -100,22 +217,22 @@ export function getEpochFromSeedHash(seedHash: string, maxEpoch: number = 1000):
 
   // Check cache first
   if (seedHashCache.has(normalizedSeed)) {
-    return seedHashCache.get(normalizedSeed)!;
+    return resolveSeedEpoch(seedHash, seedHashCache.get(normalizedSeed)!, network);
   }
 
   // Compute iteratively from epoch 0
   let seed = new Uint8Array(32); // Epoch 0: zeros
 
-  for (let epoch = 0; epoch <= maxEpoch; epoch++) {
+  for (let seedEpoch = 0; seedEpoch <= maxSeedEpoch; seedEpoch++) {
     const currentSeedHex = '0x' + bytesToHex(seed);
 
     // Cache this result
-    epochSeedCache.set(epoch, currentSeedHex);
-    seedHashCache.set(currentSeedHex, epoch);
+    epochSeedCache.set(seedEpoch, currentSeedHex);
+    seedHashCache.set(currentSeedHex, seedEpoch);
 
     // Check if this matches our target
     if (currentSeedHex === normalizedSeed) {
-      return epoch;
+      return resolveSeedEpoch(seedHash, seedEpoch, network);
     }
 
     // Compute next seed: Keccak-256(current)
@@ -123,8 +240,19 @@ export function getEpochFromSeedHash(seedHash: string, maxEpoch: number = 1000):
     seed = hexToBytes(hashHex);
   }
 
-  console.warn(`Could not find epoch for seedHash ${seedHash} (searched up to epoch ${maxEpoch})`);
-  return -1;
+  console.warn(`Could not find epoch for seedHash ${seedHash} (searched up to seed epoch ${maxSeedEpoch})`);
+  return null;
+}
+
+/**
+ * Helper: Map a found seed epoch onto the network, warning if it cannot occur there
+ */
+function resolveSeedEpoch(seedHash: string, seedEpoch: number, network: EpochNetwork): EpochInfo | null {
+  const epoch = getEpochForSeedEpoch(seedEpoch, network);
+  if (!epoch) {
+    console.warn(`SeedHash ${seedHash} (seed epoch ${seedEpoch}) is not an epoch boundary on ${network.name}`);
+  }
+  return epoch;
 }
 
 /**
@@ -139,45 +267,34 @@ export function hasEpochChanged(currentSeed: string, newSeed: string): boolean {
  * Useful for sanity checking RPC data
  */
 export function validateEpoch(
-  epoch: number,
+  epoch: EpochInfo,
   blockNumber: number,
-  blocksPerEpoch: number = BLOCKS_PER_EPOCH_ETC
+  network: EpochNetwork = ETC_MAINNET
 ): boolean {
-  const expectedEpoch = getEpochFromBlockNumber(blockNumber, blocksPerEpoch);
-  return epoch === expectedEpoch;
+  const expected = getEpochForBlock(blockNumber, network);
+  return epoch.datasetEpoch === expected.datasetEpoch && epoch.seedEpoch === expected.seedEpoch;
 }
 
 /**
  * Get expected DAG size for an epoch
- * This is an approximation based on the Ethash spec
+ * Spec-exact (prime-rounded) size from crypto/ethash-sizes
  *
- * @param epoch Epoch number
+ * @param epoch Dataset epoch number
  * @returns DAG size in bytes
  */
 export function getExpectedDAGSize(epoch: number): number {
-  // Ethash DAG size formula (approximate):
-  // Initial size: 1 GB (epoch 0)
-  // Growth: ~8 MB per epoch
-  const INITIAL_SIZE = 1073739904; // ~1 GB
-  const GROWTH_PER_EPOCH = 8388608; // ~8 MB
-
-  return INITIAL_SIZE + (epoch * GROWTH_PER_EPOCH);
+  return datasetSize(epoch);
 }
 
 /**
  * Get expected cache size for an epoch
+ * Spec-exact (prime-rounded) size from crypto/ethash-sizes
  *
- * @param epoch Epoch number
+ * @param epoch Dataset epoch number
  * @returns Cache size in bytes
  */
 export function getExpectedCacheSize(epoch: number): number {
-  // Ethash cache size formula (approximate):
-  // Initial size: 16 MB (epoch 0)
-  // Growth: ~128 KB per epoch
-  const INITIAL_SIZE = 16776896; // ~16 MB
-  const GROWTH_PER_EPOCH = 131072; // ~128 KB
-
-  return INITIAL_SIZE + (epoch * GROWTH_PER_EPOCH);
+  return cacheSize(epoch);
 }
 
 /**
@@ -0,0 +1,329 @@
+/**
+ * Hashimoto Backends
+ * The seam between MiningCoordinator and whatever hashes the nonces:
+ * WebGPU (the miner), WebAssembly SIMD workers on the CPU (the fallback without WebGPU), or a
+ * pure-TypeScript CPU reference for CI and tests. Every backend takes EthashParams, so on tiny
+ * test epochs a full mine → verify → submit round trip takes seconds
+ */
+
+import { setupHashimotoGPU, createReusableBuffers, runHashimotoRangeGPU, HashimotoSetup, HashimotoRangeResult, HashimotoWinner } from '../gpu/hashimoto';
+import { tuneBatchSize, tuneBatchSizeGPU, BatchTuning, BatchTuningOptions } from '../gpu/batch-tuner';
+import { trackGPUAllocations, GPUAllocationSnapshot, GPUAllocationTracker } from '../gpu/gpu-allocations';
+import { meetsTarget } from '../crypto/ethash-light';
+import { calcDatasetItem, generateCache, getEpochParams, hashimotoFull, hashimotoLight, EthashParams } from '../crypto/ethash-reference';
+import { HASH_BYTES } from '../crypto/ethash-sizes';
+import { EpochArtifactStore } from '../storage/artifact-store';
+import { wasmSIMDSupported } from '../wasm/ethash-wasm';
+import { WasmWorkerPool, WasmPoolOptions, WasmEpoch } from '../wasm/wasm-pool';
+import { EpochInfo } from './epoch-manager';
+
+/**
+ * An epoch's cache and dataset as a backend holds them, ready to mine
+ */
+export interface EpochSetup {
+  readonly epoch: EpochInfo;
+  readonly cache: Uint32Array;  // Epoch cache (shares are re-checked against it on the CPU)
+  readonly dagBytes: number;    // Dataset size the cache expands to
+  readonly accesses: number;    // Dataset pages read per hash
+  /** Free what the backend holds for the epoch; the setup can't be used afterwards */
+  dispose(): void;
+}
+
+export interface HashimotoBackend<Setup extends EpochSetup = EpochSetup> {
+  /** Short label for logs */
+  readonly name: string;
+
+  /**
+   * Build (or load) an epoch's cache and dataset
+   * Throws if it can't, including when it doesn't fit in memory (pre-generation relies on that)
+   */
+  setupEpoch(epoch: EpochInfo): Promise<Setup>;
+
+  /**
+   * Hash `count` nonces from startNonce (wrapping at 2^64) and return those meeting the target
+   * Several calls can be in flight at once; a fired signal resolves with aborted set
+   */
+  mineRange(
+    setup: Setup,
+    headerHash: Uint8Array,
+    startNonce: bigint,
+    count: number,
+    target: bigint,
+    signal?: AbortSignal
+  ): Promise<HashimotoRangeResult>;
+
+  /** Largest batch size that stays under options.targetMs, with no other batches in flight */
+  tuneBatchSize(setup: Setup, options: Partial<BatchTuningOptions>): Promise<BatchTuning>;
+
+  /** Live GPU buffers the backend's device holds (zero for CPU backends) */
+  allocations(): GPUAllocationSnapshot;
+
+  /** Hashrate of each CPU thread (hashes per second while hashing), for backends that run several */
+  threadHashrates?(): number[];
+}
+
+/**
+ * Options for WebGPUBackend
+ */
+export interface WebGPUBackendOptions {
+  store?: EpochArtifactStore;  // Load cache/DAG from here when stored, save what had to be generated
+  maxBatchSize: number;        // Reusable buffers are sized for this many nonces per batch
+  pipelineDepth: number;       // Batches in flight, each with its own candidate buffers
+  ethash?: EthashParams;       // Algorithm parameters (default: mainnet; the store is only used for those)
+}
+
+/**
+ * Mining on a WebGPU device (see gpu/hashimoto.ts)
+ */
+export class WebGPUBackend implements HashimotoBackend<HashimotoSetup> {
+  readonly name = 'WebGPU';
+  private device: GPUDevice;
+  private options: WebGPUBackendOptions;
+  private tracker: GPUAllocationTracker;
+
+  constructor(device: GPUDevice, options: WebGPUBackendOptions) {
+    this.device = device;
+    this.options = options;
+    this.tracker = trackGPUAllocations(device);
+  }
+
+  async setupEpoch(epoch: EpochInfo): Promise<HashimotoSetup> {
+    const { store, maxBatchSize, pipelineDepth, ethash } = this.options;
+    let setup: HashimotoSetup | undefined;
+    let failure: unknown;
+
+    // WebGPU doesn't report free VRAM: an allocation that doesn't fit shows up in an error scope, not as a throw
+    this.device.pushErrorScope('out-of-memory');
+    try {
+      setup = await setupHashimotoGPU(getEpochParams(epoch, ethash), this.device, { store });
+      await createReusableBuffers(maxBatchSize, this.device, setup, { pipelineDepth });
+    } catch (error) {
+      failure = error;
+    }
+    const oom = await this.device.popErrorScope();
+
+    if (oom || failure) {
+      setup?.dispose();
+      throw oom ? new Error(`Out of GPU memory for epoch ${epoch.datasetEpoch}: ${oom.message}`) : failure;
+    }
+    return setup!;
+  }
+
+  mineRange(
+    setup: HashimotoSetup,
+    headerHash: Uint8Array,
+    startNonce: bigint,
+    count: number,
+    target: bigint,
+    signal?: AbortSignal
+  ): Promise<HashimotoRangeResult> {
+    return runHashimotoRangeGPU(headerHash, startNonce, count, this.device, setup, target, signal);
+  }
+
+  tuneBatchSize(setup: HashimotoSetup, options: Partial<BatchTuningOptions>): Promise<BatchTuning> {
+    return tuneBatchSizeGPU(this.device, setup, options);
+  }
+
+  allocations(): GPUAllocationSnapshot {
+    return this.tracker.snapshot();
+  }
+}
+
+/**
+ * An epoch's cache on the CPU, the dataset size it expands to and accesses per hash
+ */
+async function epochCache(
+  epoch: EpochInfo,
+  ethash?: EthashParams
+): Promise<{ cache: Uint32Array; dagBytes: number; accesses: number }> {
+  const params = getEpochParams(epoch, ethash);
+  const cache = await generateCache(params);
+  return { cache, dagBytes: params.datasetBytes, accesses: params.accesses };
+}
+
+/**
+ * Options for CPUReferenceBackend
+ */
+export interface CPUBackendOptions {
+  ethash?: EthashParams;    // Algorithm parameters (default: mainnet)
+  maxDatasetBytes: number;  // Precompute datasets up to this size; larger ones are derived from the cache per hash
+  yieldEvery: number;       // Nonces between abort checks (and yields to the event loop) in a batch
+}
+
+export const DEFAULT_CPU_BACKEND_OPTIONS: CPUBackendOptions = {
+  maxDatasetBytes: 16 * 1024 ** 2,  // ~15 s to build in JS; real DAGs (1+ GB) run in light mode
+  yieldEvery: 256,
+};
+
+interface CPUEpochSetup extends EpochSetup {
+  dataset?: Uint32Array;  // Precomputed dataset (light mode without)
+}
+
+/**
+ * Pure-TypeScript reference mining on the CPU (hashimotoFull / hashimotoLight from ethash-reference.ts, no WebGPU)
+ * Thousands of hashes per second at best: for tests and CI with tiny epochs, not for mining
+ */
+export class CPUReferenceBackend implements HashimotoBackend<CPUEpochSetup> {
+  readonly name = 'CPU reference';
+  private options: CPUBackendOptions;
+
+  constructor(options: Partial<CPUBackendOptions> = {}) {
+    this.options = { ...DEFAULT_CPU_BACKEND_OPTIONS, ...options };
+  }
+
+  async setupEpoch(epoch: EpochInfo): Promise<CPUEpochSetup> {
+    const { cache, dagBytes, accesses } = await epochCache(epoch, this.options.ethash);
+
+    let dataset: Uint32Array | undefined;
+    if (dagBytes <= this.options.maxDatasetBytes) {
+      const words = HASH_BYTES / 4;
+      dataset = new Uint32Array(dagBytes / 4);
+      for (let item = 0; item < dagBytes / HASH_BYTES; item++) {
+        dataset.set(calcDatasetItem(cache, item), item * words);
+      }
+    }
+
+    return {
+      epoch,
+      cache,
+      dagBytes,
+      accesses,
+      dataset,
+      dispose() {
+        // Plain arrays: nothing to free but the references
+      },
+    };
+  }
+
+  async mineRange(
+    setup: CPUEpochSetup,
+    headerHash: Uint8Array,
+    startNonce: bigint,
+    count: number,
+    target: bigint,
+    signal?: AbortSignal
+  ): Promise<HashimotoRangeResult> {
+    const startTime = performance.now();
+    const winners: HashimotoWinner[] = [];
+
+    for (let i = 0; i < count; i++) {
+      if (i % this.options.yieldEvery === 0) {
+        // Let new work (and the other batches in flight) through
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (signal?.aborted) {
+          return { winners: [], dropped: 0, timeMs: performance.now() - startTime, aborted: true };
+        }
+      }
+
+      const nonce = BigInt.asUintN(64, startNonce + BigInt(i));
+      const result = setup.dataset
+        ? hashimotoFull(setup.dataset, headerHash, nonce, setup.accesses)
+        : hashimotoLight(setup.cache, setup.dagBytes, headerHash, nonce, setup.accesses);
+      const hash = new Uint8Array(result.hash.buffer);
+      if (meetsTarget(hash, target)) {
+        winners.push({ nonce, hash, mixDigest: new Uint8Array(result.mixDigest.buffer) });
+      }
+    }
+
+    return { winners, dropped: 0, timeMs: performance.now() - startTime };
+  }
+
+  tuneBatchSize(setup: CPUEpochSetup, options: Partial<BatchTuningOptions>): Promise<BatchTuning> {
+    const headerHash = new Uint8Array(32);
+
+    // The GPU defaults would take minutes per size here: start small, one sample per size
+    return tuneBatchSize(
+      async (batchSize) => (await this.mineRange(setup, headerHash, 0n, batchSize, 0n)).timeMs,
+      { minBatchSize: 256, samples: 1, ...options }
+    );
+  }
+
+  allocations(): GPUAllocationSnapshot {
+    return { buffers: 0, bytes: 0 };
+  }
+}
+
+/**
+ * Options for WasmBackend
+ */
+export interface WasmBackendOptions extends WasmPoolOptions {
+  ethash?: EthashParams;  // Algorithm parameters (default: mainnet)
+}
+
+interface WasmEpochSetup extends EpochSetup {
+  wasm: WasmEpoch;
+}
+
+/**
+ * Mining on the CPU: the WebAssembly SIMD module on a pool of workers (see wasm/wasm-pool.ts)
+ * The fallback where WebGPU isn't available; the cache is still generated on the calling thread
+ */
+export class WasmBackend implements HashimotoBackend<WasmEpochSetup> {
+  readonly name: string;
+  private pool: WasmWorkerPool;
+  private ethash?: EthashParams;
+
+  constructor(options: Partial<WasmBackendOptions> = {}) {
+    const { ethash, ...poolOptions } = options;
+    this.ethash = ethash;
+
+    if (!wasmSIMDSupported()) {
+      throw new Error('WebAssembly SIMD not available');
+    }
+    this.pool = new WasmWorkerPool(poolOptions);
+    this.name = `WASM SIMD (${this.pool.threads} thread${this.pool.threads === 1 ? '' : 's'})`;
+  }
+
+  async setupEpoch(epoch: EpochInfo): Promise<WasmEpochSetup> {
+    const { cache, dagBytes, accesses } = await epochCache(epoch, this.ethash);
+    const wasm = await this.pool.setupEpoch(cache, dagBytes, accesses);
+    const pool = this.pool;
+
+    return {
+      epoch,
+      cache,
+      dagBytes,
+      accesses,
+      wasm,
+      dispose() {
+        pool.release(wasm);
+      },
+    };
+  }
+
+  mineRange(
+    setup: WasmEpochSetup,
+    headerHash: Uint8Array,
+    startNonce: bigint,
+    count: number,
+    target: bigint,
+    signal?: AbortSignal
+  ): Promise<HashimotoRangeResult> {
+    return this.pool.search(setup.wasm, headerHash, startNonce, count, target, signal);
+  }
+
+  tuneBatchSize(setup: WasmEpochSetup, options: Partial<BatchTuningOptions>): Promise<BatchTuning> {
+    const headerHash = new Uint8Array(32);
+
+    // Every thread gets a share of each batch; one sample per size, as on the CPU reference
+    return tuneBatchSize(
+      async (batchSize) => (await this.mineRange(setup, headerHash, 0n, batchSize, 0n)).timeMs,
+      { minBatchSize: 256 * this.pool.threads, samples: 1, ...options }
+    );
+  }
+
+  allocations(): GPUAllocationSnapshot {
+    return { buffers: 0, bytes: 0 };
+  }
+
+  threadHashrates(): number[] {
+    return this.pool.threadHashrates();
+  }
+
+  /**
+   * End the workers (after the coordinator using the backend has been disposed)
+   */
+  terminate(): void {
+    this.pool.terminate();
+  }
+}
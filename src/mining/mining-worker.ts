@@ -0,0 +1,205 @@
+/**
+ * Mining Worker
+ * Runs MiningCoordinator (cache generation, DAG setup, GPU dispatch) off the main thread
+ * Started by MiningCoordinatorProxy; see worker-protocol.ts for the messages
+ *
+ * Without a WebGPU adapter (and config.engine 'auto'), it mines on WASM SIMD workers instead.
+ */
+
+import { createGPUDevice } from '../gpu/device-helper';
+import { trackGPUAllocations } from '../gpu/gpu-allocations';
+import { MiningConfig, MiningCoordinator } from './coordinator';
+import { WasmBackend } from './hashimoto-backend';
+import type { WorkPackage, WorkUpdateMode } from '../rpc/etc-client';
+import type { Share, ShareResult, WorkSource } from './work-source';
+import type { LogLevel, WorkerEvent, WorkerRequest } from './worker-protocol';
+
+function post(message: WorkerEvent): void {
+  self.postMessage(message);
+}
+
+/**
+ * Work source fed by the proxy: work arrives as messages, shares go back out
+ */
+class RelayedWorkSource implements WorkSource {
+  readonly name = 'main thread';
+
+  private currentWork?: WorkPackage;
+  private workListeners = new Set<(work: WorkPackage) => void>();
+  private modeListeners = new Set<(mode: WorkUpdateMode) => void>();
+  private pendingShares = new Map<number, (result: ShareResult) => void>();
+  private shareId = 0;
+
+  async connect(): Promise<void> {
+    // The proxy connected the real source before sending init
+  }
+
+  async getWork(): Promise<WorkPackage> {
+    if (!this.currentWork) {
+      throw new Error('No work received from main thread');
+    }
+    return this.currentWork;
+  }
+
+  subscribeWork(
+    callback: (work: WorkPackage) => void,
+    onMode?: (mode: WorkUpdateMode) => void
+  ): () => void {
+    this.workListeners.add(callback);
+    if (onMode) {
+      this.modeListeners.add(onMode);
+    }
+    return () => {
+      this.workListeners.delete(callback);
+      if (onMode) {
+        this.modeListeners.delete(onMode);
+      }
+    };
+  }
+
+  submitShare(share: Share): Promise<ShareResult> {
+    const id = ++this.shareId;
+    return new Promise((resolve) => {
+      this.pendingShares.set(id, resolve);
+      post({ type: 'share-found', id, share });
+    });
+  }
+
+  close(): void {
+    this.workListeners.clear();
+    this.modeListeners.clear();
+  }
+
+  setWork(work: WorkPackage): void {
+    this.currentWork = work;
+  }
+
+  pushWork(work: WorkPackage): void {
+    this.currentWork = work;
+    for (const listener of this.workListeners) {
+      listener(work);
+    }
+  }
+
+  pushMode(mode: WorkUpdateMode): void {
+    for (const listener of this.modeListeners) {
+      listener(mode);
+    }
+  }
+
+  resolveShare(id: number, result: ShareResult): void {
+    const resolve = this.pendingShares.get(id);
+    if (resolve) {
+      this.pendingShares.delete(id);
+      resolve(result);
+    }
+  }
+}
+
+/**
+ * Forward console output to the main thread, which prints it
+ */
+function relayConsole(): void {
+  const format = (args: unknown[]) => args.map((arg) => {
+    if (typeof arg === 'string') return arg;
+    if (arg instanceof Error) return arg.message;
+    try {
+      return JSON.stringify(arg, (_, value) => typeof value === 'bigint' ? value.toString() : value);
+    } catch {
+      return String(arg);
+    }
+  }).join(' ');
+
+  for (const level of ['log', 'warn', 'error'] as LogLevel[]) {
+    console[level] = (...args: unknown[]) => post({ type: 'log', level, message: format(args) });
+  }
+}
+
+relayConsole();
+
+const source = new RelayedWorkSource();
+let device: GPUDevice | undefined;
+let wasm: WasmBackend | undefined;
+let coordinator: MiningCoordinator | undefined;
+
+/**
+ * The GPU device, or the WASM backend config.engine asks for (or falls back to)
+ */
+async function createBackend(config: MiningConfig): Promise<GPUDevice | WasmBackend> {
+  const engine = config.engine ?? 'auto';
+  if (engine !== 'wasm') {
+    try {
+      return await createGPUDevice();
+    } catch (error) {
+      if (engine === 'webgpu') {
+        throw error;
+      }
+      console.warn(`⚠️ ${(error as Error).message}: mining on the CPU with WebAssembly instead`);
+    }
+  }
+  return new WasmBackend(config.cpuThreads !== undefined ? { threads: config.cpuThreads } : {});
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case 'init': {
+        source.setWork(message.work);
+        const backend = await createBackend(message.config);
+        if (backend instanceof WasmBackend) {
+          wasm = backend;
+        } else {
+          device = backend;
+        }
+        coordinator = new MiningCoordinator(source, backend, message.config);
+        await coordinator.initialize();
+        post({ type: 'initialized' });
+        break;
+      }
+
+      case 'start': {
+        // A dispose can clear `coordinator` while this loop is still winding down
+        const running = coordinator;
+        if (!running) {
+          throw new Error('Must send init before start');
+        }
+        await running.startMining((stats) => post({ type: 'stats', stats }));
+        post({ type: 'stats', stats: running.getStats() });
+        post({ type: 'stopped' });
+        break;
+      }
+
+      case 'stop':
+        await coordinator?.stopMining();
+        break;
+
+      case 'dispose': {
+        await coordinator?.dispose();
+        const allocations = device ? trackGPUAllocations(device).snapshot() : { buffers: 0, bytes: 0 };
+        device?.destroy();
+        wasm?.terminate();
+        coordinator = undefined;
+        device = undefined;
+        wasm = undefined;
+        post({ type: 'disposed', allocations });
+        break;
+      }
+
+      case 'work':
+        source.pushWork(message.work);
+        break;
+
+      case 'work-mode':
+        source.pushMode(message.mode);
+        break;
+
+      case 'share-result':
+        source.resolveShare(message.id, message.result);
+        break;
+    }
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message });
+  }
+};
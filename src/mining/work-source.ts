@@ -0,0 +1,275 @@
+/**
+ * Work Sources
+ * The seam between MiningCoordinator and wherever work comes from:
+ * a solo node (JSON-RPC), a Stratum pool, a recorded replay, or memory
+ */
+
+import { ETCClient, WorkPackage, WorkUpdateMode } from '../rpc/etc-client';
+import { StratumClient } from '../rpc/stratum-client';
+
+/**
+ * A solution submitted back to the work source
+ */
+export interface Share {
+  nonce: string;        // 8-byte nonce (0x-prefixed hex)
+  headerHash: string;   // Header hash of the work this share solves
+  mixDigest: string;    // 32-byte mix digest from Hashimoto
+}
+
+export interface ShareResult {
+  accepted: boolean;
+  reason?: string;      // Why the share was rejected (node/pool message or local error)
+}
+
+export interface WorkSource {
+  /** Short label for logs */
+  readonly name: string;
+
+  /** Open connections / log in. Called once by MiningCoordinator.initialize() */
+  connect(): Promise<void>;
+
+  /** Current work, waiting for the first package if none has arrived yet */
+  getWork(): Promise<WorkPackage>;
+
+  /**
+   * Push updates: callback runs with every new work package
+   * Sources that can fall back to polling report their mode through onMode
+   * Returns a cleanup function to unsubscribe
+   */
+  subscribeWork(
+    callback: (work: WorkPackage) => void,
+    onMode?: (mode: WorkUpdateMode) => void
+  ): () => void;
+
+  /** Submit a share. Rejections resolve with a reason rather than throwing */
+  submitShare(share: Share): Promise<ShareResult>;
+
+  /** Close any open connections */
+  close(): void;
+}
+
+/**
+ * Solo mining against an ETC node (eth_getWork / eth_submitWork)
+ * New work is detected over the node's WebSocket newHeads subscription,
+ * falling back to eth_getWork polling when there is no live WebSocket
+ */
+export class RPCWorkSource implements WorkSource {
+  readonly name = 'ETC node (JSON-RPC)';
+  private client: ETCClient;
+
+  constructor(client: ETCClient) {
+    this.client = client;
+  }
+
+  async connect(): Promise<void> {
+    // HTTP JSON-RPC is connectionless
+  }
+
+  getWork(): Promise<WorkPackage> {
+    return this.client.getWork();
+  }
+
+  subscribeWork(
+    callback: (work: WorkPackage) => void,
+    onMode?: (mode: WorkUpdateMode) => void
+  ): () => void {
+    return this.client.watchWork((work) => {
+      console.log(`\n🆕 New work detected: block ${work.blockNumber}`);
+      callback(work);
+    }, onMode);
+  }
+
+  async submitShare(share: Share): Promise<ShareResult> {
+    try {
+      const accepted = await this.client.submitWork(share.nonce, share.headerHash, share.mixDigest);
+      return accepted ? { accepted } : { accepted, reason: 'Rejected by node' };
+    } catch (error) {
+      return { accepted: false, reason: (error as Error).message };
+    }
+  }
+
+  close(): void {
+    this.client.close();
+  }
+}
+
+/**
+ * Pool mining over Stratum (EthereumStratum/1.0.0 or ETHProxy)
+ */
+export class StratumWorkSource implements WorkSource {
+  readonly name = 'Stratum pool';
+  private client: StratumClient;
+
+  constructor(client: StratumClient) {
+    this.client = client;
+  }
+
+  connect(): Promise<void> {
+    return this.client.connect();
+  }
+
+  getWork(): Promise<WorkPackage> {
+    return this.client.getWork();
+  }
+
+  subscribeWork(callback: (work: WorkPackage) => void): () => void {
+    return this.client.subscribeWork(callback);
+  }
+
+  async submitShare(share: Share): Promise<ShareResult> {
+    try {
+      const accepted = await this.client.submitWork(share.nonce, share.headerHash, share.mixDigest);
+      return accepted ? { accepted } : { accepted, reason: 'Rejected by pool' };
+    } catch (error) {
+      return { accepted: false, reason: (error as Error).message };
+    }
+  }
+
+  close(): void {
+    this.client.close();
+  }
+}
+
+/**
+ * In-memory work source for tests and offline runs
+ * Work is pushed with pushWork(); every submitted share is recorded.
+ * By default a share is accepted if it is for the latest work, otherwise rejected as stale.
+ */
+export class MemoryWorkSource implements WorkSource {
+  readonly name: string = 'In-memory';
+
+  /** Every share submitted, with the result it got */
+  readonly submissions: Array<{ share: Share; result: ShareResult }> = [];
+
+  private currentWork?: WorkPackage;
+  private listeners = new Set<(work: WorkPackage) => void>();
+  private waiters: Array<(work: WorkPackage) => void> = [];
+  private judge?: (share: Share, currentWork?: WorkPackage) => ShareResult;
+
+  constructor(judge?: (share: Share, currentWork?: WorkPackage) => ShareResult) {
+    this.judge = judge;
+  }
+
+  async connect(): Promise<void> {}
+
+  /**
+   * Make work current and notify subscribers
+   */
+  pushWork(work: WorkPackage): void {
+    this.currentWork = work;
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter(work);
+    }
+
+    for (const listener of this.listeners) {
+      listener(work);
+    }
+  }
+
+  getWork(): Promise<WorkPackage> {
+    if (this.currentWork) {
+      return Promise.resolve(this.currentWork);
+    }
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  subscribeWork(callback: (work: WorkPackage) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  async submitShare(share: Share): Promise<ShareResult> {
+    const result = this.judge
+      ? this.judge(share, this.currentWork)
+      : share.headerHash === this.currentWork?.headerHash
+        ? { accepted: true }
+        : { accepted: false, reason: 'Stale share' };
+
+    this.submissions.push({ share, result });
+    return result;
+  }
+
+  close(): void {
+    this.listeners.clear();
+  }
+}
+
+/**
+ * One work package in a recording, with its arrival time
+ */
+export interface RecordedWork {
+  atMs: number;         // Milliseconds after connect()
+  work: WorkPackage;
+}
+
+/**
+ * Replays recorded work packages with their original timing
+ * Shares are judged like MemoryWorkSource (latest work accepted, older work stale)
+ */
+export class ReplayWorkSource extends MemoryWorkSource {
+  readonly name = 'Replay';
+  private recording: RecordedWork[];
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(recording: RecordedWork[], judge?: (share: Share, currentWork?: WorkPackage) => ShareResult) {
+    super(judge);
+    this.recording = [...recording].sort((a, b) => a.atMs - b.atMs);
+  }
+
+  /**
+   * Load a recording saved by WorkRecorder.stop()
+   */
+  static fromJSON(json: string): ReplayWorkSource {
+    const recording = JSON.parse(json);
+    if (!Array.isArray(recording)) {
+      throw new Error('Invalid work recording: expected an array of { atMs, work }');
+    }
+    return new ReplayWorkSource(recording);
+  }
+
+  async connect(): Promise<void> {
+    for (const entry of this.recording) {
+      this.timers.push(setTimeout(() => this.pushWork(entry.work), entry.atMs));
+    }
+  }
+
+  close(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers = [];
+    super.close();
+  }
+}
+
+/**
+ * Records the work packages a source pushes, for later replay
+ */
+export class WorkRecorder {
+  private recording: RecordedWork[] = [];
+  private startTime = Date.now();
+  private unsubscribe: () => void;
+
+  constructor(source: WorkSource) {
+    this.unsubscribe = source.subscribeWork((work) => {
+      this.recording.push({ atMs: Date.now() - this.startTime, work });
+    });
+  }
+
+  getRecording(): RecordedWork[] {
+    return [...this.recording];
+  }
+
+  /**
+   * Stop recording and return it as JSON (ReplayWorkSource.fromJSON format)
+   */
+  stop(): string {
+    this.unsubscribe();
+    return JSON.stringify(this.recording, null, 2);
+  }
+}
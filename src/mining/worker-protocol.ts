@@ -0,0 +1,48 @@
+/**
+ * Mining Worker Protocol
+ * Messages between MiningCoordinatorProxy (main thread) and mining-worker.ts
+ *
+ * The work source stays on the main thread: the proxy forwards work into the
+ * worker and submits the shares the worker finds. Everything else - cache
+ * generation, DAG setup and GPU dispatch - happens in the worker.
+ */
+
+import type { WorkPackage, WorkUpdateMode } from '../rpc/etc-client';
+import type { Share, ShareResult } from './work-source';
+import type { MiningConfig, MiningStats } from './coordinator';
+import type { GPUAllocationSnapshot } from '../gpu/gpu-allocations';
+
+/**
+ * Main thread → worker
+ */
+export type WorkerRequest =
+  | { type: 'init'; config: MiningConfig; work: WorkPackage }   // Build cache + DAG for this work
+  | { type: 'start' }                                            // Start the mining loop
+  | { type: 'stop' }                                             // Stop after the current batch
+  | { type: 'dispose' }                                          // Stop, free all GPU buffers, destroy the device
+  | { type: 'work'; work: WorkPackage }                           // New work pushed by the source
+  | { type: 'work-mode'; mode: WorkUpdateMode }                  // Source switched update mode
+  | { type: 'share-result'; id: number; result: ShareResult };   // Answer to share-found
+
+/**
+ * Worker → main thread
+ */
+export type WorkerEvent =
+  | { type: 'initialized' }
+  | { type: 'stats'; stats: MiningStats }
+  | { type: 'share-found'; id: number; share: Share }            // Submit via the work source, reply share-result
+  | { type: 'log'; level: LogLevel; message: string }
+  | { type: 'stopped' }                                          // Mining loop exited
+  | { type: 'disposed'; allocations: GPUAllocationSnapshot }     // Still allocated just before the device was destroyed
+  | { type: 'error'; message: string };
+
+export type LogLevel = 'log' | 'warn' | 'error';
+
+/**
+ * The parts of Worker the proxy uses (lets tests substitute a fake)
+ */
+export interface WorkerLike {
+  postMessage(message: WorkerRequest): void;
+  onmessage: ((event: MessageEvent<WorkerEvent>) => void) | null;
+  terminate(): void;
+}
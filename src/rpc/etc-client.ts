@@ -8,25 +8,44 @@ export interface WorkPackage {
   seedHash: string;        // 32 bytes (determines epoch)
   target: string;          // 32 bytes (difficulty threshold, hash must be < target)
   blockNumber: number;
+  jobId?: string;          // Pool job ID (Stratum only)
+  extranonce?: string;     // Required nonce prefix, hex without 0x (EthereumStratum only)
 }
 
 export interface ETCClientConfig {
-  httpEndpoint: string;    // HTTP JSON-RPC endpoint
-  wsEndpoint?: string;     // Optional WebSocket endpoint for subscriptions
-  timeout?: number;        // Request timeout in ms (default: 30000)
+  httpEndpoint: string;        // HTTP JSON-RPC endpoint
+  wsEndpoint?: string;         // Optional WebSocket endpoint for subscriptions
+  timeout?: number;            // Request timeout in ms (default: 30000)
+  pollInterval?: number;       // eth_getWork polling interval in ms without a WebSocket (default: 2000)
+  reconnectDelay?: number;     // First WebSocket reconnect delay in ms, doubled per attempt (default: 1000)
+  maxReconnectDelay?: number;  // Reconnect delay cap in ms (default: 30000)
 }
 
+/**
+ * How watchWork() is detecting new work
+ * 'websocket': newHeads subscription is live
+ * 'polling': polling eth_getWork (no WebSocket configured, or reconnecting)
+ */
+export type WorkUpdateMode = 'websocket' | 'polling';
+
 export class ETCClient {
   private endpoint: string;
   private wsEndpoint?: string;
   private timeout: number;
-  private ws?: WebSocket;
+  private pollInterval: number;
+  private reconnectDelay: number;
+  private maxReconnectDelay: number;
+  private subscriptions = new Set<() => void>();
+  private latestHeaderHash?: string;
   private requestId = 0;
 
   constructor(config: ETCClientConfig) {
     this.endpoint = config.httpEndpoint;
     this.wsEndpoint = config.wsEndpoint;
     this.timeout = config.timeout ?? 30000;
+    this.pollInterval = config.pollInterval ?? 2000;
+    this.reconnectDelay = config.reconnectDelay ?? 1000;
+    this.maxReconnectDelay = config.maxReconnectDelay ?? 30000;
   }
 
   /**
@@ -88,6 +107,8 @@ export class ETCClient {
     // Get current block number for epoch calculation
     const blockNumber = await this.getBlockNumber();
 
+    this.latestHeaderHash = result[0];
+
     return {
       headerHash: result[0],   // 32 bytes
       seedHash: result[1],     // 32 bytes (for epoch)
@@ -140,68 +161,203 @@ export class ETCClient {
   /**
    * Subscribe to new blocks via WebSocket
    * Calls the callback whenever a new block is mined
+   * Reconnects with exponential backoff and resubscribes if the socket drops;
+   * onStatus reports when the subscription goes live (true) or is lost (false)
    * Returns a cleanup function to unsubscribe
    */
-  subscribeNewBlocks(callback: (blockHash: string) => void): () => void {
+  subscribeNewBlocks(
+    callback: (blockHash: string) => void,
+    onStatus?: (connected: boolean) => void
+  ): () => void {
     if (!this.wsEndpoint) {
       throw new Error('WebSocket endpoint not configured');
     }
 
-    this.ws = new WebSocket(this.wsEndpoint);
-
-    this.ws.onopen = () => {
-      console.log('✓ WebSocket connected');
-      this.ws!.send(JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_subscribe',
-        params: ['newHeads'],
-        id: ++this.requestId,
-      }));
-    };
+    const wsEndpoint = this.wsEndpoint;
+    let ws: WebSocket | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let live = false;
+    let stopped = false;
+
+    const connect = () => {
+      const socket = new WebSocket(wsEndpoint);
+      ws = socket;
+
+      socket.onopen = () => {
+        console.log('✓ WebSocket connected');
+        socket.send(JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'eth_subscribe',
+          params: ['newHeads'],
+          id: ++this.requestId,
+        }));
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const data = JSON.parse(event.data);
+
+          // Subscription refused - drop the socket and retry later
+          if (data.id && data.error) {
+            console.error(`eth_subscribe failed: ${data.error.message}`);
+            socket.close();
+            return;
+          }
+
+          // Handle subscription confirmation
+          if (data.id && data.result) {
+            console.log(`✓ Subscribed to newHeads (subscription ID: ${data.result})`);
+            attempt = 0;
+            live = true;
+            onStatus?.(true);
+            return;
+          }
+
+          // Handle new block notifications
+          if (data.params?.result?.hash) {
+            callback(data.params.result.hash);
+          }
+        } catch (error) {
+          console.error('WebSocket message parse error:', error);
+        }
+      };
 
-    this.ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
+      socket.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
 
-        // Handle subscription confirmation
-        if (data.id && data.result) {
-          console.log(`✓ Subscribed to newHeads (subscription ID: ${data.result})`);
+      socket.onclose = () => {
+        if (ws === socket) {
+          ws = undefined;
+        }
+        if (stopped) {
+          console.log('WebSocket closed');
           return;
         }
 
-        // Handle new block notifications
-        if (data.params?.result?.hash) {
-          callback(data.params.result.hash);
+        if (live) {
+          live = false;
+          onStatus?.(false);
         }
-      } catch (error) {
-        console.error('WebSocket message parse error:', error);
-      }
+
+        const delay = Math.min(this.reconnectDelay * 2 ** attempt, this.maxReconnectDelay);
+        attempt++;
+        console.log(`WebSocket closed, reconnecting in ${delay}ms (attempt ${attempt})`);
+        reconnectTimer = setTimeout(connect, delay);
+      };
     };
 
-    this.ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
+    connect();
+
+    // Return cleanup function
+    const unsubscribe = () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      this.subscriptions.delete(unsubscribe);
+      if (ws) {
+        ws.close();
+        ws = undefined;
+      }
     };
+    this.subscriptions.add(unsubscribe);
+    return unsubscribe;
+  }
 
-    this.ws.onclose = () => {
-      console.log('WebSocket closed');
+  /**
+   * Watch for new work
+   * Uses the newHeads subscription when a WebSocket endpoint is configured and
+   * polls eth_getWork every pollInterval ms whenever it isn't live (no endpoint,
+   * still connecting, or reconnecting after a drop).
+   * onWork runs only when the header hash changes; onMode reports each mode switch.
+   * Returns a cleanup function to stop watching
+   */
+  watchWork(
+    onWork: (work: WorkPackage) => void,
+    onMode?: (mode: WorkUpdateMode) => void
+  ): () => void {
+    let lastHeaderHash = this.latestHeaderHash;
+    let mode: WorkUpdateMode | undefined;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    let checking = false;
+    let recheck = false;
+    let stopped = false;
+
+    const checkWork = async () => {
+      if (checking) {
+        // A newHeads during eth_getWork may be newer than its answer
+        recheck = true;
+        return;
+      }
+      checking = true;
+      recheck = false;
+      try {
+        const work = await this.getWork();
+        if (!stopped && work.headerHash !== lastHeaderHash) {
+          lastHeaderHash = work.headerHash;
+          onWork(work);
+        }
+      } catch (error) {
+        console.error('Error fetching work:', error);
+      } finally {
+        checking = false;
+        if (recheck && !stopped) {
+          checkWork();
+        }
+      }
     };
 
-    // Return cleanup function
-    return () => {
-      if (this.ws) {
-        this.ws.close();
-        this.ws = undefined;
+    const setMode = (next: WorkUpdateMode) => {
+      if (mode === next || stopped) {
+        return;
       }
+      mode = next;
+
+      if (next === 'polling') {
+        pollTimer = setInterval(checkWork, this.pollInterval);
+      } else {
+        clearInterval(pollTimer);
+        pollTimer = undefined;
+      }
+
+      console.log(next === 'polling'
+        ? `Watching for work by polling eth_getWork every ${this.pollInterval}ms`
+        : 'Watching for work via WebSocket newHeads');
+      onMode?.(next);
+    };
+
+    setMode('polling');
+
+    let unsubscribeBlocks: (() => void) | undefined;
+    if (this.wsEndpoint) {
+      unsubscribeBlocks = this.subscribeNewBlocks(
+        () => checkWork(),
+        (connected) => {
+          setMode(connected ? 'websocket' : 'polling');
+          // Catch up on anything missed while the socket was down
+          if (connected) {
+            checkWork();
+          }
+        }
+      );
+    }
+
+    const stop = () => {
+      stopped = true;
+      clearInterval(pollTimer);
+      unsubscribeBlocks?.();
+      this.subscriptions.delete(stop);
     };
+    this.subscriptions.add(stop);
+    return stop;
   }
 
   /**
    * Close any open connections
    */
   close(): void {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = undefined;
+    for (const unsubscribe of [...this.subscriptions]) {
+      unsubscribe();
     }
   }
 }
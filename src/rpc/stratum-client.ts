@@ -0,0 +1,525 @@
+/**
+ * Stratum v1 Client
+ * Connects to a mining pool over Stratum (EthereumStratum/1.0.0 or ETHProxy)
+ * and exposes the same WorkPackage stream as ETCClient
+ *
+ * Stratum is newline-delimited JSON over TCP. Browsers can't open raw TCP
+ * sockets, so the browser build goes through a WebSocket-to-TCP bridge
+ * (e.g. websockify); the Node build uses NodeSocketTransport.
+ */
+
+import { WorkPackage, bigIntToHex } from './etc-client';
+
+export type StratumProtocol = 'EthereumStratum/1.0.0' | 'ETHProxy';
+
+/**
+ * Callbacks a transport reports incoming data and disconnects through
+ */
+export interface StratumTransportHandlers {
+  onData: (chunk: string) => void;   // Raw text, not necessarily whole lines
+  onClose: () => void;
+}
+
+/**
+ * Byte pipe to the pool. Line framing is handled by StratumClient.
+ */
+export interface StratumTransport {
+  connect(handlers: StratumTransportHandlers): Promise<void>;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface StratumClientConfig {
+  transport: StratumTransport;
+  protocol?: StratumProtocol;  // Default: EthereumStratum/1.0.0
+  login: string;               // Wallet address or pool account
+  password?: string;           // Default: 'x'
+  worker?: string;             // Worker name (appended as login.worker for EthereumStratum)
+  userAgent?: string;          // Sent with mining.subscribe
+  timeout?: number;            // Request timeout in ms (default: 30000)
+}
+
+/**
+ * Difficulty 1 share target for EthereumStratum/1.0.0
+ */
+const STRATUM_DIFF1_TARGET = 0x00000000ffff0000000000000000000000000000000000000000000000000000n;
+
+// Fixed-point scale for fractional pool difficulties (e.g. 0.5)
+const DIFFICULTY_SCALE = 1_000_000;
+
+// How many recent jobs to keep for matching late submissions to a jobId
+const MAX_TRACKED_JOBS = 16;
+
+interface StratumJob {
+  jobId: string;
+  extranonce: string;  // Extranonce in effect when the job was sent
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+export class StratumClient {
+  private transport: StratumTransport;
+  private protocol: StratumProtocol;
+  private login: string;
+  private password: string;
+  private worker?: string;
+  private userAgent: string;
+  private timeout: number;
+
+  private connected = false;
+  private requestId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private lineBuffer = '';
+
+  private extranonce = '';
+  private shareTarget = stratumDifficultyToTarget(1);
+  private currentWork?: WorkPackage;
+  private jobsByHeader = new Map<string, StratumJob>();
+  private workListeners = new Set<(work: WorkPackage) => void>();
+  private workWaiters: Array<(work: WorkPackage) => void> = [];
+
+  constructor(config: StratumClientConfig) {
+    this.transport = config.transport;
+    this.protocol = config.protocol ?? 'EthereumStratum/1.0.0';
+    this.login = config.login;
+    this.password = config.password ?? 'x';
+    this.worker = config.worker;
+    this.userAgent = config.userAgent ?? 'ethash-webgpu/0.1.0';
+    this.timeout = config.timeout ?? 30000;
+  }
+
+  /**
+   * Open the connection and log in to the pool
+   * EthereumStratum: mining.subscribe → mining.authorize → mining.extranonce.subscribe
+   * ETHProxy: eth_submitLogin → eth_getWork
+   */
+  async connect(): Promise<void> {
+    await this.transport.connect({
+      onData: (chunk) => this.handleData(chunk),
+      onClose: () => this.handleClose(),
+    });
+    this.connected = true;
+
+    // Don't leave a half-logged-in socket open behind a failed handshake
+    try {
+      await this.handshake();
+    } catch (e) {
+      this.close();
+      throw e;
+    }
+  }
+
+  private async handshake(): Promise<void> {
+    if (this.protocol === 'ETHProxy') {
+      const loggedIn = await this.request('eth_submitLogin', [this.login, this.password]);
+      if (loggedIn !== true) {
+        throw new Error(`Pool rejected login for ${this.login}`);
+      }
+      console.log(`✓ Logged in to pool as ${this.login} (ETHProxy)`);
+
+      const work = await this.request('eth_getWork');
+      this.handleProxyWork(work);
+      return;
+    }
+
+    const subscription = await this.request('mining.subscribe', [this.userAgent, 'EthereumStratum/1.0.0']);
+    if (!Array.isArray(subscription) || subscription.length < 2 || !Array.isArray(subscription[0])) {
+      throw new Error(`Invalid mining.subscribe response: ${JSON.stringify(subscription)}`);
+    }
+    if (subscription[0][2] !== 'EthereumStratum/1.0.0') {
+      throw new Error(`Pool does not speak EthereumStratum/1.0.0: ${JSON.stringify(subscription[0])}`);
+    }
+    this.setExtranonce(subscription[1]);
+
+    const authorized = await this.request('mining.authorize', [this.workerLogin(), this.password]);
+    if (authorized !== true) {
+      throw new Error(`Pool rejected authorization for ${this.workerLogin()}`);
+    }
+    console.log(`✓ Authorized with pool as ${this.workerLogin()} (extranonce: ${this.extranonce || 'none'})`);
+
+    // Optional extension - pools that don't support it reply with an error
+    this.request('mining.extranonce.subscribe').catch(() => {});
+  }
+
+  /**
+   * Get the current job, waiting for the pool's first notify if needed
+   *
+   * target is the share target set by the pool, not the network target.
+   * EthereumStratum doesn't report block heights, so blockNumber is 0 there.
+   */
+  async getWork(): Promise<WorkPackage> {
+    if (this.currentWork) {
+      return this.currentWork;
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.workWaiters = this.workWaiters.filter(w => w !== waiter);
+        reject(new Error(`No work from pool after ${this.timeout}ms`));
+      }, this.timeout);
+
+      const waiter = (work: WorkPackage) => {
+        clearTimeout(timeoutId);
+        resolve(work);
+      };
+      this.workWaiters.push(waiter);
+    });
+  }
+
+  /**
+   * Subscribe to new jobs pushed by the pool
+   * Returns a cleanup function to unsubscribe
+   */
+  subscribeWork(callback: (work: WorkPackage) => void): () => void {
+    this.workListeners.add(callback);
+    return () => {
+      this.workListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Submit a share for a job received from this pool
+   *
+   * @param nonce - 8-byte nonce (0x-prefixed hex). For EthereumStratum it must
+   *                start with the pool's extranonce
+   * @param headerHash - 32-byte header hash of the job being solved
+   * @param mixDigest - 32-byte mix digest from Hashimoto
+   * @returns true if accepted, false if rejected
+   */
+  async submitWork(
+    nonce: string,
+    headerHash: string,
+    mixDigest: string
+  ): Promise<boolean> {
+    if (this.protocol === 'ETHProxy') {
+      const result = await this.request('eth_submitWork', [nonce, headerHash, mixDigest]);
+      return result === true;
+    }
+
+    const job = this.jobsByHeader.get(normalizeHex(headerHash));
+    if (!job) {
+      throw new Error(`No pool job for header ${headerHash}`);
+    }
+
+    const nonceHex = stripHexPrefix(nonce).toLowerCase();
+    if (!nonceHex.startsWith(job.extranonce)) {
+      throw new Error(`Nonce ${nonce} does not start with extranonce ${job.extranonce}`);
+    }
+
+    // The pool already knows the extranonce, so only the miner's part is sent
+    const result = await this.request('mining.submit', [
+      this.workerLogin(),
+      job.jobId,
+      nonceHex.slice(job.extranonce.length),
+    ]);
+
+    return result === true;
+  }
+
+  /**
+   * Extranonce the pool assigned to this connection (hex, no 0x prefix)
+   */
+  getExtranonce(): string {
+    return this.extranonce;
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.transport.close();
+    this.handleClose();
+  }
+
+  /**
+   * Send a request and wait for the response with the same id
+   */
+  private request(method: string, params: any[] = []): Promise<any> {
+    if (!this.connected) {
+      return Promise.reject(new Error('Not connected to pool'));
+    }
+
+    const id = ++this.requestId;
+    const message: Record<string, unknown> = { id, method, params };
+
+    if (this.protocol === 'ETHProxy') {
+      message.jsonrpc = '2.0';
+      if (this.worker) {
+        message.worker = this.worker;
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Stratum ${method} timeout after ${this.timeout}ms`));
+      }, this.timeout);
+
+      this.pending.set(id, { resolve, reject, timeoutId });
+      this.transport.send(JSON.stringify(message) + '\n');
+    });
+  }
+
+  /**
+   * Split incoming data into lines (a chunk may hold several or a partial one)
+   */
+  private handleData(chunk: string): void {
+    this.lineBuffer += chunk;
+
+    let newline: number;
+    while ((newline = this.lineBuffer.indexOf('\n')) !== -1) {
+      const line = this.lineBuffer.slice(0, newline).trim();
+      this.lineBuffer = this.lineBuffer.slice(newline + 1);
+
+      if (line) {
+        this.handleLine(line);
+      }
+    }
+  }
+
+  private handleLine(line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch (error) {
+      console.error('Stratum message parse error:', line);
+      return;
+    }
+
+    // Response to one of our requests
+    if (typeof message.id === 'number' && this.pending.has(message.id)) {
+      const request = this.pending.get(message.id)!;
+      this.pending.delete(message.id);
+      clearTimeout(request.timeoutId);
+
+      if (message.error) {
+        request.reject(new Error(`Stratum error: ${formatStratumError(message.error)}`));
+      } else {
+        request.resolve(message.result);
+      }
+      return;
+    }
+
+    if (typeof message.method === 'string') {
+      try {
+        this.handleNotification(message.method, message.params ?? []);
+      } catch (error) {
+        console.error(`Stratum ${message.method} error:`, error);
+      }
+      return;
+    }
+
+    // ETHProxy pushes new work as an unsolicited response (id 0 or null)
+    if (this.protocol === 'ETHProxy' && Array.isArray(message.result)) {
+      try {
+        this.handleProxyWork(message.result);
+      } catch (error) {
+        console.error('Stratum work error:', error);
+      }
+    }
+  }
+
+  private handleNotification(method: string, params: any[]): void {
+    switch (method) {
+      case 'mining.set_difficulty':
+        // Applies from the next mining.notify
+        this.shareTarget = stratumDifficultyToTarget(Number(params[0]));
+        break;
+
+      case 'mining.notify': {
+        const [jobId, seedHash, headerHash, cleanJobs] = params;
+        if (cleanJobs) {
+          this.jobsByHeader.clear();
+        }
+        this.trackJob(normalizeHex(headerHash), { jobId: String(jobId), extranonce: this.extranonce });
+        this.emitWork({
+          headerHash: normalizeHex(headerHash),
+          seedHash: normalizeHex(seedHash),
+          target: this.shareTarget,
+          blockNumber: 0,
+          jobId: String(jobId),
+          extranonce: this.extranonce,
+        });
+        break;
+      }
+
+      case 'mining.set_extranonce':
+        // Applies from the next mining.notify
+        this.setExtranonce(params[0]);
+        break;
+
+      case 'client.show_message':
+        console.log(`Pool message: ${params[0]}`);
+        break;
+
+      default:
+        console.warn(`Unhandled Stratum notification: ${method}`);
+    }
+  }
+
+  /**
+   * ETHProxy work is an eth_getWork result: [header, seed, target, blockNumber?]
+   */
+  private handleProxyWork(result: unknown): void {
+    if (!Array.isArray(result) || result.length < 3) {
+      throw new Error(`Invalid eth_getWork response: ${JSON.stringify(result)}`);
+    }
+
+    this.emitWork({
+      headerHash: normalizeHex(result[0]),
+      seedHash: normalizeHex(result[1]),
+      target: normalizeHex(result[2]),
+      blockNumber: result[3] !== undefined ? parseInt(result[3], 16) : 0,
+    });
+  }
+
+  private emitWork(work: WorkPackage): void {
+    this.currentWork = work;
+
+    const waiters = this.workWaiters;
+    this.workWaiters = [];
+    for (const waiter of waiters) {
+      waiter(work);
+    }
+
+    for (const listener of this.workListeners) {
+      listener(work);
+    }
+  }
+
+  private trackJob(headerHash: string, job: StratumJob): void {
+    this.jobsByHeader.set(headerHash, job);
+
+    if (this.jobsByHeader.size > MAX_TRACKED_JOBS) {
+      const oldest = this.jobsByHeader.keys().next().value as string;
+      this.jobsByHeader.delete(oldest);
+    }
+  }
+
+  private setExtranonce(extranonce: unknown): void {
+    const hex = typeof extranonce === 'string' ? stripHexPrefix(extranonce).toLowerCase() : '';
+    if (hex.length > 16 || !/^[0-9a-f]*$/.test(hex)) {
+      throw new Error(`Invalid extranonce from pool: ${JSON.stringify(extranonce)}`);
+    }
+    this.extranonce = hex;
+  }
+
+  private workerLogin(): string {
+    return this.worker ? `${this.login}.${this.worker}` : this.login;
+  }
+
+  private handleClose(): void {
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.lineBuffer = '';
+
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timeoutId);
+      request.reject(new Error('Pool connection closed'));
+    }
+    this.pending.clear();
+
+    console.log('Pool connection closed');
+  }
+}
+
+/**
+ * Stratum transport over a WebSocket-to-TCP bridge (e.g. websockify)
+ * For browsers, which can't open raw TCP sockets
+ */
+export class WebSocketBridgeTransport implements StratumTransport {
+  private url: string;
+  private ws?: WebSocket;
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  connect(handlers: StratumTransportHandlers): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url);
+      ws.binaryType = 'arraybuffer';
+      let opened = false;
+
+      ws.onopen = () => {
+        opened = true;
+        this.ws = ws;
+        resolve();
+      };
+
+      ws.onmessage = (event) => {
+        handlers.onData(
+          typeof event.data === 'string'
+            ? event.data
+            : this.decoder.decode(event.data as ArrayBuffer, { stream: true })
+        );
+      };
+
+      ws.onerror = () => {
+        if (!opened) {
+          reject(new Error(`Failed to connect to Stratum bridge ${this.url}`));
+        }
+      };
+
+      ws.onclose = () => {
+        this.ws = undefined;
+        handlers.onClose();
+      };
+    });
+  }
+
+  send(data: string): void {
+    if (!this.ws) {
+      throw new Error('Stratum bridge not connected');
+    }
+    // The bridge forwards bytes to the TCP socket as-is
+    this.ws.send(this.encoder.encode(data));
+  }
+
+  close(): void {
+    if (this.ws) {
+      this.ws.close();
+      this.ws = undefined;
+    }
+  }
+}
+
+/**
+ * Convert an EthereumStratum pool difficulty to a share target (hash must be < target)
+ * Difficulty 1 = 0x00000000ffff0000...; fractional difficulties are allowed
+ */
+export function stratumDifficultyToTarget(difficulty: number): string {
+  const scaled = Number.isFinite(difficulty) ? BigInt(Math.round(difficulty * DIFFICULTY_SCALE)) : 0n;
+  if (scaled <= 0n) {
+    throw new Error(`Invalid pool difficulty: ${difficulty}`);
+  }
+  return bigIntToHex((STRATUM_DIFF1_TARGET * BigInt(DIFFICULTY_SCALE)) / scaled);
+}
+
+function stripHexPrefix(hex: string): string {
+  return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
+
+function normalizeHex(hex: string): string {
+  return '0x' + stripHexPrefix(hex).toLowerCase();
+}
+
+function formatStratumError(error: unknown): string {
+  // EthereumStratum errors are [code, message, data]; ETHProxy uses {code, message}
+  if (Array.isArray(error)) {
+    return `${error[0]} ${error[1]}`;
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    const { code, message } = error as { code?: number; message: string };
+    return code !== undefined ? `${code} ${message}` : message;
+  }
+  return String(error);
+}
@@ -0,0 +1,74 @@
+/**
+ * Stratum transport over a raw TCP (or TLS) socket
+ * Node only - browsers use WebSocketBridgeTransport from stratum-client.ts
+ */
+
+import { connect as connectTCP, Socket } from 'node:net';
+import { connect as connectTLS } from 'node:tls';
+import type { StratumTransport, StratumTransportHandlers } from './stratum-client';
+
+export interface NodeSocketTransportConfig {
+  host: string;
+  port: number;
+  tls?: boolean;   // Use stratum+ssl (default: false)
+}
+
+export class NodeSocketTransport implements StratumTransport {
+  private config: NodeSocketTransportConfig;
+  private socket?: Socket;
+
+  constructor(config: NodeSocketTransportConfig) {
+    this.config = config;
+  }
+
+  connect(handlers: StratumTransportHandlers): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const { host, port, tls } = this.config;
+      let opened = false;
+
+      const onConnect = () => {
+        opened = true;
+        this.socket = socket;
+        resolve();
+      };
+
+      const socket = tls
+        ? connectTLS({ host, port, servername: host }, onConnect)
+        : connectTCP({ host, port }, onConnect);
+
+      socket.setEncoding('utf8');
+      socket.setNoDelay(true);
+
+      socket.on('data', (chunk: string) => handlers.onData(chunk));
+
+      socket.on('error', (error) => {
+        if (!opened) {
+          reject(new Error(`Failed to connect to pool ${host}:${port}: ${error.message}`));
+        } else {
+          console.error('Pool socket error:', error);
+        }
+      });
+
+      socket.on('close', () => {
+        this.socket = undefined;
+        if (opened) {
+          handlers.onClose();
+        }
+      });
+    });
+  }
+
+  send(data: string): void {
+    if (!this.socket) {
+      throw new Error('Pool socket not connected');
+    }
+    this.socket.write(data);
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.end();
+      this.socket = undefined;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Artifact backend on the local file system (one file per key in a directory)
+ * Node only - browsers use OPFSArtifactBackend from artifact-store.ts
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ArtifactBackend } from './artifact-store';
+
+export class NodeFSArtifactBackend implements ArtifactBackend {
+  private directory: string;
+  private ready?: Promise<unknown>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async read(key: string): Promise<Uint8Array | null> {
+    await this.ensureDirectory();
+    try {
+      const data = await readFile(this.path(key));
+      return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(key: string, data: Uint8Array): Promise<void> {
+    await this.ensureDirectory();
+    // Write then rename, so a crash never leaves a half-written file under the key
+    const temp = this.path(key) + '.tmp';
+    await writeFile(temp, data);
+    await rename(temp, this.path(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    await this.ensureDirectory();
+    const entries = await readdir(this.directory);
+    return entries.filter(name => !name.endsWith('.tmp'));
+  }
+
+  private path(key: string): string {
+    return join(this.directory, key);
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    if (!this.ready) {
+      this.ready = mkdir(this.directory, { recursive: true });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Epoch Artifact Store
+ * Persists the Ethash cache and (optionally) the DAG between sessions, keyed by epoch
+ *
+ * Every file carries a checksum in the epoch's manifest; anything that fails
+ * verification is deleted and regenerated. Least recently used epochs are
+ * evicted once the store grows past its quota.
+ *
+ * Backends: OPFSArtifactBackend (browser), NodeFSArtifactBackend (artifact-backend-node.ts),
+ * MemoryArtifactBackend (tests)
+ */
+
+import { resolveEpoch, EpochInfo, EpochLike } from '../mining/epoch-manager';
+
+/**
+ * Flat key → bytes storage the artifact store writes through
+ */
+export interface ArtifactBackend {
+  read(key: string): Promise<Uint8Array | null>;   // null if the key doesn't exist
+  write(key: string, data: Uint8Array): Promise<void>;
+  delete(key: string): Promise<void>;              // No-op if the key doesn't exist
+  list(): Promise<string[]>;
+}
+
+export interface ArtifactStoreOptions {
+  quotaBytes: number;    // Evict least recently used epochs beyond this (default: 8 GB)
+  persistDAG: boolean;   // Save the DAG as well as the cache (default: true)
+  segmentBytes: number;  // DAG file size, multiple of 64 (default: 256 MB)
+}
+
+export const DEFAULT_ARTIFACT_STORE_OPTIONS: ArtifactStoreOptions = {
+  quotaBytes: 8 * 1024 ** 3,    // Two ETC-sized epochs
+  persistDAG: true,             // Skip DAG generation on restart
+  segmentBytes: 256 * 1024 ** 2, // Keeps single reads/writes small
+};
+
+export interface StoredFile {
+  bytes: number;
+  checksum: string;  // checksum32() of the file contents
+}
+
+/**
+ * What's stored for one epoch (written last, so a manifest means its files are complete)
+ */
+export interface EpochManifest {
+  version: number;
+  datasetEpoch: number;
+  seedEpoch: number;
+  cache: StoredFile;
+  dag?: StoredFile[];  // Segments in order; absent if only the cache was saved
+  lastUsed: number;    // Date.now() of the last save or load (for LRU eviction)
+}
+
+const MANIFEST_VERSION = 1;
+
+/**
+ * FNV-1a over 32-bit words, seeded with the length
+ * Fast enough for multi-GB DAGs; catches truncation and corruption, not tampering
+ */
+export function checksum32(data: Uint32Array): string {
+  let hash = (0x811c9dc5 ^ data.length) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    hash = Math.imul(hash ^ data[i], 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+function asBytes(data: Uint32Array): Uint8Array {
+  return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function asWords(bytes: Uint8Array): Uint32Array<ArrayBuffer> {
+  // Copy if unaligned or shared (GPU uploads need a plain ArrayBuffer)
+  const aligned = bytes.byteOffset % 4 === 0 && bytes.buffer instanceof ArrayBuffer ? bytes : bytes.slice();
+  return new Uint32Array(aligned.buffer as ArrayBuffer, aligned.byteOffset, aligned.byteLength / 4);
+}
+
+export class EpochArtifactStore {
+  readonly options: ArtifactStoreOptions;
+  private backend: ArtifactBackend;
+
+  constructor(backend: ArtifactBackend, options: Partial<ArtifactStoreOptions> = {}) {
+    this.backend = backend;
+    this.options = { ...DEFAULT_ARTIFACT_STORE_OPTIONS, ...options };
+
+    if (this.options.segmentBytes % 64 !== 0) {
+      throw new Error(`segmentBytes must be a multiple of 64, got ${this.options.segmentBytes}`);
+    }
+  }
+
+  /**
+   * Load and verify the cache for an epoch
+   * @returns Cache, or null if missing or corrupt (corrupt artifacts are deleted)
+   */
+  async loadCache(epoch: EpochLike): Promise<Uint32Array<ArrayBuffer> | null> {
+    const info = resolveEpoch(epoch);
+    const manifest = await this.readManifest(info);
+    if (!manifest) {
+      return null;
+    }
+
+    const cache = await this.readVerified(this.cacheKey(info), manifest.cache);
+    if (!cache) {
+      console.warn(`⚠️ Stored cache for epoch ${info.datasetEpoch} failed verification, discarding`);
+      await this.delete(info);
+      return null;
+    }
+
+    await this.touch(manifest);
+    return cache;
+  }
+
+  /**
+   * Stream the stored DAG for an epoch, one verified segment at a time
+   * Segments already delivered stay delivered if a later one fails verification
+   *
+   * @param onSegment Called with each segment and its byte offset in the DAG
+   * @returns false if the DAG is missing or corrupt (corrupt DAG files are deleted)
+   */
+  async loadDAG(
+    epoch: EpochLike,
+    onSegment: (segment: Uint32Array<ArrayBuffer>, byteOffset: number) => void | Promise<void>
+  ): Promise<boolean> {
+    const info = resolveEpoch(epoch);
+    const manifest = await this.readManifest(info);
+    if (!manifest?.dag) {
+      return false;
+    }
+
+    let byteOffset = 0;
+    for (let i = 0; i < manifest.dag.length; i++) {
+      const segment = await this.readVerified(this.dagKey(info, i), manifest.dag[i]);
+      if (!segment) {
+        console.warn(`⚠️ Stored DAG segment ${i} for epoch ${info.datasetEpoch} failed verification, discarding DAG`);
+        await this.deleteDAG(manifest);
+        return false;
+      }
+      await onSegment(segment, byteOffset);
+      byteOffset += segment.byteLength;
+    }
+
+    await this.touch(manifest);
+    return true;
+  }
+
+  /**
+   * Save the cache for an epoch (replaces anything stored for it)
+   */
+  async saveCache(epoch: EpochLike, cache: Uint32Array): Promise<void> {
+    const info = resolveEpoch(epoch);
+    const existing = await this.readManifest(info);
+    if (existing?.dag) {
+      await this.deleteDAG(existing);
+    }
+
+    await this.backend.write(this.cacheKey(info), asBytes(cache));
+    await this.writeManifest({
+      version: MANIFEST_VERSION,
+      datasetEpoch: info.datasetEpoch,
+      seedEpoch: info.seedEpoch,
+      cache: { bytes: cache.byteLength, checksum: checksum32(cache) },
+      lastUsed: Date.now(),
+    });
+
+    await this.evict(info);
+  }
+
+  /**
+   * Save the DAG for an epoch whose cache is already stored
+   * Skipped (returns false) if persistDAG is off or cache + DAG alone exceed the quota
+   *
+   * @param dag Full DAG; only subarray() and byteLength are used, so chunked views work
+   */
+  async saveDAG(epoch: EpochLike, dag: Uint32Array): Promise<boolean> {
+    const info = resolveEpoch(epoch);
+    if (!this.options.persistDAG) {
+      return false;
+    }
+
+    const manifest = await this.readManifest(info);
+    if (!manifest) {
+      throw new Error(`Save the cache for epoch ${info.datasetEpoch} before its DAG`);
+    }
+
+    if (manifest.cache.bytes + dag.byteLength > this.options.quotaBytes) {
+      console.warn(`⚠️ DAG for epoch ${info.datasetEpoch} exceeds the storage quota, not persisting it`);
+      return false;
+    }
+
+    if (manifest.dag) {
+      await this.deleteDAG(manifest);
+    }
+
+    const segmentWords = this.options.segmentBytes / 4;
+    const segments: StoredFile[] = [];
+    for (let start = 0; start < dag.length; start += segmentWords) {
+      const segment = dag.subarray(start, Math.min(start + segmentWords, dag.length));
+      await this.backend.write(this.dagKey(info, segments.length), asBytes(segment));
+      segments.push({ bytes: segment.byteLength, checksum: checksum32(segment) });
+    }
+
+    await this.writeManifest({ ...manifest, dag: segments, lastUsed: Date.now() });
+    await this.evict(info);
+    return true;
+  }
+
+  /**
+   * Manifests of every stored epoch, least recently used first
+   */
+  async list(): Promise<EpochManifest[]> {
+    const keys = await this.backend.list();
+    const manifests: EpochManifest[] = [];
+
+    for (const key of keys) {
+      const match = key.match(/^epoch-(\d+)-(\d+)\.json$/);
+      if (!match) continue;
+      const manifest = await this.readManifest({
+        datasetEpoch: Number(match[1]),
+        seedEpoch: Number(match[2]),
+        epochLength: 0,
+      });
+      if (manifest) {
+        manifests.push(manifest);
+      }
+    }
+
+    return manifests.sort((a, b) => a.lastUsed - b.lastUsed);
+  }
+
+  /**
+   * Total bytes of cache + DAG files stored
+   */
+  async usage(): Promise<number> {
+    const manifests = await this.list();
+    return manifests.reduce((sum, m) => sum + this.manifestBytes(m), 0);
+  }
+
+  /**
+   * Delete everything stored for an epoch
+   */
+  async delete(epoch: EpochLike): Promise<void> {
+    const info = resolveEpoch(epoch);
+    const manifest = await this.readManifest(info);
+
+    // Manifest first: a half-deleted epoch must never look complete
+    await this.backend.delete(this.manifestKey(info));
+    await this.backend.delete(this.cacheKey(info));
+    for (let i = 0; i < (manifest?.dag?.length ?? 0); i++) {
+      await this.backend.delete(this.dagKey(info, i));
+    }
+  }
+
+  /**
+   * Evict least recently used epochs until the store fits its quota
+   * @param keep Epoch that is never evicted (the one just saved)
+   */
+  private async evict(keep: EpochInfo): Promise<void> {
+    const manifests = await this.list();
+    let total = manifests.reduce((sum, m) => sum + this.manifestBytes(m), 0);
+
+    for (const manifest of manifests) {
+      if (total <= this.options.quotaBytes) break;
+      if (manifest.datasetEpoch === keep.datasetEpoch && manifest.seedEpoch === keep.seedEpoch) continue;
+
+      console.log(`🗑️ Evicting stored epoch ${manifest.datasetEpoch} (${(this.manifestBytes(manifest) / 1024 / 1024).toFixed(0)} MB)`);
+      await this.delete({ datasetEpoch: manifest.datasetEpoch, seedEpoch: manifest.seedEpoch, epochLength: 0 });
+      total -= this.manifestBytes(manifest);
+    }
+  }
+
+  private async deleteDAG(manifest: EpochManifest): Promise<void> {
+    const info = { datasetEpoch: manifest.datasetEpoch, seedEpoch: manifest.seedEpoch, epochLength: 0 };
+    const { dag, ...rest } = manifest;
+    await this.writeManifest(rest);
+    for (let i = 0; i < (dag?.length ?? 0); i++) {
+      await this.backend.delete(this.dagKey(info, i));
+    }
+  }
+
+  private async readVerified(key: string, expected: StoredFile): Promise<Uint32Array<ArrayBuffer> | null> {
+    const bytes = await this.backend.read(key);
+    if (!bytes || bytes.byteLength !== expected.bytes) {
+      return null;
+    }
+    const words = asWords(bytes);
+    return checksum32(words) === expected.checksum ? words : null;
+  }
+
+  private async readManifest(info: EpochInfo): Promise<EpochManifest | null> {
+    const bytes = await this.backend.read(this.manifestKey(info));
+    if (!bytes) {
+      return null;
+    }
+
+    try {
+      const manifest = JSON.parse(new TextDecoder().decode(bytes)) as EpochManifest;
+      return manifest.version === MANIFEST_VERSION ? manifest : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeManifest(manifest: EpochManifest): Promise<void> {
+    const info = { datasetEpoch: manifest.datasetEpoch, seedEpoch: manifest.seedEpoch, epochLength: 0 };
+    await this.backend.write(this.manifestKey(info), new TextEncoder().encode(JSON.stringify(manifest)));
+  }
+
+  private async touch(manifest: EpochManifest): Promise<void> {
+    await this.writeManifest({ ...manifest, lastUsed: Date.now() });
+  }
+
+  private manifestBytes(manifest: EpochManifest): number {
+    return manifest.cache.bytes + (manifest.dag ?? []).reduce((sum, s) => sum + s.bytes, 0);
+  }
+
+  // Cache contents depend on the seed epoch, sizes on the dataset epoch (they differ under ETChash)
+  private prefix(info: EpochInfo): string {
+    return `epoch-${info.datasetEpoch}-${info.seedEpoch}`;
+  }
+
+  private manifestKey(info: EpochInfo): string {
+    return `${this.prefix(info)}.json`;
+  }
+
+  private cacheKey(info: EpochInfo): string {
+    return `${this.prefix(info)}.cache`;
+  }
+
+  private dagKey(info: EpochInfo, segment: number): string {
+    return `${this.prefix(info)}.dag.${segment}`;
+  }
+}
+
+/**
+ * Origin Private File System backend (browser main thread or worker)
+ */
+export class OPFSArtifactBackend implements ArtifactBackend {
+  private directoryName: string;
+  private directory?: Promise<FileSystemDirectoryHandle>;
+
+  constructor(directoryName = 'ethash-artifacts') {
+    this.directoryName = directoryName;
+  }
+
+  async read(key: string): Promise<Uint8Array | null> {
+    const dir = await this.getDirectory();
+    try {
+      const handle = await dir.getFileHandle(key);
+      const file = await handle.getFile();
+      return new Uint8Array(await file.arrayBuffer());
+    } catch (error) {
+      if ((error as DOMException).name === 'NotFoundError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(key: string, data: Uint8Array): Promise<void> {
+    const dir = await this.getDirectory();
+    const handle = await dir.getFileHandle(key, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(data as Uint8Array<ArrayBuffer>);
+    await writable.close();
+  }
+
+  async delete(key: string): Promise<void> {
+    const dir = await this.getDirectory();
+    try {
+      await dir.removeEntry(key);
+    } catch (error) {
+      if ((error as DOMException).name !== 'NotFoundError') {
+        throw error;
+      }
+    }
+  }
+
+  async list(): Promise<string[]> {
+    const dir = await this.getDirectory();
+    const keys: string[] = [];
+    for await (const key of (dir as unknown as { keys(): AsyncIterable<string> }).keys()) {
+      keys.push(key);
+    }
+    return keys;
+  }
+
+  private getDirectory(): Promise<FileSystemDirectoryHandle> {
+    if (!this.directory) {
+      if (!navigator.storage?.getDirectory) {
+        throw new Error('Origin Private File System not available');
+      }
+      this.directory = navigator.storage.getDirectory()
+        .then(root => root.getDirectoryHandle(this.directoryName, { create: true }));
+    }
+    return this.directory;
+  }
+}
+
+/**
+ * In-memory backend for tests (files is exposed so tests can corrupt or inspect them)
+ */
+export class MemoryArtifactBackend implements ArtifactBackend {
+  readonly files = new Map<string, Uint8Array>();
+
+  async read(key: string): Promise<Uint8Array | null> {
+    const data = this.files.get(key);
+    return data ? data.slice() : null;
+  }
+
+  async write(key: string, data: Uint8Array): Promise<void> {
+    this.files.set(key, data.slice());
+  }
+
+  async delete(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.files.keys()];
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Mock ETC Node
+ * In-process JSON-RPC (HTTP) + WebSocket server for testing ETCClient without a network
+ * install() routes fetch() and WebSocket for the mock's URLs to it; everything else passes through
+ */
+
+import { WorkPackage } from '../rpc/etc-client';
+
+const SEED_HASH = '0x' + '5e'.repeat(32);
+const TARGET = '0x' + '0f'.repeat(32);
+
+export class MockETCNode {
+  readonly httpEndpoint: string;
+  readonly wsEndpoint: string;
+
+  /** Number of eth_getWork calls served */
+  getWorkCalls = 0;
+  /** Timestamps (performance.now()) of every WebSocket connection attempt */
+  readonly connectAttempts: number[] = [];
+  /** Number of eth_subscribe requests received */
+  subscribeCalls = 0;
+  /** When false, WebSocket connections fail like an unreachable endpoint */
+  acceptWebSockets = true;
+  /** Milliseconds before HTTP responses arrive (the answer reflects the chain when the request came in) */
+  responseDelay = 0;
+
+  private blockNumber: number;
+  private sockets = new Set<MockWebSocket>();
+  private originalFetch?: typeof fetch;
+  private originalWebSocket?: typeof WebSocket;
+
+  constructor(name = 'mock-node', startBlock = 1000) {
+    this.httpEndpoint = `http://${name}.test`;
+    this.wsEndpoint = `ws://${name}.test`;
+    this.blockNumber = startBlock;
+  }
+
+  /**
+   * Route fetch() and new WebSocket() for this node's endpoints to the mock
+   */
+  install(): void {
+    const node = this;
+    this.originalFetch = globalThis.fetch;
+    this.originalWebSocket = globalThis.WebSocket;
+    const originalFetch = this.originalFetch;
+    const OriginalWebSocket = this.originalWebSocket;
+
+    globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) !== node.httpEndpoint) {
+        return originalFetch(input, init);
+      }
+      const request = JSON.parse(String(init?.body));
+      const response = node.handleRPC(request);
+      if (node.responseDelay > 0) {
+        await new Promise(resolve => setTimeout(resolve, node.responseDelay));
+      }
+      return new Response(JSON.stringify(response), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }) as typeof fetch;
+
+    globalThis.WebSocket = function (this: unknown, url: string | URL, protocols?: string | string[]) {
+      if (String(url) !== node.wsEndpoint) {
+        return new OriginalWebSocket(url, protocols);
+      }
+      return node.openSocket();
+    } as unknown as typeof WebSocket;
+  }
+
+  /**
+   * Restore the real fetch() and WebSocket
+   */
+  uninstall(): void {
+    if (this.originalFetch) globalThis.fetch = this.originalFetch;
+    if (this.originalWebSocket) globalThis.WebSocket = this.originalWebSocket;
+    this.dropConnections();
+  }
+
+  /**
+   * Current work (header hash changes with every block)
+   */
+  currentWork(): WorkPackage {
+    return {
+      headerHash: '0x' + this.blockNumber.toString(16).padStart(64, '0'),
+      seedHash: SEED_HASH,
+      target: TARGET,
+      blockNumber: this.blockNumber,
+    };
+  }
+
+  /**
+   * Advance one block and notify newHeads subscribers
+   */
+  mineBlock(): void {
+    this.blockNumber++;
+    const hash = '0x' + 'b'.repeat(56) + this.blockNumber.toString(16).padStart(8, '0');
+    for (const socket of this.sockets) {
+      if (socket.subscriptionId) {
+        socket.deliver({
+          jsonrpc: '2.0',
+          method: 'eth_subscription',
+          params: { subscription: socket.subscriptionId, result: { hash, number: '0x' + this.blockNumber.toString(16) } },
+        });
+      }
+    }
+  }
+
+  /**
+   * Close every open WebSocket from the server side
+   */
+  dropConnections(): void {
+    for (const socket of [...this.sockets]) {
+      socket.serverClose();
+    }
+  }
+
+  get openSockets(): number {
+    return this.sockets.size;
+  }
+
+  private handleRPC(request: { id: number; method: string; params: any[] }): object {
+    switch (request.method) {
+      case 'eth_getWork': {
+        this.getWorkCalls++;
+        const work = this.currentWork();
+        return { jsonrpc: '2.0', id: request.id, result: [work.headerHash, work.seedHash, work.target] };
+      }
+      case 'eth_blockNumber':
+        return { jsonrpc: '2.0', id: request.id, result: '0x' + this.blockNumber.toString(16) };
+      default:
+        return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: 'Method not found' } };
+    }
+  }
+
+  private openSocket(): MockWebSocket {
+    this.connectAttempts.push(performance.now());
+    const socket = new MockWebSocket(this);
+
+    setTimeout(() => {
+      if (this.acceptWebSockets) {
+        this.sockets.add(socket);
+        socket.serverOpen();
+      } else {
+        socket.serverFail();
+      }
+    }, 0);
+
+    return socket;
+  }
+
+  /** @internal */
+  handleSocketMessage(socket: MockWebSocket, data: string): void {
+    const request = JSON.parse(data);
+    if (request.method === 'eth_subscribe') {
+      this.subscribeCalls++;
+      socket.subscriptionId = `0xsub${this.subscribeCalls}`;
+      socket.deliver({ jsonrpc: '2.0', id: request.id, result: socket.subscriptionId });
+    }
+  }
+
+  /** @internal */
+  forgetSocket(socket: MockWebSocket): void {
+    this.sockets.delete(socket);
+  }
+}
+
+/**
+ * Just enough of the WebSocket API for ETCClient
+ */
+class MockWebSocket {
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  subscriptionId?: string;
+
+  private node: MockETCNode;
+  private closed = false;
+
+  constructor(node: MockETCNode) {
+    this.node = node;
+  }
+
+  send(data: string): void {
+    if (this.closed) {
+      throw new Error('WebSocket is closed');
+    }
+    setTimeout(() => this.node.handleSocketMessage(this, data), 0);
+  }
+
+  close(): void {
+    this.serverClose();
+  }
+
+  serverOpen(): void {
+    this.onopen?.(new Event('open'));
+  }
+
+  serverFail(): void {
+    this.onerror?.(new Event('error'));
+    this.serverClose();
+  }
+
+  serverClose(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.node.forgetSocket(this);
+    setTimeout(() => this.onclose?.({ code: 1006 } as CloseEvent), 0);
+  }
+
+  deliver(message: object): void {
+    if (this.closed) {
+      return;
+    }
+    setTimeout(() => {
+      if (!this.closed) {
+        this.onmessage?.({ data: JSON.stringify(message) } as MessageEvent);
+      }
+    }, 0);
+  }
+}
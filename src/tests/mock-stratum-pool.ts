@@ -0,0 +1,213 @@
+/**
+ * Mock Stratum Pool
+ * In-process pool server for testing StratumClient without a network
+ * Speaks EthereumStratum/1.0.0 or ETHProxy over an in-memory transport
+ */
+
+import type { StratumProtocol, StratumTransport, StratumTransportHandlers } from '../rpc/stratum-client';
+
+export interface MockJob {
+  jobId: string;
+  seedHash: string;      // 0x-prefixed
+  headerHash: string;    // 0x-prefixed
+  target?: string;       // ETHProxy share target (0x-prefixed)
+  blockNumber?: number;  // ETHProxy only
+}
+
+export interface MockSubmission {
+  method: string;
+  params: any[];
+  accepted: boolean;
+}
+
+export class MockStratumPool {
+  readonly protocol: StratumProtocol;
+  extranonce: string;
+
+  /** Every request the pool received, in order */
+  readonly received: Array<{ method: string; params: any[]; worker?: string }> = [];
+  readonly submissions: MockSubmission[] = [];
+
+  /** Answer mining.authorize / eth_submitLogin with false */
+  rejectLogin = false;
+
+  private jobs = new Map<string, { job: MockJob; extranonce: string }>();
+  private currentJob?: MockJob;
+  private client?: StratumTransportHandlers;
+
+  constructor(protocol: StratumProtocol, extranonce = '') {
+    this.protocol = protocol;
+    this.extranonce = extranonce;
+  }
+
+  /**
+   * Transport a StratumClient uses to connect to this pool
+   */
+  createTransport(): StratumTransport {
+    return {
+      connect: async (handlers) => {
+        this.client = handlers;
+      },
+      send: (data) => {
+        // Deliver asynchronously, like a real socket
+        setTimeout(() => {
+          for (const line of data.split('\n')) {
+            if (line.trim()) {
+              this.handleRequest(JSON.parse(line));
+            }
+          }
+        }, 0);
+      },
+      close: () => {
+        this.client = undefined;
+      },
+    };
+  }
+
+  /** Whether a client transport is currently open */
+  get connected(): boolean {
+    return this.client !== undefined;
+  }
+
+  /**
+   * Send raw text to the client (for testing line framing)
+   */
+  sendRaw(text: string): void {
+    if (this.client) {
+      this.client.onData(text);
+    }
+  }
+
+  /**
+   * Drop the connection from the pool side
+   */
+  disconnect(): void {
+    const client = this.client;
+    this.client = undefined;
+    client?.onClose();
+  }
+
+  /**
+   * Expire all jobs on the pool side (late shares get "Job not found")
+   */
+  forgetJobs(): void {
+    this.jobs.clear();
+  }
+
+  setDifficulty(difficulty: number): void {
+    this.send({ id: null, method: 'mining.set_difficulty', params: [difficulty] });
+  }
+
+  setExtranonce(extranonce: string): void {
+    this.extranonce = extranonce;
+    this.send({ id: null, method: 'mining.set_extranonce', params: [extranonce] });
+  }
+
+  /**
+   * Push a new job: mining.notify (EthereumStratum) or an id-0 work result (ETHProxy)
+   */
+  notify(job: MockJob, cleanJobs = true): void {
+    if (cleanJobs) {
+      this.jobs.clear();
+    }
+    this.jobs.set(job.jobId, { job, extranonce: this.extranonce });
+    this.currentJob = job;
+
+    if (this.protocol === 'ETHProxy') {
+      this.send({ id: 0, jsonrpc: '2.0', result: this.proxyWork(job) });
+    } else {
+      this.send({
+        id: null,
+        method: 'mining.notify',
+        params: [job.jobId, strip(job.seedHash), strip(job.headerHash), cleanJobs],
+      });
+    }
+  }
+
+  private handleRequest(request: { id: number; method: string; params: any[]; worker?: string }): void {
+    this.received.push({ method: request.method, params: request.params, worker: request.worker });
+
+    switch (request.method) {
+      case 'mining.subscribe':
+        this.reply(request.id, [['mining.notify', 'mock-subscription', 'EthereumStratum/1.0.0'], this.extranonce]);
+        break;
+
+      case 'mining.authorize':
+      case 'eth_submitLogin':
+        this.reply(request.id, !this.rejectLogin);
+        break;
+
+      case 'mining.extranonce.subscribe':
+        this.reply(request.id, true);
+        break;
+
+      case 'mining.submit': {
+        const [, jobId, nonceSuffix] = request.params;
+        const job = this.jobs.get(jobId);
+        if (!job) {
+          this.recordSubmission(request, false);
+          this.replyError(request.id, [21, 'Job not found', null]);
+        } else if (nonceSuffix.length !== 16 - job.extranonce.length) {
+          this.recordSubmission(request, false);
+          this.replyError(request.id, [20, 'Invalid nonce size', null]);
+        } else {
+          this.recordSubmission(request, true);
+          this.reply(request.id, true);
+        }
+        break;
+      }
+
+      case 'eth_getWork':
+        if (this.currentJob) {
+          this.reply(request.id, this.proxyWork(this.currentJob));
+        } else {
+          this.replyError(request.id, { code: -32000, message: 'no work available yet' });
+        }
+        break;
+
+      case 'eth_submitWork': {
+        const accepted = this.currentJob !== undefined && request.params[1] === this.currentJob.headerHash;
+        this.recordSubmission(request, accepted);
+        this.reply(request.id, accepted);
+        break;
+      }
+
+      default:
+        this.replyError(request.id, this.protocol === 'ETHProxy'
+          ? { code: -32601, message: 'Method not found' }
+          : [20, 'Method not found', null]);
+    }
+  }
+
+  private proxyWork(job: MockJob): string[] {
+    const work = [job.headerHash, job.seedHash, job.target ?? '0x' + 'f'.repeat(64)];
+    if (job.blockNumber !== undefined) {
+      work.push('0x' + job.blockNumber.toString(16));
+    }
+    return work;
+  }
+
+  private recordSubmission(request: { method: string; params: any[] }, accepted: boolean): void {
+    this.submissions.push({ method: request.method, params: request.params, accepted });
+  }
+
+  private reply(id: number, result: unknown): void {
+    this.send(this.protocol === 'ETHProxy'
+      ? { id, jsonrpc: '2.0', result }
+      : { id, result, error: null });
+  }
+
+  private replyError(id: number, error: unknown): void {
+    this.send(this.protocol === 'ETHProxy'
+      ? { id, jsonrpc: '2.0', error }
+      : { id, result: null, error });
+  }
+
+  private send(message: object): void {
+    this.sendRaw(JSON.stringify(message) + '\n');
+  }
+}
+
+function strip(hex: string): string {
+  return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
@@ -4,7 +4,7 @@
  * This verifies the shader logic works correctly without needing a huge DAG
  */
 
-import { setupHashimotoGPU, createReusableBuffers, type HashimotoSetup } from '../gpu/hashimoto';
+import { setupHashimotoGPU, createReusableBuffers, hashimotoParams, type HashimotoSetup } from '../gpu/hashimoto';
 import { createGPUDevice } from '../gpu/device-helper';
 import { keccak256 } from 'ethereum-cryptography/keccak.js';
 
@@ -44,12 +44,13 @@ async function runTest() {
     log('Setting up Hashimoto for epoch 0...');
     const setup = await setupHashimotoGPU(0, device);
     log(`✓ Setup complete`);
-    log(`  DAG: ${(setup.dag.byteLength / 1024 / 1024 / 1024).toFixed(2)} GB`);
+    log(`  DAG: ${(setup.dagBytes / 1024 / 1024 / 1024).toFixed(2)} GB`);
     log(`  Original buffers: ${setup.numDAGBuffers}\n`);
 
     // Artificially split the DAG into 2 buffers
     log('Artificially splitting DAG into 2 buffers...');
-    const dagItems = setup.dag.length / 16;
+    const dag = await setup.readDAG();
+    const dagItems = setup.dagItems;
     const itemsPerBuffer = Math.ceil(dagItems / 2);
 
     const buffer0Items = itemsPerBuffer;
@@ -61,7 +62,7 @@ async function runTest() {
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
       mappedAtCreation: true,
     });
-    new Uint32Array(buffer0.getMappedRange()).set(setup.dag.subarray(0, buffer0Items * 16));
+    new Uint32Array(buffer0.getMappedRange()).set(dag.subarray(0, buffer0Items * 16));
     buffer0.unmap();
 
     // Create buffer 1 (second half)
@@ -70,7 +71,7 @@ async function runTest() {
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
       mappedAtCreation: true,
     });
-    new Uint32Array(buffer1.getMappedRange()).set(setup.dag.subarray(buffer0Items * 16));
+    new Uint32Array(buffer1.getMappedRange()).set(dag.subarray(buffer0Items * 16));
     buffer1.unmap();
 
     // Create modified setup with 2 buffers
@@ -96,8 +97,8 @@ async function runTest() {
     const batchSize = 1000000;
     log(`Testing with ${batchSize.toLocaleString()} nonces...\n`);
 
-    // Create reusable buffers (this should select the 2-buffer shader)
-    createReusableBuffers(batchSize, device, setup2Buffer);
+    // Create reusable buffers (this should select the split DAG shader)
+    await createReusableBuffers(batchSize, device, setup2Buffer);
     const buffers = setup2Buffer.reusableBuffers!;
 
     // Generate nonces
@@ -111,12 +112,7 @@ async function runTest() {
     device.queue.writeBuffer(buffers.headerHashBuffer, 0, headerHashU32);
     device.queue.writeBuffer(buffers.noncesBuffer, 0, noncesU32Data);
 
-    const paramsData = new Uint32Array(4);
-    paramsData[0] = batchSize;
-    paramsData[1] = setup2Buffer.dag.length / 16;
-    paramsData[2] = setup2Buffer.dagItemsPerBuffer;
-    paramsData[3] = 0;
-    device.queue.writeBuffer(buffers.paramsBuffer, 0, paramsData);
+    device.queue.writeBuffer(buffers.paramsBuffer, 0, hashimotoParams(setup2Buffer, batchSize));
 
     // Create bind groups
     const bindGroup0 = device.createBindGroup({
@@ -127,6 +123,8 @@ async function runTest() {
         { binding: 3, resource: { buffer: setup2Buffer.dagBuffers[0] } },
         { binding: 4, resource: { buffer: buffers.hashesBuffer } },
         { binding: 5, resource: { buffer: buffers.paramsBuffer } },
+        { binding: 6, resource: { buffer: buffers.mixDigestsBuffer } },
+        { binding: 7, resource: { buffer: buffers.candidateSlots[0].candidatesBuffer } },
       ],
     });
 
@@ -231,8 +229,14 @@ async function runTest() {
     buffers.headerHashBuffer.destroy();
     buffers.noncesBuffer.destroy();
     buffers.hashesBuffer.destroy();
+    buffers.mixDigestsBuffer.destroy();
     buffers.paramsBuffer.destroy();
     buffers.stagingBuffer.destroy();
+    buffers.mixStagingBuffer.destroy();
+    buffers.candidateSlots.forEach(slot => {
+      slot.candidatesBuffer.destroy();
+      slot.candidatesStagingBuffer.destroy();
+    });
     setup2Buffer.cacheBuffer.destroy();
     buffer0.destroy();
     buffer1.destroy();
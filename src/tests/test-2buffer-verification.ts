@@ -3,7 +3,7 @@
  * Tests that the 2-buffer shader variant works correctly for epochs requiring 2 buffers
  */
 
-import { setupHashimotoGPU, createReusableBuffers } from '../gpu/hashimoto';
+import { setupHashimotoGPU, createReusableBuffers, hashimotoParams } from '../gpu/hashimoto';
 import { createGPUDevice } from '../gpu/device-helper';
 import { keccak256 } from 'ethereum-cryptography/keccak.js';
 
@@ -50,7 +50,7 @@ async function runTest() {
     const setupTime = performance.now() - setupStart;
 
     log(`✓ Setup complete in ${formatDuration(setupTime)}`);
-    log(`  DAG: ${(setup.dag.byteLength / 1024 / 1024 / 1024).toFixed(2)} GB`);
+    log(`  DAG: ${(setup.dagBytes / 1024 / 1024 / 1024).toFixed(2)} GB`);
     log(`  <span style="color: #00ff88; font-weight: bold;">Number of buffers: ${setup.numDAGBuffers}</span>`);
     log(`  Items per buffer: ${setup.dagItemsPerBuffer.toLocaleString()}`);
     log(`  Buffer 0 size: ${(setup.dagBuffers[0].size / 1024 / 1024 / 1024).toFixed(2)} GB`);
@@ -76,7 +76,7 @@ async function runTest() {
     log(`Testing with ${batchSize.toLocaleString()} nonces...\n`);
 
     // Create reusable buffers (this should select the 2-buffer shader)
-    createReusableBuffers(batchSize, device, setup);
+    await createReusableBuffers(batchSize, device, setup);
     const buffers = setup.reusableBuffers!;
 
     // Generate nonces
@@ -90,12 +90,7 @@ async function runTest() {
     device.queue.writeBuffer(buffers.headerHashBuffer, 0, headerHashU32);
     device.queue.writeBuffer(buffers.noncesBuffer, 0, noncesU32Data);
 
-    const paramsData = new Uint32Array(4);
-    paramsData[0] = batchSize;
-    paramsData[1] = setup.dag.length / 16;
-    paramsData[2] = setup.dagItemsPerBuffer;
-    paramsData[3] = 0;
-    device.queue.writeBuffer(buffers.paramsBuffer, 0, paramsData);
+    device.queue.writeBuffer(buffers.paramsBuffer, 0, hashimotoParams(setup, batchSize));
 
     // Create bind groups
     const bindGroup0 = device.createBindGroup({
@@ -106,6 +101,8 @@ async function runTest() {
         { binding: 3, resource: { buffer: setup.dagBuffers[0] } },
         { binding: 4, resource: { buffer: buffers.hashesBuffer } },
         { binding: 5, resource: { buffer: buffers.paramsBuffer } },
+        { binding: 6, resource: { buffer: buffers.mixDigestsBuffer } },
+        { binding: 7, resource: { buffer: buffers.candidateSlots[0].candidatesBuffer } },
       ],
     });
 
@@ -181,8 +178,14 @@ async function runTest() {
     buffers.headerHashBuffer.destroy();
     buffers.noncesBuffer.destroy();
     buffers.hashesBuffer.destroy();
+    buffers.mixDigestsBuffer.destroy();
     buffers.paramsBuffer.destroy();
     buffers.stagingBuffer.destroy();
+    buffers.mixStagingBuffer.destroy();
+    buffers.candidateSlots.forEach(slot => {
+      slot.candidatesBuffer.destroy();
+      slot.candidatesStagingBuffer.destroy();
+    });
     setup.cacheBuffer.destroy();
     for (const buffer of setup.dagBuffers) {
       buffer.destroy();
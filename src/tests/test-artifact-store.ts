@@ -0,0 +1,162 @@
+/**
+ * Artifact Store Test Suite
+ * Tests EpochArtifactStore on the in-memory backend: cache/DAG round trips,
+ * checksum verification, quota eviction (LRU) and epoch keying
+ * CPU only - no WebGPU or storage permissions required
+ */
+
+import { EpochArtifactStore, MemoryArtifactBackend, checksum32 } from '../storage/artifact-store';
+import { EpochInfo } from '../mining/epoch-manager';
+
+const KB = 1024;
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Deterministic fake artifact (contents don't matter to the store)
+ */
+function makeData(words: number, seed: number): Uint32Array {
+  const data = new Uint32Array(words);
+  for (let i = 0; i < words; i++) {
+    data[i] = Math.imul(i + 1, 0x9e3779b1) ^ seed;
+  }
+  return data;
+}
+
+function sameData(a: Uint32Array | null, b: Uint32Array): boolean {
+  return a !== null && a.length === b.length && a.every((word, i) => word === b[i]);
+}
+
+async function testArtifactStore() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== CACHE ===\n');
+    const backend = new MemoryArtifactBackend();
+    const store = new EpochArtifactStore(backend, { quotaBytes: 64 * KB, segmentBytes: 4 * KB });
+
+    check('Empty store has no cache', await store.loadCache(7) === null, 'null');
+    check('Empty store has no DAG', !(await store.loadDAG(7, () => {})), 'false');
+
+    const cache7 = makeData(1024, 7);
+    await store.saveCache(7, cache7);
+    check('Cache round trip', sameData(await store.loadCache(7), cache7), `${cache7.byteLength} bytes`);
+
+    const keys = [...backend.files.keys()].sort();
+    check('Files keyed by epoch', keys.join(',') === 'epoch-7-7.cache,epoch-7-7.json', keys.join(', '));
+
+    check(
+      'Checksum is content-sensitive',
+      checksum32(cache7) !== checksum32(makeData(1024, 8)) && checksum32(cache7) !== checksum32(cache7.subarray(0, 1023)),
+      checksum32(cache7)
+    );
+
+    let threw = false;
+    try {
+      await store.saveDAG(8, makeData(16, 8));
+    } catch {
+      threw = true;
+    }
+    check('DAG without stored cache rejected', threw, threw ? 'throws' : 'did not throw');
+
+    log('\n=== DAG ===\n');
+    // 2.5 segments: the last segment is partial
+    const dag7 = makeData(2560, 70);
+    const saved = await store.saveDAG(7, dag7);
+    const segmentKeys = [...backend.files.keys()].filter(k => k.includes('.dag.'));
+    check('DAG split into segments', saved && segmentKeys.length === 3, `${segmentKeys.length} segment file(s)`);
+
+    const offsets: number[] = [];
+    const loadedDAG = new Uint32Array(dag7.length);
+    const loaded = await store.loadDAG(7, (segment, byteOffset) => {
+      offsets.push(byteOffset);
+      loadedDAG.set(segment, byteOffset / 4);
+    });
+    check('DAG streamed with byte offsets', loaded && offsets.join(',') === '0,4096,8192', offsets.join(', '));
+    check('DAG round trip', sameData(loadedDAG, dag7), `${dag7.byteLength} bytes`);
+
+    log('\n=== VERIFICATION ===\n');
+    backend.files.get('epoch-7-7.dag.1')![100] ^= 0xff;
+    const corruptLoaded = await store.loadDAG(7, () => {});
+    const dagKeysLeft = [...backend.files.keys()].filter(k => k.includes('.dag.')).length;
+    check('Corrupt DAG segment rejected', !corruptLoaded, corruptLoaded ? 'loaded' : 'rejected');
+    check('Corrupt DAG discarded, cache kept', dagKeysLeft === 0 && sameData(await store.loadCache(7), cache7), `${dagKeysLeft} DAG file(s) left`);
+
+    const cacheBytes = backend.files.get('epoch-7-7.cache')!;
+    backend.files.set('epoch-7-7.cache', cacheBytes.subarray(0, cacheBytes.length - 64));
+    const truncated = await store.loadCache(7);
+    check(
+      'Truncated cache rejected and deleted',
+      truncated === null && backend.files.size === 0,
+      `${backend.files.size} file(s) left`
+    );
+
+    log('\n=== QUOTA ===\n');
+    // 16 KB per epoch (cache only) against a 40 KB quota: room for two
+    const lru = new EpochArtifactStore(new MemoryArtifactBackend(), { quotaBytes: 40 * KB, segmentBytes: 4 * KB });
+    await lru.saveCache(1, makeData(4 * KB, 1));
+    await sleep(5);
+    await lru.saveCache(2, makeData(4 * KB, 2));
+    await sleep(5);
+    await lru.loadCache(1);  // epoch 1 is now more recent than epoch 2
+    await sleep(5);
+    await lru.saveCache(3, makeData(4 * KB, 3));
+
+    const remaining = (await lru.list()).map(m => m.datasetEpoch);
+    check('Least recently used epoch evicted', remaining.join(',') === '1,3', `stored epochs ${remaining.join(', ')}`);
+    check('Usage within quota', await lru.usage() <= 40 * KB, `${await lru.usage() / KB} KB`);
+
+    const oversized = await lru.saveDAG(3, makeData(8 * KB, 30));
+    check('DAG larger than quota not persisted', !oversized && !(await lru.loadDAG(3, () => {})), oversized ? 'saved' : 'skipped');
+
+    const cacheOnly = new EpochArtifactStore(new MemoryArtifactBackend(), { persistDAG: false });
+    await cacheOnly.saveCache(1, makeData(16, 1));
+    const skipped = !(await cacheOnly.saveDAG(1, makeData(64, 1)));
+    check('persistDAG: false keeps only the cache', skipped, skipped ? 'skipped' : 'saved');
+
+    log('\n=== EPOCH KEYS ===\n');
+    // ETChash: dataset epoch 195 uses seed epoch 390; plain Ethash epoch 195 is a different cache
+    const keyed = new EpochArtifactStore(new MemoryArtifactBackend());
+    const etchash: EpochInfo = { datasetEpoch: 195, seedEpoch: 390, epochLength: 60_000 };
+    const etchashCache = makeData(64, 390);
+    await keyed.saveCache(etchash, etchashCache);
+    check(
+      'Seed epoch is part of the key',
+      sameData(await keyed.loadCache(etchash), etchashCache) && await keyed.loadCache(195) === null,
+      'ETChash 195/390 stored, Ethash 195 not found'
+    );
+
+    threw = false;
+    try {
+      new EpochArtifactStore(new MemoryArtifactBackend(), { segmentBytes: 1000 });
+    } catch {
+      threw = true;
+    }
+    check('segmentBytes must be a multiple of 64', threw, threw ? 'throws' : 'did not throw');
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testArtifactStore);
@@ -0,0 +1,99 @@
+/**
+ * Batch Tuner Test Suite
+ * Runs tuneBatchSize against simulated GPUs (fixed overhead + time per nonce) and checks the
+ * chosen size: under the target, close to it, clamped to min/max, robust to a slow outlier
+ * CPU only - no WebGPU required
+ */
+
+import { tuneBatchSize, BatchTuning } from '../gpu/batch-tuner';
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+// Dispatch time of a simulated GPU: overhead plus a fixed cost per nonce
+function simulatedGPU(overheadMs: number, hashrate: number) {
+  const dispatched: number[] = [];
+  const measure = async (batchSize: number) => {
+    dispatched.push(batchSize);
+    return overheadMs + (batchSize / hashrate) * 1000;
+  };
+  return { measure, dispatched };
+}
+
+function describe(tuning: BatchTuning): string {
+  return tuning.measurements.map(m => `${m.batchSize.toLocaleString()}: ${m.timeMs.toFixed(1)} ms`).join(', ');
+}
+
+async function testBatchTuner() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== RAMP AND SETTLE ===\n');
+    for (const [name, hashrate] of [['Integrated GPU (3 MH/s)', 3e6], ['Mid-range GPU (25 MH/s)', 25e6]] as const) {
+      const gpu = simulatedGPU(2, hashrate);
+      const tuning = await tuneBatchSize(gpu.measure, { targetMs: 50, maxBatchSize: 4_000_000 });
+      const chosen = tuning.measurements.find(m => m.batchSize === tuning.batchSize)!;
+      const ideal = ((50 - 2) / 1000) * hashrate;
+
+      log(`  ${name}: ${describe(tuning)}`);
+      check(`${name} under target`, chosen.timeMs <= 50, `${tuning.batchSize.toLocaleString()} nonces, ${chosen.timeMs.toFixed(1)} ms`);
+      check(`${name} close to target`, tuning.batchSize > ideal * 0.95, `${((tuning.batchSize / ideal) * 100).toFixed(1)}% of ${Math.floor(ideal).toLocaleString()}`);
+      check(`${name} whole workgroups`, tuning.measurements.every(m => m.batchSize % 256 === 0), 'multiples of 256');
+      check(`${name} stops after the first size over target`, tuning.measurements.filter(m => m.timeMs > 50).length === 1, `${tuning.measurements.length} size(s) measured`);
+    }
+
+    log('\n=== LIMITS ===\n');
+    const fast = simulatedGPU(1, 1e9);
+    let tuning = await tuneBatchSize(fast.measure, { targetMs: 50, maxBatchSize: 1_000_000 });
+    check('Fast GPU capped at maxBatchSize', tuning.batchSize === 999_936 && Math.max(...fast.dispatched) === 999_936, tuning.batchSize.toLocaleString());
+
+    const slow = simulatedGPU(80, 1e6);
+    tuning = await tuneBatchSize(slow.measure, { targetMs: 50, minBatchSize: 16_384 });
+    check('Too slow even at minBatchSize falls back to it', tuning.batchSize === 16_384 && tuning.measurements.length === 1, describe(tuning));
+
+    const small = simulatedGPU(1, 25e6);
+    tuning = await tuneBatchSize(small.measure, { targetMs: 50, minBatchSize: 1000, maxBatchSize: 1000 });
+    check('Sizes rounded down to whole workgroups', tuning.batchSize === 768, tuning.batchSize.toLocaleString());
+
+    log('\n=== MEASUREMENT ===\n');
+    const counted = simulatedGPU(2, 25e6);
+    tuning = await tuneBatchSize(counted.measure, { samples: 3, maxBatchSize: 65_536 });
+    check(
+      'One warm-up plus samples per size',
+      counted.dispatched.length === tuning.measurements.length * 4,
+      `${counted.dispatched.length} dispatches for ${tuning.measurements.length} size(s)`
+    );
+
+    // One dispatch in four stalls (e.g. behind the compositor): one of each size's three samples
+    let call = 0;
+    const noisy = async (batchSize: number) => (call++ % 4 === 1 ? 500 : 2 + (batchSize / 25e6) * 1000);
+    tuning = await tuneBatchSize(noisy, { targetMs: 50, samples: 3, maxBatchSize: 4_000_000 });
+    check('Median ignores a stalled dispatch', tuning.batchSize > 1_000_000, `${tuning.batchSize.toLocaleString()} nonces`);
+
+    check(
+      'Hashrate reported per size',
+      tuning.measurements.every(m => Math.abs(m.hashrate - (m.batchSize / m.timeMs) * 1000) < 1),
+      tuning.measurements.map(m => `${(m.hashrate / 1e6).toFixed(1)} MH/s`).join(', ')
+    );
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testBatchTuner);
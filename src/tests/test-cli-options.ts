@@ -0,0 +1,122 @@
+/**
+ * CLI Options Test Suite
+ * Command-line and config file parsing for the headless miner: flag forms and types, precedence
+ * (defaults < config file < flags), per-command requirements and the errors for bad input
+ * CPU only - no WebGPU or Node required (main.ts does the file reading)
+ */
+
+import { parseCommandLine, configFromJSON, resolveCLIOptions, parsePoolURL, usage, DEFAULT_CLI_OPTIONS, CLIOptions } from '../cli/options';
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+// Options for a command line without a config file
+function resolve(argv: string[], config: Partial<CLIOptions> = {}): CLIOptions {
+  const { command, flags } = parseCommandLine(argv);
+  return resolveCLIOptions(command, config, flags);
+}
+
+function errorOf(run: () => unknown): string {
+  try {
+    run();
+    return '';
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+const HEADER = '0x' + 'ab'.repeat(32);
+
+async function testCLIOptions() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== FLAGS ===\n');
+    const solo = resolve(['mine', '--rpc', 'http://localhost:8545', '--batch-size=262144', '--pipeline-depth', '3', '--quiet']);
+    check('Command', solo.command === 'mine', solo.command);
+    check('--name value and --name=value', solo.rpc === 'http://localhost:8545' && solo.batchSize === 262144, `rpc ${solo.rpc}, batch ${solo.batchSize}`);
+    check('Numbers converted', solo.pipelineDepth === 3, `pipelineDepth ${solo.pipelineDepth}`);
+    check('Boolean flag without a value', solo.quiet === true, `quiet ${solo.quiet}`);
+    check('Boolean flag with a value', resolve(['mine', '--rpc', 'x', '--quiet=false']).quiet === false, '--quiet=false');
+    check('Defaults kept', solo.network === 'etc' && solo.targetMs === 50 && solo.password === 'x', `${solo.network}, ${solo.targetMs} ms`);
+    check('Auto batch size', resolve(['mine', '--rpc', 'x', '--batch-size', 'auto']).batchSize === 'auto', 'auto');
+    check('Flag before the command', resolve(['--epoch', '3', 'dag']).epoch === 3, 'dag --epoch 3');
+
+    log('\n=== CONFIG FILE ===\n');
+    const config = configFromJSON({ pool: 'stratum+tcp://pool.example:8008', user: '0xabc', batchSize: 'auto', targetMs: 25, quiet: true }, 'miner.json');
+    check('JSON types accepted', config.targetMs === 25 && config.quiet === true && config.batchSize === 'auto', JSON.stringify(config));
+    check('Numeric strings accepted', configFromJSON({ duration: '15' }, 'miner.json').duration === 15, 'duration "15"');
+
+    const merged = resolve(['mine', '--target-ms', '40', '--worker', 'rig1'], config);
+    check('Flags over config file', merged.targetMs === 40, `targetMs ${merged.targetMs}`);
+    check('Config file over defaults', merged.pool === config.pool && merged.quiet === true && merged.worker === 'rig1', `${merged.pool}, worker ${merged.worker}`);
+
+    log('\n=== COMMANDS ===\n');
+    const pool = resolve(['mine', '--pool', 'stratum+ssl://pool.example:5555', '--user', '0xabc', '--protocol', 'ETHProxy']);
+    check('Pool', pool.pool === 'stratum+ssl://pool.example:5555' && pool.protocol === 'ETHProxy', pool.protocol);
+    const verify = resolve(['verify', '--header', HEADER, '--nonce', '0x1234', '--target', '0x01']);
+    check('verify', verify.header === HEADER && verify.nonce === '0x1234', 'short nonce and target allowed');
+    check('bench', resolve(['bench', '--block', '20000000', '--duration', '5']).block === 20000000, '--block 20000000');
+    const wasm = resolve(['bench', '--engine', 'wasm', '--threads', '4']);
+    check('Engine', solo.engine === 'auto' && wasm.engine === 'wasm' && wasm.threads === 4, `default ${solo.engine}; ${wasm.engine}, ${wasm.threads} threads`);
+    check('--help needs no command', resolve(['--help']).help === true, 'help');
+    check('Usage lists every command and flag', ['mine', 'bench', 'dag', 'verify', '--dag-dir <value>', '--quiet '].every(text => usage().includes(text)), `${usage().split('\n').length} lines`);
+
+    log('\n=== POOL URLS ===\n');
+    const tcp = parsePoolURL('stratum+tcp://eu1.pool.example:4444');
+    const ssl = parsePoolURL('stratum+ssl://eu1.pool.example:5555/');
+    check('stratum+tcp', tcp.host === 'eu1.pool.example' && tcp.port === 4444 && !tcp.tls, `${tcp.host}:${tcp.port}`);
+    check('stratum+ssl', ssl.port === 5555 && ssl.tls, `${ssl.host}:${ssl.port} (TLS)`);
+
+    log('\n=== ERRORS ===\n');
+    const errors: [string, () => unknown, string][] = [
+      ['Unknown flag', () => resolve(['mine', '--rpcc', 'x']), 'Unknown option --rpcc'],
+      ['Missing value', () => resolve(['mine', '--rpc']), '--rpc needs a value'],
+      ['Bad number', () => resolve(['mine', '--rpc', 'x', '--batch-size', 'lots']), 'non-negative number or auto'],
+      ['Bad choice', () => resolve(['mine', '--rpc', 'x', '--network', 'eth']), 'must be one of etc, mordor, ethash'],
+      ['Fractional epoch', () => resolve(['dag', '--epoch', '1.5']), 'whole number'],
+      ['Epoch and block', () => resolve(['dag', '--epoch', '1', '--block', '2']), 'not both'],
+      ['Unknown engine', () => resolve(['bench', '--engine', 'cuda']), 'must be one of auto, webgpu, wasm'],
+      ['No threads', () => resolve(['bench', '--threads', '0']), 'threads must be at least 1'],
+      ['Missing command', () => resolve(['--rpc', 'x']), 'Missing command'],
+      ['Unknown command', () => resolve(['mien']), 'Unknown command "mien"'],
+      ['Second command', () => resolve(['mine', 'bench']), 'Unexpected argument "bench"'],
+      ['No work source', () => resolve(['mine']), 'needs a node (--rpc) or a pool (--pool)'],
+      ['Node and pool', () => resolve(['mine', '--rpc', 'x', '--pool', 'stratum+tcp://p:1', '--user', 'u']), 'but not both'],
+      ['Pool without user', () => resolve(['mine', '--pool', 'stratum+tcp://p:1']), 'needs --user'],
+      ['Pool URL', () => resolve(['mine', '--pool', 'pool.example:4444', '--user', 'u']), 'stratum+tcp://host:port'],
+      ['verify without nonce', () => resolve(['verify', '--header', HEADER]), 'needs --header and --nonce'],
+      ['Short header', () => resolve(['verify', '--header', '0xabcd', '--nonce', '0x1']), 'header must be 0x-prefixed hex of 32 bytes'],
+      ['Long nonce', () => resolve(['verify', '--header', HEADER, '--nonce', '0x' + '1'.repeat(17)]), 'up to 8 bytes'],
+      ['Config file type', () => configFromJSON({ targetMs: true }, 'miner.json'), 'miner.json: targetMs must be a non-negative number'],
+      ['Config file key', () => configFromJSON({ batch: 1 }, 'miner.json'), 'unknown setting "batch"'],
+      ['Config file shape', () => configFromJSON([1, 2], 'miner.json'), 'expected an object'],
+    ];
+    for (const [name, run, expected] of errors) {
+      const message = errorOf(run);
+      check(name, message.includes(expected), message || 'no error');
+    }
+
+    check('Defaults untouched', DEFAULT_CLI_OPTIONS.quiet === false && DEFAULT_CLI_OPTIONS.batchSize === 'auto', 'no option leaked into the defaults');
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testCLIOptions);
@@ -0,0 +1,245 @@
+/**
+ * Coordinator Proxy Test Suite
+ * Tests MiningCoordinatorProxy against a scripted fake worker: init handshake,
+ * work forwarding, share relay, stats, log relay, stop, dispose and errors
+ * CPU only - no WebGPU, Worker or network required
+ */
+
+import { WorkPackage } from '../rpc/etc-client';
+import { MiningCoordinatorProxy } from '../mining/coordinator-proxy';
+import { DEFAULT_MINING_CONFIG, MiningStats } from '../mining/coordinator';
+import { MemoryWorkSource } from '../mining/work-source';
+import { WorkerEvent, WorkerLike, WorkerRequest } from '../mining/worker-protocol';
+
+const SEED_HASH = '0x' + '5e'.repeat(32);
+const MIX_DIGEST = '0x' + '3c'.repeat(32);
+const TARGET = '0x' + '0f'.repeat(32);
+
+function makeWork(blockNumber: number): WorkPackage {
+  return {
+    headerHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+    seedHash: SEED_HASH,
+    target: TARGET,
+    blockNumber,
+  };
+}
+
+function makeStats(overrides: Partial<MiningStats>): MiningStats {
+  return {
+    engine: 'WebGPU',
+    hashrate: 0,
+    sharesFound: 0,
+    sharesAccepted: 0,
+    sharesRejected: 0,
+    sharesStale: 0,
+    hardwareErrors: 0,
+    batchesAborted: 0,
+    currentBlock: 0,
+    currentDifficulty: 0n,
+    uptime: 0,
+    totalHashes: 0,
+    batchSize: 0,
+    epochSwitches: 0,
+    lastEpochSwitchMs: 0,
+    gpuBuffers: 0,
+    gpuBytes: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Records what the proxy posts; the test plays the worker's side with emit()
+ */
+class FakeMiningWorker implements WorkerLike {
+  onmessage: ((event: MessageEvent<WorkerEvent>) => void) | null = null;
+  readonly received: WorkerRequest[] = [];
+  terminated = false;
+
+  postMessage(message: WorkerRequest): void {
+    this.received.push(message);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  emit(event: WorkerEvent): void {
+    setTimeout(() => this.onmessage?.({ data: event } as MessageEvent<WorkerEvent>), 0);
+  }
+
+  ofType<T extends WorkerRequest['type']>(type: T): Extract<WorkerRequest, { type: T }>[] {
+    return this.received.filter((m): m is Extract<WorkerRequest, { type: T }> => m.type === type);
+  }
+}
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 1000): Promise<boolean> {
+  const start = performance.now();
+  while (!condition()) {
+    if (performance.now() - start > timeoutMs) {
+      return false;
+    }
+    await sleep(5);
+  }
+  return true;
+}
+
+async function testCoordinatorProxy() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== INITIALIZE ===\n');
+    const source = new MemoryWorkSource();
+    source.pushWork(makeWork(100));
+    const worker = new FakeMiningWorker();
+    const proxy = new MiningCoordinatorProxy(source, DEFAULT_MINING_CONFIG, worker);
+
+    let startError = '';
+    try {
+      await proxy.startMining();
+    } catch (e) {
+      startError = (e as Error).message;
+    }
+    check('startMining before initialize throws', startError.includes('initialize()'), startError || 'did not throw');
+
+    let initDone = false;
+    const init = proxy.initialize().then(() => { initDone = true; });
+    await waitFor(() => worker.received.length > 0);
+    const initMessage = worker.ofType('init')[0];
+    check(
+      'init carries config and current work',
+      initMessage?.work.blockNumber === 100 && initMessage.config.batchSize === DEFAULT_MINING_CONFIG.batchSize,
+      `block ${initMessage?.work.blockNumber}, batch ${initMessage?.config.batchSize}`
+    );
+
+    await sleep(20);
+    check('initialize waits for the worker', !initDone, initDone ? 'resolved early' : 'pending');
+    worker.emit({ type: 'initialized' });
+    await init;
+    check('initialize resolves on initialized', initDone, 'resolved');
+
+    const failingWorker = new FakeMiningWorker();
+    const failingProxy = new MiningCoordinatorProxy(source, DEFAULT_MINING_CONFIG, failingWorker);
+    const failingInit = failingProxy.initialize().then(() => '', (e: Error) => e.message);
+    await waitFor(() => failingWorker.received.length > 0);
+    failingWorker.emit({ type: 'error', message: 'WebGPU not supported' });
+    const initError = await failingInit;
+    check('Worker error rejects initialize', initError === 'WebGPU not supported', initError || 'resolved');
+
+    log('\n=== MINING ===\n');
+    const statsSeen: MiningStats[] = [];
+    let miningDone = false;
+    const mining = proxy.startMining(stats => statsSeen.push(stats)).then(() => { miningDone = true; });
+    check('start posted', worker.ofType('start').length === 1, `${worker.ofType('start').length} start message(s)`);
+
+    source.pushWork(makeWork(101));
+    const forwarded = worker.ofType('work');
+    check('New work forwarded to worker', forwarded.length === 1 && forwarded[0].work.blockNumber === 101, `${forwarded.length} work message(s)`);
+
+    worker.emit({ type: 'stats', stats: makeStats({ hashrate: 1234, currentBlock: 101, currentDifficulty: 1n << 200n }) });
+    await waitFor(() => statsSeen.length === 1);
+    const stats = proxy.getStats();
+    check(
+      'Stats reach callback and getStats',
+      statsSeen[0]?.hashrate === 1234 && stats.currentBlock === 101 && stats.currentDifficulty === 1n << 200n,
+      `${stats.hashrate} H/s, block ${stats.currentBlock}`
+    );
+
+    worker.emit({ type: 'share-found', id: 1, share: { nonce: '0x0000000000000001', headerHash: makeWork(101).headerHash, mixDigest: MIX_DIGEST } });
+    worker.emit({ type: 'share-found', id: 2, share: { nonce: '0x0000000000000002', headerHash: makeWork(100).headerHash, mixDigest: MIX_DIGEST } });
+    await waitFor(() => worker.ofType('share-result').length === 2);
+    const results = worker.ofType('share-result');
+    const accepted = results.find(r => r.id === 1);
+    const stale = results.find(r => r.id === 2);
+    check(
+      'Shares submitted through the work source',
+      source.submissions.length === 2 && source.submissions[0].share.nonce === '0x0000000000000001',
+      `${source.submissions.length} submission(s)`
+    );
+    check(
+      'Share results returned by id',
+      accepted?.result.accepted === true && stale?.result.accepted === false,
+      `#1 ${accepted?.result.accepted ? 'accepted' : 'rejected'}, #2 ${stale?.result.reason ?? 'accepted'}`
+    );
+
+    const originalWarn = console.warn;
+    const warnings: string[] = [];
+    console.warn = (...args: unknown[]) => { warnings.push(args.join(' ')); };
+    worker.emit({ type: 'log', level: 'warn', message: 'Batch cut short' });
+    await sleep(10);
+    console.warn = originalWarn;
+    check('Worker logs relayed at their level', warnings.join() === 'Batch cut short', warnings.join(' | ') || 'nothing logged');
+
+    log('\n=== STOP ===\n');
+    let stopDone = false;
+    const stopping = proxy.stopMining().then(() => { stopDone = true; });
+    check('stop posted', worker.ofType('stop').length === 1, `${worker.ofType('stop').length} stop message(s)`);
+
+    source.pushWork(makeWork(102));
+    check('No forwarding after stop', worker.ofType('work').length === 1, `${worker.ofType('work').length} work message(s)`);
+
+    await sleep(20);
+    check('startMining waits for stopped', !miningDone, miningDone ? 'resolved early' : 'pending');
+    check('stopMining waits for the batch to drain', !stopDone, stopDone ? 'resolved early' : 'pending');
+    worker.emit({ type: 'stopped' });
+    await mining;
+    await stopping;
+    check('startMining and stopMining resolve on stopped', miningDone && stopDone, 'resolved');
+
+    const restart = proxy.startMining().then(() => '', (e: Error) => e.message);
+    worker.emit({ type: 'error', message: 'Device lost' });
+    const miningError = await restart;
+    check('Worker error rejects startMining', miningError === 'Device lost', miningError || 'resolved');
+
+    log('\n=== DISPOSE ===\n');
+    let disposeDone = false;
+    const disposing = proxy.dispose().then(() => { disposeDone = true; });
+    check('dispose posted', worker.ofType('dispose').length === 1, `${worker.ofType('dispose').length} dispose message(s)`);
+
+    await sleep(20);
+    check('dispose waits for disposed', !disposeDone && !worker.terminated, disposeDone ? 'resolved early' : 'pending');
+    worker.emit({ type: 'disposed', allocations: { buffers: 2, bytes: 4096 } });
+    await disposing;
+    const disposedStats = proxy.getStats();
+    check(
+      'disposed reports leftover allocations',
+      disposedStats.gpuBuffers === 2 && disposedStats.gpuBytes === 4096,
+      `${disposedStats.gpuBuffers} buffer(s), ${disposedStats.gpuBytes} bytes`
+    );
+    check('dispose ends the worker', worker.terminated, worker.terminated ? 'terminated' : 'still running');
+
+    const failingDispose = failingProxy.dispose().then(() => '', (e: Error) => e.message);
+    failingWorker.emit({ type: 'error', message: 'Device lost' });
+    const disposeError = await failingDispose;
+    check('Worker error rejects dispose', disposeError === 'Device lost', disposeError || 'resolved');
+
+    failingProxy.terminate();
+    check('terminate ends the worker', failingWorker.terminated, 'terminated');
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testCoordinatorProxy);
@@ -0,0 +1,125 @@
+/**
+ * DAG Split Test
+ * Forces small DAG buffer sizes (maxDAGBufferBytes) so the epoch 0 DAG is split 2-, 3- and 4-way,
+ * and checks the generated N-buffer shader against the single-buffer DAG: same hashes and mix
+ * digests from the fused kernel and from uploaded nonces. With 4 buffers items_per_buffer is odd,
+ * so pages straddle buffer boundaries. Also checks the storage buffer limit is enforced.
+ */
+
+import { createGPUDevice } from '../gpu/device-helper';
+import { setupHashimotoGPU, createReusableBuffers, runHashimotoBatchGPU, runHashimotoRangeGPU, HashimotoSetup, HashimotoWinner } from '../gpu/hashimoto';
+import { bytesToHex } from '../rpc/etc-client';
+
+const COUNT = 4096;
+const START_NONCE = 0x5eed000000000000n;
+const ANY_TARGET = (1n << 256n) - 1n;
+
+function log(msg: string, type = 'info') {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    const entry = document.createElement('div');
+    entry.className = `log-entry ${type}`;
+    entry.textContent = msg;
+    logEl.appendChild(entry);
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(`[${type.toUpperCase()}] ${msg}`);
+}
+
+function nonceBytes(nonce: bigint): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, nonce, false);
+  return bytes;
+}
+
+// Candidates arrive in no particular order
+function byNonce(winners: HashimotoWinner[]): Map<bigint, string> {
+  return new Map(winners.map(w => [w.nonce, bytesToHex(w.hash) + bytesToHex(w.mixDigest)]));
+}
+
+export async function runTest() {
+  const runBtn = document.getElementById('runBtn') as HTMLButtonElement;
+  const logEl = document.getElementById('log') as HTMLElement;
+
+  if (runBtn) runBtn.disabled = true;
+  if (logEl) logEl.textContent = '';
+
+  log('=== DAG SPLIT TEST ===', 'info');
+  log('', 'info');
+
+  let passed = 0;
+  let failed = 0;
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`${ok ? '✓' : '✗'} ${name}: ${detail}`, ok ? 'success' : 'error');
+    if (ok) passed++;
+    else failed++;
+  };
+
+  let device: GPUDevice | undefined;
+
+  try {
+    device = await createGPUDevice();
+    log(`Storage buffers per shader stage: ${device.limits.maxStorageBuffersPerShaderStage}`, 'info');
+
+    log('STEP 1: Single-buffer reference (epoch 0)...', 'info');
+    const reference = await setupHashimotoGPU(0, device);
+    await createReusableBuffers(COUNT, device, reference, { maxCandidates: COUNT });
+    const headerHash = new Uint8Array(32).map((_, i) => (i * 53 + 7) & 0xff);
+    const expected = byNonce((await runHashimotoRangeGPU(headerHash, START_NONCE, COUNT, device, reference, ANY_TARGET)).winners);
+    const uploaded = [0n, 1n, START_NONCE + 17n].map(nonceBytes);
+    const expectedUploaded = (await runHashimotoBatchGPU(headerHash, uploaded, device, reference)).results.map(r => bytesToHex(r.hash));
+    check('Reference', reference.numDAGBuffers === 1 && expected.size === COUNT, `${reference.numDAGBuffers} buffer, ${expected.size} hashes`);
+    log('', 'info');
+
+    log('STEP 2: Forced splits...', 'info');
+    for (const split of [2, 3, 4]) {
+      // Whole items per buffer: ceil(items / split) of them fit, so exactly `split` buffers are made
+      const maxDAGBufferBytes = Math.ceil(reference.dagItems / split) * 64;
+      const setup = await setupHashimotoGPU(0, device, { maxDAGBufferBytes });
+      await createReusableBuffers(COUNT, device, setup, { maxCandidates: COUNT });
+
+      const range = byNonce((await runHashimotoRangeGPU(headerHash, START_NONCE, COUNT, device, setup, ANY_TARGET)).winners);
+      const mismatches = [...expected].filter(([nonce, result]) => range.get(nonce) !== result).length;
+      const batch = (await runHashimotoBatchGPU(headerHash, uploaded, device, setup)).results.map(r => bytesToHex(r.hash));
+
+      check(
+        `${split}-way split`,
+        setup.numDAGBuffers === split && setup.dagBuffers.every(buffer => buffer.size <= maxDAGBufferBytes) &&
+          range.size === COUNT && mismatches === 0,
+        `${setup.numDAGBuffers} buffers of ${setup.dagItemsPerBuffer.toLocaleString()} items` +
+          `${setup.dagItemsPerBuffer % 2 ? ' (odd: pages straddle buffers)' : ''}, ${mismatches} mismatch(es) in ${range.size} hashes`
+      );
+      check(`${split}-way uploaded nonces`, batch.every((hash, i) => hash === expectedUploaded[i]), `${batch.length} hashes`);
+
+      setup.dispose();
+    }
+    log('', 'info');
+
+    log('STEP 3: Storage buffer limit...', 'info');
+    const tooMany = device.limits.maxStorageBuffersPerShaderStage - 4;  // 6 fixed + (N - 1) DAG buffers > limit
+    const oversplit: HashimotoSetup = {
+      ...reference,
+      dagBuffers: Array(tooMany).fill(reference.dagBuffers[0]),
+      numDAGBuffers: tooMany,
+      reusableBuffers: undefined,
+    };
+    let limitError = '';
+    try {
+      await createReusableBuffers(COUNT, device, oversplit);
+    } catch (error) {
+      limitError = (error as Error).message;
+    }
+    check(`${tooMany}-way split refused`, limitError.includes('storage buffers') && !oversplit.reusableBuffers, limitError || 'accepted');
+
+    reference.dispose();
+
+    log('', 'info');
+    log(`Results: ${passed}/${passed + failed} tests passed`, failed === 0 ? 'success' : 'error');
+  } catch (err) {
+    log(`\n❌ ERROR: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    console.error(err);
+  } finally {
+    device?.destroy();
+    if (runBtn) runBtn.disabled = false;
+  }
+}
@@ -4,10 +4,10 @@
  */
 
 import { generateDAGGPU } from '../gpu/dag-builder';
+import { getEpochParams } from '../crypto/ethash-reference';
 import { Ethash } from '@ethereumjs/ethash';
 
 const HASH_BYTES = 64;
-const CACHE_INIT = 16 * 1024 * 1024;
 
 function log(msg: string, type = 'info') {
   const logEl = document.getElementById('log');
@@ -55,9 +55,7 @@ export async function runTest() {
     // Step 2: Generate cache on CPU
     log('STEP 2: Generating cache (CPU reference)', 'info');
     const epoch = 0;
-    const cacheBytes = CACHE_INIT;
-
-    const seed = new Uint8Array(32);
+    const { seed, cacheBytes } = getEpochParams(epoch);
     const cache = ethash.mkcache(cacheBytes, seed);
     ethash.cache = cache;
 
@@ -115,7 +113,7 @@ export async function runTest() {
     log('STEP 5: Generating full DAG on GPU', 'info');
 
     const gpuStartTime = Date.now();
-    const { dag: gpuDAG, dagBuffer } = await generateDAGGPU(epoch, device, (progress) => {
+    const { dag, dagBuffers } = await generateDAGGPU(epoch, device, (progress) => {
       if (progress.progress % 0.25 === 0) {
         log(
           `  ${(progress.progress * 100).toFixed(0)}% | ` +
@@ -123,7 +121,8 @@ export async function runTest() {
           'debug'
         );
       }
-    });
+    }, undefined, true);
+    const gpuDAG = dag!;
     const gpuTime = (Date.now() - gpuStartTime) / 1000;
 
     log(`✓ GPU DAG generated in ${gpuTime.toFixed(1)}s`, 'success');
@@ -235,7 +234,7 @@ export async function runTest() {
       log('  • Compare against reference line-by-line', 'warning');
     }
 
-    dagBuffer.destroy();
+    dagBuffers.forEach(buffer => buffer.destroy());
   } catch (err) {
     log(`\n❌ ERROR: ${err instanceof Error ? err.message : String(err)}`, 'error');
     console.error(err);
@@ -11,6 +11,7 @@
 
 import { setupHashimotoGPU, runHashimotoBatchGPU } from '../gpu/hashimoto';
 import { createGPUDevice } from '../gpu/device-helper';
+import { getEpochParams } from '../crypto/ethash-reference';
 import { Ethash } from '@ethereumjs/ethash';
 import { keccak256 } from 'ethereum-cryptography/keccak.js';
 
@@ -49,11 +50,10 @@ async function runComprehensiveTest() {
     // Setup ethereumjs reference
     log('Setting up CPU reference (ethereumjs)...');
     const ethash = new Ethash();
-    const CACHE_INIT_BYTES = 16 * 1024 * 1024;
-    const seed = new Uint8Array(32);
-    const cache = ethash.mkcache(CACHE_INIT_BYTES, seed);
+    const { seed, cacheBytes, datasetBytes } = getEpochParams(0);
+    const cache = ethash.mkcache(cacheBytes, seed);
     ethash.cache = cache;
-    ethash.fullSize = 1024 * 1024 * 1024;
+    ethash.fullSize = datasetBytes;
     log('✓ CPU reference ready\n');
 
     // Test configurations: different batch sizes and difficulty levels
@@ -99,12 +99,10 @@ async function runComprehensiveTest() {
       for (let i = 0; i < testNonces.length; i++) {
         const hash = gpuResult.results[i].hash;
 
-        // Convert hash to BigInt (little-endian)
-        const hashView = new DataView(hash.buffer, hash.byteOffset, 32);
+        // Convert hash to BigInt (big-endian, as Ethereum compares it against the target)
         let hashBigInt = BigInt(0);
-        for (let j = 0; j < 8; j++) {
-          const u32 = hashView.getUint32(j * 4, true);
-          hashBigInt |= BigInt(u32) << BigInt(j * 32);
+        for (const byte of hash) {
+          hashBigInt = (hashBigInt << BigInt(8)) | BigInt(byte);
         }
 
         if (hashBigInt < config.threshold) {
@@ -0,0 +1,121 @@
+/**
+ * Epoch Manager Test Suite
+ * Tests dataset/seed epoch math around the ECIP-1099 (ETChash) activation block
+ * CPU only - no WebGPU required
+ */
+
+import {
+  getEpochForBlock,
+  getEpochFromSeedHash,
+  getSeedHashForEpoch,
+  validateEpoch,
+  EpochInfo,
+  EpochNetwork,
+  ETC_MAINNET,
+  ETC_MORDOR,
+  ETHASH_NETWORK,
+} from '../mining/epoch-manager';
+
+interface BlockCase {
+  network: EpochNetwork;
+  block: number;
+  expected: EpochInfo;
+}
+
+const BLOCK_CASES: BlockCase[] = [
+  // ETC mainnet: Thanos at 11,700,000
+  { network: ETC_MAINNET, block: 0, expected: { datasetEpoch: 0, seedEpoch: 0, epochLength: 30000 } },
+  { network: ETC_MAINNET, block: 11_699_999, expected: { datasetEpoch: 389, seedEpoch: 389, epochLength: 30000 } },
+  { network: ETC_MAINNET, block: 11_700_000, expected: { datasetEpoch: 195, seedEpoch: 390, epochLength: 60000 } },
+  { network: ETC_MAINNET, block: 11_759_999, expected: { datasetEpoch: 195, seedEpoch: 390, epochLength: 60000 } },
+  { network: ETC_MAINNET, block: 11_760_000, expected: { datasetEpoch: 196, seedEpoch: 392, epochLength: 60000 } },
+  { network: ETC_MAINNET, block: 22_000_000, expected: { datasetEpoch: 366, seedEpoch: 732, epochLength: 60000 } },
+
+  // Mordor: ECIP-1099 at 2,520,000
+  { network: ETC_MORDOR, block: 2_519_999, expected: { datasetEpoch: 83, seedEpoch: 83, epochLength: 30000 } },
+  { network: ETC_MORDOR, block: 2_520_000, expected: { datasetEpoch: 42, seedEpoch: 84, epochLength: 60000 } },
+  { network: ETC_MORDOR, block: 2_580_000, expected: { datasetEpoch: 43, seedEpoch: 86, epochLength: 60000 } },
+
+  // Plain Ethash never switches
+  { network: ETHASH_NETWORK, block: 11_700_000, expected: { datasetEpoch: 390, seedEpoch: 390, epochLength: 30000 } },
+];
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+function sameEpoch(a: EpochInfo | null, b: EpochInfo): boolean {
+  return a !== null &&
+    a.datasetEpoch === b.datasetEpoch &&
+    a.seedEpoch === b.seedEpoch &&
+    a.epochLength === b.epochLength;
+}
+
+function formatEpoch(epoch: EpochInfo | null): string {
+  if (!epoch) return 'null';
+  return `dataset ${epoch.datasetEpoch}, seed ${epoch.seedEpoch}, length ${epoch.epochLength}`;
+}
+
+function testEpochManager() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== BLOCK → EPOCH ===\n');
+    for (const test of BLOCK_CASES) {
+      const epoch = getEpochForBlock(test.block, test.network);
+      check(
+        `${test.network.name} block ${test.block.toLocaleString()}`,
+        sameEpoch(epoch, test.expected),
+        formatEpoch(epoch)
+      );
+    }
+
+    log('\n=== SEEDHASH ROUND TRIP ===\n');
+    for (const test of BLOCK_CASES) {
+      const seedHash = getSeedHashForEpoch(test.expected);
+      const epoch = getEpochFromSeedHash(seedHash, test.network);
+      check(
+        `${test.network.name} block ${test.block.toLocaleString()}`,
+        sameEpoch(epoch, test.expected) && validateEpoch(epoch!, test.block, test.network),
+        `${seedHash.slice(0, 18)}... → ${formatEpoch(epoch)}`
+      );
+    }
+
+    log('\n=== FORK SEMANTICS ===\n');
+    check(
+      'First ETChash seed continues the 30k chain',
+      getSeedHashForEpoch(getEpochForBlock(11_700_000, ETC_MAINNET)) === getSeedHashForEpoch(390),
+      'mainnet epoch 195 seed == Ethash epoch 390 seed'
+    );
+    check(
+      'Odd seed epoch after fork is rejected',
+      getEpochFromSeedHash(getSeedHashForEpoch(391), ETC_MAINNET) === null,
+      'seed epoch 391 on mainnet → null'
+    );
+    check(
+      'Same seed resolves per network',
+      sameEpoch(getEpochFromSeedHash(getSeedHashForEpoch(100), ETC_MAINNET), { datasetEpoch: 100, seedEpoch: 100, epochLength: 30000 }) &&
+        sameEpoch(getEpochFromSeedHash(getSeedHashForEpoch(100), ETC_MORDOR), { datasetEpoch: 50, seedEpoch: 100, epochLength: 60000 }),
+      'seed epoch 100 → mainnet 100 / Mordor 50'
+    );
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testEpochManager);
@@ -0,0 +1,139 @@
+/**
+ * Epoch Switch Test
+ * Runs the mining worker (via MiningCoordinatorProxy) just before the epoch 0 → 1 boundary:
+ * epoch 1 is pre-generated in the background and swapped in at the boundary, then
+ * epoch 2 arrives with nothing pre-generated and goes through stop-and-rebuild
+ */
+
+import { MiningCoordinatorProxy } from '../mining/coordinator-proxy';
+import { MemoryWorkSource } from '../mining/work-source';
+import { ETHASH_NETWORK, BLOCKS_PER_EPOCH_ETH, getSeedHashForEpoch } from '../mining/epoch-manager';
+import { MiningStats } from '../mining/coordinator';
+import { WorkPackage, bigIntToHex } from '../rpc/etc-client';
+
+const BATCH_SIZE = 4096;
+const PREGENERATE_BLOCKS = 100;
+
+// ~4 shares per batch: hash < 2^256 / 1024
+const TARGET = bigIntToHex((1n << 256n) / 1024n);
+
+function log(msg: string, type = 'info') {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    const entry = document.createElement('div');
+    entry.className = `log-entry ${type}`;
+    entry.textContent = msg;
+    logEl.appendChild(entry);
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(`[${type.toUpperCase()}] ${msg}`);
+}
+
+function makeWork(blockNumber: number): WorkPackage {
+  return {
+    headerHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+    seedHash: getSeedHashForEpoch(Math.floor(blockNumber / BLOCKS_PER_EPOCH_ETH)),
+    target: TARGET,
+    blockNumber,
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+  const start = performance.now();
+  while (!condition()) {
+    if (performance.now() - start > timeoutMs) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return true;
+}
+
+export async function runTest() {
+  const runBtn = document.getElementById('runBtn') as HTMLButtonElement;
+  const logEl = document.getElementById('log') as HTMLElement;
+
+  if (runBtn) runBtn.disabled = true;
+  if (logEl) logEl.textContent = '';
+
+  log('=== EPOCH SWITCH TEST ===', 'info');
+  log('', 'info');
+
+  let passed = 0;
+  let failed = 0;
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`${ok ? '✓' : '✗'} ${name}: ${detail}`, ok ? 'success' : 'error');
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    // Epoch 0 work, 50 blocks before the boundary
+    const work0 = makeWork(BLOCKS_PER_EPOCH_ETH - 50);
+    const work1 = makeWork(BLOCKS_PER_EPOCH_ETH);
+    const work2 = makeWork(BLOCKS_PER_EPOCH_ETH * 2);
+
+    const source = new MemoryWorkSource();
+    source.pushWork(work0);
+
+    let stats: MiningStats | undefined;
+    const coordinator = new MiningCoordinatorProxy(source, {
+      batchSize: BATCH_SIZE,
+      targetDispatchMs: 50,
+      maxBatchSize: BATCH_SIZE,
+      pipelineDepth: 2,
+      reportInterval: 250,
+      autoRestart: true,
+      submitStaleShares: false,
+      network: ETHASH_NETWORK,
+      pregenerateBlocks: PREGENERATE_BLOCKS,
+    });
+
+    log(`STEP 1: Epoch 0 DAG, ${BLOCKS_PER_EPOCH_ETH - work0.blockNumber} blocks before the boundary...`, 'info');
+    await coordinator.initialize();
+    const mining = coordinator.startMining((s) => { stats = s; });
+    log('✓ Mining epoch 0', 'success');
+    log('', 'info');
+
+    log('STEP 2: Waiting for epoch 1 to be pre-generated in the background...', 'info');
+    const ready = await waitFor(() => stats?.pregeneratedEpoch === 1, 300_000);
+    const hashesWhileGenerating = stats?.totalHashes ?? 0;
+    check('Next epoch pre-generated', ready, ready ? 'epoch 1 ready' : 'timed out');
+    check('Kept mining while generating', hashesWhileGenerating > 0, `${hashesWhileGenerating.toLocaleString()} hashes`);
+    log('', 'info');
+
+    const sharesFor = (work: WorkPackage) =>
+      source.submissions.filter(s => s.share.headerHash === work.headerHash && s.result.accepted).length;
+
+    log('STEP 3: Boundary reached (block 30,000)...', 'info');
+    source.pushWork(work1);
+    await waitFor(() => (stats?.epochSwitches ?? 0) >= 1 && sharesFor(work1) >= 2, 60_000);
+    const swapMs = stats?.lastEpochSwitchMs ?? Infinity;
+    check('Switched to epoch 1', stats?.epochSwitches === 1, `${stats?.epochSwitches} switch(es)`);
+    check('Swap is near-instant', swapMs < 1000, `${swapMs.toFixed(0)} ms downtime`);
+    check('Shares found on epoch 1', sharesFor(work1) > 0, `${sharesFor(work1)} accepted`);
+    log('', 'info');
+
+    log('STEP 4: Jump to epoch 2 with nothing pre-generated (stop-and-rebuild)...', 'info');
+    source.pushWork(work2);
+    await waitFor(() => (stats?.epochSwitches ?? 0) >= 2 && sharesFor(work2) >= 2, 300_000);
+    const rebuildMs = stats?.lastEpochSwitchMs ?? 0;
+    check('Switched to epoch 2', stats?.epochSwitches === 2, `${stats?.epochSwitches} switch(es)`);
+    check('Rebuild downtime reported', rebuildMs > swapMs * 5, `${rebuildMs.toFixed(0)} ms vs ${swapMs.toFixed(0)} ms pre-generated`);
+    check('Shares found on epoch 2', sharesFor(work2) > 0, `${sharesFor(work2)} accepted`);
+
+    await coordinator.stopMining();
+    await mining;
+    await coordinator.dispose();
+    const leaked = coordinator.getStats();
+    check('No GPU buffers leaked', leaked.gpuBuffers === 0, `${leaked.gpuBuffers} buffer(s), ${leaked.gpuBytes.toLocaleString()} bytes live after dispose`);
+
+    log('', 'info');
+    log(`Results: ${passed}/${passed + failed} tests passed`, failed === 0 ? 'success' : 'error');
+  } catch (err) {
+    log(`\n❌ ERROR: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    console.error(err);
+  } finally {
+    if (runBtn) runBtn.disabled = false;
+  }
+}
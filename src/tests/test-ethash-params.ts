@@ -0,0 +1,245 @@
+/**
+ * Ethash Params Test Suite
+ * EthashParams on the CPU: mainnet by default, a tiny test epoch (~4 MB dataset) with prime item
+ * counts, seed and accesses overrides, and the CPU backends honouring them. With WebGPU, the same
+ * test epoch on the GPU: generateDAGGPU and the Hashimoto kernel (custom accesses) against
+ * LightVerifier, and a MiningCoordinator mine → filter → submit round trip in seconds
+ */
+
+import { CPUReferenceBackend, WasmBackend, WebGPUBackend } from '../mining/hashimoto-backend';
+import { MiningCoordinator } from '../mining/coordinator';
+import { MemoryWorkSource } from '../mining/work-source';
+import { ETHASH_NETWORK, getSeedHashForEpoch, resolveEpoch } from '../mining/epoch-manager';
+import {
+  generateCache,
+  getEpochParams,
+  isMainnetEpoch,
+  EthashParams,
+  MAINNET_ETHASH_PARAMS,
+  TEST_ETHASH_PARAMS,
+} from '../crypto/ethash-reference';
+import { ACCESSES, HASH_BYTES, MIX_BYTES, cacheSize, datasetSize } from '../crypto/ethash-sizes';
+import { LightVerifier, meetsTarget } from '../crypto/ethash-light';
+import { EthashWasm, createEthashMemory, layoutEthashMemory } from '../wasm/ethash-wasm';
+import { WasmPoolOptions } from '../wasm/wasm-pool';
+import { InlineWasmWorker } from '../wasm/wasm-worker-host';
+import { generateDAGGPU } from '../gpu/dag-builder';
+import { createGPUDevice } from '../gpu/device-helper';
+import { bytesToHex, bigIntToHex, hexToBytes } from '../rpc/etc-client';
+
+const ANY_TARGET = (1n << 256n) - 1n;
+const SHARE_TARGET = ANY_TARGET / 32n;  // About one hash in 32 wins
+const FEW_ACCESSES: EthashParams = { ...TEST_ETHASH_PARAMS, accesses: 16 };
+
+// Real workers in browsers; on the calling thread where there are none (Node)
+const WORKERS: Partial<WasmPoolOptions> = typeof Worker === 'undefined'
+  ? { createWorker: () => new InlineWasmWorker() }
+  : {};
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+  const start = performance.now();
+  while (!condition()) {
+    if (performance.now() - start > timeoutMs) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return true;
+}
+
+function errorOf(run: () => unknown): string {
+  try {
+    run();
+    return '';
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+function isPrime(n: number): boolean {
+  for (let i = 2; i * i <= n; i++) {
+    if (n % i === 0) return false;
+  }
+  return n > 1;
+}
+
+function nonceBytes(nonce: bigint): Uint8Array {
+  return hexToBytes(bigIntToHex(nonce, 16));
+}
+
+async function testEthashParams() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== MAINNET DEFAULTS ===\n');
+    const mainnet = getEpochParams(resolveEpoch(30));
+    const explicit = getEpochParams(resolveEpoch(30), MAINNET_ETHASH_PARAMS);
+    check(
+      'Default = MAINNET_ETHASH_PARAMS',
+      mainnet.cacheBytes === explicit.cacheBytes && mainnet.datasetBytes === explicit.datasetBytes && bytesToHex(mainnet.seed) === bytesToHex(explicit.seed),
+      `${mainnet.cacheBytes.toLocaleString()} B cache, ${mainnet.datasetBytes.toLocaleString()} B dataset`
+    );
+    check('Mainnet sizes', mainnet.cacheBytes === cacheSize(30) && mainnet.datasetBytes === datasetSize(30), 'cacheSize / datasetSize of epoch 30');
+    check('Mainnet accesses', mainnet.accesses === ACCESSES && ACCESSES === 64, `${mainnet.accesses}`);
+    check('Recognised as mainnet', isMainnetEpoch(mainnet), 'isMainnetEpoch');
+
+    log('\n=== TEST EPOCH ===\n');
+    const startTime = performance.now();
+    const test0 = getEpochParams(resolveEpoch(0), TEST_ETHASH_PARAMS);
+    const test10 = getEpochParams(resolveEpoch(10), TEST_ETHASH_PARAMS);
+    check(
+      'Few MB',
+      test0.cacheBytes <= TEST_ETHASH_PARAMS.cacheBytesInit && test0.datasetBytes <= TEST_ETHASH_PARAMS.datasetBytesInit && test0.datasetBytes > TEST_ETHASH_PARAMS.datasetBytesInit * 0.9,
+      `${(test0.cacheBytes / 1024).toFixed(1)} KB cache, ${(test0.datasetBytes / 1024 ** 2).toFixed(2)} MB dataset`
+    );
+    check(
+      'Prime item counts',
+      isPrime(test0.cacheBytes / HASH_BYTES) && isPrime(test0.datasetBytes / MIX_BYTES) && isPrime(test10.cacheBytes / HASH_BYTES) && isPrime(test10.datasetBytes / MIX_BYTES),
+      `${test0.cacheBytes / HASH_BYTES} cache items, ${test0.datasetBytes / MIX_BYTES} dataset pages`
+    );
+    check('Grows per epoch', test10.cacheBytes > test0.cacheBytes && test10.datasetBytes > test0.datasetBytes, `epoch 10: ${(test10.datasetBytes / 1024 ** 2).toFixed(2)} MB dataset`);
+    check('Seed from the epoch', bytesToHex(test0.seed) === getSeedHashForEpoch(0), bytesToHex(test0.seed).slice(0, 18) + '…');
+    check('Not mainnet', !isMainnetEpoch(test0), 'isMainnetEpoch');
+
+    const cache = await generateCache(test0);
+    check('Cache built quickly', cache.byteLength === test0.cacheBytes && performance.now() - startTime < 10_000, `${cache.byteLength} B in ${(performance.now() - startTime).toFixed(0)} ms`);
+
+    log('\n=== SEED ===\n');
+    const seed = new Uint8Array(32).fill(7);
+    const seeded = getEpochParams(resolveEpoch(0), { ...TEST_ETHASH_PARAMS, seed });
+    const seededCache = await generateCache(seeded);
+    check('Seed override', bytesToHex(seeded.seed) === bytesToHex(seed) && bytesToHex(new Uint8Array(seededCache.buffer)) !== bytesToHex(new Uint8Array(cache.buffer)), 'a different cache');
+    check('Seeded mainnet sizes are not mainnet', !isMainnetEpoch(getEpochParams(resolveEpoch(0), { ...MAINNET_ETHASH_PARAMS, seed })), 'isMainnetEpoch');
+    check('Seed length checked', errorOf(() => getEpochParams(0, { ...TEST_ETHASH_PARAMS, seed: new Uint8Array(31) })).includes('32 bytes'), '31-byte seed');
+
+    log('\n=== ACCESSES ===\n');
+    const headerHash = new Uint8Array(32).map((_, i) => (i * 29 + 3) & 0xff);
+    const full = new LightVerifier(cache, test0.datasetBytes);
+    const few = new LightVerifier(cache, test0.datasetBytes, FEW_ACCESSES.accesses);
+    const fullResult = full.hashimoto(headerHash, nonceBytes(42n));
+    const fewResult = few.hashimoto(headerHash, nonceBytes(42n));
+    check('Accesses change the hash', bytesToHex(fullResult.hash) !== bytesToHex(fewResult.hash), `${ACCESSES} vs ${FEW_ACCESSES.accesses} accesses`);
+    check('Default accesses', bytesToHex(new LightVerifier(cache, test0.datasetBytes, ACCESSES).hashimoto(headerHash, nonceBytes(42n)).hash) === bytesToHex(fullResult.hash), `${ACCESSES}`);
+
+    log('\n=== CPU BACKENDS ===\n');
+    const backend = new CPUReferenceBackend({ ethash: FEW_ACCESSES });
+    const setup = await backend.setupEpoch(resolveEpoch(0));
+    check('Test epoch set up', setup.cache.byteLength === test0.cacheBytes && setup.dagBytes === test0.datasetBytes && setup.accesses === FEW_ACCESSES.accesses, `${setup.dagBytes.toLocaleString()} B dataset, ${setup.accesses} accesses`);
+
+    const range = await backend.mineRange(setup, headerHash, 0n, 64, ANY_TARGET);
+    const mismatches = range.winners.filter(w => {
+      const expected = few.hashimoto(headerHash, nonceBytes(w.nonce));
+      return bytesToHex(expected.hash) !== bytesToHex(w.hash) || bytesToHex(expected.mixDigest) !== bytesToHex(w.mixDigest);
+    }).length;
+    check('Backend = LightVerifier', range.winners.length === 64 && mismatches === 0, `${mismatches} mismatch(es) in ${range.winners.length} hashes`);
+
+    const wasmBackend = new WasmBackend({ ...WORKERS, ethash: FEW_ACCESSES, threads: 2 });
+    const wasmSetup = await wasmBackend.setupEpoch(resolveEpoch(0));
+    const wasmRange = await wasmBackend.mineRange(wasmSetup, headerHash, 0n, 64, ANY_TARGET);
+    const wasmMismatches = wasmRange.winners.filter(w => {
+      const expected = few.hashimoto(headerHash, nonceBytes(w.nonce));
+      return bytesToHex(expected.hash) !== bytesToHex(w.hash) || bytesToHex(expected.mixDigest) !== bytesToHex(w.mixDigest);
+    }).length;
+    check('WASM backend = LightVerifier', wasmRange.winners.length === 64 && wasmMismatches === 0, `${wasmMismatches} mismatch(es) in ${wasmRange.winners.length} hashes at ${wasmSetup.accesses} accesses`);
+    wasmSetup.dispose();
+    wasmBackend.terminate();
+
+    // Not a multiple of the module's 32 accesses per loop iteration
+    const layout = layoutEthashMemory(cache.byteLength, test0.datasetBytes, false, 1);
+    const wasm = await EthashWasm.create(createEthashMemory(layout, false), layout, 0, 48);
+    wasm.writeCache(cache);
+    const wasm48 = wasm.hashimoto(headerHash, 42n);
+    const light48 = new LightVerifier(cache, test0.datasetBytes, 48).hashimoto(headerHash, nonceBytes(42n));
+    check('WASM module at 48 accesses', bytesToHex(wasm48.hash) === bytesToHex(light48.hash) && bytesToHex(wasm48.mixDigest) === bytesToHex(light48.mixDigest), 'light mode, = LightVerifier');
+
+    log('\n=== GPU ===\n');
+    if (!globalThis.navigator?.gpu) {
+      log('  (skipped: WebGPU not available)');
+      log(`\nResults: ${passed}/${passed + failed} tests passed`);
+      return;
+    }
+    const device = await createGPUDevice();
+
+    const dagStart = performance.now();
+    const { dagBuffers, dag } = await generateDAGGPU(test0, device, undefined, cache, true);
+    const dagMs = performance.now() - dagStart;
+    const items = [0, 1, 4321, test0.datasetBytes / HASH_BYTES - 1];
+    const words = HASH_BYTES / 4;
+    const itemMismatches = items.filter(i => dag!.subarray(i * words, (i + 1) * words).some((word, k) => word !== full.datasetItem(i)[k]));
+    check('generateDAGGPU honours the params', dag!.byteLength === test0.datasetBytes && itemMismatches.length === 0, `${dag!.byteLength.toLocaleString()} B in ${dagMs.toFixed(0)} ms, items ${items.join(', ')}`);
+    dagBuffers.forEach(buffer => buffer.destroy());
+
+    const gpu = new WebGPUBackend(device, { ethash: FEW_ACCESSES, maxBatchSize: 4096, pipelineDepth: 2 });
+    const gpuSetup = await gpu.setupEpoch(resolveEpoch(0));
+    const gpuRange = await gpu.mineRange(gpuSetup, headerHash, 0n, 64, ANY_TARGET);
+    const byNonce = new Map(range.winners.map(w => [w.nonce, bytesToHex(w.hash) + bytesToHex(w.mixDigest)]));
+    const gpuMismatches = gpuRange.winners.filter(w => byNonce.get(w.nonce) !== bytesToHex(w.hash) + bytesToHex(w.mixDigest)).length;
+    check('GPU kernel = CPU', gpuSetup.accesses === FEW_ACCESSES.accesses && gpuRange.winners.length === 64 && gpuMismatches === 0, `${gpuMismatches} mismatch(es) in ${gpuRange.winners.length} hashes at ${gpuSetup.accesses} accesses`);
+    gpuSetup.dispose();
+
+    log('\n=== GPU ROUND TRIP ===\n');
+    const source = new MemoryWorkSource();
+    source.pushWork({
+      headerHash: '0x' + 'cd'.repeat(32),
+      seedHash: getSeedHashForEpoch(0),
+      target: bigIntToHex(SHARE_TARGET),
+      blockNumber: 100,
+    });
+
+    const roundTripStart = performance.now();
+    const coordinator = new MiningCoordinator(source, gpu, {
+      batchSize: 4096,
+      targetDispatchMs: 50,
+      maxBatchSize: 4096,
+      pipelineDepth: 2,
+      reportInterval: 200,
+      autoRestart: true,
+      submitStaleShares: false,
+      network: ETHASH_NETWORK,
+      pregenerateBlocks: 0,
+    });
+    await coordinator.initialize();
+    const mining = coordinator.startMining(() => {});
+    const mined = await waitFor(() => source.submissions.length >= 5, 30_000);
+    await coordinator.stopMining();
+    await mining;
+
+    const stats = coordinator.getStats();
+    const invalid = source.submissions.filter(({ share }) => {
+      const { hash, mixDigest } = few.hashimoto(hexToBytes(share.headerHash), hexToBytes(share.nonce));
+      return bytesToHex(mixDigest) !== share.mixDigest || !meetsTarget(hash, SHARE_TARGET);
+    }).length;
+    check(
+      'Mine → filter → submit',
+      mined && invalid === 0 && stats.hardwareErrors === 0,
+      `${source.submissions.length} share(s) in ${((performance.now() - roundTripStart) / 1000).toFixed(1)} s, ${invalid} invalid, ${stats.hardwareErrors} hardware errors`
+    );
+
+    await coordinator.dispose();
+    device.destroy();
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+    console.error(e);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testEthashParams);
@@ -0,0 +1,205 @@
+/**
+ * Ethash Reference Test Suite
+ * Our TypeScript Ethash (mkcache, calcDatasetItem, hashimotoLight, hashimotoFull) against
+ * @ethereumjs/ethash and LightVerifier on small caches, and against a published mainnet block
+ * (block 1: header → block hash, seal hash → mix digest and proof of work on the epoch 0 cache)
+ * CPU only - no WebGPU required
+ */
+
+import { Ethash } from '@ethereumjs/ethash';
+import {
+  calcDatasetItem,
+  generateCache,
+  generateDAG,
+  getEpochParams,
+  hashimotoFull,
+  hashimotoLight,
+  mkcache,
+  TEST_ETHASH_PARAMS,
+} from '../crypto/ethash-reference';
+import { keccak256, keccak512, keccak512Words } from '../crypto/keccak-cpu';
+import { LightVerifier, meetsTarget } from '../crypto/ethash-light';
+import { resolveEpoch } from '../mining/epoch-manager';
+import { bytesToHex, hexToBytes } from '../rpc/etc-client';
+
+// Small cache and dataset: the algorithm doesn't depend on the real sizes
+const CACHE_ITEMS = 1021;
+const DATASET_BYTES = 4093 * 128;
+
+// Mainnet block 1 (epoch 0), header fields in RLP order up to extraData
+const BLOCK_1 = {
+  fields: [
+    '0xd4e56740f876aef8c010b86a40d5f56745a118d0906a34e69aec8c0db1cb8fa3',  // parentHash
+    '0x1dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d49347',  // ommersHash
+    '0x05a56e2d52c817161883f50c441c3228cfe54d9f',                          // coinbase
+    '0xd67e4d450343046425ae4271474353857ab860dbc0a1dde64b41b5cd3a532bf3',  // stateRoot
+    '0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421',  // transactionsRoot
+    '0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421',  // receiptsRoot
+    '0x' + '00'.repeat(256),                                                // logsBloom
+    '0x03ff800000',                                                         // difficulty
+    '0x01',                                                                 // number
+    '0x1388',                                                               // gasLimit
+    '0x',                                                                   // gasUsed
+    '0x55ba4224',                                                           // timestamp
+    '0x476574682f76312e302e302f6c696e75782f676f312e342e32',                 // extraData ("Geth/v1.0.0/linux/go1.4.2")
+  ],
+  difficulty: 0x3ff800000n,
+  mixHash: '0x969b900de27b6ac6a67742365dd65f55a0526c41fd18e1b16f1a1215c2e66f59',
+  nonce: 0x539bd4979fef1ec4n,
+  hash: '0x88e96d4537bea4d9c05d12549907b32561d3bf31f45aae734cdc119f13406cb6',
+};
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+function makeBytes(length: number, seed: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = (Math.imul(i + 1, 0x9e3779b1) ^ seed) >>> 24;
+  }
+  return bytes;
+}
+
+function nonceBytes(nonce: bigint): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, nonce, false);
+  return bytes;
+}
+
+function wordsToHex(words: Uint32Array): string {
+  return bytesToHex(new Uint8Array(words.buffer, words.byteOffset, words.byteLength));
+}
+
+/**
+ * RLP of a byte string or a list (enough for a block header)
+ */
+function rlp(item: Uint8Array | Uint8Array[]): Uint8Array {
+  const withLength = (offset: number, payload: Uint8Array) => {
+    if (payload.length < 56) {
+      return Uint8Array.of(offset + payload.length, ...payload);
+    }
+    const length: number[] = [];
+    for (let n = payload.length; n > 0; n = Math.floor(n / 256)) {
+      length.unshift(n & 0xff);
+    }
+    return Uint8Array.of(offset + 55 + length.length, ...length, ...payload);
+  };
+
+  if (Array.isArray(item)) {
+    const encoded = item.map(field => rlp(field));
+    const payload = new Uint8Array(encoded.reduce((sum, field) => sum + field.length, 0));
+    encoded.reduce((offset, field) => (payload.set(field, offset), offset + field.length), 0);
+    return withLength(0xc0, payload);
+  }
+  return item.length === 1 && item[0] < 0x80 ? item : withLength(0x80, item);
+}
+
+async function testEthashReference() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== KECCAK ===\n');
+    const message = new Uint32Array(makeBytes(64, 0x1234).buffer);
+    check('keccak512Words = keccak512', wordsToHex(keccak512Words(message)) === bytesToHex(keccak512(new Uint8Array(message.buffer))), 'one 64-byte item');
+
+    log('\n=== MKCACHE ===\n');
+    const reference = new Ethash();
+    const seed = makeBytes(32, 0x5eed);
+    const cache = mkcache(CACHE_ITEMS * 64, seed);
+    const theirCache = reference.mkcache(CACHE_ITEMS * 64, seed);
+    const cacheMismatches = theirCache.filter((item, i) => bytesToHex(item) !== wordsToHex(cache.subarray(i * 16, (i + 1) * 16))).length;
+    check('mkcache = @ethereumjs/ethash', cache.length === CACHE_ITEMS * 16 && cacheMismatches === 0, `${cacheMismatches} mismatch(es) in ${CACHE_ITEMS} items`);
+
+    const params = getEpochParams(resolveEpoch(3), TEST_ETHASH_PARAMS);
+    const epochCache = await generateCache(params);
+    const theirEpochCache = reference.mkcache(params.cacheBytes, params.seed);
+    check(
+      'generateCache = @ethereumjs/ethash',
+      theirEpochCache.every((item, i) => bytesToHex(item) === wordsToHex(epochCache.subarray(i * 16, (i + 1) * 16))),
+      `test epoch 3, ${params.cacheBytes.toLocaleString()} B`
+    );
+
+    log('\n=== DATASET ITEMS ===\n');
+    reference.cache = theirCache;
+    const verifier = new LightVerifier(cache, DATASET_BYTES);
+    for (const index of [0, 1, 1020, 4093 * 2 - 1]) {
+      const ours = wordsToHex(calcDatasetItem(cache, index));
+      const theirs = bytesToHex(reference.calcDatasetItem(index));
+      const light = wordsToHex(verifier.datasetItem(index));
+      check(`Item ${index}`, ours === theirs && ours === light, ours.slice(0, 18) + '...');
+    }
+
+    log('\n=== HASHIMOTO ===\n');
+    const headerHash = makeBytes(32, 0xbeef);
+    for (const nonce of [0n, 1n, 0x0123456789abcdefn, 0xffffffffffffffffn]) {
+      const ours = hashimotoLight(cache, DATASET_BYTES, headerHash, nonce);
+      const theirs = reference.run(headerHash, nonceBytes(nonce), DATASET_BYTES);
+      const light = verifier.hashimoto(headerHash, nonceBytes(nonce));
+      check(
+        `Nonce 0x${nonce.toString(16)}`,
+        wordsToHex(ours.hash) === bytesToHex(theirs.hash) && wordsToHex(ours.mixDigest) === bytesToHex(theirs.mix) &&
+          wordsToHex(ours.hash) === bytesToHex(light.hash) && wordsToHex(ours.mixDigest) === bytesToHex(light.mixDigest),
+        `hash ${wordsToHex(ours.hash).slice(0, 18)}..., mix ${wordsToHex(ours.mixDigest).slice(0, 18)}...`
+      );
+    }
+
+    const layout = hashimotoLight(cache, DATASET_BYTES, headerHash, 42n);
+    check('GPU layout', layout.hash.length === 8 && layout.mixDigest.length === 8, '8 words each');
+    check('64-bit nonces', wordsToHex(hashimotoLight(cache, DATASET_BYTES, headerHash, (1n << 64n) + 42n).hash) === wordsToHex(layout.hash), '2^64 + 42 = 42');
+    check(
+      'Accesses',
+      wordsToHex(hashimotoLight(cache, DATASET_BYTES, headerHash, 42n, 16).hash) === bytesToHex(new LightVerifier(cache, DATASET_BYTES, 16).hashimoto(headerHash, nonceBytes(42n)).hash) &&
+        wordsToHex(hashimotoLight(cache, DATASET_BYTES, headerHash, 42n, 16).hash) !== wordsToHex(layout.hash),
+      '16 accesses = LightVerifier, differs from 64'
+    );
+
+    log('\n=== FULL DATASET ===\n');
+    const tiny = { ...params, cacheBytes: 16 * 1024, datasetBytes: 256 * 1024 };
+    const dag = await generateDAG(tiny);
+    const tinyCache = await generateCache(tiny);
+    const fullMismatches = [0n, 7n, 0xdeadbeefn].filter(nonce => {
+      const full = hashimotoFull(dag, headerHash, nonce);
+      const light = hashimotoLight(tinyCache, tiny.datasetBytes, headerHash, nonce);
+      return wordsToHex(full.hash) !== wordsToHex(light.hash) || wordsToHex(full.mixDigest) !== wordsToHex(light.mixDigest);
+    }).length;
+    check('hashimotoFull = hashimotoLight', dag.byteLength === tiny.datasetBytes && fullMismatches === 0, `${fullMismatches} mismatch(es), ${(dag.byteLength / 1024).toFixed(0)} KB dataset`);
+
+    log('\n=== MAINNET BLOCK 1 ===\n');
+    const fields = BLOCK_1.fields.map(field => hexToBytes(field));
+    const mixHash = hexToBytes(BLOCK_1.mixHash);
+    const blockHash = keccak256(rlp([...fields, mixHash, nonceBytes(BLOCK_1.nonce)]));
+    check('Header fields', bytesToHex(blockHash) === BLOCK_1.hash, `block hash ${bytesToHex(blockHash).slice(0, 18)}...`);
+
+    const sealHash = keccak256(rlp(fields));
+    const mainnet = getEpochParams(resolveEpoch(0));
+    const startTime = performance.now();
+    const mainnetCache = await generateCache(mainnet);
+    log(`  Epoch 0 cache: ${(mainnetCache.byteLength / 1024 ** 2).toFixed(1)} MB in ${((performance.now() - startTime) / 1000).toFixed(1)} s`);
+
+    const result = hashimotoLight(mainnetCache, mainnet.datasetBytes, sealHash, BLOCK_1.nonce);
+    const resultHash = new Uint8Array(result.hash.buffer);
+    check('Mix digest = published mixHash', wordsToHex(result.mixDigest) === BLOCK_1.mixHash, BLOCK_1.mixHash.slice(0, 20) + '...');
+    check('Proof of work', meetsTarget(resultHash, ((1n << 256n) - 1n) / BLOCK_1.difficulty), `hash ${bytesToHex(resultHash).slice(0, 20)}... at difficulty ${BLOCK_1.difficulty}`);
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+    console.error(e);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testEthashReference);
@@ -0,0 +1,160 @@
+/**
+ * Ethash Size Table Test
+ * Verifies cacheSize() / datasetSize() against the published Ethash size tables
+ * (the same tables go-ethereum ships as sizes.go), epochs 0-399
+ * CPU only - no WebGPU required
+ */
+
+import { cacheSize, datasetSize } from '../crypto/ethash-sizes';
+import { getExpectedCacheSize, getExpectedDAGSize } from '../mining/epoch-manager';
+
+// Published cache sizes in bytes, epochs 0-399
+const CACHE_SIZES = [
+  16776896, 16907456, 17039296, 17170112, 17301056, 17432512, 17563072, 17693888,
+  17824192, 17955904, 18087488, 18218176, 18349504, 18481088, 18611392, 18742336,
+  18874304, 19004224, 19135936, 19267264, 19398208, 19529408, 19660096, 19791424,
+  19922752, 20053952, 20184896, 20315968, 20446912, 20576576, 20709184, 20840384,
+  20971072, 21102272, 21233216, 21364544, 21494848, 21626816, 21757376, 21887552,
+  22019392, 22151104, 22281536, 22412224, 22543936, 22675264, 22806464, 22935872,
+  23068096, 23198272, 23330752, 23459008, 23592512, 23723968, 23854912, 23986112,
+  24116672, 24247616, 24378688, 24509504, 24640832, 24772544, 24903488, 25034432,
+  25165376, 25296704, 25427392, 25558592, 25690048, 25820096, 25951936, 26081728,
+  26214208, 26345024, 26476096, 26606656, 26737472, 26869184, 26998208, 27131584,
+  27262528, 27393728, 27523904, 27655744, 27786688, 27917888, 28049344, 28179904,
+  28311488, 28441792, 28573504, 28700864, 28835648, 28966208, 29096768, 29228608,
+  29359808, 29490752, 29621824, 29752256, 29882816, 30014912, 30144448, 30273728,
+  30406976, 30538432, 30670784, 30799936, 30932672, 31063744, 31195072, 31325248,
+  31456192, 31588288, 31719232, 31850432, 31981504, 32110784, 32243392, 32372672,
+  32505664, 32636608, 32767808, 32897344, 33029824, 33160768, 33289664, 33423296,
+  33554368, 33683648, 33816512, 33947456, 34076992, 34208704, 34340032, 34471744,
+  34600256, 34734016, 34864576, 34993984, 35127104, 35258176, 35386688, 35518528,
+  35650624, 35782336, 35910976, 36044608, 36175808, 36305728, 36436672, 36568384,
+  36699968, 36830656, 36961984, 37093312, 37223488, 37355072, 37486528, 37617472,
+  37747904, 37879232, 38009792, 38141888, 38272448, 38403392, 38535104, 38660672,
+  38795584, 38925632, 39059264, 39190336, 39320768, 39452096, 39581632, 39713984,
+  39844928, 39974848, 40107968, 40238144, 40367168, 40500032, 40631744, 40762816,
+  40894144, 41023552, 41155904, 41286208, 41418304, 41547712, 41680448, 41811904,
+  41942848, 42073792, 42204992, 42334912, 42467008, 42597824, 42729152, 42860096,
+  42991552, 43122368, 43253696, 43382848, 43515712, 43646912, 43777088, 43907648,
+  44039104, 44170432, 44302144, 44433344, 44564288, 44694976, 44825152, 44956864,
+  45088448, 45219008, 45350464, 45481024, 45612608, 45744064, 45874496, 46006208,
+  46136768, 46267712, 46399424, 46529344, 46660672, 46791488, 46923328, 47053504,
+  47185856, 47316928, 47447872, 47579072, 47710144, 47839936, 47971648, 48103232,
+  48234176, 48365248, 48496192, 48627136, 48757312, 48889664, 49020736, 49149248,
+  49283008, 49413824, 49545152, 49675712, 49807168, 49938368, 50069056, 50200256,
+  50331584, 50462656, 50593472, 50724032, 50853952, 50986048, 51117632, 51248576,
+  51379904, 51510848, 51641792, 51773248, 51903296, 52035136, 52164032, 52297664,
+  52427968, 52557376, 52690112, 52821952, 52952896, 53081536, 53213504, 53344576,
+  53475776, 53608384, 53738816, 53870528, 54000832, 54131776, 54263744, 54394688,
+  54525248, 54655936, 54787904, 54918592, 55049152, 55181248, 55312064, 55442752,
+  55574336, 55705024, 55836224, 55967168, 56097856, 56228672, 56358592, 56490176,
+  56621888, 56753728, 56884928, 57015488, 57146816, 57278272, 57409216, 57540416,
+  57671104, 57802432, 57933632, 58064576, 58195264, 58326976, 58457408, 58588864,
+  58720192, 58849984, 58981696, 59113024, 59243456, 59375552, 59506624, 59637568,
+  59768512, 59897792, 60030016, 60161984, 60293056, 60423872, 60554432, 60683968,
+  60817216, 60948032, 61079488, 61209664, 61341376, 61471936, 61602752, 61733696,
+  61865792, 61996736, 62127808, 62259136, 62389568, 62520512, 62651584, 62781632,
+  62910784, 63045056, 63176128, 63307072, 63438656, 63569216, 63700928, 63831616,
+  63960896, 64093888, 64225088, 64355392, 64486976, 64617664, 64748608, 64879424,
+  65009216, 65142464, 65273792, 65402816, 65535424, 65666752, 65797696, 65927744,
+  66060224, 66191296, 66321344, 66453056, 66584384, 66715328, 66846656, 66977728,
+  67108672, 67239104, 67370432, 67501888, 67631296, 67763776, 67895104, 68026304,
+  68157248, 68287936, 68419264, 68548288, 68681408, 68811968, 68942912, 69074624,
+];
+
+// Published dataset sizes in bytes, epochs 0-399
+const DATASET_SIZES = [
+  1073739904, 1082130304, 1090514816, 1098906752, 1107293056, 1115684224, 1124070016, 1132461952,
+  1140849536, 1149232768, 1157627776, 1166013824, 1174404736, 1182786944, 1191180416, 1199568512,
+  1207958912, 1216345216, 1224732032, 1233124736, 1241513344, 1249902464, 1258290304, 1266673792,
+  1275067264, 1283453312, 1291844992, 1300234112, 1308619904, 1317010048, 1325397376, 1333787776,
+  1342176128, 1350561664, 1358954368, 1367339392, 1375731584, 1384118144, 1392507008, 1400897408,
+  1409284736, 1417673344, 1426062464, 1434451072, 1442839168, 1451229056, 1459615616, 1468006016,
+  1476394112, 1484782976, 1493171584, 1501559168, 1509948032, 1518337664, 1526726528, 1535114624,
+  1543503488, 1551892096, 1560278656, 1568669056, 1577056384, 1585446272, 1593831296, 1602219392,
+  1610610304, 1619000192, 1627386752, 1635773824, 1644164224, 1652555648, 1660943488, 1669332608,
+  1677721216, 1686109312, 1694497664, 1702886272, 1711274624, 1719661184, 1728047744, 1736434816,
+  1744829056, 1753218944, 1761606272, 1769995904, 1778382464, 1786772864, 1795157888, 1803550592,
+  1811937664, 1820327552, 1828711552, 1837102976, 1845488768, 1853879936, 1862269312, 1870656896,
+  1879048064, 1887431552, 1895825024, 1904212096, 1912601216, 1920988544, 1929379456, 1937765504,
+  1946156672, 1954543232, 1962932096, 1971321728, 1979707264, 1988093056, 1996487552, 2004874624,
+  2013262208, 2021653888, 2030039936, 2038430848, 2046819968, 2055208576, 2063596672, 2071981952,
+  2080373632, 2088762752, 2097149056, 2105539712, 2113928576, 2122315136, 2130700672, 2139092608,
+  2147483264, 2155872128, 2164257664, 2172642176, 2181035392, 2189426048, 2197814912, 2206203008,
+  2214587264, 2222979712, 2231367808, 2239758208, 2248145024, 2256527744, 2264922752, 2273312128,
+  2281701248, 2290086272, 2298476672, 2306867072, 2315251072, 2323639168, 2332032128, 2340420224,
+  2348808064, 2357196416, 2365580416, 2373966976, 2382363008, 2390748544, 2399139968, 2407530368,
+  2415918976, 2424307328, 2432695424, 2441084288, 2449472384, 2457861248, 2466247808, 2474637184,
+  2483026816, 2491414144, 2499803776, 2508191872, 2516582272, 2524970368, 2533359232, 2541743488,
+  2550134144, 2558525056, 2566913408, 2575301504, 2583686528, 2592073856, 2600467328, 2608856192,
+  2617240448, 2625631616, 2634022016, 2642407552, 2650796416, 2659188352, 2667574912, 2675965312,
+  2684352896, 2692738688, 2701130624, 2709518464, 2717907328, 2726293376, 2734685056, 2743073152,
+  2751462016, 2759851648, 2768232832, 2776625536, 2785017728, 2793401984, 2801794432, 2810182016,
+  2818571648, 2826959488, 2835349376, 2843734144, 2852121472, 2860514432, 2868900992, 2877286784,
+  2885676928, 2894069632, 2902451584, 2910843008, 2919234688, 2927622784, 2936011648, 2944400768,
+  2952789376, 2961177728, 2969565568, 2977951616, 2986338944, 2994731392, 3003120256, 3011508352,
+  3019895936, 3028287104, 3036675968, 3045063808, 3053452928, 3061837696, 3070228352, 3078615424,
+  3087003776, 3095394944, 3103782272, 3112173184, 3120562048, 3128944768, 3137339264, 3145725056,
+  3154109312, 3162505088, 3170893184, 3179280256, 3187669376, 3196056704, 3204445568, 3212836736,
+  3221224064, 3229612928, 3238002304, 3246391168, 3254778496, 3263165824, 3271556224, 3279944576,
+  3288332416, 3296719232, 3305110912, 3313500032, 3321887104, 3330273152, 3338658944, 3347053184,
+  3355440512, 3363827072, 3372220288, 3380608384, 3388997504, 3397384576, 3405774208, 3414163072,
+  3422551936, 3430937984, 3439328384, 3447714176, 3456104576, 3464493952, 3472883584, 3481268864,
+  3489655168, 3498048896, 3506434432, 3514826368, 3523213952, 3531603584, 3539987072, 3548380288,
+  3556763264, 3565157248, 3573545344, 3581934464, 3590324096, 3598712704, 3607098752, 3615488384,
+  3623877248, 3632265856, 3640646528, 3649043584, 3657430144, 3665821568, 3674207872, 3682597504,
+  3690984832, 3699367808, 3707764352, 3716152448, 3724541056, 3732925568, 3741318016, 3749706368,
+  3758091136, 3766481536, 3774872704, 3783260032, 3791650432, 3800036224, 3808427648, 3816815488,
+  3825204608, 3833592704, 3841981568, 3850370432, 3858755968, 3867147904, 3875536256, 3883920512,
+  3892313728, 3900702592, 3909087872, 3917478784, 3925868416, 3934256512, 3942645376, 3951032192,
+  3959422336, 3967809152, 3976200064, 3984588416, 3992974976, 4001363584, 4009751168, 4018141312,
+  4026530432, 4034911616, 4043308928, 4051695488, 4060084352, 4068472448, 4076862848, 4085249408,
+  4093640576, 4102028416, 4110413696, 4118805632, 4127194496, 4135583104, 4143971968, 4152360832,
+  4160746112, 4169135744, 4177525888, 4185912704, 4194303616, 4202691968, 4211076736, 4219463552,
+  4227855488, 4236246656, 4244633728, 4253022848, 4261412224, 4269799808, 4278184832, 4286578048,
+  4294962304, 4303349632, 4311743104, 4320130432, 4328521088, 4336909184, 4345295488, 4353687424,
+  4362073472, 4370458496, 4378852736, 4387238528, 4395630208, 4404019072, 4412407424, 4420790656,
+];
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+function testEthashSizes() {
+  try {
+    log(`Checking ${CACHE_SIZES.length} epochs against the published size tables...\n`);
+
+    let cacheMismatches = 0;
+    let datasetMismatches = 0;
+
+    for (let epoch = 0; epoch < CACHE_SIZES.length; epoch++) {
+      const cache = cacheSize(epoch);
+      const dataset = datasetSize(epoch);
+
+      if (cache !== CACHE_SIZES[epoch] || getExpectedCacheSize(epoch) !== cache) {
+        cacheMismatches++;
+        log(`  ✗ Epoch ${epoch} cache: got ${cache}, expected ${CACHE_SIZES[epoch]}`);
+      }
+      if (dataset !== DATASET_SIZES[epoch] || getExpectedDAGSize(epoch) !== dataset) {
+        datasetMismatches++;
+        log(`  ✗ Epoch ${epoch} dataset: got ${dataset}, expected ${DATASET_SIZES[epoch]}`);
+      }
+    }
+
+    log(`  ${cacheMismatches === 0 ? '✓' : '✗'} Cache sizes: ${CACHE_SIZES.length - cacheMismatches}/${CACHE_SIZES.length} match`);
+    log(`  ${datasetMismatches === 0 ? '✓' : '✗'} Dataset sizes: ${DATASET_SIZES.length - datasetMismatches}/${DATASET_SIZES.length} match`);
+
+    const passed = (cacheMismatches === 0 ? 1 : 0) + (datasetMismatches === 0 ? 1 : 0);
+    log(`\nResults: ${passed}/2 tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testEthashSizes);
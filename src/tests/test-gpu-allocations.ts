@@ -0,0 +1,100 @@
+/**
+ * GPU Allocation Tracker Test Suite
+ * Tests trackGPUAllocations against a fake device: counting, destroy,
+ * double destroy, untracked buffers, idempotent tracking and leak reports
+ * CPU only - no WebGPU required
+ */
+
+import { trackGPUAllocations } from '../gpu/gpu-allocations';
+
+/**
+ * Just enough of GPUDevice/GPUBuffer for the tracker
+ */
+class FakeDevice {
+  destroyCalls = 0;
+
+  createBuffer(descriptor: GPUBufferDescriptor): GPUBuffer {
+    const device = this;
+    return {
+      label: descriptor.label ?? '',
+      size: descriptor.size,
+      destroy() {
+        device.destroyCalls++;
+      },
+    } as GPUBuffer;
+  }
+}
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+async function testGPUAllocations() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== COUNTING ===\n');
+    const fake = new FakeDevice();
+    const device = fake as unknown as GPUDevice;
+
+    const untracked = device.createBuffer({ size: 1000, usage: 0 });
+    const tracker = trackGPUAllocations(device);
+    check('Starts empty', tracker.snapshot().buffers === 0, `${tracker.snapshot().buffers} buffer(s)`);
+
+    const cache = device.createBuffer({ label: 'ethash-cache', size: 256, usage: 0 });
+    const dag = device.createBuffer({ label: 'ethash-dag-0', size: 4096, usage: 0 });
+    const staging = device.createBuffer({ size: 64, usage: 0 });
+    let snapshot = tracker.snapshot();
+    check('Counts buffers and bytes', snapshot.buffers === 3 && snapshot.bytes === 4416, `${snapshot.buffers} buffer(s), ${snapshot.bytes} bytes`);
+
+    const labels = tracker.liveBuffers().map(b => `${b.label}:${b.size}`).join(', ');
+    check('Leak report lists labels and sizes', labels === 'ethash-cache:256, ethash-dag-0:4096, (unlabelled):64', labels);
+
+    log('\n=== DESTROY ===\n');
+    dag.destroy();
+    snapshot = tracker.snapshot();
+    check('destroy() releases', snapshot.buffers === 2 && snapshot.bytes === 320, `${snapshot.buffers} buffer(s), ${snapshot.bytes} bytes`);
+    check('Real destroy still called', fake.destroyCalls === 1, `${fake.destroyCalls} call(s)`);
+
+    dag.destroy();
+    snapshot = tracker.snapshot();
+    check('Double destroy counted once', snapshot.buffers === 2 && snapshot.bytes === 320, `${snapshot.buffers} buffer(s), ${snapshot.bytes} bytes`);
+
+    untracked.destroy();
+    check('Untracked buffers ignored', tracker.snapshot().buffers === 2, `${tracker.snapshot().buffers} buffer(s)`);
+
+    log('\n=== IDEMPOTENT ===\n');
+    const again = trackGPUAllocations(device);
+    check('One tracker per device', again === tracker, again === tracker ? 'same tracker' : 'new tracker');
+
+    device.createBuffer({ size: 32, usage: 0 }).destroy();
+    check('Not double-wrapped', tracker.snapshot().buffers === 2 && fake.destroyCalls === 4, `${tracker.snapshot().buffers} buffer(s), ${fake.destroyCalls} destroy call(s)`);
+
+    const other = trackGPUAllocations(new FakeDevice() as unknown as GPUDevice);
+    check('Devices tracked separately', other !== tracker && other.snapshot().buffers === 0, `${other.snapshot().buffers} buffer(s)`);
+
+    cache.destroy();
+    staging.destroy();
+    snapshot = tracker.snapshot();
+    check('Back to zero', snapshot.buffers === 0 && snapshot.bytes === 0, `${snapshot.buffers} buffer(s), ${snapshot.bytes} bytes`);
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testGPUAllocations);
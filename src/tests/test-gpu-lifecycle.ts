@@ -0,0 +1,179 @@
+/**
+ * GPU Lifecycle Test
+ * Runs MiningCoordinator on this thread with allocation tracking and checks that
+ * start/stop cycles and an epoch change don't leak buffers, and that dispose()
+ * frees everything
+ */
+
+import { createGPUDevice } from '../gpu/device-helper';
+import { trackGPUAllocations, GPUAllocationTracker, GPUAllocationSnapshot } from '../gpu/gpu-allocations';
+import { MiningCoordinator, MiningStats } from '../mining/coordinator';
+import { MemoryWorkSource } from '../mining/work-source';
+import { ETHASH_NETWORK, BLOCKS_PER_EPOCH_ETH, getSeedHashForEpoch } from '../mining/epoch-manager';
+import { WorkPackage, bigIntToHex } from '../rpc/etc-client';
+
+const BATCH_SIZE = 4096;
+const CYCLES = 3;
+
+// ~4 shares per batch, so the share path runs too
+const TARGET = bigIntToHex((1n << 256n) / 1024n);
+
+function log(msg: string, type = 'info') {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    const entry = document.createElement('div');
+    entry.className = `log-entry ${type}`;
+    entry.textContent = msg;
+    logEl.appendChild(entry);
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(`[${type.toUpperCase()}] ${msg}`);
+}
+
+function makeWork(blockNumber: number): WorkPackage {
+  return {
+    headerHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+    seedHash: getSeedHashForEpoch(Math.floor(blockNumber / BLOCKS_PER_EPOCH_ETH)),
+    target: TARGET,
+    blockNumber,
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+  const start = performance.now();
+  while (!condition()) {
+    if (performance.now() - start > timeoutMs) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return true;
+}
+
+function describe(snapshot: GPUAllocationSnapshot): string {
+  return `${snapshot.buffers} buffer(s), ${(snapshot.bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function logLive(tracker: GPUAllocationTracker) {
+  for (const { label, size } of tracker.liveBuffers()) {
+    log(`    live: ${label} (${size.toLocaleString()} bytes)`, 'error');
+  }
+}
+
+export async function runTest() {
+  const runBtn = document.getElementById('runBtn') as HTMLButtonElement;
+  const logEl = document.getElementById('log') as HTMLElement;
+
+  if (runBtn) runBtn.disabled = true;
+  if (logEl) logEl.textContent = '';
+
+  log('=== GPU LIFECYCLE TEST ===', 'info');
+  log('', 'info');
+
+  let passed = 0;
+  let failed = 0;
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`${ok ? '✓' : '✗'} ${name}: ${detail}`, ok ? 'success' : 'error');
+    if (ok) passed++;
+    else failed++;
+  };
+
+  let device: GPUDevice | undefined;
+
+  try {
+    device = await createGPUDevice();
+    const tracker = trackGPUAllocations(device);
+
+    const source = new MemoryWorkSource();
+    source.pushWork(makeWork(100));
+
+    let stats: MiningStats | undefined;
+    const coordinator = new MiningCoordinator(source, device, {
+      batchSize: BATCH_SIZE,
+      targetDispatchMs: 50,
+      maxBatchSize: BATCH_SIZE,
+      pipelineDepth: 2,
+      reportInterval: 250,
+      autoRestart: true,
+      submitStaleShares: false,
+      network: ETHASH_NETWORK,
+      pregenerateBlocks: 0,
+    });
+
+    log('STEP 1: Epoch 0 setup...', 'info');
+    await coordinator.initialize();
+    const baseline = tracker.snapshot();
+    log(`  Baseline: ${describe(baseline)} (cache, DAG, reusable buffers)`, 'info');
+    log('', 'info');
+
+    log(`STEP 2: ${CYCLES} start/stop cycles...`, 'info');
+    for (let cycle = 1; cycle <= CYCLES; cycle++) {
+      const mining = coordinator.startMining((s) => { stats = s; });
+      await waitFor(() => coordinator.getStats().totalHashes >= cycle * BATCH_SIZE * 4, 30_000);
+      await coordinator.stopMining();
+
+      // Per-batch buffers (difficulty filter, mapping) are only gone if the batch drained
+      const afterStop = tracker.snapshot();
+      const hashes = coordinator.getStats().totalHashes;
+      await new Promise(resolve => setTimeout(resolve, 200));
+      await mining;
+
+      check(
+        `Cycle ${cycle}: stop drains the batch`,
+        afterStop.buffers === baseline.buffers && afterStop.bytes === baseline.bytes && coordinator.getStats().totalHashes === hashes,
+        describe(afterStop)
+      );
+      if (afterStop.buffers !== baseline.buffers) logLive(tracker);
+    }
+    check('Stats report allocations', coordinator.getStats().gpuBuffers === baseline.buffers, `${coordinator.getStats().gpuBuffers} buffer(s)`);
+    log('', 'info');
+
+    log('STEP 3: Epoch change 0 → 1 (stop-and-rebuild)...', 'info');
+    const switching = coordinator.startMining((s) => { stats = s; });
+    const work1 = makeWork(BLOCKS_PER_EPOCH_ETH);
+    source.pushWork(work1);
+    const switched = await waitFor(
+      () => (stats?.epochSwitches ?? 0) >= 1 && source.submissions.some(s => s.share.headerHash === work1.headerHash),
+      300_000
+    );
+    check('Switched to epoch 1', switched, switched ? `${stats?.epochSwitches} switch(es)` : 'timed out');
+
+    // Let at least one more batch run, so the epoch 0 setup has been retired and freed
+    const hashesAfterSwitch = coordinator.getStats().totalHashes;
+    await waitFor(() => coordinator.getStats().totalHashes > hashesAfterSwitch + BATCH_SIZE, 30_000);
+    await coordinator.stopMining();
+    await switching;
+
+    const afterSwitch = tracker.snapshot();
+    check(
+      'Epoch 0 setup freed',
+      afterSwitch.buffers === baseline.buffers && afterSwitch.bytes > baseline.bytes,
+      `${describe(afterSwitch)} (epoch 1 DAG is larger)`
+    );
+    if (afterSwitch.buffers !== baseline.buffers) logLive(tracker);
+    log('', 'info');
+
+    log('STEP 4: dispose()...', 'info');
+    await coordinator.dispose();
+    const afterDispose = tracker.snapshot();
+    check('Everything freed', afterDispose.buffers === 0 && afterDispose.bytes === 0, describe(afterDispose));
+    logLive(tracker);
+
+    let restartError = '';
+    try {
+      await coordinator.startMining();
+    } catch (error) {
+      restartError = (error as Error).message;
+    }
+    check('Disposed coordinator refuses to start', restartError.includes('disposed'), restartError || 'started');
+
+    log('', 'info');
+    log(`Results: ${passed}/${passed + failed} tests passed`, failed === 0 ? 'success' : 'error');
+  } catch (err) {
+    log(`\n❌ ERROR: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    console.error(err);
+  } finally {
+    device?.destroy();
+    if (runBtn) runBtn.disabled = false;
+  }
+}
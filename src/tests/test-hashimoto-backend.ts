@@ -0,0 +1,255 @@
+/**
+ * Hashimoto Backend Test Suite
+ * The CPU reference backend on tiny epochs (~16 KB cache, ~256 KB dataset): full and light modes
+ * agree with LightVerifier, range semantics match the GPU kernel (every nonce once, wrap at 2^64,
+ * target check, abort), and MiningCoordinator runs end-to-end on it - mine, verify, submit,
+ * new work and an epoch change (also one arriving while the batch size is being tuned)
+ * CPU only - no WebGPU required
+ */
+
+import { CPUReferenceBackend, EpochSetup } from '../mining/hashimoto-backend';
+import { MiningCoordinator, MiningStats } from '../mining/coordinator';
+import { MemoryWorkSource } from '../mining/work-source';
+import { ETHASH_NETWORK, BLOCKS_PER_EPOCH_ETH, getSeedHashForEpoch, resolveEpoch } from '../mining/epoch-manager';
+import { LightVerifier, meetsTarget } from '../crypto/ethash-light';
+import { EthashParams, getEpochParams, TEST_ETHASH_PARAMS } from '../crypto/ethash-reference';
+import { WorkPackage, bytesToHex, bigIntToHex, hexToBytes } from '../rpc/etc-client';
+
+const TINY_ETHASH: EthashParams = { ...TEST_ETHASH_PARAMS, cacheBytesInit: 16 * 1024, datasetBytesInit: 256 * 1024 };
+const ANY_TARGET = (1n << 256n) - 1n;
+const SHARE_TARGET = ANY_TARGET / 32n;  // About one hash in 32 wins
+const BATCH_SIZE = 256;
+
+function makeWork(blockNumber: number): WorkPackage {
+  return {
+    headerHash: '0x' + (blockNumber + 1).toString(16).padStart(64, '0'),
+    seedHash: getSeedHashForEpoch(Math.floor(blockNumber / BLOCKS_PER_EPOCH_ETH)),
+    target: bigIntToHex(SHARE_TARGET),
+    blockNumber,
+  };
+}
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+  const start = performance.now();
+  while (!condition()) {
+    if (performance.now() - start > timeoutMs) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return true;
+}
+
+async function testHashimotoBackend() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== TINY EPOCH SETUP ===\n');
+    const backend = new CPUReferenceBackend({ ethash: TINY_ETHASH });
+    const startTime = performance.now();
+    const setup = await backend.setupEpoch(resolveEpoch(0));
+    const setupMs = performance.now() - startTime;
+    const tiny = getEpochParams(resolveEpoch(0), TINY_ETHASH);
+    check('Tiny sizes', setup.cache.byteLength === tiny.cacheBytes && setup.dagBytes === tiny.datasetBytes, `${setup.cache.byteLength} B cache, ${setup.dagBytes} B dataset`);
+    check('Set up in seconds', setupMs < 10_000, `${setupMs.toFixed(0)} ms`);
+    check('No GPU memory', backend.allocations().buffers === 0 && backend.allocations().bytes === 0, 'allocations() is empty');
+
+    log('\n=== FULL AND LIGHT MODES ===\n');
+    const headerHash = new Uint8Array(32).map((_, i) => (i * 29 + 3) & 0xff);
+    const light = new CPUReferenceBackend({ ethash: TINY_ETHASH, maxDatasetBytes: 0 });
+    const lightSetup = await light.setupEpoch(resolveEpoch(0));
+    const full = await backend.mineRange(setup, headerHash, 1000n, 64, ANY_TARGET);
+    const derived = await light.mineRange(lightSetup, headerHash, 1000n, 64, ANY_TARGET);
+    const byNonce = new Map(derived.winners.map(w => [w.nonce, bytesToHex(w.hash) + bytesToHex(w.mixDigest)]));
+    const mismatches = full.winners.filter(w => byNonce.get(w.nonce) !== bytesToHex(w.hash) + bytesToHex(w.mixDigest)).length;
+    check('Full dataset = light mode', full.winners.length === 64 && mismatches === 0, `${mismatches} mismatch(es) in ${full.winners.length} hashes`);
+
+    const verifier = new LightVerifier(setup.cache, setup.dagBytes);
+    const sample = full.winners[17];
+    const verification = verifier.verify(headerHash, hexToBytes(bigIntToHex(sample.nonce, 16)), sample, ANY_TARGET);
+    check('LightVerifier accepts backend results', verification.valid, `nonce ${sample.nonce}`);
+
+    log('\n=== RANGES ===\n');
+    const range = await backend.mineRange(setup, headerHash, 0n, 1024, ANY_TARGET);
+    const nonces = new Set(range.winners.map(w => w.nonce));
+    check('Every nonce once', nonces.size === 1024 && [...nonces].every(nonce => nonce < 1024n), `${nonces.size} distinct nonces`);
+
+    const filtered = await backend.mineRange(setup, headerHash, 0n, 1024, SHARE_TARGET);
+    const expected = range.winners.filter(w => meetsTarget(w.hash, SHARE_TARGET)).map(w => w.nonce).sort();
+    const got = filtered.winners.map(w => w.nonce).sort();
+    check('Target check', got.length === expected.length && got.every((nonce, i) => nonce === expected[i]), `${got.length} winner(s) at difficulty 32`);
+    check('Impossible target', (await backend.mineRange(setup, headerHash, 0n, 256, 0n)).winners.length === 0, 'target 0');
+
+    const wrapped = await backend.mineRange(setup, headerHash, (1n << 64n) - 2n, 4, ANY_TARGET);
+    const wrappedNonces = wrapped.winners.map(w => w.nonce).sort();
+    check('Wraps at 2^64', wrappedNonces.join() === [0n, 1n, (1n << 64n) - 2n, (1n << 64n) - 1n].sort().join(), wrappedNonces.map(n => '0x' + n.toString(16)).join(', '));
+
+    log('\n=== ABORT ===\n');
+    const aborted = new AbortController();
+    aborted.abort();
+    const before = await backend.mineRange(setup, headerHash, 0n, 1024, ANY_TARGET, aborted.signal);
+    check('Aborted before the batch', before.aborted === true && before.winners.length === 0, `aborted ${before.aborted}`);
+
+    const midway = new AbortController();
+    const pending = backend.mineRange(setup, headerHash, 0n, 100_000, ANY_TARGET, midway.signal);
+    setTimeout(() => midway.abort(), 20);
+    const during = await pending;
+    check('Aborted mid-batch', during.aborted === true && during.winners.length === 0 && during.timeMs < 5_000, `after ${during.timeMs.toFixed(0)} ms`);
+
+    log('\n=== BATCH TUNING ===\n');
+    const tuning = await backend.tuneBatchSize(setup, { targetMs: 30, maxBatchSize: 4096 });
+    check(
+      'Tuned on the CPU',
+      tuning.batchSize >= 256 && tuning.batchSize <= 4096 && tuning.batchSize % 256 === 0,
+      `${tuning.batchSize} nonces after ${tuning.measurements.length} measurement(s)`
+    );
+
+    log('\n=== COORDINATOR END TO END ===\n');
+    const source = new MemoryWorkSource();
+    source.pushWork(makeWork(100));
+
+    // Every epoch this backend builds, for checking the shares afterwards
+    const epochBackend = new CPUReferenceBackend({ ethash: TINY_ETHASH });
+    const setups: EpochSetup[] = [];
+    const setupEpoch = epochBackend.setupEpoch.bind(epochBackend);
+    epochBackend.setupEpoch = async (epoch) => {
+      const built = await setupEpoch(epoch);
+      setups.push(built);
+      return built;
+    };
+
+    let stats: MiningStats | undefined;
+    const coordinator = new MiningCoordinator(source, epochBackend, {
+      batchSize: BATCH_SIZE,
+      targetDispatchMs: 50,
+      maxBatchSize: BATCH_SIZE,
+      pipelineDepth: 2,
+      reportInterval: 200,
+      autoRestart: true,
+      submitStaleShares: false,
+      network: ETHASH_NETWORK,
+      pregenerateBlocks: 0,
+    });
+
+    await coordinator.initialize();
+    const mining = coordinator.startMining((s) => { stats = s; });
+
+    const mined = await waitFor(() => source.submissions.length >= 5, 60_000);
+    check('Shares found and submitted', mined, `${source.submissions.length} share(s) after ${coordinator.getStats().totalHashes.toLocaleString()} hashes`);
+
+    const work2 = makeWork(101);
+    source.pushWork(work2);
+    const followed = await waitFor(() => source.submissions.some(s => s.share.headerHash === work2.headerHash), 60_000);
+    check('New work followed', followed, work2.headerHash.slice(0, 18) + '…');
+
+    const work3 = makeWork(BLOCKS_PER_EPOCH_ETH);
+    source.pushWork(work3);
+    const switched = await waitFor(() => source.submissions.some(s => s.share.headerHash === work3.headerHash), 60_000);
+    check('Epoch change 0 → 1', switched && coordinator.getStats().epochSwitches === 1 && setups.length === 2, `${coordinator.getStats().epochSwitches} switch(es), ${setups.length} setup(s)`);
+    const tiny1 = getEpochParams(resolveEpoch(1), TINY_ETHASH);
+    check(
+      'Epoch 1 grows by EthashParams',
+      setups[1]?.cache.byteLength === tiny1.cacheBytes && setups[1]?.dagBytes === tiny1.datasetBytes && tiny1.datasetBytes > tiny.datasetBytes,
+      `${setups[1]?.cache.byteLength} B cache, ${setups[1]?.dagBytes} B dataset`
+    );
+
+    await coordinator.stopMining();
+    await mining;
+    const final = coordinator.getStats();
+
+    // Each share recomputed against the cache of the epoch of the work it was submitted for
+    const invalid = source.submissions.filter(({ share }) => {
+      const epochSetup = share.headerHash === work3.headerHash ? setups[1] : setups[0];
+      const { hash, mixDigest } = new LightVerifier(epochSetup.cache, epochSetup.dagBytes).hashimoto(hexToBytes(share.headerHash), hexToBytes(share.nonce));
+      return bytesToHex(mixDigest) !== share.mixDigest || !meetsTarget(hash, SHARE_TARGET);
+    }).length;
+    check('Submitted shares verify', invalid === 0, `${invalid} invalid in ${source.submissions.length}`);
+
+    const accepted = source.submissions.filter(s => s.result.accepted).length;
+    check(
+      'Stats match the submissions',
+      final.sharesAccepted === accepted && final.sharesAccepted + final.sharesRejected === source.submissions.length && final.hardwareErrors === 0,
+      `${final.sharesAccepted} accepted, ${final.sharesRejected} rejected, ${final.sharesStale} stale, ${final.hardwareErrors} hardware errors`
+    );
+    check('Hashes counted per batch', final.totalHashes > 0 && final.totalHashes % BATCH_SIZE === 0 && final.hashrate > 0, `${final.totalHashes.toLocaleString()} hashes, ${final.hashrate.toFixed(0)} H/s`);
+    check('Stats reported', stats !== undefined && final.gpuBuffers === 0, `${final.gpuBuffers} GPU buffer(s)`);
+
+    await coordinator.dispose();
+
+    log('\n=== EPOCH CHANGE WHILE TUNING ===\n');
+    // Setups disposed while a tuning dispatch was still hashing on them
+    const tuneBackend = new CPUReferenceBackend({ ethash: TINY_ETHASH });
+    const disposed = new Set<EpochSetup>();
+    let tunings = 0;
+    let disposedWhileTuning = 0;
+    const setupTuneEpoch = tuneBackend.setupEpoch.bind(tuneBackend);
+    tuneBackend.setupEpoch = async (epoch) => {
+      const built = await setupTuneEpoch(epoch);
+      const dispose = built.dispose.bind(built);
+      built.dispose = () => { disposed.add(built); dispose(); };
+      return built;
+    };
+    const tune = tuneBackend.tuneBatchSize.bind(tuneBackend);
+    tuneBackend.tuneBatchSize = async (tuned, options) => {
+      tunings++;
+      const tuning = await tune(tuned, options);
+      if (disposed.has(tuned)) {
+        disposedWhileTuning++;
+      }
+      return tuning;
+    };
+
+    const tuneSource = new MemoryWorkSource();
+    tuneSource.pushWork(makeWork(100));
+    const tuneCoordinator = new MiningCoordinator(tuneSource, tuneBackend, {
+      batchSize: 'auto',
+      targetDispatchMs: 200,
+      maxBatchSize: 65_536,
+      pipelineDepth: 2,
+      reportInterval: 200,
+      autoRestart: true,
+      submitStaleShares: false,
+      network: ETHASH_NETWORK,
+      pregenerateBlocks: 0,
+    });
+    await tuneCoordinator.initialize();
+    const tuneMining = tuneCoordinator.startMining(() => {});
+    await waitFor(() => tunings === 1, 10_000);
+
+    const tuneWork = makeWork(BLOCKS_PER_EPOCH_ETH);
+    tuneSource.pushWork(tuneWork);
+    const minedAfter = await waitFor(() => tuneSource.submissions.some(s => s.share.headerHash === tuneWork.headerHash), 60_000);
+    await tuneCoordinator.stopMining();
+    await tuneMining;
+    check(
+      'Setup outlives its tuning',
+      minedAfter && disposedWhileTuning === 0 && tunings === 2,
+      `${tunings} tuning(s), ${disposedWhileTuning} on a disposed setup, ${minedAfter ? 'mining on epoch 1' : 'NOT mining on epoch 1'}`
+    );
+    await tuneCoordinator.dispose();
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+    console.error(e);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testHashimotoBackend);
@@ -4,10 +4,8 @@
  * Uses test vectors from js-sha3 library
  */
 
-// Import the shader code
-import keccak512Shader from '../compute/keccak-512-shader.wgsl?raw';
-import keccak256Shader from '../compute/keccak-256-shader.wgsl?raw';
 import { createGPUDevice } from '../gpu/device-helper';
+import { composeShader, compileShader } from '../gpu/shader-modules';
 
 interface TestVector {
   input: string;
@@ -62,8 +60,8 @@ async function testKeccak() {
       view.set(padded);
 
       try {
-        const shader = test.bits === 512 ? keccak512Shader : keccak256Shader;
-        const shaderModule = device.createShaderModule({ code: shader });
+        const shader = test.bits === 512 ? 'keccak-512-shader' : 'keccak-256-shader';
+        const shaderModule = await compileShader(device, composeShader(shader), shader);
         const pipeline = device.createComputePipeline({
           layout: 'auto',
           compute: { module: shaderModule, entryPoint: 'main' }
@@ -0,0 +1,121 @@
+/**
+ * Light Verifier Test Suite
+ * Tests LightVerifier (cache-only Hashimoto) against @ethereumjs/ethash's light run()
+ * on a small random cache, plus share verification outcomes and target comparison
+ * CPU only - no WebGPU required
+ */
+
+import { Ethash } from '@ethereumjs/ethash';
+import { LightVerifier, meetsTarget } from '../crypto/ethash-light';
+import { bytesToHex } from '../rpc/etc-client';
+
+// Small cache and dataset: the algorithm doesn't depend on the real sizes
+const CACHE_ITEMS = 1021;
+const DATASET_BYTES = 4093 * 128;
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+function makeBytes(length: number, seed: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = (Math.imul(i + 1, 0x9e3779b1) ^ seed) >>> 24;
+  }
+  return bytes;
+}
+
+function nonceBytes(nonce: bigint): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, nonce, false);
+  return bytes;
+}
+
+async function testLightVerifier() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    const cacheBytes = makeBytes(CACHE_ITEMS * 64, 0x5eed);
+    const cache = new Uint32Array(cacheBytes.buffer);
+    const verifier = new LightVerifier(cache, DATASET_BYTES);
+
+    // @ethereumjs/ethash reads each item's whole .buffer, so items need their own buffers
+    const reference = new Ethash();
+    reference.cache = Array.from({ length: CACHE_ITEMS }, (_, i) => cacheBytes.slice(i * 64, (i + 1) * 64));
+
+    log('=== DATASET ITEMS ===\n');
+    for (const index of [0, 1, 1020, 4093 * 2 - 1]) {
+      const ours = bytesToHex(new Uint8Array(verifier.datasetItem(index).buffer));
+      const theirs = bytesToHex(reference.calcDatasetItem(index));
+      check(`Item ${index} matches reference`, ours === theirs, ours.slice(0, 18) + '...');
+    }
+
+    log('\n=== HASHIMOTO ===\n');
+    const headerHash = makeBytes(32, 0xbeef);
+    for (const nonce of [0n, 1n, 0x0123456789abcdefn, 0xffffffffffffffffn]) {
+      const ours = verifier.hashimoto(headerHash, nonceBytes(nonce));
+      const theirs = reference.run(headerHash, nonceBytes(nonce), DATASET_BYTES);
+      check(
+        `Nonce 0x${nonce.toString(16)} matches reference`,
+        bytesToHex(ours.hash) === bytesToHex(theirs.hash) && bytesToHex(ours.mixDigest) === bytesToHex(theirs.mix),
+        `hash ${bytesToHex(ours.hash).slice(0, 18)}..., mix ${bytesToHex(ours.mixDigest).slice(0, 18)}...`
+      );
+    }
+
+    const nonce = nonceBytes(42n);
+    const original = nonce.slice();
+    verifier.hashimoto(headerHash, nonce);
+    check('Nonce not modified', nonce.every((byte, i) => byte === original[i]), bytesToHex(nonce));
+
+    log('\n=== VERIFY ===\n');
+    const good = verifier.hashimoto(headerHash, nonce);
+    const anyTarget = (1n << 256n) - 1n;
+
+    let result = verifier.verify(headerHash, nonce, good, anyTarget);
+    check('Correct result verifies', result.valid, result.reason ?? 'valid');
+
+    const badMix = { ...good, mixDigest: good.mixDigest.slice() };
+    badMix.mixDigest[5] ^= 1;
+    result = verifier.verify(headerHash, nonce, badMix, anyTarget);
+    check('Flipped mix bit rejected', result.reason === 'mix digest mismatch', result.reason ?? 'valid');
+
+    const badHash = { ...good, hash: good.hash.slice() };
+    badHash.hash[31] ^= 0x80;
+    result = verifier.verify(headerHash, nonce, badHash, anyTarget);
+    check('Flipped hash bit rejected', result.reason === 'hash mismatch', result.reason ?? 'valid');
+
+    result = verifier.verify(headerHash, nonceBytes(43n), good, anyTarget);
+    check('Result for another nonce rejected', !result.valid, result.reason ?? 'valid');
+
+    result = verifier.verify(headerHash, nonce, good, 0n);
+    check('Hash above target rejected', result.reason === 'above target', result.reason ?? 'valid');
+
+    log('\n=== TARGET ===\n');
+    const hash = new Uint8Array(32);
+    hash[0] = 0x01;  // Big-endian: 2^248
+    check('Hash read big-endian', meetsTarget(hash, 1n << 248n) && !meetsTarget(hash, (1n << 248n) - 1n), '0x01 00..00 = 2^248');
+
+    const trailing = new Uint8Array(32);
+    trailing[31] = 0xff;  // Would be huge read little-endian
+    check('Low trailing byte is small', meetsTarget(trailing, 0xffn), '0x00..00 ff = 255');
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testLightVerifier);
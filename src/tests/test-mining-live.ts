@@ -3,30 +3,35 @@
  * Main entry point for live mining test UI
  */
 
-import { createGPUDevice } from '../gpu/device-helper';
 import { ETCClient } from '../rpc/etc-client';
-import { MiningCoordinator } from '../mining/coordinator';
+import { MiningCoordinatorProxy } from '../mining/coordinator-proxy';
+import { formatHashrate, MiningEngine } from '../mining/coordinator';
+import { RPCWorkSource } from '../mining/work-source';
+import { ETC_MAINNET, ETC_MORDOR, EpochNetwork } from '../mining/epoch-manager';
 
-let coordinator: MiningCoordinator | null = null;
-let device: GPUDevice | null = null;
+let coordinator: MiningCoordinatorProxy | null = null;
 
 // Network presets
 const networks = {
   mordor: {
     http: 'https://rpc.mordor.etccooperative.org',
-    ws: 'wss://rpc.mordor.etccooperative.org'
+    ws: 'wss://rpc.mordor.etccooperative.org',
+    network: ETC_MORDOR
   },
   mainnet: {
     http: 'https://www.ethercluster.com/etc',
-    ws: 'wss://www.ethercluster.com/etc'
+    ws: 'wss://www.ethercluster.com/etc',
+    network: ETC_MAINNET
   },
   mainnet2: {
     http: 'https://etc.rivet.link',
-    ws: undefined
+    ws: undefined,
+    network: ETC_MAINNET
   },
   mainnet3: {
     http: 'https://besu-de.etc-network.info',
-    ws: undefined
+    ws: undefined,
+    network: ETC_MAINNET
   }
 };
 
@@ -46,12 +51,31 @@ function log(message: string, type: string = 'info') {
 function updateStats(stats: any) {
   const el = (id: string) => document.getElementById(id);
 
-  if (el('hashrate')) el('hashrate')!.textContent = (stats.hashrate / 1_000_000).toFixed(2) + ' MH/s';
+  if (el('hashrate')) {
+    el('hashrate')!.textContent = formatHashrate(stats.hashrate);
+    el('hashrate')!.title = stats.threadHashrates ? `Per thread: ${stats.threadHashrates.map(formatHashrate).join(', ')}` : '';
+  }
+  if (el('engineStat')) el('engineStat')!.textContent = stats.engine || '-';
   if (el('totalHashes')) el('totalHashes')!.textContent = (stats.totalHashes / 1_000_000).toFixed(2) + 'M';
+  if (el('batchSizeStat')) {
+    el('batchSizeStat')!.textContent = stats.batchSize > 0
+      ? `${stats.batchSize.toLocaleString()}${stats.batchTuning ? ' (tuned)' : ''}`
+      : 'tuning...';
+  }
   if (el('sharesFound')) el('sharesFound')!.textContent = stats.sharesFound;
   if (el('sharesAccepted')) el('sharesAccepted')!.textContent = stats.sharesAccepted;
   if (el('sharesRejected')) el('sharesRejected')!.textContent = stats.sharesRejected;
+  if (el('sharesStale')) el('sharesStale')!.textContent = stats.sharesStale;
+  if (el('hardwareErrors')) el('hardwareErrors')!.textContent = stats.hardwareErrors;
   if (el('currentBlock')) el('currentBlock')!.textContent = stats.currentBlock || '-';
+  if (el('lastEpochSwitch')) {
+    el('lastEpochSwitch')!.textContent = stats.epochSwitches > 0
+      ? `${(stats.lastEpochSwitchMs / 1000).toFixed(1)}s`
+      : stats.pregeneratedEpoch !== undefined ? `epoch ${stats.pregeneratedEpoch} ready` : '-';
+  }
+  if (el('gpuMemory')) {
+    el('gpuMemory')!.textContent = `${(stats.gpuBytes / 1024 / 1024 / 1024).toFixed(2)} GB (${stats.gpuBuffers})`;
+  }
   if (el('uptime')) el('uptime')!.textContent = formatUptime(stats.uptime);
 }
 
@@ -91,13 +115,17 @@ export async function startMining() {
 
     // Get configuration
     const networkSelect = (document.getElementById('network') as HTMLSelectElement).value;
-    const batchSize = parseInt((document.getElementById('batchSize') as HTMLInputElement).value);
+    const batchSizeInput = (document.getElementById('batchSize') as HTMLInputElement).value.trim();
+    const batchSize = batchSizeInput === 'auto' ? 'auto' : parseInt(batchSizeInput);
+    const storage = (document.getElementById('artifactStorage') as HTMLSelectElement).value;
+    const engine = (document.getElementById('engine') as HTMLSelectElement).value as MiningEngine;
 
-    let endpoint: { http: string; ws?: string };
+    let endpoint: { http: string; ws?: string; network: EpochNetwork };
     if (networkSelect === 'custom') {
       endpoint = {
         http: (document.getElementById('customEndpoint') as HTMLInputElement).value,
-        ws: undefined
+        ws: undefined,
+        network: ETC_MAINNET
       };
     } else {
       endpoint = networks[networkSelect as keyof typeof networks];
@@ -105,28 +133,28 @@ export async function startMining() {
 
     log(`Connecting to ${networkSelect} (${endpoint.http})...`, 'info');
 
-    // Initialize GPU
-    if (!device) {
-      log('Initializing WebGPU...', 'info');
-      device = await createGPUDevice();
-      log('✓ WebGPU initialized', 'success');
-    }
-
     // Create RPC client
     const etcClient = new ETCClient({
       httpEndpoint: endpoint.http,
       wsEndpoint: endpoint.ws,
     });
 
-    // Create coordinator
-    coordinator = new MiningCoordinator(
-      etcClient,
-      device,
+    // Create coordinator (WebGPU or WASM workers, cache and DAG live in the mining worker)
+    coordinator?.terminate();
+    coordinator = new MiningCoordinatorProxy(
+      new RPCWorkSource(etcClient),
       {
         batchSize,
+        targetDispatchMs: 50,
         maxBatchSize: 1_000_000,
+        pipelineDepth: 2,
         reportInterval: 10_000,
         autoRestart: true,
+        submitStaleShares: false,
+        network: endpoint.network,
+        pregenerateBlocks: 500,
+        artifactStorage: storage === 'off' ? undefined : { persistDAG: storage === 'dag' },
+        engine,
       }
     );
 
@@ -158,17 +186,29 @@ export async function startMining() {
   }
 }
 
-// Stop mining
-export function stopMining() {
+// Stop mining (waits for the current batch, then frees the GPU)
+export async function stopMining() {
   if (coordinator) {
-    coordinator.stopMining();
-    log('Mining stopped', 'warning');
-    setStatus('STOPPED', 'IDLE');
+    const stopping = coordinator;
+    coordinator = null;
 
     const startBtn = document.getElementById('startBtn') as HTMLButtonElement;
     const stopBtn = document.getElementById('stopBtn') as HTMLButtonElement;
-    if (startBtn) startBtn.disabled = false;
     if (stopBtn) stopBtn.disabled = true;
+
+    try {
+      await stopping.stopMining();
+      log('Mining stopped', 'warning');
+      await stopping.dispose();
+      updateStats(stopping.getStats());
+      log('✓ GPU resources released', 'success');
+    } catch (error) {
+      log(`Shutdown error: ${(error as Error).message}`, 'error');
+      stopping.terminate();
+    }
+
+    setStatus('STOPPED', 'IDLE');
+    if (startBtn) startBtn.disabled = false;
   }
 }
 
@@ -0,0 +1,180 @@
+/**
+ * Nonce Range Test
+ * Checks runHashimotoRangeGPU (fused kernel: nonces derived on the GPU from a 64-bit start,
+ * target checked in the shader) against runHashimotoBatchGPU with the same nonces uploaded:
+ * hashes, mix digests, 32-bit carry, wrap at 2^64, winner selection against a target,
+ * batches in flight together, candidate buffer overflow, abort and buffer growth
+ */
+
+import { createGPUDevice } from '../gpu/device-helper';
+import { setupHashimotoGPU, createReusableBuffers, runHashimotoBatchGPU, runHashimotoRangeGPU, HashimotoResult, HashimotoWinner } from '../gpu/hashimoto';
+import { meetsTarget } from '../crypto/ethash-light';
+import { bytesToHex } from '../rpc/etc-client';
+
+const COUNT = 1024;
+const ANY_TARGET = (1n << 256n) - 1n;
+
+function log(msg: string, type = 'info') {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    const entry = document.createElement('div');
+    entry.className = `log-entry ${type}`;
+    entry.textContent = msg;
+    logEl.appendChild(entry);
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(`[${type.toUpperCase()}] ${msg}`);
+}
+
+function nonceHex(nonce: bigint): string {
+  return '0x' + nonce.toString(16).padStart(16, '0');
+}
+
+function nonceRange(start: bigint, count: number): Uint8Array[] {
+  return Array.from({ length: count }, (_, i) => {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, BigInt.asUintN(64, start + BigInt(i)), false);
+    return bytes;
+  });
+}
+
+export async function runTest() {
+  const runBtn = document.getElementById('runBtn') as HTMLButtonElement;
+  const logEl = document.getElementById('log') as HTMLElement;
+
+  if (runBtn) runBtn.disabled = true;
+  if (logEl) logEl.textContent = '';
+
+  log('=== NONCE RANGE TEST ===', 'info');
+  log('', 'info');
+
+  let passed = 0;
+  let failed = 0;
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`${ok ? '✓' : '✗'} ${name}: ${detail}`, ok ? 'success' : 'error');
+    if (ok) passed++;
+    else failed++;
+  };
+
+  let device: GPUDevice | undefined;
+
+  try {
+    device = await createGPUDevice();
+
+    log('Setting up Hashimoto for epoch 0...', 'info');
+    const setup = await setupHashimotoGPU(0, device);
+    await createReusableBuffers(COUNT, device, setup, { maxCandidates: COUNT });  // Room for every nonce as a candidate
+    log('', 'info');
+
+    const headerHash = new Uint8Array(32).map((_, i) => (i * 37 + 11) & 0xff);
+    let reference: HashimotoResult[] = [];
+
+    log('STEP 1: Range vs uploaded nonces...', 'info');
+    const prefixed = 0xab12000000000000n | 0x1234567n;  // Last, so its results are the reference for step 2
+    const starts: [string, bigint][] = [
+      ['Start 0', 0n],
+      ['32-bit carry', 0xffffff00n],
+      ['Wrap at 2^64', 0xffffffffffffff00n],
+      ['Extranonce prefix', prefixed],
+    ];
+
+    for (const [name, start] of starts) {
+      const batch = await runHashimotoBatchGPU(headerHash, nonceRange(start, COUNT), device, setup, { batchSize: COUNT });
+      const range = await runHashimotoRangeGPU(headerHash, start, COUNT, device, setup, ANY_TARGET);
+      reference = batch.results;
+
+      // Candidates arrive in no particular order
+      const expected = new Map(batch.results.map(r => [bytesToHex(r.nonce), r]));
+      const mismatches = range.winners.filter(winner => {
+        const result = expected.get(nonceHex(winner.nonce));
+        expected.delete(nonceHex(winner.nonce));
+        return !result ||
+          bytesToHex(winner.hash) !== bytesToHex(result.hash) ||
+          bytesToHex(winner.mixDigest) !== bytesToHex(result.mixDigest);
+      });
+      check(
+        name,
+        range.winners.length === COUNT && expected.size === 0 && mismatches.length === 0,
+        `${range.winners.length}/${COUNT} nonces, ${mismatches.length} mismatch(es), ${expected.size} missing`
+      );
+    }
+    log('', 'info');
+
+    log('STEP 2: Winners against a target...', 'info');
+    for (const divisor of [16n, 256n]) {
+      const target = (1n << 256n) / divisor;
+      const expected = reference.filter(r => meetsTarget(r.hash, target)).map(r => bytesToHex(r.nonce)).sort();
+      const range = await runHashimotoRangeGPU(headerHash, prefixed, COUNT, device, setup, target);
+      const found = range.winners.map(w => nonceHex(w.nonce)).sort();
+
+      check(
+        `Target 2^256/${divisor}`,
+        found.length === expected.length && found.every((nonce, i) => nonce === expected[i]) && range.dropped === 0 &&
+          range.winners.every(w => meetsTarget(w.hash, target) && w.mixDigest.length === 32),
+        `${found.length} winner(s), expected ${expected.length}`
+      );
+    }
+    log('', 'info');
+
+    log('STEP 3: Batches in flight together...', 'info');
+    const target = (1n << 256n) / 16n;
+    const sorted = (winners: HashimotoWinner[]) => winners.map(w => nonceHex(w.nonce) + bytesToHex(w.hash)).sort().join();
+    const sequential = [
+      await runHashimotoRangeGPU(headerHash, 0n, COUNT, device, setup, target),
+      await runHashimotoRangeGPU(headerHash, prefixed, COUNT, device, setup, target),
+    ];
+
+    await createReusableBuffers(COUNT, device, setup, { maxCandidates: COUNT, pipelineDepth: 2 });
+    const first = runHashimotoRangeGPU(headerHash, 0n, COUNT, device, setup, target);
+    const second = runHashimotoRangeGPU(headerHash, prefixed, COUNT, device, setup, target);
+    let thirdError = '';
+    try {
+      await runHashimotoRangeGPU(headerHash, 0n, COUNT, device, setup, target);
+    } catch (error) {
+      thirdError = (error as Error).message;
+    }
+    const pipelined = await Promise.all([first, second]);
+
+    check(
+      'Two batches in flight match sequential runs',
+      pipelined.every((result, i) => sorted(result.winners) === sorted(sequential[i].winners)),
+      `${pipelined.map(r => r.winners.length).join(' + ')} winner(s)`
+    );
+    check('Third batch refused with 2 slots', thirdError.includes('in flight'), thirdError || 'accepted');
+    check('Slots released', setup.reusableBuffers!.candidateSlots.every(slot => !slot.busy), `${setup.reusableBuffers!.candidateSlots.length} slot(s)`);
+    log('', 'info');
+
+    log('STEP 4: Overflow, abort and buffer growth...', 'info');
+    await createReusableBuffers(COUNT, device, setup, { maxCandidates: 16 });
+    const overflow = await runHashimotoRangeGPU(headerHash, prefixed, COUNT, device, setup, ANY_TARGET);
+    check(
+      'Candidates beyond capacity dropped',
+      overflow.winners.length === 16 && overflow.dropped === COUNT - 16 &&
+        overflow.winners.every(w => reference.some(r => bytesToHex(r.nonce) === nonceHex(w.nonce) && bytesToHex(r.hash) === bytesToHex(w.hash))),
+      `${overflow.winners.length} returned, ${overflow.dropped} dropped`
+    );
+
+    const abort = new AbortController();
+    abort.abort();
+    const aborted = await runHashimotoRangeGPU(headerHash, 0n, COUNT, device, setup, ANY_TARGET, abort.signal);
+    check('Aborted before dispatch', aborted.aborted === true && aborted.winners.length === 0, `${aborted.winners.length} winner(s)`);
+
+    const grown = await runHashimotoRangeGPU(headerHash, 0n, COUNT * 4, device, setup, ANY_TARGET);
+    check(
+      'Reusable buffers grown',
+      setup.reusableBuffers?.maxBatchSize === COUNT * 4 && grown.winners.length + grown.dropped === COUNT * 4,
+      `maxBatchSize ${setup.reusableBuffers?.maxBatchSize}, ${grown.winners.length + grown.dropped} winner(s)`
+    );
+
+    setup.dispose();
+
+    log('', 'info');
+    log(`Results: ${passed}/${passed + failed} tests passed`, failed === 0 ? 'success' : 'error');
+  } catch (err) {
+    log(`\n❌ ERROR: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    console.error(err);
+  } finally {
+    device?.destroy();
+    if (runBtn) runBtn.disabled = false;
+  }
+}
@@ -66,12 +66,12 @@ async function runBenchmark() {
     const setupDuration = performance.now() - setupStart;
     log(`✓ Setup complete in ${formatDuration(setupDuration)}`);
     log(`  Cache: ${(setup.cache.byteLength / 1024 / 1024).toFixed(2)} MB`);
-    log(`  DAG: ${(setup.dag.byteLength / 1024 / 1024 / 1024).toFixed(2)} GB\n`);
+    log(`  DAG: ${(setup.dagBytes / 1024 / 1024 / 1024).toFixed(2)} GB\n`);
 
     // Create reusable buffers for maximum performance
     log('Creating reusable GPU buffers for optimized performance...');
     const maxBatchSize = 100000; // Increase to saturate GPU!
-    createReusableBuffers(maxBatchSize, device, setup);
+    await createReusableBuffers(maxBatchSize, device, setup);
     log(`✓ Reusable buffers created (max batch: ${maxBatchSize.toLocaleString()} nonces)\n`);
 
     // Test header
@@ -198,8 +198,14 @@ async function runBenchmark() {
       setup.reusableBuffers.headerHashBuffer.destroy();
       setup.reusableBuffers.noncesBuffer.destroy();
       setup.reusableBuffers.hashesBuffer.destroy();
+      setup.reusableBuffers.mixDigestsBuffer.destroy();
       setup.reusableBuffers.paramsBuffer.destroy();
       setup.reusableBuffers.stagingBuffer.destroy();
+      setup.reusableBuffers.mixStagingBuffer.destroy();
+      setup.reusableBuffers.candidateSlots.forEach(slot => {
+        slot.candidatesBuffer.destroy();
+        slot.candidatesStagingBuffer.destroy();
+      });
     }
     setup.cacheBuffer.destroy();
     setup.dagBuffer.destroy();
@@ -5,7 +5,7 @@
  * This shows the actual hashing throughput of the GPU
  */
 
-import { setupHashimotoGPU, createReusableBuffers } from '../gpu/hashimoto';
+import { setupHashimotoGPU, createReusableBuffers, hashimotoParams } from '../gpu/hashimoto';
 import { createGPUDevice } from '../gpu/device-helper';
 import { keccak256 } from 'ethereum-cryptography/keccak.js';
 
@@ -59,7 +59,7 @@ async function runGPUOnlyBenchmark() {
     log('Setting up Hashimoto for epoch 0...');
     const setup = await setupHashimotoGPU(0, device);
     log(`✓ Setup complete`);
-    log(`  DAG: ${(setup.dag.byteLength / 1024 / 1024 / 1024).toFixed(2)} GB\n`);
+    log(`  DAG: ${(setup.dagBytes / 1024 / 1024 / 1024).toFixed(2)} GB\n`);
 
     // Generate test data
     const headerBytes = new TextEncoder().encode('gpu-benchmark-test');
@@ -75,7 +75,7 @@ async function runGPUOnlyBenchmark() {
       log(`${'='.repeat(60)}\n`);
 
       // Create reusable buffers (this compiles the shader with proper selection logic)
-      createReusableBuffers(batchSize, device, setup);
+      await createReusableBuffers(batchSize, device, setup);
       const buffers = setup.reusableBuffers!;
 
       // Generate nonces
@@ -89,12 +89,7 @@ async function runGPUOnlyBenchmark() {
       device.queue.writeBuffer(buffers.headerHashBuffer, 0, headerHashU32);
       device.queue.writeBuffer(buffers.noncesBuffer, 0, noncesU32Data);
 
-      const paramsData = new Uint32Array(4);
-      paramsData[0] = batchSize;
-      paramsData[1] = setup.dag.length / 16;
-      paramsData[2] = setup.dagItemsPerBuffer;
-      paramsData[3] = 0;
-      device.queue.writeBuffer(buffers.paramsBuffer, 0, paramsData);
+      device.queue.writeBuffer(buffers.paramsBuffer, 0, hashimotoParams(setup, batchSize));
 
       // Create bind groups
       const bindGroup0 = device.createBindGroup({
@@ -105,6 +100,8 @@ async function runGPUOnlyBenchmark() {
           { binding: 3, resource: { buffer: setup.dagBuffers[0] } },
           { binding: 4, resource: { buffer: buffers.hashesBuffer } },
           { binding: 5, resource: { buffer: buffers.paramsBuffer } },
+          { binding: 6, resource: { buffer: buffers.mixDigestsBuffer } },
+          { binding: 7, resource: { buffer: buffers.candidateSlots[0].candidatesBuffer } },
         ],
       });
 
@@ -176,8 +173,14 @@ async function runGPUOnlyBenchmark() {
       buffers.headerHashBuffer.destroy();
       buffers.noncesBuffer.destroy();
       buffers.hashesBuffer.destroy();
+      buffers.mixDigestsBuffer.destroy();
       buffers.paramsBuffer.destroy();
       buffers.stagingBuffer.destroy();
+      buffers.mixStagingBuffer.destroy();
+      buffers.candidateSlots.forEach(slot => {
+        slot.candidatesBuffer.destroy();
+        slot.candidatesStagingBuffer.destroy();
+      });
     }
 
     // Final cleanup
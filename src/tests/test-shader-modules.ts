@@ -0,0 +1,136 @@
+/**
+ * Shader Modules Test Suite
+ * Composes the source of every pipeline (Hashimoto for 1-4 DAG buffers, DAG builder, difficulty
+ * filter, Keccak test kernels) and inspects it: includes resolved, shared definitions declared
+ * once, pipeline constants and generated modules in place; plus the composition errors
+ * CPU only - no WebGPU required (nothing is compiled)
+ */
+
+import { composeShader } from '../gpu/shader-modules';
+import { hashimotoShaderSource, HASHIMOTO_WORKGROUP_SIZE } from '../gpu/hashimoto';
+import { dagBuilderShaderSource } from '../gpu/dag-builder';
+import { difficultyFilterShaderSource } from '../gpu/difficulty-filter';
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+// Module-scope names: functions, constants, structs and bindings
+function declarations(source: string): string[] {
+  const pattern = /^(?:(?:fn|const|struct|alias|override)\s+|@group\(\d+\) @binding\(\d+\) var(?:<[^>]*>)?\s+)(\w+)/gm;
+  return [...source.matchAll(pattern)].map(match => match[1]);
+}
+
+function count(source: string, text: string): number {
+  return source.split(text).length - 1;
+}
+
+function composeError(compose: () => string): string {
+  try {
+    compose();
+    return '';
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+async function testShaderModules() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    const pipelines: [string, string, number][] = [
+      ['hashimoto (1 buffer)', hashimotoShaderSource(1), HASHIMOTO_WORKGROUP_SIZE],
+      ['hashimoto (2 buffers)', hashimotoShaderSource(2), HASHIMOTO_WORKGROUP_SIZE],
+      ['hashimoto (3 buffers)', hashimotoShaderSource(3), HASHIMOTO_WORKGROUP_SIZE],
+      ['hashimoto (4 buffers)', hashimotoShaderSource(4), HASHIMOTO_WORKGROUP_SIZE],
+      ['dag-builder', dagBuilderShaderSource(), 32],
+      ['difficulty-filter', difficultyFilterShaderSource(), 32],
+      ['keccak-512-shader', composeShader('keccak-512-shader'), 1],
+      ['keccak-256-shader', composeShader('keccak-256-shader'), 1],
+    ];
+
+    log('=== COMPOSED PIPELINES ===\n');
+    for (const [name, source, workgroupSize] of pipelines) {
+      const names = declarations(source);
+      const duplicates = [...new Set(names.filter((declared, i) => names.indexOf(declared) !== i))];
+
+      check(`${name} includes resolved`, !source.includes('//!include') && !source.includes('{{'), `${source.split('\n').length} lines`);
+      check(`${name} declarations unique`, duplicates.length === 0, duplicates.length ? `duplicated: ${duplicates.join(', ')}` : `${names.length} declarations`);
+      check(`${name} one entry point`, count(source, '@compute') === 1 && count(source, 'fn main(') === 1, `${count(source, '@compute')} @compute`);
+
+      const workgroup = workgroupSize === 1
+        ? source.includes('@workgroup_size(1)')
+        : source.includes(`const WORKGROUP_SIZE: u32 = ${workgroupSize}u;`) && source.includes('@workgroup_size(WORKGROUP_SIZE)');
+      check(`${name} workgroup size`, workgroup, `${workgroupSize}`);
+    }
+
+    log('\n=== SHARED DEFINITIONS ===\n');
+    const hashimoto = hashimotoShaderSource(1);
+    check('Keccak round constants once', count(hashimoto, 'const RC = array<u32, 48>') === 1, 'keccak-512 and keccak-256 both include keccak-constants');
+    check('Second include marked', hashimoto.includes('// module keccak-constants: included above'), 'keccak-256 reuses the earlier RC');
+    check(
+      'Hashimoto functions',
+      ['fn fnv(', 'fn keccak512(', 'fn keccak256(', 'fn meets_target('].every(fn => count(hashimoto, fn) === 1),
+      'fnv, keccak512, keccak256, meets_target'
+    );
+    check('DAG builder needs no Keccak-256', !dagBuilderShaderSource().includes('fn keccak256('), 'only its includes are pulled in');
+
+    log('\n=== GENERATED DAG BUFFER MODULE ===\n');
+    check('1 buffer: no group 1', !hashimoto.includes('@group(1)') && !hashimoto.includes('load_dag_item'), 'hashimoto-shader.wgsl');
+    for (const buffers of [2, 3, 4]) {
+      const source = hashimotoShaderSource(buffers);
+      const group1 = source.match(/^@group\(1\) @binding\(/gm)?.length ?? 0;
+      check(
+        `${buffers} buffers`,
+        group1 === buffers - 1 && source.includes(`case ${buffers - 1}u, default:`) &&
+          declarations(source).filter(declared => declared === 'load_dag_item').length === 1 && source.includes(`dag_buffer_${buffers - 1}: array<u32>`),
+        `${group1} group 1 binding(s), ${count(source, 'case ')} case(s)`
+      );
+    }
+
+    log('\n=== MODULES AND CONSTANTS ===\n');
+    const generated = composeShader('main', {
+      constants: { ITEMS: 7, ENABLED: true },
+      modules: { main: '//!include fnv\n//!include helper\nfn main() {}', helper: '//!include fnv\nfn helper() {}' },
+    });
+    check('Generated modules included by name', generated.includes('fn helper() {}') && count(generated, 'fn fnv(') === 1, 'main → fnv, helper → fnv');
+    check('Constants declared first', generated.startsWith('// Pipeline constants\nconst ITEMS: u32 = 7u;\nconst ENABLED: bool = true;'), 'u32 and bool');
+
+    const shadowed = composeShader('keccak-512-shader', { modules: { 'keccak-512': 'fn keccak512(input: array<u32, 18>) -> array<u32, 16> { return array<u32, 16>(); }' } });
+    check('Generated module shadows a file', !shadowed.includes('const RC') && shadowed.includes('return array<u32, 16>();'), 'keccak-512 replaced');
+
+    log('\n=== ERRORS ===\n');
+    const errors: [string, () => string, string][] = [
+      ['Unknown module', () => composeShader('missing'), 'Unknown shader module "missing"'],
+      ['Unknown include', () => composeShader('main', { modules: { main: '//!include nowhere' } }), '(included from main)'],
+      ['Self include', () => composeShader('loop', { modules: { loop: '//!include loop' } }), 'loop → loop'],
+      ['Include cycle', () => composeShader('a', { modules: { a: '//!include b', b: '//!include a' } }), 'a → b → a'],
+      ['Negative constant', () => composeShader('fnv', { constants: { N: -1 } }), 'is not a u32'],
+      ['Fractional constant', () => composeShader('fnv', { constants: { N: 1.5 } }), 'is not a u32'],
+      ['Invalid constant name', () => composeShader('fnv', { constants: { '2N': 1 } }), 'Invalid shader constant name'],
+    ];
+    for (const [name, compose, expected] of errors) {
+      const message = composeError(compose);
+      check(name, message.includes(expected), message || 'no error');
+    }
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testShaderModules);
@@ -0,0 +1,148 @@
+/**
+ * Stale Work Test
+ * Runs the mining worker (via MiningCoordinatorProxy) on epoch 0 against an in-memory
+ * work source, swaps the work mid-mining and checks that no share reaches the source
+ * with the wrong header
+ */
+
+import { MiningCoordinatorProxy } from '../mining/coordinator-proxy';
+import { MemoryWorkSource } from '../mining/work-source';
+import { ETHASH_NETWORK, getSeedHashForEpoch } from '../mining/epoch-manager';
+import { WorkPackage, bigIntToHex } from '../rpc/etc-client';
+
+const BATCH_SIZE = 4096;
+
+// ~4 shares per batch: hash < 2^256 / 1024
+const TARGET = bigIntToHex((1n << 256n) / 1024n);
+
+function log(msg: string, type = 'info') {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    const entry = document.createElement('div');
+    entry.className = `log-entry ${type}`;
+    entry.textContent = msg;
+    logEl.appendChild(entry);
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(`[${type.toUpperCase()}] ${msg}`);
+}
+
+function makeWork(blockNumber: number): WorkPackage {
+  return {
+    headerHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+    seedHash: getSeedHashForEpoch(0),
+    target: TARGET,
+    blockNumber,
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+  const start = performance.now();
+  while (!condition()) {
+    if (performance.now() - start > timeoutMs) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return true;
+}
+
+export async function runTest() {
+  const runBtn = document.getElementById('runBtn') as HTMLButtonElement;
+  const logEl = document.getElementById('log') as HTMLElement;
+
+  if (runBtn) runBtn.disabled = true;
+  if (logEl) logEl.textContent = '';
+
+  log('=== STALE WORK TEST ===', 'info');
+  log('', 'info');
+
+  let passed = 0;
+  let failed = 0;
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`${ok ? '✓' : '✗'} ${name}: ${detail}`, ok ? 'success' : 'error');
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('STEP 1: Initializing mining worker and epoch 0 DAG (1 GB)...', 'info');
+
+    const work1 = makeWork(100);
+    const work2 = makeWork(101);
+    const work3 = makeWork(102);
+
+    // Default judge: only shares for the latest work are accepted
+    const source = new MemoryWorkSource();
+    source.pushWork(work1);
+
+    const coordinator = new MiningCoordinatorProxy(source, {
+      batchSize: BATCH_SIZE,
+      targetDispatchMs: 50,
+      maxBatchSize: BATCH_SIZE,
+      pipelineDepth: 2,
+      reportInterval: 60_000,
+      autoRestart: true,
+      submitStaleShares: false,
+      network: ETHASH_NETWORK,
+      pregenerateBlocks: 0,
+    });
+    await coordinator.initialize();
+    log('✓ Coordinator initialized', 'success');
+    log('', 'info');
+
+    log('STEP 2: Mining, then replacing work twice...', 'info');
+    const mining = coordinator.startMining();
+
+    const sharesFor = (work: WorkPackage) =>
+      source.submissions.filter(s => s.share.headerHash === work.headerHash).length;
+
+    await waitFor(() => sharesFor(work1) >= 2, 30_000);
+    source.pushWork(work2);
+    await waitFor(() => sharesFor(work2) >= 2, 30_000);
+    source.pushWork(work3);
+    await waitFor(() => sharesFor(work3) >= 2, 30_000);
+
+    await coordinator.stopMining();
+    await mining;
+    await coordinator.dispose();
+
+    const stats = coordinator.getStats();
+    log(`  Submitted: ${source.submissions.length}, stale: ${stats.sharesStale}, aborted batches: ${stats.batchesAborted}`, 'info');
+    log('', 'info');
+
+    log('STEP 3: Checking results', 'info');
+    check(
+      'Shares found for every job',
+      sharesFor(work1) > 0 && sharesFor(work2) > 0 && sharesFor(work3) > 0,
+      `${sharesFor(work1)} / ${sharesFor(work2)} / ${sharesFor(work3)}`
+    );
+
+    const rejected = source.submissions.filter(s => !s.result.accepted);
+    check(
+      'No stale share submitted',
+      rejected.length === 0,
+      `${rejected.length} rejected of ${source.submissions.length}`
+    );
+
+    check(
+      'Stats count every share',
+      stats.sharesFound === stats.sharesAccepted + stats.sharesRejected + stats.sharesStale,
+      `found ${stats.sharesFound} = ${stats.sharesAccepted} accepted + ${stats.sharesRejected} rejected + ${stats.sharesStale} stale`
+    );
+
+    check(
+      'Every GPU share passes CPU verification',
+      stats.hardwareErrors === 0,
+      `${stats.hardwareErrors} hardware error(s)`
+    );
+
+    log('', 'info');
+    log(`Results: ${passed}/${passed + failed} tests passed`, failed === 0 ? 'success' : 'error');
+  } catch (err) {
+    log(`\n❌ ERROR: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    console.error(err);
+  } finally {
+    if (runBtn) runBtn.disabled = false;
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Stratum Client Test Suite
+ * Runs StratumClient against an in-process mock pool (EthereumStratum/1.0.0 and ETHProxy)
+ * CPU only - no WebGPU or network required
+ */
+
+import { StratumClient, stratumDifficultyToTarget } from '../rpc/stratum-client';
+import { WorkPackage } from '../rpc/etc-client';
+import { MockStratumPool, MockJob } from './mock-stratum-pool';
+
+const SEED_HASH = '0x' + '5e'.repeat(32);
+const MIX_DIGEST = '0x' + '3c'.repeat(32);
+const LOGIN = '0x' + 'ab'.repeat(20);
+
+const JOB_1: MockJob = { jobId: 'job-1', seedHash: SEED_HASH, headerHash: '0x' + '11'.repeat(32) };
+const JOB_2: MockJob = { jobId: 'job-2', seedHash: SEED_HASH, headerHash: '0x' + '22'.repeat(32) };
+const JOB_3: MockJob = { jobId: 'job-3', seedHash: SEED_HASH, headerHash: '0x' + '33'.repeat(32) };
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+// Let queued socket deliveries run
+function settle(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+async function rejectionMessage(promise: Promise<unknown>): Promise<string | null> {
+  try {
+    await promise;
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+async function testStratumClient() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== DIFFICULTY → TARGET ===\n');
+    const diffCases: Array<[number, string]> = [
+      [1, '0x00000000ffff' + '0'.repeat(52)],
+      [2, '0x000000007fff8' + '0'.repeat(51)],
+      [0.5, '0x00000001fffe' + '0'.repeat(52)],
+    ];
+    for (const [difficulty, expected] of diffCases) {
+      const target = stratumDifficultyToTarget(difficulty);
+      check(`Difficulty ${difficulty}`, target === expected, `${target.slice(0, 22)}...`);
+    }
+
+    log('\n=== ETHEREUMSTRATUM/1.0.0 ===\n');
+    const pool = new MockStratumPool('EthereumStratum/1.0.0', 'a1b2');
+    const client = new StratumClient({
+      transport: pool.createTransport(),
+      login: LOGIN,
+      worker: 'rig1',
+      timeout: 1000,
+    });
+
+    await client.connect();
+    await settle();
+    check(
+      'Handshake',
+      pool.received.map(r => r.method).join(',') === 'mining.subscribe,mining.authorize,mining.extranonce.subscribe',
+      pool.received.map(r => r.method).join(' → ')
+    );
+    check(
+      'Subscribe params',
+      pool.received[0].params[1] === 'EthereumStratum/1.0.0',
+      JSON.stringify(pool.received[0].params)
+    );
+    check(
+      'Authorize as login.worker',
+      pool.received[1].params[0] === `${LOGIN}.rig1`,
+      pool.received[1].params[0]
+    );
+    check('Extranonce from subscribe', client.getExtranonce() === 'a1b2', client.getExtranonce());
+
+    const streamed: WorkPackage[] = [];
+    const unsubscribe = client.subscribeWork(work => streamed.push(work));
+
+    const firstWork = client.getWork();
+    pool.setDifficulty(2);
+    pool.notify(JOB_1);
+    const work1 = await firstWork;
+    check(
+      'getWork waits for mining.notify',
+      work1.headerHash === JOB_1.headerHash && work1.seedHash === SEED_HASH && work1.jobId === 'job-1',
+      `job ${work1.jobId}, header ${work1.headerHash.slice(0, 10)}...`
+    );
+    check(
+      'Share target from set_difficulty',
+      work1.target === stratumDifficultyToTarget(2) && work1.extranonce === 'a1b2',
+      `target ${work1.target.slice(0, 22)}..., extranonce ${work1.extranonce}`
+    );
+    check('Work stream', streamed.length === 1 && streamed[0] === work1, `${streamed.length} package(s)`);
+
+    const accepted = await client.submitWork('0xa1b2000000001234', JOB_1.headerHash, MIX_DIGEST);
+    const submit = pool.submissions[0];
+    check(
+      'Submit sends job ID and nonce without extranonce',
+      accepted && submit.params[0] === `${LOGIN}.rig1` && submit.params[1] === 'job-1' && submit.params[2] === '000000001234',
+      JSON.stringify(submit.params)
+    );
+
+    const badPrefix = await rejectionMessage(client.submitWork('0xffff000000001234', JOB_1.headerHash, MIX_DIGEST));
+    check('Nonce outside extranonce refused', badPrefix !== null && badPrefix.includes('extranonce'), badPrefix ?? 'no error');
+
+    pool.forgetJobs();
+    const poolRejected = await rejectionMessage(client.submitWork('0xa1b2000000005678', JOB_1.headerHash, MIX_DIGEST));
+    check('Pool rejection surfaces error', poolRejected === 'Stratum error: 21 Job not found', poolRejected ?? 'no error');
+
+    pool.notify(JOB_2, true);
+    await settle();
+    const stale = await rejectionMessage(client.submitWork('0xa1b2000000005678', JOB_1.headerHash, MIX_DIGEST));
+    check('Clean jobs drop old headers', stale !== null && stale.includes('No pool job'), stale ?? 'no error');
+
+    pool.setExtranonce('ff');
+    pool.notify(JOB_3, false);
+    await settle();
+    const work3 = await client.getWork();
+    const acceptedNewExtranonce = await client.submitWork('0xff00000000000042', JOB_3.headerHash, MIX_DIGEST);
+    check(
+      'set_extranonce applies to next job',
+      work3.extranonce === 'ff' && acceptedNewExtranonce && pool.submissions[pool.submissions.length - 1].params[2] === '00000000000042',
+      `extranonce ${work3.extranonce}, sent ${pool.submissions[pool.submissions.length - 1].params[2]}`
+    );
+    const acceptedOldJob = await client.submitWork('0xa1b2000000000099', JOB_2.headerHash, MIX_DIGEST);
+    check(
+      'Earlier job keeps its extranonce',
+      acceptedOldJob && pool.submissions[pool.submissions.length - 1].params[2] === '000000000099',
+      `job-2 sent ${pool.submissions[pool.submissions.length - 1].params[2]}`
+    );
+
+    log('\n=== LINE FRAMING ===\n');
+    streamed.length = 0;
+    const notifyLine = (job: MockJob) => JSON.stringify({
+      id: null,
+      method: 'mining.notify',
+      params: [job.jobId, SEED_HASH.slice(2), job.headerHash.slice(2), false],
+    }) + '\n';
+    const chunk = notifyLine(JOB_1) + notifyLine(JOB_2) + notifyLine(JOB_3);
+    const split = chunk.length - 20;
+    pool.sendRaw(chunk.slice(0, split));
+    check('Two lines + partial line in one chunk', streamed.length === 2, `${streamed.length} package(s) after first chunk`);
+    pool.sendRaw(chunk.slice(split));
+    check('Partial line completed by next chunk', streamed.length === 3 && streamed[2].jobId === 'job-3', `${streamed.length} package(s)`);
+    unsubscribe();
+
+    log('\n=== DISCONNECT ===\n');
+    const inFlight = client.submitWork('0xff00000000000043', JOB_3.headerHash, MIX_DIGEST);
+    pool.disconnect();
+    const closed = await rejectionMessage(inFlight);
+    check('Pending requests rejected on close', closed === 'Pool connection closed', closed ?? 'no error');
+    const afterClose = await rejectionMessage(client.submitWork('0xff00000000000044', JOB_3.headerHash, MIX_DIGEST));
+    check('Requests after close refused', afterClose === 'Not connected to pool', afterClose ?? 'no error');
+
+    log('\n=== REJECTED LOGIN ===\n');
+    const strictPool = new MockStratumPool('EthereumStratum/1.0.0', 'a1b2');
+    strictPool.rejectLogin = true;
+    const rejectedClient = new StratumClient({
+      transport: strictPool.createTransport(),
+      login: LOGIN,
+      worker: 'rig1',
+      timeout: 1000,
+    });
+    const loginError = await rejectionMessage(rejectedClient.connect());
+    check('Authorization rejection surfaces error', loginError === `Pool rejected authorization for ${LOGIN}.rig1`, loginError ?? 'no error');
+    check('Connection closed after failed handshake', !strictPool.connected, `pool connected=${strictPool.connected}`);
+
+    log('\n=== ETHPROXY ===\n');
+    const proxyPool = new MockStratumPool('ETHProxy');
+    const proxyTarget = '0x0000000112e0be826d694b2e62d01511f12a6061fbaec8bc02357593e70e52ba';
+    proxyPool.notify({ ...JOB_1, target: proxyTarget, blockNumber: 1234 });
+
+    const proxyClient = new StratumClient({
+      transport: proxyPool.createTransport(),
+      protocol: 'ETHProxy',
+      login: LOGIN,
+      worker: 'rig1',
+      timeout: 1000,
+    });
+    await proxyClient.connect();
+    check(
+      'Login',
+      proxyPool.received[0].method === 'eth_submitLogin' && proxyPool.received[0].params[0] === LOGIN && proxyPool.received[0].worker === 'rig1',
+      `${proxyPool.received[0].method} ${proxyPool.received[0].params[0].slice(0, 10)}... (worker ${proxyPool.received[0].worker})`
+    );
+
+    const proxyWork = await proxyClient.getWork();
+    check(
+      'Initial eth_getWork',
+      proxyWork.headerHash === JOB_1.headerHash && proxyWork.target === proxyTarget && proxyWork.blockNumber === 1234,
+      `block ${proxyWork.blockNumber}, target ${proxyWork.target.slice(0, 22)}...`
+    );
+
+    const proxyStreamed: WorkPackage[] = [];
+    proxyClient.subscribeWork(work => proxyStreamed.push(work));
+    proxyPool.notify({ ...JOB_2, target: proxyTarget, blockNumber: 1235 });
+    await settle();
+    check(
+      'Pushed work (id 0 result)',
+      proxyStreamed.length === 1 && proxyStreamed[0].headerHash === JOB_2.headerHash && proxyStreamed[0].blockNumber === 1235,
+      `${proxyStreamed.length} package(s), block ${proxyStreamed[0]?.blockNumber}`
+    );
+
+    const proxyAccepted = await proxyClient.submitWork('0x0000000000001234', JOB_2.headerHash, MIX_DIGEST);
+    const proxySubmit = proxyPool.submissions[0];
+    check(
+      'eth_submitWork',
+      proxyAccepted && proxySubmit.params.join(',') === ['0x0000000000001234', JOB_2.headerHash, MIX_DIGEST].join(','),
+      `accepted=${proxyAccepted}`
+    );
+
+    const proxyStale = await proxyClient.submitWork('0x0000000000001235', JOB_1.headerHash, MIX_DIGEST);
+    check('Stale share rejected', proxyStale === false, `accepted=${proxyStale}`);
+
+    proxyClient.close();
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testStratumClient);
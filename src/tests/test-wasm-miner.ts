@@ -0,0 +1,240 @@
+/**
+ * WASM Miner Test Suite
+ * The WebAssembly SIMD Ethash module and its worker pool on tiny epochs (~16 KB cache, ~256 KB
+ * dataset): dataset items and hashes match LightVerifier, shared / per-worker / light modes agree,
+ * ranges split across the workers hash every nonce once (wrap at 2^64, target check, abort), a
+ * crashed worker fails its calls instead of hanging, and MiningCoordinator mines end-to-end on
+ * the WasmBackend
+ * CPU only - no WebGPU required; runs on real workers where the engine has them
+ */
+
+import { WasmBackend } from '../mining/hashimoto-backend';
+import { MiningCoordinator, formatHashrate } from '../mining/coordinator';
+import { MemoryWorkSource } from '../mining/work-source';
+import { ETHASH_NETWORK, getSeedHashForEpoch, resolveEpoch } from '../mining/epoch-manager';
+import { EthashWasm, createEthashMemory, layoutEthashMemory, sharedMemorySupported, wasmSIMDSupported } from '../wasm/ethash-wasm';
+import { WasmWorkerPool, WasmPoolOptions } from '../wasm/wasm-pool';
+import { InlineWasmWorker } from '../wasm/wasm-worker-host';
+import type { WasmWorkerRequest } from '../wasm/wasm-protocol';
+import { LightVerifier, meetsTarget } from '../crypto/ethash-light';
+import { EthashParams, generateCache, getEpochParams, TEST_ETHASH_PARAMS } from '../crypto/ethash-reference';
+import { bytesToHex, bigIntToHex, hexToBytes } from '../rpc/etc-client';
+
+const TINY_ETHASH: EthashParams = { ...TEST_ETHASH_PARAMS, cacheBytesInit: 16 * 1024, datasetBytesInit: 256 * 1024 };
+const ANY_TARGET = (1n << 256n) - 1n;
+const SHARE_TARGET = ANY_TARGET / 32n;  // About one hash in 32 wins
+const THREADS = 3;
+
+// Real workers in browsers; on the calling thread where there are none (Node)
+const WORKERS: Partial<WasmPoolOptions> = typeof Worker === 'undefined'
+  ? { createWorker: () => new InlineWasmWorker() }
+  : {};
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+  const start = performance.now();
+  while (!condition()) {
+    if (performance.now() - start > timeoutMs) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return true;
+}
+
+/**
+ * An inline worker that dies instead of answering its first search
+ */
+class CrashingWorker extends InlineWasmWorker {
+  postMessage(message: WasmWorkerRequest): void {
+    if (message.type === 'search') {
+      setTimeout(() => this.onerror?.({ message: 'WASM worker thread exited with code 1' } as ErrorEvent), 0);
+      return;
+    }
+    super.postMessage(message);
+  }
+}
+
+// Rejection message, 'hung' if the promise is still pending after timeoutMs
+async function outcome(promise: Promise<unknown>, timeoutMs: number): Promise<string> {
+  const hung = new Promise<string>(resolve => setTimeout(() => resolve('hung'), timeoutMs));
+  return Promise.race([promise.then(() => 'resolved', (error: Error) => error.message), hung]);
+}
+
+function nonceBytes(nonce: bigint): Uint8Array {
+  return hexToBytes(bigIntToHex(nonce, 16));
+}
+
+async function testWasmMiner() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== SUPPORT ===\n');
+    check('WebAssembly SIMD', wasmSIMDSupported(), 'module validates');
+    log(`  Shared memory: ${sharedMemorySupported() ? 'yes' : 'no (each worker keeps its own dataset)'}`);
+    log(`  Workers: ${typeof Worker === 'undefined' ? 'inline (no Worker here)' : 'Web Workers'}`);
+
+    const params = getEpochParams(resolveEpoch(0), TINY_ETHASH);
+    const cache = await generateCache(params);
+    const verifier = new LightVerifier(cache, params.datasetBytes);
+    const headerHash = new Uint8Array(32).map((_, i) => (i * 29 + 3) & 0xff);
+
+    log('\n=== MODULE ===\n');
+    const layout = layoutEthashMemory(params.cacheBytes, params.datasetBytes, true, 1);
+    const wasm = await EthashWasm.create(createEthashMemory(layout, false), layout, 0);
+    wasm.writeCache(cache);
+    const items = [0, 1, 1234, params.datasetBytes / 64 - 1];
+    const itemMismatches = items.filter(i => bytesToHex(new Uint8Array(wasm.datasetItem(i).buffer)) !== bytesToHex(new Uint8Array(verifier.datasetItem(i).buffer)));
+    check('Dataset items = LightVerifier', itemMismatches.length === 0, `items ${items.join(', ')}`);
+
+    wasm.buildItems(0, params.datasetBytes / 64);
+    const nonces = [0n, 1n, 0xdeadbeefn, (1n << 64n) - 1n];
+    const hashMismatches = nonces.filter(nonce => {
+      const got = wasm.hashimoto(headerHash, nonce);
+      const expected = verifier.hashimoto(headerHash, nonceBytes(nonce));
+      return bytesToHex(got.hash) !== bytesToHex(expected.hash) || bytesToHex(got.mixDigest) !== bytesToHex(expected.mixDigest);
+    });
+    check('Hashimoto = LightVerifier', hashMismatches.length === 0, `${nonces.length - hashMismatches.length}/${nonces.length} nonces`);
+
+    const found = wasm.search(headerHash, 0n, 512, SHARE_TARGET);
+    const foundValid = found.every(w => meetsTarget(w.hash, SHARE_TARGET) && verifier.verify(headerHash, nonceBytes(w.nonce), w, SHARE_TARGET).valid);
+    check('Module search', found.length > 0 && foundValid, `${found.length} winner(s) in 512 nonces`);
+
+    log('\n=== POOL MODES ===\n');
+    const modes: [string, Partial<WasmPoolOptions>][] = [
+      ['Full dataset, per-worker copies', { sharedMemory: false }],
+      ['Light mode (over maxDatasetBytes)', { sharedMemory: false, maxDatasetBytes: 0 }],
+    ];
+    if (sharedMemorySupported()) {
+      modes.unshift(['Full dataset, shared', { sharedMemory: true }]);
+    }
+
+    let reference: string | undefined;
+    for (const [name, options] of modes) {
+      const pool = new WasmWorkerPool({ ...WORKERS, threads: THREADS, ...options });
+      const epoch = await pool.setupEpoch(cache, params.datasetBytes);
+      const result = await pool.search(epoch, headerHash, 5000n, 600, ANY_TARGET);
+      const digest = result.winners.map(w => `${w.nonce}:${bytesToHex(w.hash)}`).sort().join();
+      reference ??= digest;
+      check(name, epoch.layout.full === (options.maxDatasetBytes === undefined) && result.winners.length === 600 && digest === reference, `${result.winners.length} hashes${digest === reference ? ', same as the first mode' : ', DIFFERENT'}`);
+      pool.release(epoch);
+      pool.terminate();
+    }
+
+    log('\n=== RANGES ===\n');
+    const pool = new WasmWorkerPool({ ...WORKERS, threads: THREADS });
+    const epoch = await pool.setupEpoch(cache, params.datasetBytes);
+
+    const range = await pool.search(epoch, headerHash, 0n, 1000, ANY_TARGET);
+    const rangeNonces = new Set(range.winners.map(w => w.nonce));
+    check('Every nonce once', rangeNonces.size === 1000 && [...rangeNonces].every(nonce => nonce < 1000n), `${rangeNonces.size} distinct nonces across ${THREADS} workers`);
+
+    const filtered = await pool.search(epoch, headerHash, 0n, 1000, SHARE_TARGET);
+    const expected = range.winners.filter(w => meetsTarget(w.hash, SHARE_TARGET)).map(w => w.nonce).sort();
+    const got = filtered.winners.map(w => w.nonce).sort();
+    check('Target check', got.length === expected.length && got.every((nonce, i) => nonce === expected[i]), `${got.length} winner(s) at difficulty 32`);
+
+    const wrapped = await pool.search(epoch, headerHash, (1n << 64n) - 2n, 4, ANY_TARGET);
+    const wrappedNonces = wrapped.winners.map(w => w.nonce).sort();
+    check('Wraps at 2^64', wrappedNonces.join() === [0n, 1n, (1n << 64n) - 2n, (1n << 64n) - 1n].sort().join(), wrappedNonces.map(n => '0x' + n.toString(16)).join(', '));
+
+    const hashrates = pool.threadHashrates();
+    check('Per-thread hashrates', hashrates.length === THREADS && hashrates.every(h => h > 0), hashrates.map(formatHashrate).join(', '));
+
+    log('\n=== ABORT ===\n');
+    const aborted = new AbortController();
+    aborted.abort();
+    const before = await pool.search(epoch, headerHash, 0n, 1000, ANY_TARGET, aborted.signal);
+    check('Aborted before the batch', before.aborted === true && before.winners.length === 0, `aborted ${before.aborted}`);
+
+    const midway = new AbortController();
+    const pending = pool.search(epoch, headerHash, 0n, 10_000_000, ANY_TARGET, midway.signal);
+    setTimeout(() => midway.abort(), 50);
+    const during = await pending;
+    check('Aborted mid-batch', during.aborted === true && during.winners.length === 0 && during.timeMs < 5_000, `after ${during.timeMs.toFixed(0)} ms`);
+
+    pool.release(epoch);
+    pool.terminate();
+
+    log('\n=== CRASHED WORKER ===\n');
+    let workersCreated = 0;
+    const crashPool = new WasmWorkerPool({
+      threads: 2,
+      sharedMemory: false,
+      createWorker: () => workersCreated++ === 0 ? new CrashingWorker() : new InlineWasmWorker(),
+    });
+    const crashEpoch = await crashPool.setupEpoch(cache, params.datasetBytes);
+    const crashed = await outcome(crashPool.search(crashEpoch, headerHash, 0n, 100, ANY_TARGET), 5_000);
+    check('Pending search rejected', crashed.includes('exited with code 1'), crashed);
+    const afterCrash = await outcome(crashPool.search(crashEpoch, headerHash, 0n, 100, ANY_TARGET), 5_000);
+    check('Later calls rejected', afterCrash.includes('exited with code 1'), afterCrash);
+    crashPool.terminate();
+
+    log('\n=== COORDINATOR END TO END ===\n');
+    const backend = new WasmBackend({ ...WORKERS, ethash: TINY_ETHASH, threads: THREADS });
+    const source = new MemoryWorkSource();
+    source.pushWork({
+      headerHash: '0x' + 'ab'.repeat(32),
+      seedHash: getSeedHashForEpoch(0),
+      target: bigIntToHex(SHARE_TARGET),
+      blockNumber: 100,
+    });
+
+    const coordinator = new MiningCoordinator(source, backend, {
+      batchSize: 'auto',
+      targetDispatchMs: 20,
+      maxBatchSize: 65_536,
+      pipelineDepth: 2,
+      reportInterval: 200,
+      autoRestart: true,
+      submitStaleShares: false,
+      network: ETHASH_NETWORK,
+      pregenerateBlocks: 0,
+    });
+
+    await coordinator.initialize();
+    const mining = coordinator.startMining(() => {});
+    const mined = await waitFor(() => source.submissions.length >= 5, 60_000);
+    await coordinator.stopMining();
+    await mining;
+
+    const stats = coordinator.getStats();
+    check('Shares found and submitted', mined && stats.hardwareErrors === 0, `${source.submissions.length} share(s), ${stats.hardwareErrors} hardware errors`);
+    check('Engine reported', stats.engine === backend.name && stats.engine.startsWith('WASM SIMD'), stats.engine);
+    check(
+      'Thread hashrates reported',
+      stats.threadHashrates?.length === THREADS && stats.hashrate > 0,
+      `${formatHashrate(stats.hashrate)} (${stats.threadHashrates?.map(formatHashrate).join(', ')})`
+    );
+
+    await coordinator.dispose();
+    backend.terminate();
+
+    log('\n=== HASHRATE FORMAT ===\n');
+    const formatted = [0, 950, 51_070, 12_345_678, 2.5e9].map(formatHashrate);
+    check('Units', formatted.join() === '0.00 H/s,950.00 H/s,51.07 kH/s,12.35 MH/s,2.50 GH/s', formatted.join(', '));
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+    console.error(e);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testWasmMiner);
@@ -0,0 +1,182 @@
+/**
+ * Work Source Test Suite
+ * Tests the WorkSource implementations MiningCoordinator plugs into:
+ * in-memory, replay/recorder, and Stratum (against the mock pool)
+ * CPU only - no WebGPU or network required
+ */
+
+import { WorkPackage } from '../rpc/etc-client';
+import { StratumClient } from '../rpc/stratum-client';
+import { MemoryWorkSource, ReplayWorkSource, StratumWorkSource, WorkRecorder, WorkSource } from '../mining/work-source';
+import { MockStratumPool } from './mock-stratum-pool';
+
+const SEED_HASH = '0x' + '5e'.repeat(32);
+const MIX_DIGEST = '0x' + '3c'.repeat(32);
+const TARGET = '0x' + '0f'.repeat(32);
+
+function makeWork(blockNumber: number): WorkPackage {
+  return {
+    headerHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+    seedHash: SEED_HASH,
+    target: TARGET,
+    blockNumber,
+  };
+}
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function testWorkSources() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== IN-MEMORY ===\n');
+    const memory = new MemoryWorkSource();
+    await memory.connect();
+
+    const pending = memory.getWork();
+    const pushed: WorkPackage[] = [];
+    const unsubscribe = memory.subscribeWork(work => pushed.push(work));
+
+    memory.pushWork(makeWork(100));
+    const first = await pending;
+    check('getWork waits for first push', first.blockNumber === 100, `block ${first.blockNumber}`);
+
+    memory.pushWork(makeWork(101));
+    unsubscribe();
+    memory.pushWork(makeWork(102));
+    check(
+      'Subscribers get pushes until unsubscribed',
+      pushed.map(w => w.blockNumber).join(',') === '100,101',
+      `blocks ${pushed.map(w => w.blockNumber).join(', ')}`
+    );
+
+    const current = await memory.submitShare({ nonce: '0x0000000000000001', headerHash: makeWork(102).headerHash, mixDigest: MIX_DIGEST });
+    const stale = await memory.submitShare({ nonce: '0x0000000000000002', headerHash: makeWork(100).headerHash, mixDigest: MIX_DIGEST });
+    check(
+      'Default judge accepts current work only',
+      current.accepted && !stale.accepted && stale.reason === 'Stale share' && memory.submissions.length === 2,
+      `current=${current.accepted}, stale=${stale.accepted} (${stale.reason})`
+    );
+
+    const strict = new MemoryWorkSource(() => ({ accepted: false, reason: 'Low difficulty share' }));
+    strict.pushWork(makeWork(1));
+    const judged = await strict.submitShare({ nonce: '0x0000000000000003', headerHash: makeWork(1).headerHash, mixDigest: MIX_DIGEST });
+    check('Custom judge', !judged.accepted && judged.reason === 'Low difficulty share', judged.reason ?? 'no reason');
+
+    log('\n=== REPLAY ===\n');
+    const replay = new ReplayWorkSource([
+      { atMs: 60, work: makeWork(202) },
+      { atMs: 0, work: makeWork(200) },
+      { atMs: 30, work: makeWork(201) },
+      { atMs: 5000, work: makeWork(203) },
+    ]);
+    const replayed: WorkPackage[] = [];
+    replay.subscribeWork(work => replayed.push(work));
+    await replay.connect();
+
+    const replayFirst = await replay.getWork();
+    check('First recorded work', replayFirst.blockNumber === 200, `block ${replayFirst.blockNumber}`);
+
+    await sleep(150);
+    check(
+      'Replayed in recorded order',
+      replayed.map(w => w.blockNumber).join(',') === '200,201,202',
+      `blocks ${replayed.map(w => w.blockNumber).join(', ')}`
+    );
+
+    replay.close();
+    check('close() cancels pending entries', replayed.length === 3, `${replayed.length} package(s), block 203 never sent`);
+
+    log('\n=== RECORD → REPLAY ===\n');
+    const live = new MemoryWorkSource();
+    const recorder = new WorkRecorder(live);
+    live.pushWork(makeWork(300));
+    await sleep(40);
+    live.pushWork(makeWork(301));
+    const json = recorder.stop();
+    live.pushWork(makeWork(302));
+
+    const recording = JSON.parse(json);
+    check(
+      'Recorder captures work and timing',
+      recording.length === 2 && recording[1].atMs - recording[0].atMs >= 30,
+      `${recording.length} entries, gap ${recording[1].atMs - recording[0].atMs}ms`
+    );
+
+    const roundTrip = ReplayWorkSource.fromJSON(json);
+    const roundTripped: WorkPackage[] = [];
+    roundTrip.subscribeWork(work => roundTripped.push(work));
+    await roundTrip.connect();
+    await sleep(100);
+    roundTrip.close();
+    check(
+      'fromJSON replays the recording',
+      roundTripped.map(w => w.headerHash).join(',') === [makeWork(300).headerHash, makeWork(301).headerHash].join(','),
+      `blocks ${roundTripped.map(w => w.blockNumber).join(', ')}`
+    );
+
+    log('\n=== STRATUM ===\n');
+    const pool = new MockStratumPool('EthereumStratum/1.0.0', 'a1b2');
+    const stratum: WorkSource = new StratumWorkSource(new StratumClient({
+      transport: pool.createTransport(),
+      login: '0x' + 'ab'.repeat(20),
+      timeout: 1000,
+    }));
+    await stratum.connect();
+
+    const stratumPushed: WorkPackage[] = [];
+    stratum.subscribeWork(work => stratumPushed.push(work));
+    pool.notify({ jobId: 'job-1', seedHash: SEED_HASH, headerHash: makeWork(400).headerHash });
+    const stratumWork = await stratum.getWork();
+    check(
+      'Pool jobs arrive as work packages',
+      stratumWork.jobId === 'job-1' && stratumWork.extranonce === 'a1b2' && stratumPushed.length === 1,
+      `job ${stratumWork.jobId}, extranonce ${stratumWork.extranonce}`
+    );
+
+    const poolAccepted = await stratum.submitShare({ nonce: '0xa1b2000000000001', headerHash: stratumWork.headerHash, mixDigest: MIX_DIGEST });
+    check('Accepted share', poolAccepted.accepted && poolAccepted.reason === undefined, `accepted=${poolAccepted.accepted}`);
+
+    pool.forgetJobs();
+    const poolRejected = await stratum.submitShare({ nonce: '0xa1b2000000000002', headerHash: stratumWork.headerHash, mixDigest: MIX_DIGEST });
+    check(
+      'Pool error becomes a rejection reason',
+      !poolRejected.accepted && poolRejected.reason === 'Stratum error: 21 Job not found',
+      poolRejected.reason ?? 'no reason'
+    );
+
+    const unknownJob = await stratum.submitShare({ nonce: '0xa1b2000000000003', headerHash: makeWork(999).headerHash, mixDigest: MIX_DIGEST });
+    check(
+      'Local errors become a rejection reason',
+      !unknownJob.accepted && (unknownJob.reason ?? '').startsWith('No pool job'),
+      unknownJob.reason ?? 'no reason'
+    );
+
+    stratum.close();
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testWorkSources);
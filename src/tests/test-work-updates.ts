@@ -0,0 +1,202 @@
+/**
+ * Work Update Test Suite
+ * Tests ETCClient new-work detection against a mock JSON-RPC/WebSocket node:
+ * polling fallback, WebSocket push, reconnect with backoff, and mode events
+ * CPU only - no WebGPU or network required
+ */
+
+import { ETCClient, WorkPackage, WorkUpdateMode } from '../rpc/etc-client';
+import { RPCWorkSource } from '../mining/work-source';
+import { MockETCNode } from './mock-etc-node';
+
+const POLL_INTERVAL = 40;
+const RECONNECT_DELAY = 20;
+const MAX_RECONNECT_DELAY = 160;
+
+function log(message: string) {
+  const logEl = document.getElementById('log');
+  if (logEl) {
+    logEl.textContent += message + '\n';
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+  console.log(message);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 1000): Promise<boolean> {
+  const start = performance.now();
+  while (!condition()) {
+    if (performance.now() - start > timeoutMs) {
+      return false;
+    }
+    await sleep(5);
+  }
+  return true;
+}
+
+async function testWorkUpdates() {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+    if (ok) passed++;
+    else failed++;
+  };
+
+  try {
+    log('=== POLLING (NO WEBSOCKET) ===\n');
+    const httpNode = new MockETCNode('http-only');
+    httpNode.install();
+
+    const httpClient = new ETCClient({ httpEndpoint: httpNode.httpEndpoint, pollInterval: POLL_INTERVAL });
+    const initial = await httpClient.getWork();
+
+    let threw = false;
+    try {
+      httpClient.subscribeNewBlocks(() => {});
+    } catch {
+      threw = true;
+    }
+    check('subscribeNewBlocks still needs a WebSocket', threw, threw ? 'throws' : 'did not throw');
+
+    const polledWork: WorkPackage[] = [];
+    const polledModes: WorkUpdateMode[] = [];
+    const stopPolling = httpClient.watchWork(work => polledWork.push(work), mode => polledModes.push(mode));
+    check('Mode is polling', polledModes.join(',') === 'polling', polledModes.join(' → '));
+
+    await sleep(POLL_INTERVAL * 3);
+    check(
+      'Unchanged work is not re-emitted',
+      polledWork.length === 0 && httpNode.getWorkCalls >= 3,
+      `${polledWork.length} package(s) after ${httpNode.getWorkCalls} eth_getWork calls (initial block ${initial.blockNumber})`
+    );
+
+    httpNode.mineBlock();
+    const sawPolledBlock = await waitFor(() => polledWork.length === 1);
+    check(
+      'New block found by polling',
+      sawPolledBlock && polledWork[0].blockNumber === initial.blockNumber + 1,
+      `block ${polledWork[0]?.blockNumber}`
+    );
+
+    stopPolling();
+    const callsAfterStop = httpNode.getWorkCalls;
+    await sleep(POLL_INTERVAL * 3);
+    check('Cleanup stops polling', httpNode.getWorkCalls === callsAfterStop, `${httpNode.getWorkCalls - callsAfterStop} calls after stop`);
+    httpNode.uninstall();
+
+    log('\n=== WEBSOCKET ===\n');
+    const wsNode = new MockETCNode('ws');
+    wsNode.install();
+
+    const wsClient = new ETCClient({
+      httpEndpoint: wsNode.httpEndpoint,
+      wsEndpoint: wsNode.wsEndpoint,
+      pollInterval: POLL_INTERVAL,
+      reconnectDelay: RECONNECT_DELAY,
+      maxReconnectDelay: MAX_RECONNECT_DELAY,
+    });
+    await wsClient.getWork();
+
+    const wsWork: WorkPackage[] = [];
+    const wsModes: WorkUpdateMode[] = [];
+    const stopWatching = wsClient.watchWork(work => wsWork.push(work), mode => wsModes.push(mode));
+
+    const wentLive = await waitFor(() => wsModes[wsModes.length - 1] === 'websocket');
+    check('Polls until subscribed, then switches', wentLive && wsModes.join(',') === 'polling,websocket', wsModes.join(' → '));
+
+    const callsWhileLive = wsNode.getWorkCalls;
+    await sleep(POLL_INTERVAL * 3);
+    check('No polling while subscribed', wsNode.getWorkCalls === callsWhileLive, `${wsNode.getWorkCalls - callsWhileLive} calls in ${POLL_INTERVAL * 3}ms`);
+
+    wsNode.mineBlock();
+    const sawPushedBlock = await waitFor(() => wsWork.length === 1);
+    check('newHeads triggers new work', sawPushedBlock, `block ${wsWork[0]?.blockNumber}`);
+
+    log('\n=== RECONNECT ===\n');
+    wsNode.acceptWebSockets = false;
+    const attemptsAtDrop = wsNode.connectAttempts.length;
+    wsNode.dropConnections();
+
+    const fellBack = await waitFor(() => wsModes[wsModes.length - 1] === 'polling');
+    check('Drop falls back to polling', fellBack, wsModes.join(' → '));
+
+    wsNode.mineBlock();
+    const sawBlockWhileDown = await waitFor(() => wsWork.length === 2);
+    check('Blocks found while reconnecting', sawBlockWhileDown, `block ${wsWork[1]?.blockNumber}`);
+
+    // Failed attempts are retried after 40, 80, 160, 160ms
+    await waitFor(() => wsNode.connectAttempts.length >= attemptsAtDrop + 5, 2000);
+    const attempts = wsNode.connectAttempts.slice(attemptsAtDrop, attemptsAtDrop + 5);
+    const gaps = attempts.slice(1).map((t, i) => Math.round(t - attempts[i]));
+    check(
+      'Exponential backoff, capped',
+      gaps.length === 4 && gaps[1] > gaps[0] * 1.5 && gaps[2] > gaps[1] * 1.5 && gaps[3] < gaps[2] * 1.5,
+      `gaps ${gaps.join(', ')}ms (base ${RECONNECT_DELAY}, cap ${MAX_RECONNECT_DELAY})`
+    );
+
+    wsNode.acceptWebSockets = true;
+    const backLive = await waitFor(() => wsModes[wsModes.length - 1] === 'websocket', 2000);
+    check(
+      'Reconnects and resubscribes',
+      backLive && wsNode.subscribeCalls === 2,
+      `${wsModes.join(' → ')}, ${wsNode.subscribeCalls} eth_subscribe calls`
+    );
+
+    wsNode.mineBlock();
+    const sawBlockAfterReconnect = await waitFor(() => wsWork.length === 3);
+    check('newHeads works after reconnect', sawBlockAfterReconnect, `block ${wsWork[2]?.blockNumber}`);
+
+    // Second block lands while eth_getWork for the first is still in flight
+    wsNode.responseDelay = 30;
+    wsNode.mineBlock();
+    await sleep(10);
+    wsNode.mineBlock();
+    await waitFor(() => wsWork[wsWork.length - 1]?.headerHash === wsNode.currentWork().headerHash);
+    wsNode.responseDelay = 0;
+    check(
+      'newHeads during eth_getWork rechecks',
+      wsWork[wsWork.length - 1].headerHash === wsNode.currentWork().headerHash,
+      `${wsWork.length - 3} package(s) for 2 blocks, last header ...${wsWork[wsWork.length - 1].headerHash.slice(-4)}`
+    );
+
+    stopWatching();
+    await sleep(10);
+    const attemptsAfterStop = wsNode.connectAttempts.length;
+    wsNode.dropConnections();
+    await sleep(MAX_RECONNECT_DELAY * 2);
+    check(
+      'Cleanup closes socket, no reconnects',
+      wsNode.openSockets === 0 && wsNode.connectAttempts.length === attemptsAfterStop,
+      `${wsNode.openSockets} open, ${wsNode.connectAttempts.length - attemptsAfterStop} attempts after stop`
+    );
+
+    log('\n=== WORK SOURCE MODE EVENTS ===\n');
+    const source = new RPCWorkSource(wsClient);
+    const sourceModes: WorkUpdateMode[] = [];
+    const sourceWork: WorkPackage[] = [];
+    const stopSource = source.subscribeWork(work => sourceWork.push(work), mode => sourceModes.push(mode));
+    await waitFor(() => sourceModes[sourceModes.length - 1] === 'websocket');
+    wsNode.mineBlock();
+    await waitFor(() => sourceWork.length === 1);
+    check(
+      'RPCWorkSource forwards work and mode',
+      sourceModes.join(',') === 'polling,websocket' && sourceWork.length === 1,
+      `${sourceModes.join(' → ')}, ${sourceWork.length} package(s)`
+    );
+    stopSource();
+    source.close();
+    wsNode.uninstall();
+
+    log(`\nResults: ${passed}/${passed + failed} tests passed`);
+  } catch (e) {
+    log(`ERROR: ${(e as Error).message}`);
+  }
+}
+
+// Run tests on page load
+window.addEventListener('DOMContentLoaded', testWorkUpdates);
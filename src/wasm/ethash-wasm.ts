@@ -0,0 +1,562 @@
+/**
+ * Ethash in WebAssembly
+ * Keccak-f[1600], dataset item generation and Hashimoto as a WASM SIMD module, for mining on the
+ * CPU where WebGPU isn't available (see wasm-pool.ts for the workers that run it).
+ *
+ * Keccak works on 64-bit lanes (i64, fully unrolled); the FNV mixing runs four words at a time
+ * (i32x4). An instance hashes from a memory that holds, in order: a scratch area per worker
+ * sharing the memory, the epoch cache and (full mode) the dataset. In light mode the dataset
+ * items a nonce touches are derived from the cache instead, like LightVerifier.
+ */
+
+import { WasmFunction, WasmModule, OP, SIMD } from './wasm-encoder';
+import { LightHashimotoResult, meetsTarget } from '../crypto/ethash-light';
+import { ACCESSES, HASH_BYTES, MIX_BYTES } from '../crypto/ethash-sizes';
+import type { HashimotoWinner } from '../gpu/hashimoto';
+
+const PAGE_BYTES = 64 * 1024;               // WebAssembly page
+const MAX_PAGES = 65536;                    // 4 GB: the wasm32 address space
+const FNV_PRIME = 0x01000193;
+const DATASET_PARENTS = 256;
+const WORDS_PER_ITEM = HASH_BYTES / 4;     // 16
+const WORDS_PER_MIX = MIX_BYTES / 4;       // 32
+
+// Scratch area of one worker (byte offsets)
+const HEADER = 0;        // Header hash, written before a search
+const CMIX = 32;         // Compressed mix of the current nonce
+const STATE = 64;        // Keccak state (200 bytes)
+const SEED = 272;        // Keccak-512 seed of the current nonce
+const PAGE = 384;        // Light mode: the two dataset items being mixed in
+const RESULTS = 512;     // Winners: nonce (8), hash (32), mix digest (32)
+const RESULT_BYTES = 72;
+const MAX_RESULTS = 64;  // A search call returns early once this many have been found
+export const SCRATCH_BYTES = 8192;
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// ρ rotation of lane x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+];
+
+// Reverses the bytes of each 64-bit half: the hash's leading 8 bytes as a big-endian number
+const BYTE_SWAP_64 = [7, 6, 5, 4, 3, 2, 1, 0, 15, 14, 13, 12, 11, 10, 9, 8];
+
+// Globals, set by configure()
+const G_CACHE = 0;
+const G_CACHE_ITEMS = 1;
+const G_DATASET = 2;
+const G_PAGES = 3;
+const G_FULL = 4;
+const G_ACCESSES = 5;
+
+/**
+ * Where an epoch's data sits in its memory
+ */
+export interface EthashMemoryLayout {
+  slots: number;          // Scratch areas (one per worker sharing the memory)
+  cacheOffset: number;
+  cacheBytes: number;
+  datasetOffset: number;  // Dataset start (full mode; where it would start in light mode)
+  datasetBytes: number;   // Full dataset size, also in light mode (it sets the item count)
+  full: boolean;
+  memoryBytes: number;    // Whole memory, in whole pages
+}
+
+interface EthashExports {
+  configure(cache: number, cacheItems: number, dataset: number, pages: number, full: number, accesses: number): void;
+  calcItem(index: number, out: number, state: number): void;
+  buildItems(start: number, end: number, state: number): void;
+  search(scratch: number, startNonce: bigint, count: number, targetHigh: bigint): number;
+}
+
+/**
+ * keccakF(state): Keccak-f[1600] on the 25 lanes at `state`
+ */
+function keccakF(): WasmFunction {
+  const f = new WasmFunction(['i32']);
+  const state = 0;
+  const a = ROTATIONS.map(() => f.local('i64'));
+  const b = ROTATIONS.map(() => f.local('i64'));
+  const c = [0, 1, 2, 3, 4].map(() => f.local('i64'));
+  const d = f.local('i64');
+
+  for (let i = 0; i < 25; i++) {
+    f.get(state).memory(OP.i64_load, i * 8, 3).set(a[i]);
+  }
+
+  for (const roundConstant of ROUND_CONSTANTS) {
+    // θ
+    for (let x = 0; x < 5; x++) {
+      f.get(a[x]).get(a[x + 5]).op(OP.i64_xor).get(a[x + 10]).op(OP.i64_xor).get(a[x + 15]).op(OP.i64_xor).get(a[x + 20]).op(OP.i64_xor).set(c[x]);
+    }
+    for (let x = 0; x < 5; x++) {
+      f.get(c[(x + 4) % 5]).get(c[(x + 1) % 5]).i64(1n).op(OP.i64_rotl).op(OP.i64_xor).set(d);
+      for (let y = 0; y < 25; y += 5) {
+        f.get(a[x + y]).get(d).op(OP.i64_xor).set(a[x + y]);
+      }
+    }
+
+    // ρ and π
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        f.get(a[x + 5 * y]).i64(BigInt(ROTATIONS[x + 5 * y])).op(OP.i64_rotl).set(b[y + 5 * ((2 * x + 3 * y) % 5)]);
+      }
+    }
+
+    // χ
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        f.get(b[x + y]).get(b[(x + 1) % 5 + y]).i64(-1n).op(OP.i64_xor).get(b[(x + 2) % 5 + y]).op(OP.i64_and).op(OP.i64_xor).set(a[x + y]);
+      }
+    }
+
+    // ι
+    f.get(a[0]).i64(roundConstant).op(OP.i64_xor).set(a[0]);
+  }
+
+  for (let i = 0; i < 25; i++) {
+    f.get(state).get(a[i]).memory(OP.i64_store, i * 8, 3);
+  }
+  return f;
+}
+
+/**
+ * keccak(state, lanes, rateLanes): hash the first `lanes` lanes of the state in place
+ * One block: pads, clears the rest and permutes (Keccak-512 has 9 rate lanes, Keccak-256 17)
+ */
+function keccakBlock(keccakFIndex: number): WasmFunction {
+  const f = new WasmFunction(['i32', 'i32', 'i32']);
+  const [state, lanes, rate] = [0, 1, 2];
+  const lane = f.local('i32');
+  const address = f.local('i32');
+
+  f.get(lanes).set(lane);
+  f.block().loop();
+  f.get(lane).i32(25).op(OP.i32_ge_u).brIf(1);
+  f.get(state).get(lane).i32(3).op(OP.i32_shl).op(OP.i32_add).i64(0n).memory(OP.i64_store, 0, 3);
+  f.get(lane).i32(1).op(OP.i32_add).set(lane);
+  f.br(0);
+  f.end().end();
+
+  // Keccak padding (not SHA-3's): 0x01 after the message, 0x80 in the last byte of the block
+  f.get(state).get(lanes).i32(3).op(OP.i32_shl).op(OP.i32_add).set(address);
+  f.get(address).get(address).memory(OP.i64_load, 0, 3).i64(1n).op(OP.i64_xor).memory(OP.i64_store, 0, 3);
+  f.get(state).get(rate).i32(1).op(OP.i32_sub).i32(3).op(OP.i32_shl).op(OP.i32_add).set(address);
+  f.get(address).get(address).memory(OP.i64_load, 0, 3).i64(1n << 63n).op(OP.i64_xor).memory(OP.i64_store, 0, 3);
+
+  f.get(state).call(keccakFIndex);
+  return f;
+}
+
+/**
+ * mix = FNV(mix, word) for four words: mix * FNV_PRIME ^ [address + offset]
+ */
+function fnvVector(f: WasmFunction, mix: number, prime: number, address: number, offset: number): void {
+  f.get(mix).get(prime).simd(SIMD.i32x4_mul).get(address).v128Load(offset).simd(SIMD.v128_xor).set(mix);
+}
+
+/**
+ * Push FNV(a, word `lane` of vector `vector`), a pushed by pushA (the parent/page index before the modulo)
+ */
+function fnvIndex(f: WasmFunction, pushA: () => void, vector: number, lane: number): void {
+  pushA();
+  f.i32(FNV_PRIME).op(OP.i32_mul).get(vector).simd(SIMD.i32x4_extract_lane, lane).op(OP.i32_xor);
+}
+
+/**
+ * calcItem(index, out, state): dataset item `index` from the cache (Ethash calc_dataset_item)
+ * into the 64 bytes at `out`; `state` is 200 bytes of Keccak scratch
+ */
+function calcItem(keccakIndex: number): WasmFunction {
+  const f = new WasmFunction(['i32', 'i32', 'i32']);
+  const [index, out, state] = [0, 1, 2];
+  const address = f.local('i32');
+  const parent = f.local('i32');
+  const j = f.local('i32');
+  const prime = f.local('v128');
+  const mix = [0, 1, 2, 3].map(() => f.local('v128'));
+
+  f.i32(FNV_PRIME).simd(SIMD.i32x4_splat).set(prime);
+
+  // mix = keccak512(cache[index % n] with word 0 ^= index)
+  f.getGlobal(G_CACHE).get(index).getGlobal(G_CACHE_ITEMS).op(OP.i32_rem_u).i32(6).op(OP.i32_shl).op(OP.i32_add).set(address);
+  for (let q = 0; q < 4; q++) {
+    f.get(state).get(address).v128Load(q * 16).v128Store(q * 16);
+  }
+  f.get(state).get(state).memory(OP.i32_load, 0, 2).get(index).op(OP.i32_xor).memory(OP.i32_store, 0, 2);
+  f.get(state).i32(8).i32(9).call(keccakIndex);
+  for (let q = 0; q < 4; q++) {
+    f.get(state).v128Load(q * 16).set(mix[q]);
+  }
+
+  // 256 parents, 16 per loop iteration (mix[j % 16] is then a fixed lane)
+  f.i32(0).set(j);
+  f.loop();
+  for (let k = 0; k < WORDS_PER_ITEM; k++) {
+    fnvIndex(f, () => f.get(index).get(j).i32(k).op(OP.i32_add).op(OP.i32_xor), mix[k >> 2], k & 3);
+    f.getGlobal(G_CACHE_ITEMS).op(OP.i32_rem_u).set(parent);
+    f.getGlobal(G_CACHE).get(parent).i32(6).op(OP.i32_shl).op(OP.i32_add).set(address);
+    for (let q = 0; q < 4; q++) {
+      fnvVector(f, mix[q], prime, address, q * 16);
+    }
+  }
+  f.get(j).i32(WORDS_PER_ITEM).op(OP.i32_add).tee(j).i32(DATASET_PARENTS).op(OP.i32_lt_u).brIf(0);
+  f.end();
+
+  // out = keccak512(mix)
+  for (let q = 0; q < 4; q++) {
+    f.get(state).get(mix[q]).v128Store(q * 16);
+  }
+  f.get(state).i32(8).i32(9).call(keccakIndex);
+  for (let q = 0; q < 4; q++) {
+    f.get(out).get(state).v128Load(q * 16).v128Store(q * 16);
+  }
+  return f;
+}
+
+/**
+ * buildItems(start, end, state): dataset items [start, end) into the dataset
+ */
+function buildItems(calcItemIndex: number): WasmFunction {
+  const f = new WasmFunction(['i32', 'i32', 'i32']);
+  const [start, end, state] = [0, 1, 2];
+  const item = f.local('i32');
+
+  f.get(start).set(item);
+  f.block().loop();
+  f.get(item).get(end).op(OP.i32_ge_u).brIf(1);
+  f.get(item).getGlobal(G_DATASET).get(item).i32(6).op(OP.i32_shl).op(OP.i32_add).get(state).call(calcItemIndex);
+  f.get(item).i32(1).op(OP.i32_add).set(item);
+  f.br(0);
+  f.end().end();
+  return f;
+}
+
+/**
+ * search(scratch, startNonce, count, targetHigh) → nonces hashed
+ * Hashimoto for count nonces from startNonce (wrapping at 2^64), with the header hash at
+ * scratch + HEADER. Hashes whose leading 8 bytes (big-endian) are <= targetHigh are recorded at
+ * scratch + RESULTS, their number at scratch + RESULTS - 4; returns early once MAX_RESULTS are in
+ */
+function search(keccakIndex: number, calcItemIndex: number): WasmFunction {
+  const f = new WasmFunction(['i32', 'i64', 'i32', 'i64'], ['i32']);
+  const [scratch, startNonce, count, targetHigh] = [0, 1, 2, 3];
+  const n = f.local('i32');
+  const found = f.local('i32');
+  const seed0 = f.local('i32');
+  const access = f.local('i32');
+  const page = f.local('i32');
+  const address = f.local('i32');
+  const word = f.local('i32');
+  const record = f.local('i32');
+  const nonce = f.local('i64');
+  const prime = f.local('v128');
+  const mix = [0, 1, 2, 3, 4, 5, 6, 7].map(() => f.local('v128'));
+
+  f.i32(FNV_PRIME).simd(SIMD.i32x4_splat).set(prime);
+  f.i32(0).set(n);
+  f.i32(0).set(found);
+
+  f.block().loop();
+  f.get(n).get(count).op(OP.i32_ge_u).brIf(1);
+  f.get(startNonce).get(n).op(OP.i64_extend_i32_u).op(OP.i64_add).set(nonce);
+
+  // seed = keccak512(header ++ little-endian nonce)
+  for (let q = 0; q < 2; q++) {
+    f.get(scratch).get(scratch).v128Load(HEADER + q * 16).v128Store(STATE + q * 16);
+  }
+  f.get(scratch).get(nonce).memory(OP.i64_store, STATE + 32, 3);
+  f.get(scratch).i32(STATE).op(OP.i32_add).i32(5).i32(9).call(keccakIndex);
+  for (let q = 0; q < 4; q++) {
+    f.get(scratch).v128Load(STATE + q * 16).set(mix[q]);
+    f.get(scratch).get(mix[q]).v128Store(SEED + q * 16);
+    f.get(mix[q]).set(mix[q + 4]);
+  }
+  f.get(scratch).memory(OP.i32_load, SEED, 2).set(seed0);
+
+  // G_ACCESSES accesses, up to 32 per loop iteration (mix[i % 32] is then a fixed lane)
+  f.i32(0).set(access);
+  f.block().loop();
+  for (let k = 0; k < WORDS_PER_MIX; k++) {
+    f.get(access).i32(k).op(OP.i32_add).getGlobal(G_ACCESSES).op(OP.i32_ge_u).brIf(1);
+    fnvIndex(f, () => f.get(access).i32(k).op(OP.i32_add).get(seed0).op(OP.i32_xor), mix[k >> 2], k & 3);
+    f.getGlobal(G_PAGES).op(OP.i32_rem_u).set(page);
+
+    f.getGlobal(G_FULL).if();
+    f.getGlobal(G_DATASET).get(page).i32(7).op(OP.i32_shl).op(OP.i32_add).set(address);
+    f.op(OP.else);
+    f.get(page).i32(1).op(OP.i32_shl).get(scratch).i32(PAGE).op(OP.i32_add).get(scratch).i32(STATE).op(OP.i32_add).call(calcItemIndex);
+    f.get(page).i32(1).op(OP.i32_shl).i32(1).op(OP.i32_add).get(scratch).i32(PAGE + HASH_BYTES).op(OP.i32_add).get(scratch).i32(STATE).op(OP.i32_add).call(calcItemIndex);
+    f.get(scratch).i32(PAGE).op(OP.i32_add).set(address);
+    f.end();
+
+    for (let q = 0; q < 8; q++) {
+      fnvVector(f, mix[q], prime, address, q * 16);
+    }
+  }
+  f.get(access).i32(WORDS_PER_MIX).op(OP.i32_add).tee(access).getGlobal(G_ACCESSES).op(OP.i32_lt_u).brIf(0);
+  f.end().end();
+
+  // cmix: each group of four words folded with FNV
+  for (let q = 0; q < 8; q++) {
+    f.get(mix[q]).simd(SIMD.i32x4_extract_lane, 0).set(word);
+    for (let lane = 1; lane < 4; lane++) {
+      f.get(word).i32(FNV_PRIME).op(OP.i32_mul).get(mix[q]).simd(SIMD.i32x4_extract_lane, lane).op(OP.i32_xor).set(word);
+    }
+    f.get(scratch).get(word).memory(OP.i32_store, CMIX + q * 4, 2);
+  }
+
+  // hash = keccak256(seed ++ cmix)
+  for (let q = 0; q < 4; q++) {
+    f.get(scratch).get(scratch).v128Load(SEED + q * 16).v128Store(STATE + q * 16);
+  }
+  for (let q = 0; q < 2; q++) {
+    f.get(scratch).get(scratch).v128Load(CMIX + q * 16).v128Store(STATE + HASH_BYTES + q * 16);
+  }
+  f.get(scratch).i32(STATE).op(OP.i32_add).i32(12).i32(17).call(keccakIndex);
+
+  // Candidate if the leading 64 bits are within the target's (the caller checks the rest)
+  f.get(scratch).v128Load(STATE).get(scratch).v128Load(STATE).simd(SIMD.i8x16_shuffle, ...BYTE_SWAP_64).simd(SIMD.i64x2_extract_lane, 0);
+  f.get(targetHigh).op(OP.i64_le_u).if();
+  f.get(scratch).i32(RESULTS).op(OP.i32_add).get(found).i32(RESULT_BYTES).op(OP.i32_mul).op(OP.i32_add).set(record);
+  f.get(record).get(nonce).memory(OP.i64_store, 0, 3);
+  for (let q = 0; q < 2; q++) {
+    f.get(record).get(scratch).v128Load(STATE + q * 16).v128Store(8 + q * 16);
+    f.get(record).get(scratch).v128Load(CMIX + q * 16).v128Store(40 + q * 16);
+  }
+  f.get(found).i32(1).op(OP.i32_add).set(found);
+  f.end();
+
+  f.get(n).i32(1).op(OP.i32_add).set(n);
+  f.get(found).i32(MAX_RESULTS).op(OP.i32_lt_u).brIf(0);
+  f.end().end();
+
+  f.get(scratch).get(found).memory(OP.i32_store, RESULTS - 4, 2);
+  f.get(n);
+  return f;
+}
+
+/**
+ * configure(cache, cacheItems, dataset, pages, full, accesses): where this instance's epoch sits
+ * and how many dataset pages each hash reads
+ */
+function configure(): WasmFunction {
+  const f = new WasmFunction(['i32', 'i32', 'i32', 'i32', 'i32', 'i32']);
+  [G_CACHE, G_CACHE_ITEMS, G_DATASET, G_PAGES, G_FULL, G_ACCESSES].forEach((global, param) => f.get(param).setGlobal(global));
+  return f;
+}
+
+/**
+ * The module's bytes, for a shared or an unshared imported memory (their import types differ)
+ */
+export function ethashModuleBytes(shared: boolean): Uint8Array<ArrayBuffer> {
+  const module = new WasmModule();
+  module.importMemory({ module: 'env', name: 'memory', minimumPages: 1, maximumPages: shared ? MAX_PAGES : undefined, shared });
+  for (let i = 0; i < 6; i++) {
+    module.addGlobal();
+  }
+
+  const keccakFIndex = module.addFunction(keccakF());
+  const keccakIndex = module.addFunction(keccakBlock(keccakFIndex));
+  const calcItemIndex = module.addFunction(calcItem(keccakIndex), 'calcItem');
+  module.addFunction(buildItems(calcItemIndex), 'buildItems');
+  module.addFunction(search(keccakIndex, calcItemIndex), 'search');
+  module.addFunction(configure(), 'configure');
+  return module.encode();
+}
+
+const compiled = new Map<boolean, Promise<WebAssembly.Module>>();
+
+function compileEthashModule(shared: boolean): Promise<WebAssembly.Module> {
+  let module = compiled.get(shared);
+  if (!module) {
+    module = WebAssembly.compile(ethashModuleBytes(shared));
+    compiled.set(shared, module);
+  }
+  return module;
+}
+
+/**
+ * Whether this engine runs WebAssembly SIMD (the module fails validation without it)
+ */
+export function wasmSIMDSupported(): boolean {
+  return typeof WebAssembly === 'object' && WebAssembly.validate(ethashModuleBytes(false));
+}
+
+/**
+ * Whether shared WebAssembly memories work here
+ * Browsers need cross-origin isolation (COOP/COEP headers) for them
+ */
+export function sharedMemorySupported(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && (globalThis.crossOriginIsolated ?? true);
+}
+
+/**
+ * Memory layout for an epoch
+ * Throws if full mode wouldn't fit in the 4 GB a wasm32 memory can address
+ *
+ * @param cacheBytes Epoch cache size
+ * @param datasetBytes Epoch dataset size
+ * @param full Precomputed dataset (false: light mode, items derived per hash)
+ * @param slots Workers sharing the memory (one scratch area each)
+ */
+export function layoutEthashMemory(cacheBytes: number, datasetBytes: number, full: boolean, slots: number): EthashMemoryLayout {
+  const cacheOffset = slots * SCRATCH_BYTES;
+  const datasetOffset = cacheOffset + cacheBytes;
+  const end = datasetOffset + (full ? datasetBytes : 0);
+  const memoryBytes = Math.ceil(end / PAGE_BYTES) * PAGE_BYTES;
+
+  if (memoryBytes > MAX_PAGES * PAGE_BYTES) {
+    throw new Error(`Out of memory: ${(memoryBytes / 1024 ** 3).toFixed(2)} GB is more than WebAssembly can address (4 GB)`);
+  }
+  return { slots, cacheOffset, cacheBytes, datasetOffset, datasetBytes, full, memoryBytes };
+}
+
+/**
+ * Allocate the memory for a layout
+ * Throws an "Out of memory" error when the engine can't provide it
+ */
+export function createEthashMemory(layout: EthashMemoryLayout, shared: boolean): WebAssembly.Memory {
+  const pages = layout.memoryBytes / PAGE_BYTES;
+  try {
+    return new WebAssembly.Memory({ initial: pages, maximum: shared ? pages : undefined, shared });
+  } catch (error) {
+    throw new Error(`Out of memory: ${(layout.memoryBytes / 1024 ** 2).toFixed(0)} MB of WebAssembly memory (${(error as Error).message})`);
+  }
+}
+
+/**
+ * Whether an error means the memory for an epoch couldn't be had (the caller can fall back to light mode)
+ */
+export function isOutOfMemory(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('Out of memory');
+}
+
+/**
+ * One module instance: hashes with scratch slot `slot` of an epoch's memory
+ */
+export class EthashWasm {
+  private exports: EthashExports;
+  private memory: WebAssembly.Memory;
+  private layout: EthashMemoryLayout;
+  private scratch: number;
+
+  private constructor(exports: EthashExports, memory: WebAssembly.Memory, layout: EthashMemoryLayout, slot: number, accesses: number) {
+    this.exports = exports;
+    this.memory = memory;
+    this.layout = layout;
+    this.scratch = slot * SCRATCH_BYTES;
+    exports.configure(layout.cacheOffset, layout.cacheBytes / HASH_BYTES, layout.datasetOffset, layout.datasetBytes / MIX_BYTES, layout.full ? 1 : 0, accesses);
+  }
+
+  /**
+   * @param memory Memory laid out by layoutEthashMemory (shared or not)
+   * @param layout Its layout
+   * @param slot Scratch area to use (each worker sharing the memory needs its own)
+   * @param accesses Dataset pages read per hash (default: mainnet's 64)
+   */
+  static async create(memory: WebAssembly.Memory, layout: EthashMemoryLayout, slot: number, accesses = ACCESSES): Promise<EthashWasm> {
+    if (slot < 0 || slot >= layout.slots) {
+      throw new Error(`Scratch slot ${slot} is outside the layout's ${layout.slots}`);
+    }
+    if (!Number.isInteger(accesses) || accesses < 1) {
+      throw new Error(`accesses must be a whole number of at least 1, got ${accesses}`);
+    }
+    const shared = typeof SharedArrayBuffer !== 'undefined' && memory.buffer instanceof SharedArrayBuffer;
+    const instance = await WebAssembly.instantiate(await compileEthashModule(shared), { env: { memory } });
+    return new EthashWasm(instance.exports as unknown as EthashExports, memory, layout, slot, accesses);
+  }
+
+  get full(): boolean {
+    return this.layout.full;
+  }
+
+  /**
+   * Copy the epoch cache into the memory (once, by whoever allocated it)
+   */
+  writeCache(cache: Uint32Array): void {
+    if (cache.byteLength !== this.layout.cacheBytes) {
+      throw new Error(`Cache is ${cache.byteLength} bytes, the layout has room for ${this.layout.cacheBytes}`);
+    }
+    new Uint32Array(this.memory.buffer, this.layout.cacheOffset, cache.length).set(cache);
+  }
+
+  /**
+   * Compute dataset items [start, end) into the dataset (full mode)
+   */
+  buildItems(start: number, end: number): void {
+    if (!this.layout.full) {
+      throw new Error('Light mode has no dataset to build');
+    }
+    this.exports.buildItems(start, end, this.scratch + STATE);
+  }
+
+  /**
+   * The dataset's items [start, end), as stored in the memory (full mode)
+   */
+  datasetItems(start: number, end: number): Uint32Array {
+    return new Uint32Array(this.memory.buffer, this.layout.datasetOffset + start * HASH_BYTES, (end - start) * WORDS_PER_ITEM);
+  }
+
+  /**
+   * One dataset item, derived from the cache
+   */
+  datasetItem(index: number): Uint32Array {
+    this.exports.calcItem(index, this.scratch + PAGE, this.scratch + STATE);
+    return new Uint32Array(this.memory.buffer, this.scratch + PAGE, WORDS_PER_ITEM).slice();
+  }
+
+  /**
+   * Hashimoto for count nonces from startNonce (wrapping at 2^64)
+   *
+   * @param headerHash 32-byte header hash
+   * @param startNonce First nonce
+   * @param count Number of nonces
+   * @param target Share target: hashes at or below it win
+   * @returns The winners, in nonce order
+   */
+  search(headerHash: Uint8Array, startNonce: bigint, count: number, target: bigint): HashimotoWinner[] {
+    const targetHigh = target >> 192n > 0xffffffffffffffffn ? 0xffffffffffffffffn : target >> 192n;
+    const winners: HashimotoWinner[] = [];
+
+    new Uint8Array(this.memory.buffer, this.scratch + HEADER, 32).set(headerHash.subarray(0, 32));
+
+    for (let done = 0; done < count; ) {
+      // JS BigInts pass to i64 parameters modulo 2^64
+      done += this.exports.search(this.scratch, startNonce + BigInt(done), count - done, targetHigh);
+
+      // slice() copies out of the (possibly shared) memory
+      const bytes = new Uint8Array(this.memory.buffer);
+      const view = new DataView(this.memory.buffer);
+      const found = view.getUint32(this.scratch + RESULTS - 4, true);
+      for (let i = 0; i < found; i++) {
+        const record = this.scratch + RESULTS + i * RESULT_BYTES;
+        const hash = bytes.slice(record + 8, record + 40);
+        if (meetsTarget(hash, target)) {
+          winners.push({ nonce: view.getBigUint64(record, true), hash, mixDigest: bytes.slice(record + 40, record + 72) });
+        }
+      }
+    }
+    return winners;
+  }
+
+  /**
+   * Hashimoto for one nonce
+   */
+  hashimoto(headerHash: Uint8Array, nonce: bigint): LightHashimotoResult {
+    const [winner] = this.search(headerHash, nonce, 1, (1n << 256n) - 1n);
+    return { hash: winner.hash, mixDigest: winner.mixDigest };
+  }
+}
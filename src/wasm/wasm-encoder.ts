@@ -0,0 +1,303 @@
+/**
+ * WebAssembly Encoder
+ * Just enough of the binary format to emit the Ethash module (ethash-wasm.ts) from TypeScript:
+ * an imported memory, mutable i32 globals, functions with i32/i64/v128 locals, and exports.
+ *
+ * The build has no WebAssembly toolchain; like the WGSL kernels, the module is put together at
+ * runtime (in a few milliseconds), which also lets the generator unroll Keccak and the FNV loops.
+ */
+
+export type ValueType = 'i32' | 'i64' | 'v128';
+
+const VALUE_TYPES: Record<ValueType, number> = { i32: 0x7f, i64: 0x7e, v128: 0x7b };
+
+/**
+ * Opcodes used by the generator (single byte)
+ */
+export const OP = {
+  block: 0x02,
+  loop: 0x03,
+  if: 0x04,
+  else: 0x05,
+  end: 0x0b,
+  br: 0x0c,
+  br_if: 0x0d,
+  call: 0x10,
+  local_get: 0x20,
+  local_set: 0x21,
+  local_tee: 0x22,
+  global_get: 0x23,
+  global_set: 0x24,
+  i32_load: 0x28,
+  i64_load: 0x29,
+  i32_store: 0x36,
+  i64_store: 0x37,
+  i32_const: 0x41,
+  i64_const: 0x42,
+  i32_eqz: 0x45,
+  i32_lt_u: 0x49,
+  i32_ge_u: 0x4f,
+  i64_le_u: 0x58,
+  i32_add: 0x6a,
+  i32_sub: 0x6b,
+  i32_mul: 0x6c,
+  i32_rem_u: 0x70,
+  i32_xor: 0x73,
+  i32_shl: 0x74,
+  i64_add: 0x7c,
+  i64_and: 0x83,
+  i64_xor: 0x85,
+  i64_rotl: 0x89,
+  i64_extend_i32_u: 0xad,
+} as const;
+
+/**
+ * SIMD opcodes (after the 0xfd prefix)
+ */
+export const SIMD = {
+  v128_load: 0x00,
+  v128_store: 0x0b,
+  i8x16_shuffle: 0x0d,
+  i32x4_splat: 0x11,
+  i32x4_extract_lane: 0x1b,
+  i64x2_extract_lane: 0x1d,
+  v128_xor: 0x51,
+  i32x4_mul: 0xb5,
+} as const;
+
+const SIMD_PREFIX = 0xfd;
+const EMPTY_BLOCK = 0x40;
+
+export function unsignedLEB(value: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = value % 128;
+    value = Math.floor(value / 128);
+    if (value > 0) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (value > 0);
+  return bytes;
+}
+
+export function signedLEB(value: bigint): number[] {
+  const bytes: number[] = [];
+  for (;;) {
+    const byte = Number(value & 0x7fn);
+    value >>= 7n;
+    const signBit = (byte & 0x40) !== 0;
+    if ((value === 0n && !signBit) || (value === -1n && signBit)) {
+      bytes.push(byte);
+      return bytes;
+    }
+    bytes.push(byte | 0x80);
+  }
+}
+
+function encodeName(name: string): number[] {
+  const bytes = [...new TextEncoder().encode(name)];
+  return [...unsignedLEB(bytes.length), ...bytes];
+}
+
+function encodeVector(items: number[][]): number[] {
+  return [...unsignedLEB(items.length), ...items.flat()];
+}
+
+/**
+ * One function: its signature, locals and body
+ * Instructions are appended in stack-machine order; each helper returns `this` to chain
+ */
+export class WasmFunction {
+  readonly params: ValueType[];
+  readonly results: ValueType[];
+  private locals: ValueType[] = [];
+  private body: number[] = [];
+
+  constructor(params: ValueType[], results: ValueType[] = []) {
+    this.params = params;
+    this.results = results;
+  }
+
+  /** Declare a local; returns its index (parameters come first) */
+  local(type: ValueType): number {
+    this.locals.push(type);
+    return this.params.length + this.locals.length - 1;
+  }
+
+  emit(...bytes: number[]): this {
+    this.body.push(...bytes);
+    return this;
+  }
+
+  get(index: number): this {
+    return this.emit(OP.local_get, ...unsignedLEB(index));
+  }
+
+  set(index: number): this {
+    return this.emit(OP.local_set, ...unsignedLEB(index));
+  }
+
+  tee(index: number): this {
+    return this.emit(OP.local_tee, ...unsignedLEB(index));
+  }
+
+  getGlobal(index: number): this {
+    return this.emit(OP.global_get, ...unsignedLEB(index));
+  }
+
+  setGlobal(index: number): this {
+    return this.emit(OP.global_set, ...unsignedLEB(index));
+  }
+
+  /** i32.const (values above 2^31 are taken as their unsigned bit pattern) */
+  i32(value: number): this {
+    return this.emit(OP.i32_const, ...signedLEB(BigInt(value | 0)));
+  }
+
+  /** i64.const (values above 2^63 are taken as their unsigned bit pattern) */
+  i64(value: bigint): this {
+    return this.emit(OP.i64_const, ...signedLEB(BigInt.asIntN(64, value)));
+  }
+
+  op(code: number): this {
+    return this.emit(code);
+  }
+
+  /** Load or store with a constant byte offset (alignment hint: log2 of the access size) */
+  memory(code: number, offset: number, alignLog2: number): this {
+    return this.emit(code, ...unsignedLEB(alignLog2), ...unsignedLEB(offset));
+  }
+
+  simd(code: number, ...immediates: number[]): this {
+    return this.emit(SIMD_PREFIX, ...unsignedLEB(code), ...immediates);
+  }
+
+  v128Load(offset = 0): this {
+    return this.simd(SIMD.v128_load, ...unsignedLEB(4), ...unsignedLEB(offset));
+  }
+
+  v128Store(offset = 0): this {
+    return this.simd(SIMD.v128_store, ...unsignedLEB(4), ...unsignedLEB(offset));
+  }
+
+  block(): this {
+    return this.emit(OP.block, EMPTY_BLOCK);
+  }
+
+  loop(): this {
+    return this.emit(OP.loop, EMPTY_BLOCK);
+  }
+
+  if(): this {
+    return this.emit(OP.if, EMPTY_BLOCK);
+  }
+
+  end(): this {
+    return this.emit(OP.end);
+  }
+
+  /** Branch to the enclosing block/loop `depth` levels out (0 = innermost) */
+  br(depth: number): this {
+    return this.emit(OP.br, ...unsignedLEB(depth));
+  }
+
+  brIf(depth: number): this {
+    return this.emit(OP.br_if, ...unsignedLEB(depth));
+  }
+
+  call(functionIndex: number): this {
+    return this.emit(OP.call, ...unsignedLEB(functionIndex));
+  }
+
+  encodeType(): number[] {
+    return [
+      0x60,
+      ...encodeVector(this.params.map(type => [VALUE_TYPES[type]])),
+      ...encodeVector(this.results.map(type => [VALUE_TYPES[type]])),
+    ];
+  }
+
+  encodeBody(): number[] {
+    // Runs of the same type share one declaration
+    const runs: number[][] = [];
+    for (let i = 0; i < this.locals.length; ) {
+      let count = 1;
+      while (this.locals[i + count] === this.locals[i]) {
+        count++;
+      }
+      runs.push([...unsignedLEB(count), VALUE_TYPES[this.locals[i]]]);
+      i += count;
+    }
+
+    const code = [...encodeVector(runs), ...this.body, OP.end];
+    return [...unsignedLEB(code.length), ...code];
+  }
+}
+
+export interface MemoryImport {
+  module: string;
+  name: string;
+  minimumPages: number;
+  maximumPages?: number;  // Required for shared memory
+  shared: boolean;
+}
+
+/**
+ * A module: one imported memory, i32 globals, functions and their exports
+ */
+export class WasmModule {
+  private memoryImport?: MemoryImport;
+  private globals = 0;
+  private functions: WasmFunction[] = [];
+  private exports: { name: string; index: number }[] = [];
+
+  importMemory(memory: MemoryImport): void {
+    if (memory.shared && memory.maximumPages === undefined) {
+      throw new Error('A shared memory needs a maximum size');
+    }
+    this.memoryImport = memory;
+  }
+
+  /** Add a mutable i32 global (initially 0); returns its index */
+  addGlobal(): number {
+    return this.globals++;
+  }
+
+  /** Add a function, exported under `exportName` if given; returns its index */
+  addFunction(fn: WasmFunction, exportName?: string): number {
+    const index = this.functions.length;
+    this.functions.push(fn);
+    if (exportName) {
+      this.exports.push({ name: exportName, index });
+    }
+    return index;
+  }
+
+  encode(): Uint8Array<ArrayBuffer> {
+    const section = (id: number, contents: number[]) => [id, ...unsignedLEB(contents.length), ...contents];
+    const bytes = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+
+    bytes.push(...section(1, encodeVector(this.functions.map(fn => fn.encodeType()))));
+
+    if (this.memoryImport) {
+      const { module, name, minimumPages, maximumPages, shared } = this.memoryImport;
+      const limits = maximumPages === undefined
+        ? [0x00, ...unsignedLEB(minimumPages)]
+        : [shared ? 0x03 : 0x01, ...unsignedLEB(minimumPages), ...unsignedLEB(maximumPages)];
+      bytes.push(...section(2, encodeVector([[...encodeName(module), ...encodeName(name), 0x02, ...limits]])));
+    }
+
+    bytes.push(...section(3, encodeVector(this.functions.map((_, index) => unsignedLEB(index)))));
+
+    if (this.globals > 0) {
+      const global = [VALUE_TYPES.i32, 0x01, OP.i32_const, 0x00, OP.end];
+      bytes.push(...section(6, encodeVector(Array.from({ length: this.globals }, () => global))));
+    }
+
+    bytes.push(...section(7, encodeVector(this.exports.map(({ name, index }) => [...encodeName(name), 0x00, ...unsignedLEB(index)]))));
+    bytes.push(...section(10, encodeVector(this.functions.map(fn => fn.encodeBody()))));
+
+    return new Uint8Array(bytes);
+  }
+}
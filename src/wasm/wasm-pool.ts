@@ -0,0 +1,303 @@
+/**
+ * WASM Worker Pool
+ * Mines on the CPU with the WebAssembly Ethash module (ethash-wasm.ts), one worker per thread:
+ * builds each epoch's dataset in parallel, splits every nonce range across the workers, and
+ * keeps a hashrate per thread.
+ *
+ * With shared memory (cross-origin isolated pages, Node) all workers hash from one copy of the
+ * dataset; otherwise every worker holds its own. When the copies don't fit maxDatasetBytes, or
+ * the memory can't be allocated, the epoch runs in light mode: dataset items are derived from the
+ * cache per hash, about a hundred times slower but in a few tens of MB.
+ */
+
+import { createEthashMemory, isOutOfMemory, layoutEthashMemory, sharedMemorySupported, EthashMemoryLayout } from './ethash-wasm';
+import { HashimotoRangeResult } from '../gpu/hashimoto';
+import { ACCESSES, HASH_BYTES } from '../crypto/ethash-sizes';
+import { WasmWorkerEvent, WasmWorkerLike, WasmWorkerRequest } from './wasm-protocol';
+
+// Dataset items per build request (4 MB)
+const BUILD_CHUNK_ITEMS = 65536;
+const PROGRESS_INTERVAL_MS = 5000;
+
+export interface WasmPoolOptions {
+  threads: number;          // Workers hashing in parallel
+  sharedMemory: boolean;    // One dataset for all workers (needs SharedArrayBuffer)
+  maxDatasetBytes: number;  // Full mode up to this much dataset memory (all copies); light mode beyond
+  createWorker: () => WasmWorkerLike;
+}
+
+export const DEFAULT_WASM_POOL_OPTIONS: WasmPoolOptions = {
+  threads: globalThis.navigator?.hardwareConcurrency ?? 4,
+  sharedMemory: sharedMemorySupported(),
+  maxDatasetBytes: 4 * 1024 ** 3,  // What fits in a wasm32 memory; real DAGs are ~1-4 GB
+  createWorker: () => new Worker(new URL('./wasm-worker.ts', import.meta.url), { type: 'module' }),
+};
+
+/**
+ * An epoch loaded into every worker
+ */
+export interface WasmEpoch {
+  readonly id: number;
+  readonly layout: EthashMemoryLayout;
+  readonly memory?: WebAssembly.Memory;  // Shared memory (each worker has its own otherwise)
+}
+
+interface PoolWorker {
+  worker: WasmWorkerLike;
+  pending: Map<number, { resolve: (event: WasmWorkerEvent) => void; reject: (error: Error) => void }>;
+  hashrate: number;  // Hashes per second of busy time, last search
+  crashed?: Error;   // Why the worker is gone, once it is
+}
+
+export class WasmWorkerPool {
+  private options: WasmPoolOptions;
+  private workers: PoolWorker[];
+  private nextId = 0;
+  private terminated = false;
+
+  constructor(options: Partial<WasmPoolOptions> = {}) {
+    this.options = { ...DEFAULT_WASM_POOL_OPTIONS, ...options };
+    if (!Number.isInteger(this.options.threads) || this.options.threads < 1) {
+      throw new Error(`threads must be a whole number of at least 1, got ${this.options.threads}`);
+    }
+
+    this.workers = Array.from({ length: this.options.threads }, () => {
+      const entry: PoolWorker = { worker: this.options.createWorker(), pending: new Map(), hashrate: 0 };
+      entry.worker.onmessage = (event) => this.handleEvent(entry, event.data);
+      entry.worker.onerror = (event) => this.handleCrash(entry, event.message);
+      return entry;
+    });
+  }
+
+  get threads(): number {
+    return this.workers.length;
+  }
+
+  get sharedMemory(): boolean {
+    return this.options.sharedMemory;
+  }
+
+  /**
+   * Load an epoch into every worker: the full dataset if it fits, light mode otherwise
+   *
+   * @param cache Epoch cache
+   * @param datasetBytes Epoch dataset size
+   * @param accesses Dataset pages read per hash
+   */
+  async setupEpoch(cache: Uint32Array, datasetBytes: number, accesses = ACCESSES): Promise<WasmEpoch> {
+    const copies = this.options.sharedMemory ? 1 : this.threads;
+    if (datasetBytes * copies <= this.options.maxDatasetBytes) {
+      try {
+        return await this.loadEpoch(cache, datasetBytes, accesses, true);
+      } catch (error) {
+        if (!isOutOfMemory(error)) {
+          throw error;
+        }
+        console.warn(`⚠️ ${(error as Error).message}: hashing in light mode (dataset items derived from the cache)`);
+      }
+    } else {
+      console.warn(`⚠️ ${copies} × ${(datasetBytes / 1024 ** 2).toFixed(0)} MB of dataset is over maxDatasetBytes: hashing in light mode`);
+    }
+    return this.loadEpoch(cache, datasetBytes, accesses, false);
+  }
+
+  /**
+   * Hash `count` nonces from startNonce (wrapping at 2^64), split across the workers
+   * A fired signal stops every worker at its next chunk and resolves with aborted set
+   */
+  async search(
+    epoch: WasmEpoch,
+    headerHash: Uint8Array,
+    startNonce: bigint,
+    count: number,
+    target: bigint,
+    signal?: AbortSignal
+  ): Promise<HashimotoRangeResult> {
+    const startTime = performance.now();
+    if (signal?.aborted) {
+      return { winners: [], dropped: 0, timeMs: 0, aborted: true };
+    }
+
+    const share = Math.ceil(count / this.threads);
+    const searches = this.workers
+      .map((entry, i) => ({ entry, offset: i * share, count: Math.min(share, count - i * share), id: ++this.nextId }))
+      .filter(part => part.count > 0);
+
+    const abort = () => {
+      for (const { entry, id } of searches) {
+        entry.worker.postMessage({ type: 'abort', search: id });
+      }
+    };
+    signal?.addEventListener('abort', abort);
+
+    let results: Extract<WasmWorkerEvent, { type: 'found' }>[];
+    try {
+      results = await Promise.all(searches.map(({ entry, offset, count: size, id }) => this.call<'found'>(entry, {
+        type: 'search',
+        id,
+        epochId: epoch.id,
+        headerHash,
+        startNonce: BigInt.asUintN(64, startNonce + BigInt(offset)),
+        count: size,
+        target,
+      })));
+    } finally {
+      signal?.removeEventListener('abort', abort);
+    }
+
+    searches.forEach(({ entry }, i) => {
+      if (!results[i].aborted && results[i].timeMs > 0) {
+        entry.hashrate = (results[i].hashes / results[i].timeMs) * 1000;
+      }
+    });
+
+    const timeMs = performance.now() - startTime;
+    if (signal?.aborted || results.some(result => result.aborted)) {
+      return { winners: [], dropped: 0, timeMs, aborted: true };
+    }
+    return { winners: results.flatMap(result => result.winners), dropped: 0, timeMs };
+  }
+
+  /**
+   * Drop an epoch from every worker
+   */
+  release(epoch: WasmEpoch): void {
+    if (this.terminated) {
+      return;
+    }
+    for (const { worker } of this.workers) {
+      worker.postMessage({ type: 'release', epochId: epoch.id });
+    }
+  }
+
+  /**
+   * Each worker's hashrate (hashes per second while hashing, over its last search)
+   */
+  threadHashrates(): number[] {
+    return this.workers.map(entry => entry.hashrate);
+  }
+
+  /**
+   * End every worker; pending calls fail and the pool can't be used afterwards
+   */
+  terminate(): void {
+    this.terminated = true;
+    for (const entry of this.workers) {
+      entry.worker.terminate();
+      for (const { reject } of entry.pending.values()) {
+        reject(new Error('WASM worker pool terminated'));
+      }
+      entry.pending.clear();
+    }
+  }
+
+  private async loadEpoch(cache: Uint32Array, datasetBytes: number, accesses: number, full: boolean): Promise<WasmEpoch> {
+    const { sharedMemory } = this.options;
+    const layout = layoutEthashMemory(cache.byteLength, datasetBytes, full, sharedMemory ? this.threads : 1);
+
+    let memory: WebAssembly.Memory | undefined;
+    if (sharedMemory) {
+      memory = createEthashMemory(layout, true);
+      new Uint32Array(memory.buffer, layout.cacheOffset, cache.length).set(cache);
+    }
+    const epoch: WasmEpoch = { id: ++this.nextId, layout, memory };
+
+    try {
+      await Promise.all(this.workers.map((entry, slot) => this.call(entry, {
+        type: 'setup',
+        id: ++this.nextId,
+        epochId: epoch.id,
+        layout,
+        slot: sharedMemory ? slot : 0,
+        accesses,
+        memory,
+        cache: memory ? undefined : cache,
+      })));
+
+      if (full) {
+        await this.buildDataset(epoch);
+      }
+    } catch (error) {
+      this.release(epoch);
+      throw error;
+    }
+    return epoch;
+  }
+
+  /**
+   * Compute the dataset in chunks, each worker taking the next one as it finishes
+   * Without shared memory, each chunk is copied to the workers that didn't build it
+   */
+  private async buildDataset(epoch: WasmEpoch): Promise<void> {
+    const items = epoch.layout.datasetBytes / HASH_BYTES;
+    const startTime = performance.now();
+    let lastProgress = startTime;
+    let next = 0;
+    let built = 0;
+
+    const work = async (entry: PoolWorker) => {
+      while (next < items) {
+        const start = next;
+        const end = Math.min(items, start + BUILD_CHUNK_ITEMS);
+        next = end;
+
+        const { items: copy } = await this.call<'built'>(entry, { type: 'build', id: ++this.nextId, epochId: epoch.id, start, end });
+        if (copy) {
+          await Promise.all(this.workers
+            .filter(other => other !== entry)
+            .map(other => this.call(other, { type: 'load', id: ++this.nextId, epochId: epoch.id, start, items: copy })));
+        }
+
+        built += end - start;
+        if (performance.now() - lastProgress > PROGRESS_INTERVAL_MS) {
+          lastProgress = performance.now();
+          console.log(`  Dataset: ${((built / items) * 100).toFixed(1)}% (${((lastProgress - startTime) / 1000).toFixed(0)}s)`);
+        }
+      }
+    };
+
+    await Promise.all(this.workers.map(work));
+  }
+
+  private call<T extends WasmWorkerEvent['type']>(entry: PoolWorker, request: Extract<WasmWorkerRequest, { id: number }>): Promise<Extract<WasmWorkerEvent, { type: T }>> {
+    if (this.terminated) {
+      return Promise.reject(new Error('WASM worker pool terminated'));
+    }
+    if (entry.crashed) {
+      return Promise.reject(entry.crashed);
+    }
+    return new Promise((resolve, reject) => {
+      entry.pending.set(request.id, { resolve: resolve as (event: WasmWorkerEvent) => void, reject });
+      entry.worker.postMessage(request);
+    });
+  }
+
+  /**
+   * A worker died: fail its pending calls (and later ones) so the error reaches the caller
+   */
+  private handleCrash(entry: PoolWorker, message: string): void {
+    if (this.terminated || entry.crashed) {
+      return;
+    }
+    entry.crashed = new Error(message || 'WASM worker crashed');
+    console.error(entry.crashed.message);
+    for (const { reject } of entry.pending.values()) {
+      reject(entry.crashed);
+    }
+    entry.pending.clear();
+  }
+
+  private handleEvent(entry: PoolWorker, event: WasmWorkerEvent): void {
+    const pending = entry.pending.get(event.id);
+    if (!pending) {
+      return;
+    }
+    entry.pending.delete(event.id);
+
+    if (event.type === 'error') {
+      pending.reject(new Error(event.message));
+    } else {
+      pending.resolve(event);
+    }
+  }
+}
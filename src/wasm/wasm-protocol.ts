@@ -0,0 +1,47 @@
+/**
+ * WASM Worker Protocol
+ * Messages between WasmWorkerPool and its workers (wasm-worker.ts, a Node thread, or an
+ * InlineWasmWorker). Every request but abort and release gets exactly one reply with its id.
+ *
+ * With shared memory the pool allocates each epoch's memory (cache and dataset) and every worker
+ * hashes from it; without, each worker has its own copy: the pool sends it the cache, and the
+ * dataset items the other workers built.
+ */
+
+import type { HashimotoWinner } from '../gpu/hashimoto';
+import type { EthashMemoryLayout } from './ethash-wasm';
+
+/**
+ * Pool → worker
+ */
+export type WasmWorkerRequest =
+  // Instantiate for an epoch: in `memory` (shared, cache already written) or a memory of its own holding `cache`
+  | { type: 'setup'; id: number; epochId: number; layout: EthashMemoryLayout; slot: number; accesses: number; memory?: WebAssembly.Memory; cache?: Uint32Array }
+  // Compute dataset items [start, end); without shared memory the reply carries them for the other workers
+  | { type: 'build'; id: number; epochId: number; start: number; end: number }
+  // Dataset items another worker built (own memory only)
+  | { type: 'load'; id: number; epochId: number; start: number; items: Uint32Array }
+  | { type: 'search'; id: number; epochId: number; headerHash: Uint8Array; startNonce: bigint; count: number; target: bigint }
+  | { type: 'abort'; search: number }      // Stop a search at its next chunk (it replies aborted)
+  | { type: 'release'; epochId: number };  // Drop the epoch's instance (and own memory)
+
+/**
+ * Worker → pool
+ */
+export type WasmWorkerEvent =
+  | { type: 'ready'; id: number }
+  | { type: 'built'; id: number; items?: Uint32Array }
+  | { type: 'loaded'; id: number }
+  | { type: 'found'; id: number; winners: HashimotoWinner[]; hashes: number; timeMs: number; aborted: boolean }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * The parts of Worker the pool uses (lets Node threads and tests substitute their own)
+ */
+export interface WasmWorkerLike {
+  postMessage(message: WasmWorkerRequest): void;
+  onmessage: ((event: MessageEvent<WasmWorkerEvent>) => void) | null;
+  // The worker crashed or exited: it won't reply to anything again
+  onerror: ((event: ErrorEvent) => void) | null;
+  terminate(): void;
+}
@@ -0,0 +1,189 @@
+/**
+ * WASM Worker Host
+ * One worker's side of the pool protocol (wasm-protocol.ts): an EthashWasm instance per epoch,
+ * dataset building and nonce searches. The same host runs in a browser worker (wasm-worker.ts),
+ * a Node thread (wasm-worker-node.ts) or on the calling thread (InlineWasmWorker).
+ *
+ * Searches run in chunks of about CHUNK_MS, yielding to the event loop in between so aborts
+ * (and the next batch in flight) get through.
+ */
+
+import { EthashWasm, createEthashMemory } from './ethash-wasm';
+import { HashimotoWinner } from '../gpu/hashimoto';
+import { HASH_BYTES } from '../crypto/ethash-sizes';
+import { WasmWorkerEvent, WasmWorkerLike, WasmWorkerRequest } from './wasm-protocol';
+
+const CHUNK_MS = 10;
+
+interface HostedEpoch {
+  wasm: EthashWasm;
+  ownMemory: boolean;  // Not shared: built items go back to the pool for the other workers
+}
+
+export class WasmWorkerHost {
+  private post: (event: WasmWorkerEvent, transfer?: Transferable[]) => void;
+  private epochs = new Map<number, HostedEpoch>();
+  private running = new Set<number>();
+  private aborted = new Set<number>();
+  private chunkSize = 1;  // Nonces per module call, adjusted towards CHUNK_MS
+  private channel?: MessageChannel;
+  private yields: (() => void)[] = [];
+  private closed = false;
+
+  /**
+   * @param post Sends an event to the pool (with buffers to transfer rather than copy)
+   */
+  constructor(post: (event: WasmWorkerEvent, transfer?: Transferable[]) => void) {
+    this.post = post;
+  }
+
+  async handle(request: WasmWorkerRequest): Promise<void> {
+    try {
+      switch (request.type) {
+        case 'setup': {
+          const memory = request.memory ?? createEthashMemory(request.layout, false);
+          const wasm = await EthashWasm.create(memory, request.layout, request.slot, request.accesses);
+          if (request.cache) {
+            wasm.writeCache(request.cache);
+          }
+          this.epochs.set(request.epochId, { wasm, ownMemory: !request.memory });
+          this.post({ type: 'ready', id: request.id });
+          break;
+        }
+
+        case 'build': {
+          const { wasm, ownMemory } = this.epoch(request.epochId);
+          wasm.buildItems(request.start, request.end);
+          if (ownMemory) {
+            const items = wasm.datasetItems(request.start, request.end).slice();
+            this.post({ type: 'built', id: request.id, items }, [items.buffer]);
+          } else {
+            this.post({ type: 'built', id: request.id });
+          }
+          break;
+        }
+
+        case 'load': {
+          const { wasm } = this.epoch(request.epochId);
+          wasm.datasetItems(request.start, request.start + request.items.byteLength / HASH_BYTES).set(request.items);
+          this.post({ type: 'loaded', id: request.id });
+          break;
+        }
+
+        case 'search':
+          await this.search(request);
+          break;
+
+        case 'abort':
+          if (this.running.has(request.search)) {
+            this.aborted.add(request.search);
+          }
+          break;
+
+        case 'release':
+          this.epochs.delete(request.epochId);
+          break;
+      }
+    } catch (error) {
+      if ('id' in request) {
+        this.post({ type: 'error', id: request.id, message: (error as Error).message });
+      } else {
+        console.error(`WASM worker: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Stop: searches in progress end (as aborted) at their next chunk
+   */
+  close(): void {
+    this.closed = true;
+    this.channel?.port1.close();
+    this.channel?.port2.close();
+    for (const resume of this.yields.splice(0)) {
+      resume();
+    }
+    this.epochs.clear();
+  }
+
+  private epoch(epochId: number): HostedEpoch {
+    const epoch = this.epochs.get(epochId);
+    if (!epoch) {
+      throw new Error(`Epoch ${epochId} isn't set up in this worker`);
+    }
+    return epoch;
+  }
+
+  private async search(request: Extract<WasmWorkerRequest, { type: 'search' }>): Promise<void> {
+    const { id, headerHash, startNonce, count, target } = request;
+    const { wasm } = this.epoch(request.epochId);
+    const winners: HashimotoWinner[] = [];
+    let done = 0;
+    let busyMs = 0;
+
+    this.running.add(id);
+    try {
+      while (done < count && !this.aborted.has(id) && !this.closed) {
+        const size = Math.min(this.chunkSize, count - done);
+        const chunkStart = performance.now();
+        winners.push(...wasm.search(headerHash, BigInt.asUintN(64, startNonce + BigInt(done)), size, target));
+        const elapsed = performance.now() - chunkStart;
+        busyMs += elapsed;
+        done += size;
+
+        // At most 4x per step: the first chunks are too short to time well
+        this.chunkSize = Math.max(1, Math.min(size * 4, Math.round((size * CHUNK_MS) / Math.max(elapsed, 0.01))));
+
+        if (done < count) {
+          await this.yieldToEventLoop();
+        }
+      }
+    } finally {
+      this.running.delete(id);
+      this.aborted.delete(id);
+    }
+
+    const aborted = done < count;
+    this.post({ type: 'found', id, winners: aborted ? [] : winners, hashes: done, timeMs: busyMs, aborted });
+  }
+
+  /**
+   * Let queued messages run (setTimeout would be clamped to 4 ms once nested)
+   * Node drains a MessagePort's queue in one go, so there it's setImmediate (after I/O and timers)
+   */
+  private yieldToEventLoop(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    if (typeof setImmediate === 'function') {
+      return new Promise(resolve => setImmediate(resolve));
+    }
+    if (!this.channel) {
+      this.channel = new MessageChannel();
+      this.channel.port1.onmessage = () => this.yields.shift()?.();
+    }
+    return new Promise(resolve => {
+      this.yields.push(resolve);
+      this.channel!.port2.postMessage(null);
+    });
+  }
+}
+
+/**
+ * A worker that runs its host on the calling thread
+ * For tests, and engines without Worker; hashes as one thread that shares the event loop
+ */
+export class InlineWasmWorker implements WasmWorkerLike {
+  onmessage: ((event: MessageEvent<WasmWorkerEvent>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;  // The host replies with errors instead
+  private host = new WasmWorkerHost(event => setTimeout(() => this.onmessage?.({ data: event } as MessageEvent<WasmWorkerEvent>), 0));
+
+  postMessage(message: WasmWorkerRequest): void {
+    setTimeout(() => this.host.handle(message), 0);
+  }
+
+  terminate(): void {
+    this.host.close();
+    this.onmessage = null;
+  }
+}
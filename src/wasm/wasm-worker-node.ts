@@ -0,0 +1,47 @@
+/**
+ * WASM workers on Node threads
+ * Node only - browsers use wasm-worker.ts. A thread runs a script that calls
+ * serveWasmWorkerThread() (the CLI runs its own bundle in each thread, see cli/main.ts).
+ */
+
+import { Worker, parentPort } from 'node:worker_threads';
+import { WasmWorkerHost } from './wasm-worker-host';
+import type { WasmWorkerEvent, WasmWorkerLike, WasmWorkerRequest } from './wasm-protocol';
+
+export class NodeWasmWorker implements WasmWorkerLike {
+  onmessage: ((event: MessageEvent<WasmWorkerEvent>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  private worker: Worker;
+
+  /**
+   * @param script Module to run in the thread (a file path or file: URL)
+   */
+  constructor(script: string | URL) {
+    this.worker = new Worker(script);
+    this.worker.on('message', (data: WasmWorkerEvent) => this.onmessage?.({ data } as MessageEvent<WasmWorkerEvent>));
+    this.worker.on('error', (error) => this.onerror?.({ message: `WASM worker thread: ${error.message}` } as ErrorEvent));
+    this.worker.on('exit', (code) => this.onerror?.({ message: `WASM worker thread exited with code ${code}` } as ErrorEvent));
+  }
+
+  postMessage(message: WasmWorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+
+  terminate(): void {
+    this.onmessage = null;
+    this.onerror = null;
+    void this.worker.terminate();
+  }
+}
+
+/**
+ * Serve the pool protocol on this thread's parent port
+ */
+export function serveWasmWorkerThread(): void {
+  if (!parentPort) {
+    throw new Error('serveWasmWorkerThread must run in a worker thread');
+  }
+  const port = parentPort;
+  const host = new WasmWorkerHost((event, transfer = []) => port.postMessage(event, transfer as ArrayBuffer[]));
+  port.on('message', (request: WasmWorkerRequest) => host.handle(request));
+}
@@ -0,0 +1,13 @@
+/**
+ * WASM Worker
+ * One of WasmWorkerPool's hashing threads in the browser; see wasm-worker-host.ts
+ */
+
+import { WasmWorkerHost } from './wasm-worker-host';
+import type { WasmWorkerRequest } from './wasm-protocol';
+
+const host = new WasmWorkerHost((event, transfer = []) => self.postMessage(event, { transfer }));
+
+self.onmessage = (event: MessageEvent<WasmWorkerRequest>) => {
+  host.handle(event.data);
+};
@@ -7,6 +7,12 @@ export default defineConfig({
     port: 5173,
     host: true,
   },
+  worker: {
+    format: 'es',  // The mining worker is a module worker that imports WGSL via ?raw
+  },
+  ssr: {
+    noExternal: ['js-sha3'],  // CommonJS without named exports for Node's ESM loader: bundle it into the CLI
+  },
   build: {
     target: 'ES2020',
     outDir: 'dist',
@@ -23,7 +29,8 @@ export default defineConfig({
   plugins: [
     {
       name: 'standalone-bundle',
-      apply: 'build',
+      // Browser builds only: the CLI build (build:cli) has no HTML to inline
+      apply: (_config, { command, isSsrBuild }) => command === 'build' && !isSsrBuild,
       writeBundle() {
         // After build, create standalone.html by inlining the bundle (if it exists)
         const distDir = resolve(__dirname, 'dist');